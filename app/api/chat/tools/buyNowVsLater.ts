@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { CatalogProduct } from '@/lib/insurance/catalog/schema';
+import { findProduct, listProducts } from '@/lib/insurance/catalog/repository';
+import {
+  CoverageCap,
+  calculateSmartPolicyTerm,
+  generateInsuranceProducts,
+  hasMinimumRequiredFields,
+  resolveCoverageAmount,
+  resolveOccupationClass
+} from './showLifeInsuranceRecommendations';
+import { loadNeedsContext } from './coverageNeeds';
+import { dobForAge } from './premiumWhatIf';
+
+// Schema for the tool
+export const buyNowVsLaterSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    yearsAhead: {
+      type: 'number',
+      minimum: 1,
+      maximum: 10,
+      description: 'How many years of waiting to project, one point per year (default 10)'
+    },
+    product: {
+      type: 'string',
+      description: 'Plan to project, by insurer or plan name; defaults to the plan cheapest for the user today'
+    },
+    coverageAmount: {
+      type: 'number',
+      minimum: 100000,
+      description: 'Sum assured; defaults to the user\'s preference or needs-based cover'
+    }
+  },
+  additionalProperties: false,
+  description: 'Project how the premium for the same cover grows if the user waits 1-10 years to buy'
+});
+
+// Zod schema for validation
+const buyNowVsLaterZodSchema = z.object({
+  yearsAhead: z.number().int().min(1).max(10).default(10),
+  product: z.string().trim().min(1).optional(),
+  coverageAmount: z.number().min(100000).optional()
+});
+
+export interface BuyLaterPoint {
+  // Years of waiting; 0 is buying today
+  delayYears: number;
+  age: number;
+  available: boolean;
+  // Why the plan cannot be bought at this age
+  reasons?: string[];
+  annualPremium?: number;
+  monthlyPremium?: number;
+  // Shorter when buying later, so cover still ends at the same age
+  policyTerm?: number;
+  // Priced by the engine for a term the plan does not list, so the premium
+  // is indicative until the insurer confirms that term
+  indicative?: boolean;
+  // Annual premium over the whole term
+  totalOutgo?: number;
+  // Against buying today
+  premiumIncreasePercent?: number;
+  extraPerYear?: number;
+  // Premiums not paid while waiting
+  premiumsSkipped?: number;
+  // Years of the higher premium it takes to use up what was skipped; null
+  // when the premium does not go up
+  breakEvenYears?: number | null;
+  breakEvenAge?: number | null;
+  // Total outgo against buying today; positive when waiting costs more
+  totalDifference?: number;
+}
+
+export interface BuyNowVsLaterResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  productId?: string;
+  productName?: string;
+  company?: string;
+  coverageAmount?: number;
+  // Set when the default cover was cut to the largest insurable amount
+  coverageCap?: CoverageCap;
+  // Age the cover ends at in every projection
+  coverToAge?: number;
+  points?: BuyLaterPoint[];
+  summary?: string;
+  missingFields?: string[];
+  error?: string;
+}
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+// Compare each later start with buying today. Waiting saves the premiums for
+// the years waited; the higher premium then eats into that saving each year
+// until it is used up at the break-even point.
+export function compareWithToday(points: BuyLaterPoint[]): BuyLaterPoint[] {
+  const today = points[0];
+  if (!today?.available) return points;
+
+  return points.map(point => {
+    if (point.delayYears === 0 || !point.available) return point;
+
+    const extraPerYear = point.annualPremium! - today.annualPremium!;
+    const premiumsSkipped = today.annualPremium! * point.delayYears;
+    const breakEvenYears = extraPerYear > 0 ? Math.round((premiumsSkipped / extraPerYear) * 10) / 10 : null;
+
+    return {
+      ...point,
+      premiumIncreasePercent: Math.round((extraPerYear / today.annualPremium!) * 1000) / 10,
+      extraPerYear,
+      premiumsSkipped,
+      breakEvenYears,
+      breakEvenAge: breakEvenYears !== null ? Math.round((point.age + breakEvenYears) * 10) / 10 : null,
+      totalDifference: point.totalOutgo! - today.totalOutgo!
+    };
+  });
+}
+
+
+// The plan as offered for exactly the given term, so quoting does not snap to
+// the closest term the catalog lists
+function withExactTerm(product: CatalogProduct, term: number): CatalogProduct {
+  return { ...product, termOptions: [term] };
+}
+
+function summarise(points: BuyLaterPoint[], coverToAge: number): string {
+  const today = points[0];
+  if (!today.available) {
+    return `This plan cannot be bought at ${today.age}: ${today.reasons?.join('; ')}.`;
+  }
+
+  const last = [...points].reverse().find(point => point.delayYears > 0 && point.available);
+  if (!last) {
+    return `This plan is only available if bought now, at ${formatRupees(today.annualPremium!)} a year.`;
+  }
+
+  const parts = [
+    `Waiting ${last.delayYears} year${last.delayYears === 1 ? '' : 's'} raises the premium ${last.premiumIncreasePercent}% ` +
+      `(${formatRupees(today.annualPremium!)} to ${formatRupees(last.annualPremium!)} a year).`
+  ];
+
+  if (last.breakEvenAge !== null && last.breakEvenAge! < coverToAge) {
+    parts.push(
+      `The ${formatRupees(last.premiumsSkipped!)} saved while waiting is used up by age ${Math.ceil(last.breakEvenAge!)}, ` +
+      `so buying now costs ${formatRupees(Math.max(0, last.totalDifference!))} less over the cover - and you are covered in the meantime.`
+    );
+  } else {
+    parts.push('Waiting pays less in total, but leaves you uncovered in the meantime.');
+  }
+
+  const indicative = points.filter(point => point.available && point.indicative);
+  if (indicative.length > 0) {
+    parts.push(
+      `Premiums for starting at ${indicative.map(point => point.age).join(', ')} are indicative, as the plan does not list the term that ends cover at ${coverToAge} from ${indicative.length === 1 ? 'that age' : 'those ages'}.`
+    );
+  }
+  const unavailable = points.find(point => !point.available);
+  if (unavailable) {
+    parts.push(`The plan is no longer available from age ${unavailable.age}.`);
+  }
+
+  return parts.join(' ');
+}
+
+// Main tool implementation
+export const buyNowVsLaterTool = tool({
+  description: 'Project the premium for the same cover (same sum assured, ending at the same age) if the user buys today or waits 1-10 years, with total outgo and the break-even point where the premiums saved by waiting are used up. Years where the plan does not list the exact remaining term are priced by the engine and flagged as indicative. Use for "should I buy now or later?" or "what if I wait a few years?".',
+  parameters: buyNowVsLaterSchema,
+  execute: async (params): Promise<BuyNowVsLaterResult> => {
+    try {
+      // Validate parameters using Zod
+      const validatedParams = buyNowVsLaterZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const { valid, missing } = hasMinimumRequiredFields(userProfile);
+      if (!valid) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: missing,
+          error: `Please provide your ${missing.join(' and ')} first using the life insurance form.`
+        };
+      }
+
+      const profile = { ...userProfile, occupation_class: resolveOccupationClass(userProfile) };
+      const catalog = await listProducts(supabase, { line: 'term_life' });
+      const defaultCover = validatedParams.coverageAmount
+        ? null
+        : resolveCoverageAmount(profile, await loadNeedsContext(supabase, user.id));
+      const coverageAmount = validatedParams.coverageAmount ?? defaultCover!.coverageAmount;
+
+      const age = ageFromDob(profile.dob);
+      const coverToAge = age + (profile.policy_term || calculateSmartPolicyTerm(profile));
+
+      // The named plan, or else the cheapest one for the user today
+      let product = validatedParams.product ? findProduct(catalog, validatedParams.product) : null;
+      if (validatedParams.product && !product) {
+        return {
+          success: false,
+          status: 'error',
+          error: `No plan matches "${validatedParams.product}". Available plans: ${catalog.map(item => `${item.insurer} ${item.name}`).join(', ')}.`
+        };
+      }
+      if (!product) {
+        // Prefer plans offering today's term exactly, so the projection starts
+        // with a price
+        const offering = catalog.filter(item => item.termOptions.includes(coverToAge - age));
+        const { recommendations } = generateInsuranceProducts(
+          { ...profile, policy_term: coverToAge - age },
+          offering.length > 0 ? offering : catalog,
+          coverageAmount
+        );
+        const cheapest = [...recommendations].sort((a, b) => a.annualPremium - b.annualPremium)[0];
+        product = cheapest ? catalog.find(item => item.id === cheapest.productId) ?? null : null;
+      }
+      if (!product) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'None of our plans can be offered on the current profile, so there is nothing to project.'
+        };
+      }
+
+      // Same health and habits at every age; only age and the term change.
+      // Each start is priced for exactly the term that ends cover at
+      // coverToAge, never the closest term the plan lists, so every total
+      // covers the same years. The engine prices any whole term, so terms the
+      // plan does not list are priced too and flagged as indicative.
+      const points: BuyLaterPoint[] = [];
+      for (let delayYears = 0; delayYears <= validatedParams.yearsAhead; delayYears++) {
+        const entryAge = age + delayYears;
+        const term = coverToAge - entryAge;
+        if (term < 1) {
+          points.push({
+            delayYears,
+            age: entryAge,
+            available: false,
+            reasons: [`Cover to age ${coverToAge} would already have ended`]
+          });
+          continue;
+        }
+
+        const { recommendations, excludedProducts } = generateInsuranceProducts({
+          ...profile,
+          dob: dobForAge(profile.dob, entryAge),
+          policy_term: term
+        }, [withExactTerm(product, term)], coverageAmount);
+        const quote = recommendations[0];
+
+        points.push(quote ? {
+          delayYears,
+          age: entryAge,
+          available: true,
+          annualPremium: quote.annualPremium,
+          monthlyPremium: quote.monthlyPremium,
+          policyTerm: term,
+          indicative: !product.termOptions.includes(term) || undefined,
+          totalOutgo: quote.annualPremium * term
+        } : {
+          delayYears,
+          age: entryAge,
+          available: false,
+          reasons: excludedProducts[0]?.reasons ?? []
+        });
+      }
+
+      const compared = compareWithToday(points);
+
+      return {
+        success: true,
+        status: 'ready',
+        productId: product.id,
+        productName: product.name,
+        company: product.insurer,
+        coverageAmount,
+        coverageCap: defaultCover?.coverageCap,
+        coverToAge,
+        points: compared,
+        summary: summarise(compared, coverToAge)
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[buyNowVsLater] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default buyNowVsLaterTool;
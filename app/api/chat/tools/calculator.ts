@@ -1,5 +1,23 @@
 import { z } from 'zod';
 import { tool, jsonSchema } from 'ai';
+import {
+  DatedCashFlow,
+  cagr,
+  deflate,
+  emi,
+  fv,
+  inflate,
+  irr,
+  npv,
+  pmt,
+  pv,
+  realRate,
+  sip,
+  xirr,
+  xnpv
+} from '@/lib/finance';
+import { EvaluationScope, evaluateExpression } from '@/lib/calculator/evaluate';
+import { formatNumber } from '@/lib/calculator/format';
 
 // Schema for calculator parameters
 export const calculatorSchema = jsonSchema({
@@ -7,12 +25,36 @@ export const calculatorSchema = jsonSchema({
   properties: {
     expression: {
       type: 'string',
-      description: 'The mathematical expression to evaluate. Supports: +, -, *, /, ^, %, (), sqrt(), sin(), cos(), tan(), log(), ln(), abs(), round(), floor(), ceil(), min(), max(), PI, E'
+      description: [
+        'The mathematical expression to evaluate. Supports: +, -, *, /, ^, (), % as percent (15% is 0.15; "x + 18%" adds 18% of x) or modulo between two numbers (10 % 3); 15%(200) is 15% of 200, implicit multiplication (2(3 + 4), 2PI), amounts as spoken or written in India ("2.5 crore", "12 lakh", "50k", "10 thousand", "8 percent", "₹12,50,000"; inside function arguments every comma separates arguments, so write amounts there as ₹25,00,000, 2500000 or 25 lakh, never 25,00,000), sqrt(), sin(), cos(), tan(), log(), ln(), abs(), round(), floor(), ceil(), min(), max(), PI, E.',
+        'Financial functions (rates are decimals or percentages, e.g. 0.08 or 8%):',
+        'emi(principal, annualRate, years) - monthly loan EMI;',
+        'sip(monthlyAmount, annualRate, years) - value of a monthly SIP at the end of the term;',
+        'pmt(rate, nper, pv, fv?, type?), fv(rate, nper, pmt, pv?, type?), pv(rate, nper, pmt, fv?, type?) - spreadsheet conventions: rate per period, money paid out negative, type 1 for payments at the start of each period;',
+        'npv(rate, cf1, cf2, ...) - flows at the end of periods 1, 2, ...; add a today\'s flow outside, e.g. -100000 + npv(0.1, 30000, 40000);',
+        'irr(cf0, cf1, ...) - return per period of flows at periods 0, 1, ...;',
+        'xirr() and xnpv(rate) - annualised over the dated cashFlows parameter;',
+        'cagr(begin, end, years);',
+        'inflate(amount, inflation, years) - future cost of today\'s amount; deflate(amount, inflation, years) - today\'s value of a future amount; realrate(nominal, inflation).'
+      ].join(' ')
     },
     variables: {
       type: 'object',
       additionalProperties: { type: 'number' },
       description: 'Optional variables to use in the expression (e.g., {"x": 5, "y": 10} for expression "x + y")'
+    },
+    cashFlows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'Date in YYYY-MM-DD format' },
+          amount: { type: 'number', description: 'Negative for money paid (premiums, SIP instalments), positive for money received' }
+        },
+        required: ['date', 'amount'],
+        additionalProperties: false
+      },
+      description: 'Dated cash flows, in date order, used by xirr() and xnpv(rate)'
     }
   },
   required: ['expression'],
@@ -23,7 +65,11 @@ export const calculatorSchema = jsonSchema({
 // Zod schema for validation
 const calculatorZodSchema = z.object({
   expression: z.string().min(1, 'Expression cannot be empty'),
-  variables: z.record(z.string(), z.number()).optional()
+  variables: z.record(z.string(), z.number()).optional(),
+  cashFlows: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format.'),
+    amount: z.number()
+  })).optional()
 });
 
 // Type for calculator response
@@ -31,91 +77,71 @@ export interface CalculatorResponse {
   expression: string;
   result: number;
   formattedResult: string;
+  // The result in lakhs and crores, e.g. "1.2 crore"
+  resultInWords?: string;
   steps?: string[];
   error?: string;
 }
 
-// Safe math evaluator - prevents code injection
-function safeMathEval(expression: string, variables?: Record<string, number>): number {
-  // Replace variables in expression
-  let processedExpression = expression;
-  if (variables) {
-    Object.entries(variables).forEach(([key, value]) => {
-      const regex = new RegExp(`\\b${key}\\b`, 'g');
-      processedExpression = processedExpression.replace(regex, value.toString());
-    });
-  }
-
-  // Define allowed math functions
-  const mathFunctions = {
-    sqrt: Math.sqrt,
-    sin: Math.sin,
-    cos: Math.cos,
-    tan: Math.tan,
-    log: Math.log10,
-    ln: Math.log,
-    abs: Math.abs,
-    round: Math.round,
-    floor: Math.floor,
-    ceil: Math.ceil,
-    min: Math.min,
-    max: Math.max,
-    pow: Math.pow,
-    PI: Math.PI,
-    E: Math.E
-  };
-
-  // Replace power operator
-  processedExpression = processedExpression.replace(/\^/g, '**');
-
-  // Replace math functions and constants
-  Object.entries(mathFunctions).forEach(([func, impl]) => {
-    if (typeof impl === 'function') {
-      const regex = new RegExp(`\\b${func}\\s*\\(`, 'g');
-      processedExpression = processedExpression.replace(regex, `mathFunctions.${func}(`);
-    } else {
-      const regex = new RegExp(`\\b${func}\\b`, 'g');
-      processedExpression = processedExpression.replace(regex, impl.toString());
+// Functions and constants available in expressions. Input is parsed and
+// evaluated against these alone; it is never run as JavaScript.
+function calculatorScope(cashFlows: DatedCashFlow[] = []): Omit<EvaluationScope, 'variables'> {
+  return {
+    functions: {
+      sqrt: Math.sqrt,
+      sin: Math.sin,
+      cos: Math.cos,
+      tan: Math.tan,
+      log: Math.log10,
+      ln: Math.log,
+      abs: Math.abs,
+      round: Math.round,
+      floor: Math.floor,
+      ceil: Math.ceil,
+      min: Math.min,
+      max: Math.max,
+      pow: Math.pow,
+      // Financial functions
+      emi,
+      sip,
+      pmt,
+      fv,
+      pv,
+      npv,
+      irr,
+      xirr: (guess?: number) => xirr(cashFlows, guess),
+      xnpv: (rate: number) => xnpv(rate, cashFlows),
+      cagr,
+      inflate,
+      deflate,
+      realrate: realRate
+    },
+    constants: {
+      PI: Math.PI,
+      E: Math.E
     }
-  });
-
-  // Validate expression contains only allowed characters
-  if (!/^[\d\s\+\-\*\/\%\^\(\)\.\,mathFunctions]*$/.test(processedExpression)) {
-    throw new Error('Invalid characters in expression');
-  }
-
-  try {
-    // Create a function that only has access to Math functions
-    const func = new Function('mathFunctions', `return ${processedExpression}`);
-    return func(mathFunctions);
-  } catch (error) {
-    throw new Error('Invalid mathematical expression');
-  }
-}
-
-// Format number for display
-function formatNumber(num: number): string {
-  if (Number.isInteger(num)) {
-    return num.toLocaleString('en-IN');
-  }
-  
-  // For decimals, show up to 6 decimal places, but remove trailing zeros
-  const formatted = num.toFixed(6).replace(/\.?0+$/, '');
-  
-  // Add Indian number formatting
-  const parts = formatted.split('.');
-  parts[0] = parseInt(parts[0]).toLocaleString('en-IN');
-  return parts.join('.');
+  };
 }
 
 export const calculatorTool = tool({
   parameters: calculatorSchema,
-  description: 'Perform complex mathematical calculations including basic arithmetic, trigonometry, logarithms, and more',
+  description: 'Perform complex mathematical calculations including basic arithmetic, trigonometry, logarithms, and financial functions: loan EMIs, SIP values, PMT/FV/PV, NPV, IRR, XIRR over dated cash flows, CAGR and inflation adjustment',
   execute: async (params): Promise<CalculatorResponse> => {
-    const { expression, variables } = params;
+    // Validate parameters using Zod
+    const parsed = calculatorZodSchema.safeParse(params ?? {});
+    if (!parsed.success) {
+      return {
+        expression: '',
+        result: 0,
+        formattedResult: '0',
+        error: `Validation error: ${parsed.error.issues.map(issue => issue.message).join(', ')}`
+      };
+    }
+
+    const { expression, variables, cashFlows } = parsed.data;
     
     try {
-      const result = safeMathEval(expression, variables);
+      const { value: result, steps } = evaluateExpression(expression, { ...calculatorScope(cashFlows), variables });
       
       // Check for invalid results
       if (!isFinite(result)) {
@@ -125,7 +151,9 @@ export const calculatorTool = tool({
       return {
         expression: expression,
         result: result,
-        formattedResult: formatNumber(result)
+        formattedResult: formatNumber(result),
+        resultInWords: formatNumber(result, { words: true }),
+        steps: steps.length > 0 ? steps : undefined
       };
     } catch (error) {
       return {
@@ -0,0 +1,136 @@
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { CityTier, HealthMember, HealthPreferences, healthPreferencesSchema } from '@/lib/insurance/health/schema';
+import { cityTier, recommendedSumInsured } from '@/lib/insurance/health/pricing';
+import { listHealthProducts } from '@/lib/insurance/health/repository';
+
+// Schema for the tool - no parameters needed
+export const collectHealthInsuranceInfoSchema = jsonSchema({
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+  description: 'Collect health insurance information from user through a form'
+});
+
+// Profile fields the health flow reads
+export interface HealthProfileData {
+  first_name?: string;
+  dob?: string | null;
+  is_married?: boolean | null;
+  city?: string | null;
+  smoking_status?: boolean | null;
+  issues?: string[];
+  // Saved answers from the health form
+  health_insurance?: unknown;
+}
+
+export interface CollectHealthInsuranceResult {
+  success: boolean;
+  status: 'needs_input' | 'error';
+  userData?: HealthProfileData;
+  // Saved answers, or defaults from the profile on a first visit
+  preferences?: HealthPreferences;
+  cityTier?: CityTier | null;
+  suggestedSumInsured?: number;
+  sumInsuredOptions?: number[];
+  sessionId?: string;
+  error?: string;
+}
+
+// Helper function to read saved health answers, ignoring anything malformed
+export function savedHealthPreferences(profile: HealthProfileData): HealthPreferences | null {
+  const parsed = healthPreferencesSchema.safeParse(profile.health_insurance ?? null);
+  return parsed.success ? parsed.data : null;
+}
+
+// Helper function to line members up with the profile: the user's own age
+// comes from their date of birth and their conditions from the issues list
+export function resolveHealthMembers(profile: HealthProfileData, members: HealthMember[]): HealthMember[] {
+  return members.map(member => member.relation === 'self' ? {
+    ...member,
+    age: profile.dob ? ageFromDob(profile.dob) : member.age,
+    conditions: profile.issues || []
+  } : member);
+}
+
+// Helper function to build first-visit defaults from the profile
+function defaultHealthPreferences(profile: HealthProfileData): HealthPreferences {
+  const selfAge = profile.dob ? ageFromDob(profile.dob) : 30;
+  const members: HealthMember[] = [{ relation: 'self', age: selfAge, conditions: [] }];
+  if (profile.is_married) {
+    members.push({ relation: 'spouse', age: selfAge, conditions: [] });
+  }
+
+  return {
+    coverType: members.length > 1 ? 'family_floater' : 'individual',
+    members,
+    roomRent: 'any'
+  };
+}
+
+// Main tool implementation
+export const collectHealthInsuranceInfoTool = tool({
+  description: 'STEP 1 of 2: Show a form to collect health insurance information (members to cover, individual or family floater, sum insured, room-rent preference, city and health conditions). This must be called BEFORE showHealthInsuranceRecommendations. The form saves directly to the user profile.',
+  parameters: collectHealthInsuranceInfoSchema,
+  execute: async (): Promise<CollectHealthInsuranceResult> => {
+    try {
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      // Fetch user profile
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences = savedHealthPreferences(userProfile) || defaultHealthPreferences(userProfile);
+      const tier = cityTier(userProfile.city);
+      const products = await listHealthProducts(supabase);
+      const sumInsuredOptions = Array.from(new Set(products.flatMap(product => product.sumInsuredOptions)))
+        .sort((a, b) => a - b);
+
+      return {
+        success: true,
+        status: 'needs_input',
+        userData: userProfile,
+        preferences,
+        cityTier: tier,
+        suggestedSumInsured: recommendedSumInsured(resolveHealthMembers(userProfile, preferences.members), tier),
+        sumInsuredOptions,
+        sessionId: randomUUID()
+      };
+
+    } catch (error) {
+      console.error('[collectHealthInsuranceInfo] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default collectHealthInsuranceInfoTool;
@@ -0,0 +1,96 @@
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import { HomePreferences, homePreferencesSchema } from '@/lib/insurance/home/schema';
+import { CITY_RISKS, CityRisk } from '@/lib/insurance/home/locations';
+
+// Schema for the tool - no parameters needed
+export const collectHomeInsuranceInfoSchema = jsonSchema({
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+  description: 'Collect property details for home insurance through a form'
+});
+
+// Profile fields the home flow reads
+export interface HomeProfileData {
+  first_name?: string;
+  city?: string | null;
+  // Saved answers from the home form
+  home_insurance?: unknown;
+}
+
+export interface CollectHomeInsuranceResult {
+  success: boolean;
+  status: 'needs_input' | 'error';
+  userData?: HomeProfileData;
+  // Saved answers, if the user has filled the form before
+  preferences?: HomePreferences | null;
+  // Cities with known location risk and construction rates
+  cities?: CityRisk[];
+  sessionId?: string;
+  error?: string;
+}
+
+// Helper function to read saved home answers, ignoring anything malformed
+export function savedHomePreferences(profile: HomeProfileData): HomePreferences | null {
+  const parsed = homePreferencesSchema.safeParse(profile.home_insurance ?? null);
+  return parsed.success ? parsed.data : null;
+}
+
+// Main tool implementation
+export const collectHomeInsuranceInfoTool = tool({
+  description: 'STEP 1 of 2: Show a form to collect home insurance details (owner or tenant, apartment or house, city, built-up area, construction type and year, contents value and burglary cover). This must be called BEFORE showHomeInsuranceRecommendations. The form saves directly to the user profile.',
+  parameters: collectHomeInsuranceInfoSchema,
+  execute: async (): Promise<CollectHomeInsuranceResult> => {
+    try {
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      // Fetch user profile
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      return {
+        success: true,
+        status: 'needs_input',
+        userData: userProfile,
+        preferences: savedHomePreferences(userProfile),
+        cities: CITY_RISKS,
+        sessionId: randomUUID()
+      };
+
+    } catch (error) {
+      console.error('[collectHomeInsuranceInfo] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default collectHomeInsuranceInfoTool;
@@ -2,6 +2,9 @@ import { z } from 'zod';
 import { tool, jsonSchema } from 'ai';
 import { createClient } from '@/utils/supabase/server';
 import { randomUUID } from 'crypto';
+import { OccupationClass } from '@/lib/insurance/occupation';
+import { FamilyMember } from '@/lib/insurance/family/schema';
+import { listFamilyMembers } from '@/lib/insurance/family/repository';
 
 // Schema for the tool - no parameters needed
 export const collectLifeInsuranceInfoSchema = jsonSchema({
@@ -23,6 +26,8 @@ export interface UserProfileData {
   city?: string | null;
   smoking_status?: boolean | null;
   occupation?: string | null;
+  // Risk class resolved from the occupation text
+  occupation_class?: OccupationClass | null;
   coverage_amount?: number | null;
   policy_term?: number | null;
 }
@@ -42,6 +47,8 @@ export interface CollectLifeInsuranceResult {
   status: 'needs_input' | 'error';
   userData?: UserProfileData;
   fieldsToShow?: FormFieldDefinition[];
+  // Household already on record, shown in the form's dependents section
+  familyMembers?: FamilyMember[];
   sessionId?: string;
   error?: string;
 }
@@ -84,7 +91,7 @@ function generateFormFields(userData: UserProfileData): FormFieldDefinition[] {
       fieldType: 'number',
       required: true, // Changed from false to true - Required for coverage calculation
       currentValue: null,
-      helpText: 'Required to calculate appropriate coverage amount (10-15x income) and affordable premiums',
+      helpText: 'Required to calculate the coverage your family needs and affordable premiums',
       placeholder: 'e.g., 1000000'
     });
   }
@@ -150,7 +157,7 @@ function generateFormFields(userData: UserProfileData): FormFieldDefinition[] {
       fieldType: 'text',
       required: true,
       currentValue: userData.occupation || null,
-      helpText: 'Your occupation helps assess risk and determine premiums',
+      helpText: 'Your occupation sets your risk class, which affects premiums and which plans are available',
       placeholder: 'e.g., Software Engineer, Doctor, Business Owner'
     });
   }
@@ -161,7 +168,7 @@ function generateFormFields(userData: UserProfileData): FormFieldDefinition[] {
     fieldType: 'number',
     required: false,
     currentValue: userData.coverage_amount || null,
-    helpText: 'Optional: We\'ll suggest 12x your annual income if not specified',
+    helpText: 'Optional: We\'ll size your cover from your income, dependents and goals if not specified',
     placeholder: 'e.g., 5000000'
   });
 
@@ -223,11 +230,20 @@ export const collectLifeInsuranceInfoTool = tool({
       const fieldsToShow = generateFormFields(userProfile);
       const sessionId = randomUUID();
 
+      // The form still works without the household, so a failure is only logged
+      let familyMembers: FamilyMember[] = [];
+      try {
+        familyMembers = await listFamilyMembers(supabase, user.id);
+      } catch (familyError) {
+        console.error('[collectLifeInsuranceInfo] Failed to load family members:', familyError);
+      }
+
       return {
         success: true,
         status: 'needs_input' as const,
         userData: userProfile,
         fieldsToShow,
+        familyMembers,
         sessionId
       };
 
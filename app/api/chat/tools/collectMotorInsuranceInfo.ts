@@ -0,0 +1,96 @@
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import { MotorPreferences, motorPreferencesSchema } from '@/lib/insurance/motor/schema';
+import { VEHICLE_MODELS, VehicleModel } from '@/lib/insurance/motor/vehicles';
+
+// Schema for the tool - no parameters needed
+export const collectMotorInsuranceInfoSchema = jsonSchema({
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+  description: 'Collect vehicle and policy details for motor insurance through a form'
+});
+
+// Profile fields the motor flow reads
+export interface MotorProfileData {
+  first_name?: string;
+  city?: string | null;
+  // Saved answers from the motor form
+  motor_insurance?: unknown;
+}
+
+export interface CollectMotorInsuranceResult {
+  success: boolean;
+  status: 'needs_input' | 'error';
+  userData?: MotorProfileData;
+  // Saved answers, if the user has filled the form before
+  preferences?: MotorPreferences | null;
+  // Models the form can pick from; anything else is entered by hand
+  vehicleModels?: VehicleModel[];
+  sessionId?: string;
+  error?: string;
+}
+
+// Helper function to read saved motor answers, ignoring anything malformed
+export function savedMotorPreferences(profile: MotorProfileData): MotorPreferences | null {
+  const parsed = motorPreferencesSchema.safeParse(profile.motor_insurance ?? null);
+  return parsed.success ? parsed.data : null;
+}
+
+// Main tool implementation
+export const collectMotorInsuranceInfoTool = tool({
+  description: 'STEP 1 of 2: Show a form to collect motor insurance details (car or two-wheeler, make/model/variant, registration year, RTO city, fuel type, previous NCB and claims, and add-ons). This must be called BEFORE showMotorInsuranceRecommendations. The form saves directly to the user profile.',
+  parameters: collectMotorInsuranceInfoSchema,
+  execute: async (): Promise<CollectMotorInsuranceResult> => {
+    try {
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      // Fetch user profile
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      return {
+        success: true,
+        status: 'needs_input',
+        userData: userProfile,
+        preferences: savedMotorPreferences(userProfile),
+        vehicleModels: VEHICLE_MODELS,
+        sessionId: randomUUID()
+      };
+
+    } catch (error) {
+      console.error('[collectMotorInsuranceInfo] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default collectMotorInsuranceInfoTool;
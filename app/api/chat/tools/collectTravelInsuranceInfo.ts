@@ -0,0 +1,127 @@
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { Traveller, TravelPreferences, travelPreferencesSchema } from '@/lib/insurance/travel/schema';
+import { listTravelProducts } from '@/lib/insurance/travel/repository';
+
+// Schema for the tool - no parameters needed
+export const collectTravelInsuranceInfoSchema = jsonSchema({
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+  description: 'Collect trip and traveller details for travel insurance through a form'
+});
+
+// Profile fields the travel flow reads
+export interface TravelProfileData {
+  first_name?: string;
+  dob?: string | null;
+  is_married?: boolean | null;
+  issues?: string[];
+  // Saved answers from the travel form
+  travel_insurance?: unknown;
+}
+
+export interface CollectTravelInsuranceResult {
+  success: boolean;
+  status: 'needs_input' | 'error';
+  userData?: TravelProfileData;
+  // Saved answers, if the user has filled the form before
+  preferences?: TravelPreferences | null;
+  // Travellers to start the form with: saved ones, or the user and spouse
+  travellers?: Traveller[];
+  medicalCoverOptions?: number[];
+  sessionId?: string;
+  error?: string;
+}
+
+// Helper function to read saved travel answers, ignoring anything malformed
+export function savedTravelPreferences(profile: TravelProfileData): TravelPreferences | null {
+  const parsed = travelPreferencesSchema.safeParse(profile.travel_insurance ?? null);
+  return parsed.success ? parsed.data : null;
+}
+
+// Helper function to line travellers up with the profile: the primary
+// traveller's age comes from their date of birth and their conditions from
+// the issues list
+export function resolveTravellers(profile: TravelProfileData, travellers: Traveller[]): Traveller[] {
+  return travellers.map(traveller => traveller.relation === 'self' ? {
+    ...traveller,
+    age: profile.dob ? ageFromDob(profile.dob) : traveller.age,
+    conditions: profile.issues || []
+  } : traveller);
+}
+
+// Helper function to build first-visit travellers from the profile
+function defaultTravellers(profile: TravelProfileData): Traveller[] {
+  const selfAge = profile.dob ? ageFromDob(profile.dob) : 30;
+  const travellers: Traveller[] = [{ relation: 'self', age: selfAge, conditions: [] }];
+  if (profile.is_married) {
+    travellers.push({ relation: 'spouse', age: selfAge, conditions: [] });
+  }
+  return travellers;
+}
+
+// Main tool implementation
+export const collectTravelInsuranceInfoTool = tool({
+  description: 'STEP 1 of 2: Show a form to collect travel insurance details (destination region, trip dates, single/multi-trip/student cover, travellers and their ages, medical cover). This must be called BEFORE showTravelInsuranceRecommendations. The form saves directly to the user profile.',
+  parameters: collectTravelInsuranceInfoSchema,
+  execute: async (): Promise<CollectTravelInsuranceResult> => {
+    try {
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      // Fetch user profile
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences = savedTravelPreferences(userProfile);
+      const products = await listTravelProducts(supabase);
+      const medicalCoverOptions = Array.from(new Set(products.flatMap(product => product.medicalCoverOptions)))
+        .sort((a, b) => a - b);
+
+      return {
+        success: true,
+        status: 'needs_input',
+        userData: userProfile,
+        preferences,
+        travellers: preferences?.travellers || defaultTravellers(userProfile),
+        medicalCoverOptions,
+        sessionId: randomUUID()
+      };
+
+    } catch (error) {
+      console.error('[collectTravelInsuranceInfo] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default collectTravelInsuranceInfoTool;
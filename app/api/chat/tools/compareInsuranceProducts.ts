@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { CatalogProduct, PayoutOption } from '@/lib/insurance/catalog/schema';
+import { findProduct, listProducts } from '@/lib/insurance/catalog/repository';
+import { RIDER_DEFINITIONS, RiderCode } from '@/lib/insurance/riders';
+import { InsurerScorecard } from '@/lib/insurance/scorecards/schema';
+import { claimSettlementFor, listScorecards } from '@/lib/insurance/scorecards/repository';
+import {
+  ExcludedProduct,
+  InsuranceProduct,
+  generateInsuranceProducts,
+  hasMinimumRequiredFields,
+  resolveCoverageAmount,
+  resolveOccupationClass
+} from './showLifeInsuranceRecommendations';
+import { loadNeedsContext } from './coverageNeeds';
+
+// Schema for the tool
+export const compareInsuranceProductsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    products: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 2,
+      maxItems: 4,
+      description: 'The 2-4 plans to compare, by insurer or plan name as the user said them, e.g. ["HDFC", "Max Life"]'
+    },
+    coverageAmount: {
+      type: 'number',
+      minimum: 100000,
+      description: 'Optional sum assured to price at; defaults to the user\'s preference or needs-based cover'
+    }
+  },
+  required: ['products'],
+  additionalProperties: false,
+  description: 'Compare 2-4 life insurance plans side by side using catalog data'
+});
+
+// Zod schema for validation
+const compareInsuranceProductsZodSchema = z.object({
+  products: z.array(z.string().min(1)).min(2, 'Pick at least 2 plans to compare').max(4, 'Compare at most 4 plans at a time'),
+  coverageAmount: z.number().min(100000).optional()
+});
+
+export interface ComparedRider {
+  code: RiderCode;
+  name: string;
+  // Priced for the user when their profile allows it
+  annualPremium?: number;
+  eligible?: boolean;
+}
+
+export interface ComparedProduct {
+  productId: string;
+  name: string;
+  company: string;
+  logo?: string;
+  claimSettlementRatio: string;
+  // Financial year the ratio applies to, when it comes from a scorecard
+  claimSettlementYear?: string;
+  minEntryAge: number;
+  maxEntryAge: number;
+  maxMaturityAge: number;
+  minSumAssured: number;
+  maxSumAssured: number;
+  termOptions: number[];
+  payoutOptions: PayoutOption[];
+  exclusions: string[];
+  features: string[];
+  riders: ComparedRider[];
+  // Premium for the user, when the plan could be priced for them
+  premium?: {
+    annual: number;
+    monthly: number;
+    policyTerm: number;
+  };
+  // Whether the user can buy this plan; 'unpriced' when the profile is incomplete
+  availability: 'available' | ExcludedProduct['decision'] | 'unpriced';
+  availabilityReasons: string[];
+}
+
+export interface CompareProductsResult {
+  success: boolean;
+  status: 'ready' | 'error';
+  products?: ComparedProduct[];
+  // Names that did not match any plan in the catalog
+  unmatched?: string[];
+  coverageAmount?: number;
+  // Profile fields still needed before premiums can be shown
+  missingFields?: string[];
+  error?: string;
+}
+
+// Helper function to line up catalog data with the user's quote, if any
+function compareProduct(
+  product: CatalogProduct,
+  scorecards: InsurerScorecard[],
+  quote?: InsuranceProduct,
+  excluded?: ExcludedProduct
+): ComparedProduct {
+  const claimSettlement = claimSettlementFor(scorecards, product.insurer, product.claimSettlementRatio);
+  const riders: ComparedRider[] = product.riders.map(code => {
+    const priced = quote?.riders.find(rider => rider.code === code);
+    return {
+      code,
+      name: RIDER_DEFINITIONS[code].name,
+      annualPremium: priced?.eligible ? priced.annualPremium : undefined,
+      eligible: priced?.eligible
+    };
+  });
+
+  return {
+    productId: product.id,
+    name: product.name,
+    company: product.insurer,
+    logo: product.logo,
+    claimSettlementRatio: claimSettlement.claimSettlementRatio,
+    claimSettlementYear: claimSettlement.financialYear,
+    minEntryAge: product.minEntryAge,
+    maxEntryAge: product.maxEntryAge,
+    maxMaturityAge: product.maxMaturityAge,
+    minSumAssured: product.minSumAssured,
+    maxSumAssured: product.maxSumAssured,
+    termOptions: product.termOptions,
+    payoutOptions: product.payoutOptions,
+    exclusions: product.exclusions,
+    features: product.features,
+    riders,
+    premium: quote ? {
+      annual: quote.annualPremium,
+      monthly: quote.monthlyPremium,
+      policyTerm: quote.policyTerm
+    } : undefined,
+    availability: quote ? 'available' : excluded ? excluded.decision : 'unpriced',
+    availabilityReasons: quote ? quote.underwriting.reasons : excluded ? excluded.reasons : []
+  };
+}
+
+// Main tool implementation
+export const compareInsuranceProductsTool = tool({
+  description: 'Compare 2-4 life insurance plans side by side (premium, claim settlement ratio, riders, exclusions, payout options, entry ages) from the product catalog. Use when the user asks to compare specific insurers or plans.',
+  parameters: compareInsuranceProductsSchema,
+  execute: async (params): Promise<CompareProductsResult> => {
+    try {
+      // Validate parameters using Zod
+      const validatedParams = compareInsuranceProductsZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, status: 'error', error: 'User not authenticated' };
+      }
+
+      const catalog = await listProducts(supabase, { line: 'term_life' });
+      const scorecards = await listScorecards(supabase);
+
+      // Resolve the names the user gave to catalog products, once each
+      const selected: CatalogProduct[] = [];
+      const unmatched: string[] = [];
+      for (const query of validatedParams.products) {
+        const product = findProduct(catalog, query);
+        if (!product) {
+          unmatched.push(query);
+        } else if (!selected.includes(product)) {
+          selected.push(product);
+        }
+      }
+
+      if (selected.length < 2) {
+        return {
+          success: false,
+          status: 'error',
+          unmatched,
+          error: `I need at least two plans from our catalog to compare. Available plans: ${catalog.map(product => `${product.insurer} ${product.name}`).join(', ')}.`
+        };
+      }
+
+      const { data: userProfile } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      // Price the plans for the user when the profile allows it; otherwise
+      // compare on catalog data alone
+      const { valid, missing } = userProfile
+        ? hasMinimumRequiredFields(userProfile)
+        : { valid: false, missing: ['profile'] };
+
+      if (!valid) {
+        return {
+          success: true,
+          status: 'ready',
+          products: selected.map(product => compareProduct(product, scorecards)),
+          unmatched,
+          missingFields: missing
+        };
+      }
+
+      const profile = { ...userProfile, occupation_class: resolveOccupationClass(userProfile) };
+      const needsContext = await loadNeedsContext(supabase, user.id);
+      const coverageAmount = validatedParams.coverageAmount ?? resolveCoverageAmount(profile, needsContext).coverageAmount;
+      const { recommendations, excludedProducts } = generateInsuranceProducts(
+        profile,
+        selected,
+        coverageAmount,
+        [],
+        scorecards,
+        needsContext.household
+      );
+
+      return {
+        success: true,
+        status: 'ready',
+        products: selected.map(product => compareProduct(
+          product,
+          scorecards,
+          recommendations.find(quote => quote.productId === product.id),
+          excludedProducts.find(excluded => excluded.productId === product.id)
+        )),
+        unmatched,
+        coverageAmount
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[compareInsuranceProducts] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default compareInsuranceProductsTool;
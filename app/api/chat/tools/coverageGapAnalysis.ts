@@ -0,0 +1,134 @@
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { calculateCoverageNeeds, NeedsAnalysisResult } from '@/lib/insurance/needsAnalysis';
+import { cityTier, recommendedSumInsured } from '@/lib/insurance/health/pricing';
+import { HealthMember, healthPreferencesSchema } from '@/lib/insurance/health/schema';
+import { FamilyMember } from '@/lib/insurance/family/schema';
+import { ExistingPolicy } from '@/lib/insurance/policies/schema';
+import { listPolicies } from '@/lib/insurance/policies/repository';
+import { CoverageGapResult, analyseCoverageGaps } from '@/lib/insurance/policies/gapAnalysis';
+import { loadNeedsContext, needsInputFromProfile, savedNeedsAnswers } from './coverageNeeds';
+
+// Schema for the tool - no parameters needed; everything comes from the
+// profile, household and recorded policies
+export const coverageGapAnalysisSchema = jsonSchema({
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+  description: "Compare the user's existing policies against their life and health cover needs"
+});
+
+export interface CoverageGapAnalysisResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  analysis?: CoverageGapResult;
+  policies?: ExistingPolicy[];
+  // Life need before existing cover, with its breakdown
+  lifeNeeds?: NeedsAnalysisResult;
+  missingFields?: string[];
+  error?: string;
+}
+
+// People a family floater would cover: the members saved with the health
+// form, or else the user, their spouse and children from the household
+function healthMembers(profile: { dob: string; health_insurance?: unknown }, household: FamilyMember[]): HealthMember[] {
+  const saved = healthPreferencesSchema.safeParse(profile.health_insurance ?? {});
+  if (saved.success) {
+    return saved.data.members;
+  }
+
+  return [
+    { relation: 'self', age: ageFromDob(profile.dob), conditions: [] },
+    ...household
+      .filter(member => member.relation === 'spouse' || member.relation === 'child')
+      .map(member => ({
+        relation: member.relation as HealthMember['relation'],
+        age: ageFromDob(member.dob),
+        conditions: member.issues
+      }))
+  ];
+}
+
+// Main tool implementation
+export const coverageGapAnalysisTool = tool({
+  description: "Compare the policies the user already holds against how much life and health cover they need, highlighting shortfalls, over-insurance, lapsed policies, job-linked cover and savings plans that buy little cover. Call after recording policies with manageExistingPolicies.",
+  parameters: coverageGapAnalysisSchema,
+  execute: async (): Promise<CoverageGapAnalysisResult> => {
+    try {
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('dob, annual_income, is_married, city, needs_analysis, health_insurance')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const missing: string[] = [];
+      if (!userProfile.dob) missing.push('date of birth');
+      if (!userProfile.annual_income || userProfile.annual_income <= 0) missing.push('annual income');
+
+      if (missing.length > 0) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: missing,
+          error: `Please provide your ${missing.join(' and ')} so I can work out what cover you need.`
+        };
+      }
+
+      const policies = await listPolicies(supabase, user.id);
+      const { household = [] } = await loadNeedsContext(supabase, user.id);
+
+      // The need is sized before existing cover, which is then compared
+      // policy by policy rather than netted off
+      const lifeNeeds = calculateCoverageNeeds(
+        needsInputFromProfile(userProfile, { ...savedNeedsAnswers(userProfile), existingCover: 0 }, { household })
+      );
+      const healthNeed = recommendedSumInsured(healthMembers(userProfile, household), cityTier(userProfile.city));
+
+      const analysis = analyseCoverageGaps({
+        policies,
+        lifeNeed: lifeNeeds.recommendedCover,
+        healthNeed,
+        annualIncome: userProfile.annual_income
+      });
+
+      return {
+        success: true,
+        status: 'ready',
+        analysis,
+        policies,
+        lifeNeeds
+      };
+    } catch (error) {
+      console.error('[coverageGapAnalysis] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default coverageGapAnalysisTool;
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { NeedsAnalysisInput, NeedsAnalysisResult, calculateCoverageNeeds } from '@/lib/insurance/needsAnalysis';
+import { FamilyMember } from '@/lib/insurance/family/schema';
+import { listFamilyMembers } from '@/lib/insurance/family/repository';
+import { listPolicies } from '@/lib/insurance/policies/repository';
+import { summarisePortfolio } from '@/lib/insurance/policies/gapAnalysis';
+
+// Schema for the tool - every field is optional; anything not passed is taken
+// from the answers saved on a previous run or from the user profile
+export const calculateCoverageNeedsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    spouseIncome: {
+      type: 'number',
+      minimum: 0,
+      description: "Spouse's annual income in rupees (0 if not working)"
+    },
+    dependents: {
+      type: 'number',
+      minimum: 0,
+      description: 'Number of financial dependents OTHER than children (e.g. non-working spouse, parents)'
+    },
+    children: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          age: { type: 'number', minimum: 0, maximum: 30 },
+          educationCost: { type: 'number', minimum: 0, description: "Education goal in today's rupees" },
+          marriageCost: { type: 'number', minimum: 0, description: "Marriage goal in today's rupees" }
+        },
+        required: ['age'],
+        additionalProperties: false
+      },
+      description: 'Children with their current ages and optional goal costs'
+    },
+    outstandingLoans: {
+      type: 'number',
+      minimum: 0,
+      description: 'Total outstanding loans in rupees (home, car, personal)'
+    },
+    existingCover: {
+      type: 'number',
+      minimum: 0,
+      description: 'Life cover already held in rupees, including employer group cover'
+    },
+    liquidSavings: {
+      type: 'number',
+      minimum: 0,
+      description: 'Savings and investments the family could use, in rupees'
+    },
+    retirementAge: {
+      type: 'number',
+      minimum: 40,
+      maximum: 75,
+      description: 'Age the user plans to retire (default 60)'
+    },
+    inflationRate: {
+      type: 'number',
+      minimum: 0,
+      maximum: 0.15,
+      description: 'Expected inflation as a decimal (default 0.06)'
+    },
+    investmentReturn: {
+      type: 'number',
+      minimum: 0,
+      maximum: 0.15,
+      description: 'Return the family could earn on the payout as a decimal (default 0.07)'
+    }
+  },
+  additionalProperties: false,
+  description: 'Calculate how much life cover the user needs using the Human Life Value method'
+});
+
+const childGoalZodSchema = z.object({
+  age: z.number().min(0).max(30),
+  educationCost: z.number().min(0).optional(),
+  marriageCost: z.number().min(0).optional()
+});
+
+// Answers that can be saved on the profile and reused by recommendations
+export const needsAnswersZodSchema = z.object({
+  spouseIncome: z.number().min(0).optional(),
+  dependents: z.number().int().min(0).optional(),
+  children: z.array(childGoalZodSchema).optional(),
+  outstandingLoans: z.number().min(0).optional(),
+  existingCover: z.number().min(0).optional(),
+  liquidSavings: z.number().min(0).optional(),
+  retirementAge: z.number().min(40).max(75).optional(),
+  inflationRate: z.number().min(0).max(0.15).optional(),
+  investmentReturn: z.number().min(0).max(0.15).optional()
+});
+
+export type NeedsAnswers = z.infer<typeof needsAnswersZodSchema>;
+
+export interface CoverageNeedsProfile {
+  dob?: string | null;
+  annual_income?: number | null;
+  is_married?: boolean | null;
+  needs_analysis?: unknown;
+}
+
+export interface CalculateCoverageNeedsResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  analysis?: NeedsAnalysisResult;
+  answers?: NeedsAnswers;
+  missingFields?: string[];
+  error?: string;
+}
+
+// Saved answers from the profile, ignoring anything that no longer validates
+export function savedNeedsAnswers(profile: CoverageNeedsProfile): NeedsAnswers {
+  const parsed = needsAnswersZodSchema.safeParse(profile.needs_analysis ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+// What is on record about the user beyond the profile
+export interface NeedsContext {
+  household?: FamilyMember[];
+  // Life cover from the user's active recorded policies
+  existingLifeCover?: number;
+}
+
+// Build the calculator input from the profile and any answers the user gave.
+// Questions the user has not answered are filled from the recorded household
+// and policies; with no household either, a married user is assumed to
+// support a spouse.
+export function needsInputFromProfile(
+  profile: CoverageNeedsProfile,
+  answers: NeedsAnswers = {},
+  context: NeedsContext = {}
+): NeedsAnalysisInput {
+  const household = context.household || [];
+  const dependents = household.filter(member => member.isDependent);
+  const dependentChildren = dependents.filter(member => member.relation === 'child');
+  const spouse = household.find(member => member.relation === 'spouse');
+
+  return {
+    age: profile.dob ? ageFromDob(profile.dob) : 30,
+    annualIncome: profile.annual_income || 0,
+    ...answers,
+    spouseIncome: answers.spouseIncome ?? spouse?.annualIncome ?? undefined,
+    existingCover: answers.existingCover ?? context.existingLifeCover,
+    dependents: answers.dependents ?? (household.length > 0
+      ? dependents.length - dependentChildren.length
+      : (profile.is_married ? 1 : 0)),
+    children: answers.children ?? (dependentChildren.length > 0
+      ? dependentChildren.map(child => ({ age: Math.min(ageFromDob(child.dob), 30) }))
+      : undefined)
+  };
+}
+
+// Load the household and policies for needs analysis; whatever fails to
+// load is left out and the profile defaults apply
+export async function loadNeedsContext(
+  supabase: Parameters<typeof listFamilyMembers>[0],
+  userId: string
+): Promise<NeedsContext> {
+  const context: NeedsContext = {};
+
+  try {
+    context.household = await listFamilyMembers(supabase, userId);
+  } catch (error) {
+    console.error('[calculateCoverageNeeds] Failed to load family members:', error);
+  }
+
+  try {
+    const policies = await listPolicies(supabase, userId, { status: 'active' });
+    if (policies.length > 0) {
+      context.existingLifeCover = summarisePortfolio(policies).lifeCover;
+    }
+  } catch (error) {
+    console.error('[calculateCoverageNeeds] Failed to load policies:', error);
+  }
+
+  return context;
+}
+
+// Main tool implementation
+export const calculateCoverageNeedsTool = tool({
+  description: 'Calculate how much life insurance cover the user needs based on dependents, loans, existing cover, children\'s goals, inflation and spouse income. Answers are saved so recommendations use this as the default coverage amount.',
+  parameters: calculateCoverageNeedsSchema,
+  execute: async (params): Promise<CalculateCoverageNeedsResult> => {
+    try {
+      // Validate parameters using Zod
+      const validatedParams = needsAnswersZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('dob, annual_income, is_married, needs_analysis')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const missing: string[] = [];
+      if (!userProfile.dob) missing.push('date of birth');
+      if (!userProfile.annual_income || userProfile.annual_income <= 0) missing.push('annual income');
+
+      if (missing.length > 0) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: missing,
+          error: `Please provide your ${missing.join(' and ')} so I can size your cover.`
+        };
+      }
+
+      // New answers override the ones saved last time
+      const answers: NeedsAnswers = { ...savedNeedsAnswers(userProfile), ...validatedParams };
+      const context = await loadNeedsContext(supabase, user.id);
+      const analysis = calculateCoverageNeeds(needsInputFromProfile(userProfile, answers, context));
+
+      const { error: updateError } = await supabase
+        .from('user_profile')
+        .update({ needs_analysis: answers })
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('[calculateCoverageNeeds] Failed to save answers:', updateError);
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        analysis,
+        answers
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[calculateCoverageNeeds] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default calculateCoverageNeedsTool;
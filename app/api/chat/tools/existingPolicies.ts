@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ExistingPolicy, existingPolicyInputSchema, existingPolicyUpdateSchema } from '@/lib/insurance/policies/schema';
+import { addPolicy, listPolicies, removePolicy, updatePolicy } from '@/lib/insurance/policies/repository';
+import { PortfolioSummary, summarisePortfolio } from '@/lib/insurance/policies/gapAnalysis';
+
+// Schema for the tool
+export const manageExistingPoliciesSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    operation: {
+      type: 'string',
+      enum: ['list', 'add', 'update', 'remove'],
+      description: "'list' the user's policies, 'add' one, 'update' one, or 'remove' one."
+    },
+    policyId: {
+      type: 'string',
+      description: "The policy's ID from <existing_policies>. Required for 'update' and 'remove'."
+    },
+    insurer: {
+      type: 'string',
+      description: "Insurance company, e.g. 'LIC', 'HDFC Life', 'Star Health'. Required for 'add'."
+    },
+    planName: {
+      type: 'string',
+      description: "Plan name, e.g. 'Jeevan Anand', if the user knows it"
+    },
+    policyNumber: {
+      type: 'string',
+      description: 'Policy number, if the user shares it'
+    },
+    policyType: {
+      type: 'string',
+      enum: ['term_life', 'endowment', 'money_back', 'whole_life', 'ulip', 'group_life', 'health', 'group_health', 'personal_accident', 'motor', 'travel', 'home', 'other'],
+      description: "Kind of policy; use group_life / group_health for cover provided by an employer. Required for 'add'."
+    },
+    sumAssured: {
+      type: 'number',
+      minimum: 0,
+      description: "Sum assured or sum insured in rupees. Required for 'add'."
+    },
+    premium: {
+      type: 'number',
+      minimum: 0,
+      description: 'Premium per instalment in rupees (0 if the employer pays)'
+    },
+    premiumFrequency: {
+      type: 'string',
+      enum: ['annual', 'half_yearly', 'quarterly', 'monthly', 'single'],
+      description: 'How often the premium is paid (default annual)'
+    },
+    startDate: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      description: 'Policy start date in YYYY-MM-DD format'
+    },
+    termYears: {
+      type: 'number',
+      minimum: 1,
+      maximum: 100,
+      description: 'Policy term in years'
+    },
+    renewalDate: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      description: 'Next premium due or renewal date in YYYY-MM-DD format'
+    },
+    status: {
+      type: 'string',
+      enum: ['active', 'lapsed', 'matured', 'surrendered'],
+      description: 'Policy status (default active)'
+    }
+  },
+  required: ['operation'],
+  additionalProperties: false,
+  description: "Manage the insurance policies the user already holds"
+});
+
+// Zod schema for validation
+const manageExistingPoliciesZodSchema = existingPolicyUpdateSchema.extend({
+  operation: z.enum(['list', 'add', 'update', 'remove']),
+  policyId: z.string().uuid().optional()
+}).refine(data => data.operation === 'list' || data.operation === 'add' || Boolean(data.policyId), {
+  message: "A policyId is required for 'update' and 'remove'.",
+  path: ['policyId']
+});
+
+export interface ManageExistingPoliciesResult {
+  success: boolean;
+  operation?: 'list' | 'add' | 'update' | 'remove';
+  // The portfolio after the operation
+  policies?: ExistingPolicy[];
+  portfolio?: PortfolioSummary;
+  policy?: ExistingPolicy;
+  error?: string;
+}
+
+// Main tool implementation
+export const manageExistingPoliciesTool = tool({
+  description: "Add, update, remove or list the insurance policies the user already holds with any insurer (LIC endowments, employer group cover, term, health, motor and so on), with sum assured, premium, term and renewal date. Recorded life cover is counted as existing cover when sizing new cover.",
+  parameters: manageExistingPoliciesSchema,
+  execute: async (params): Promise<ManageExistingPoliciesResult> => {
+    try {
+      // Validate parameters using Zod
+      const { operation, policyId, ...fields } = manageExistingPoliciesZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      let policy: ExistingPolicy | undefined;
+
+      if (operation === 'add') {
+        policy = await addPolicy(supabase, user.id, existingPolicyInputSchema.parse(fields));
+      }
+
+      if (operation === 'update') {
+        const updated = await updatePolicy(supabase, user.id, policyId!, fields);
+        if (!updated) {
+          return { success: false, operation, error: 'Policy not found' };
+        }
+        policy = updated;
+      }
+
+      if (operation === 'remove') {
+        const removed = await removePolicy(supabase, user.id, policyId!);
+        if (!removed) {
+          return { success: false, operation, error: 'Policy not found' };
+        }
+      }
+
+      const { data: userProfile } = await supabase
+        .from('user_profile')
+        .select('annual_income')
+        .eq('user_id', user.id)
+        .single();
+
+      const policies = await listPolicies(supabase, user.id);
+
+      return {
+        success: true,
+        operation,
+        policy,
+        policies,
+        portfolio: summarisePortfolio(policies, userProfile?.annual_income)
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[manageExistingPolicies] Error:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default manageExistingPoliciesTool;
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { FamilyMember, familyMemberInputSchema, familyMemberUpdateSchema } from '@/lib/insurance/family/schema';
+import { addFamilyMembers, listFamilyMembers, removeFamilyMember, updateFamilyMember } from '@/lib/insurance/family/repository';
+
+// Schema for the tool
+export const manageFamilyMembersSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    operation: {
+      type: 'string',
+      enum: ['list', 'add', 'update', 'remove'],
+      description: "'list' the household, 'add' a family member, 'update' one, or 'remove' one."
+    },
+    memberId: {
+      type: 'string',
+      description: "The family member's ID from <household>. Required for 'update' and 'remove'."
+    },
+    name: {
+      type: 'string',
+      description: "The member's first name, if the user gave it"
+    },
+    relation: {
+      type: 'string',
+      enum: ['spouse', 'child', 'parent', 'parent_in_law', 'sibling'],
+      description: "How the member is related to the user. Required for 'add'."
+    },
+    dob: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+      description: "Date of birth in YYYY-MM-DD format. Required for 'add'. If only an age is given, ask for the date of birth."
+    },
+    annualIncome: {
+      type: 'number',
+      minimum: 0,
+      description: "The member's annual income in rupees (0 if not earning)"
+    },
+    issues: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "The member's health conditions; replaces the existing list on 'update'"
+    },
+    isDependent: {
+      type: 'boolean',
+      description: "Whether the member relies on the user's income (default true)"
+    }
+  },
+  required: ['operation'],
+  additionalProperties: false,
+  description: "Manage the user's family members: spouse, children, parents and other relatives"
+});
+
+// Zod schema for validation
+const manageFamilyMembersZodSchema = familyMemberUpdateSchema.extend({
+  operation: z.enum(['list', 'add', 'update', 'remove']),
+  memberId: z.string().uuid().optional()
+}).refine(data => data.operation === 'list' || data.operation === 'add' || Boolean(data.memberId), {
+  message: "A memberId is required for 'update' and 'remove'.",
+  path: ['memberId']
+});
+
+export interface ManageFamilyMembersResult {
+  success: boolean;
+  operation?: 'list' | 'add' | 'update' | 'remove';
+  // The household after the operation
+  members?: FamilyMember[];
+  member?: FamilyMember;
+  error?: string;
+}
+
+// Main tool implementation
+export const manageFamilyMembersTool = tool({
+  description: "Add, update, remove or list the user's family members (spouse, children, parents, parents-in-law, siblings) with their date of birth, income, health conditions and whether they depend on the user. The household is used to size life cover, build health floaters and choose nominees.",
+  parameters: manageFamilyMembersSchema,
+  execute: async (params): Promise<ManageFamilyMembersResult> => {
+    try {
+      // Validate parameters using Zod
+      const { operation, memberId, ...fields } = manageFamilyMembersZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      if (operation === 'add') {
+        const [member] = await addFamilyMembers(supabase, user.id, [familyMemberInputSchema.parse(fields)]);
+
+        // A spouse on record means the user is married
+        if (member.relation === 'spouse') {
+          const { error: profileError } = await supabase
+            .from('user_profile')
+            .update({ is_married: true })
+            .eq('user_id', user.id);
+
+          if (profileError) {
+            console.error('[manageFamilyMembers] Failed to update marital status:', profileError);
+          }
+        }
+
+        return { success: true, operation, member, members: await listFamilyMembers(supabase, user.id) };
+      }
+
+      if (operation === 'update') {
+        const member = await updateFamilyMember(supabase, user.id, memberId!, fields);
+        if (!member) {
+          return { success: false, operation, error: 'Family member not found' };
+        }
+        return { success: true, operation, member, members: await listFamilyMembers(supabase, user.id) };
+      }
+
+      if (operation === 'remove') {
+        const removed = await removeFamilyMember(supabase, user.id, memberId!);
+        if (!removed) {
+          return { success: false, operation, error: 'Family member not found' };
+        }
+      }
+
+      return { success: true, operation, members: await listFamilyMembers(supabase, user.id) };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[manageFamilyMembers] Error:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default manageFamilyMembersTool;
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { InsurerScorecard, MIN_SOLVENCY_RATIO, financialYearSchema } from '@/lib/insurance/scorecards/schema';
+import { findInsurer, latestScorecard, listScorecards } from '@/lib/insurance/scorecards/repository';
+
+// Schema for the tool
+export const getInsurerScorecardSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    insurer: {
+      type: 'string',
+      description: 'Insurer as the user named it, e.g. "HDFC" or "LIC"; omit to list every insurer'
+    },
+    financialYear: {
+      type: 'string',
+      description: 'Financial year such as "2023-24"; defaults to every year for one insurer, or the latest year for all'
+    }
+  },
+  additionalProperties: false,
+  description: 'Look up life insurers\' claim settlement, amount settled, solvency and complaints figures by financial year'
+});
+
+// Zod schema for validation
+const getInsurerScorecardZodSchema = z.object({
+  insurer: z.string().trim().min(1).optional(),
+  financialYear: financialYearSchema.optional()
+});
+
+export interface InsurerScorecardResult {
+  success: boolean;
+  status: 'ready' | 'error';
+  // Newest first within each insurer
+  scorecards?: InsurerScorecard[];
+  // Years with any published figures, newest first
+  availableYears?: string[];
+  minSolvencyRatio?: number;
+  error?: string;
+}
+
+// Main tool implementation
+export const getInsurerScorecardTool = tool({
+  description: 'Look up the published track record of life insurers: claim settlement ratio (by number), amount settled ratio, solvency ratio and complaints per 10,000 policies, for each financial year, with the source of each figure. Use for "how good is HDFC at paying claims?", "is LIC financially sound?" or "which insurer has the fewest complaints?".',
+  parameters: getInsurerScorecardSchema,
+  execute: async (params): Promise<InsurerScorecardResult> => {
+    try {
+      // Validate parameters using Zod
+      const { insurer: insurerQuery, financialYear } = getInsurerScorecardZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const all = await listScorecards(supabase);
+      const insurers = Array.from(new Set(all.map(scorecard => scorecard.insurer)));
+      const availableYears = Array.from(new Set(all.map(scorecard => scorecard.financialYear))).sort().reverse();
+
+      let scorecards: InsurerScorecard[];
+      if (insurerQuery) {
+        const insurer = findInsurer(all, insurerQuery);
+        if (!insurer) {
+          return {
+            success: false,
+            status: 'error',
+            error: `No scorecard for "${insurerQuery}". Insurers with scorecards: ${insurers.join(', ')}.`
+          };
+        }
+        scorecards = all.filter(scorecard =>
+          scorecard.insurer === insurer && (!financialYear || scorecard.financialYear === financialYear)
+        );
+      } else if (financialYear) {
+        scorecards = all.filter(scorecard => scorecard.financialYear === financialYear);
+      } else {
+        scorecards = insurers
+          .map(insurer => latestScorecard(all, insurer))
+          .filter((scorecard): scorecard is InsurerScorecard => scorecard !== null);
+      }
+
+      if (scorecards.length === 0) {
+        return {
+          success: false,
+          status: 'error',
+          error: `No scorecards for ${financialYear}. Years available: ${availableYears.join(', ')}.`
+        };
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        scorecards,
+        availableYears,
+        minSolvencyRatio: MIN_SOLVENCY_RATIO
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[getInsurerScorecard] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default getInsurerScorecardTool;
@@ -0,0 +1,335 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { listProducts } from '@/lib/insurance/catalog/repository';
+import {
+  CoverageCap,
+  InsuranceProduct,
+  calculateSmartPolicyTerm,
+  generateInsuranceProducts,
+  hasMinimumRequiredFields,
+  resolveCoverageAmount,
+  resolveOccupationClass
+} from './showLifeInsuranceRecommendations';
+import { loadNeedsContext } from './coverageNeeds';
+
+// Schema for the tool
+export const premiumWhatIfSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    scenarios: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 3,
+      description: 'Up to 3 what-if scenarios, each changing one or more of the fields below from the user\'s current profile',
+      items: {
+        type: 'object',
+        properties: {
+          label: {
+            type: 'string',
+            description: 'Short name for the scenario, e.g. "Quit smoking"; generated from the changes when omitted'
+          },
+          smoker: {
+            type: 'boolean',
+            description: 'Price as a smoker (true) or non-smoker (false)'
+          },
+          policyTerm: {
+            type: 'number',
+            minimum: 5,
+            maximum: 50,
+            description: 'Policy term in years'
+          },
+          coverageAmount: {
+            type: 'number',
+            minimum: 100000,
+            description: 'Sum assured in rupees'
+          },
+          ageAtEntry: {
+            type: 'number',
+            minimum: 18,
+            maximum: 65,
+            description: 'Age when the policy starts, e.g. 35 for "what if I wait until 35?"'
+          }
+        },
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['scenarios'],
+  additionalProperties: false,
+  description: 'Reprice life insurance plans with changed profile details to show how premiums would change'
+});
+
+// Zod schema for validation
+const whatIfScenarioSchema = z.object({
+  label: z.string().trim().min(1).max(60).optional(),
+  smoker: z.boolean().optional(),
+  policyTerm: z.number().int().min(5).max(50).optional(),
+  coverageAmount: z.number().min(100000).optional(),
+  ageAtEntry: z.number().int().min(18).max(65).optional()
+}).refine(
+  scenario => scenario.smoker !== undefined || scenario.policyTerm !== undefined
+    || scenario.coverageAmount !== undefined || scenario.ageAtEntry !== undefined,
+  'Each scenario must change smoking, term, coverage or age at entry'
+);
+
+const premiumWhatIfZodSchema = z.object({
+  scenarios: z.array(whatIfScenarioSchema).min(1).max(3, 'Compare at most 3 scenarios at a time')
+});
+
+export type WhatIfChanges = Omit<z.infer<typeof whatIfScenarioSchema>, 'label'>;
+
+// The profile details a set of prices was worked out on
+export interface WhatIfAssumptions {
+  label: string;
+  smoker: boolean;
+  policyTerm: number;
+  coverageAmount: number;
+  age: number;
+}
+
+export interface WhatIfPrice {
+  available: boolean;
+  annualPremium?: number;
+  monthlyPremium?: number;
+  // Term actually quoted; plans round to the closest term they offer
+  policyTerm?: number;
+  // Annual premium over the whole term
+  totalPremium?: number;
+  // Why the plan cannot be bought in this scenario
+  reasons?: string[];
+}
+
+export interface WhatIfScenarioPrice extends WhatIfPrice {
+  // Against the current profile; negative when cheaper
+  annualDelta?: number;
+  annualDeltaPercent?: number;
+  totalDelta?: number;
+}
+
+export interface WhatIfProductRow {
+  productId: string;
+  name: string;
+  company: string;
+  current: WhatIfPrice;
+  scenarios: WhatIfScenarioPrice[];
+}
+
+export interface PremiumWhatIfResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  current?: WhatIfAssumptions;
+  scenarios?: WhatIfAssumptions[];
+  rows?: WhatIfProductRow[];
+  // Set when the default cover was cut to the largest insurable amount
+  coverageCap?: CoverageCap;
+  summary?: string;
+  missingFields?: string[];
+  error?: string;
+}
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+function formatCover(amount: number): string {
+  if (amount >= 10000000) {
+    return `₹${Number((amount / 10000000).toFixed(2))} Cr`;
+  }
+  return `₹${Number((amount / 100000).toFixed(1))} L`;
+}
+
+// Date of birth that makes the user the given age today, keeping their
+// birthday, so the pricing and underwriting see the new entry age
+export function dobForAge(dob: string, age: number): string {
+  const date = new Date(dob);
+  date.setFullYear(date.getFullYear() + ageFromDob(dob) - age);
+  return date.toISOString().split('T')[0];
+}
+
+function describeChanges(changes: WhatIfChanges): string {
+  const parts: string[] = [];
+  if (changes.smoker !== undefined) parts.push(changes.smoker ? 'Smoker' : 'Non-smoker');
+  if (changes.policyTerm !== undefined) parts.push(`${changes.policyTerm}-year term`);
+  if (changes.coverageAmount !== undefined) parts.push(`${formatCover(changes.coverageAmount)} cover`);
+  if (changes.ageAtEntry !== undefined) parts.push(`Starting at ${changes.ageAtEntry}`);
+  return parts.join(', ');
+}
+
+function priceFor(
+  productId: string,
+  recommendations: InsuranceProduct[],
+  excluded: { productId: string; reasons: string[] }[]
+): WhatIfPrice {
+  const quote = recommendations.find(product => product.productId === productId);
+  if (!quote) {
+    return {
+      available: false,
+      reasons: excluded.find(product => product.productId === productId)?.reasons ?? []
+    };
+  }
+  return {
+    available: true,
+    annualPremium: quote.annualPremium,
+    monthlyPremium: quote.monthlyPremium,
+    policyTerm: quote.policyTerm,
+    totalPremium: quote.annualPremium * quote.policyTerm
+  };
+}
+
+function withDelta(price: WhatIfPrice, current: WhatIfPrice): WhatIfScenarioPrice {
+  if (!price.available || !current.available) return price;
+  const annualDelta = price.annualPremium! - current.annualPremium!;
+  return {
+    ...price,
+    annualDelta,
+    annualDeltaPercent: Math.round((annualDelta / current.annualPremium!) * 1000) / 10,
+    totalDelta: price.totalPremium! - current.totalPremium!
+  };
+}
+
+// One line per scenario: the average change across plans priced both ways
+function summarise(scenarios: WhatIfAssumptions[], rows: WhatIfProductRow[]): string {
+  return scenarios.map((scenario, index) => {
+    const priced = rows.map(row => row.scenarios[index]).filter(price => price.annualDelta !== undefined);
+    if (priced.length === 0) {
+      return `${scenario.label}: no plan can be priced both ways.`;
+    }
+    const averageDelta = priced.reduce((total, price) => total + price.annualDelta!, 0) / priced.length;
+    const averagePercent = priced.reduce((total, price) => total + price.annualDeltaPercent!, 0) / priced.length;
+    const unavailable = rows.filter(row => row.current.available && !row.scenarios[index].available).length;
+    const direction = averageDelta < 0 ? 'lower' : 'higher';
+
+    return `${scenario.label}: premiums ${Math.abs(Math.round(averagePercent))}% ${direction} on average ` +
+      `(${formatRupees(Math.abs(averageDelta))} a year ${averageDelta < 0 ? 'less' : 'more'})` +
+      (unavailable > 0 ? `; ${unavailable} plan${unavailable === 1 ? '' : 's'} no longer available.` : '.');
+  }).join(' ');
+}
+
+// Main tool implementation
+export const premiumWhatIfTool = tool({
+  description: 'Show how life insurance premiums would change if something about the user were different - quitting smoking, a shorter or longer term, more or less cover, or starting at a different age - repricing each plan without changing their saved profile. Use for "how much cheaper if I quit smoking?" or "what if I take 25 years instead of 30?".',
+  parameters: premiumWhatIfSchema,
+  execute: async (params): Promise<PremiumWhatIfResult> => {
+    try {
+      // Validate parameters using Zod
+      const { scenarios } = premiumWhatIfZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const { valid, missing } = hasMinimumRequiredFields(userProfile);
+      if (!valid) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: missing,
+          error: `Please provide your ${missing.join(' and ')} first using the life insurance form.`
+        };
+      }
+
+      const profile = { ...userProfile, occupation_class: resolveOccupationClass(userProfile) };
+      const catalog = await listProducts(supabase, { line: 'term_life' });
+      const { coverageAmount, coverageCap } = resolveCoverageAmount(profile, await loadNeedsContext(supabase, user.id));
+
+      // The term is pinned so a scenario that only changes age is not also
+      // repriced on the different default term for that age
+      const policyTerm = profile.policy_term || calculateSmartPolicyTerm(profile);
+      const current: WhatIfAssumptions = {
+        label: 'Current profile',
+        smoker: profile.smoking_status === true,
+        policyTerm,
+        coverageAmount,
+        age: ageFromDob(profile.dob)
+      };
+      const currentQuotes = generateInsuranceProducts({ ...profile, policy_term: policyTerm }, catalog, coverageAmount);
+
+      // Scenario profiles are copies; nothing is written back
+      const scenarioAssumptions: WhatIfAssumptions[] = [];
+      const scenarioQuotes = scenarios.map(({ label, ...changes }) => {
+        const assumptions: WhatIfAssumptions = {
+          label: label || describeChanges(changes),
+          smoker: changes.smoker ?? current.smoker,
+          policyTerm: changes.policyTerm ?? current.policyTerm,
+          coverageAmount: changes.coverageAmount ?? current.coverageAmount,
+          age: changes.ageAtEntry ?? current.age
+        };
+        scenarioAssumptions.push(assumptions);
+
+        return generateInsuranceProducts({
+          ...profile,
+          smoking_status: assumptions.smoker,
+          policy_term: assumptions.policyTerm,
+          dob: dobForAge(profile.dob, assumptions.age)
+        }, catalog, assumptions.coverageAmount);
+      });
+
+      const rows: WhatIfProductRow[] = catalog.map(product => {
+        const currentPrice = priceFor(product.id, currentQuotes.recommendations, currentQuotes.excludedProducts);
+        return {
+          productId: product.id,
+          name: product.name,
+          company: product.insurer,
+          current: currentPrice,
+          scenarios: scenarioQuotes.map(quotes =>
+            withDelta(priceFor(product.id, quotes.recommendations, quotes.excludedProducts), currentPrice)
+          )
+        };
+      })
+        // Plans the user cannot buy either way add nothing to the comparison
+        .filter(row => row.current.available || row.scenarios.some(price => price.available));
+
+      return {
+        success: true,
+        status: 'ready',
+        current,
+        scenarios: scenarioAssumptions,
+        rows,
+        coverageCap,
+        summary: summarise(scenarioAssumptions, rows)
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[premiumWhatIf] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default premiumWhatIfTool;
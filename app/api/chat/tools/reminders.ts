@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { listPolicies } from '@/lib/insurance/policies/repository';
+import { ReminderPeriod, reminderPeriodSchema } from '@/lib/insurance/reminders/schema';
+import { Reminder, reminderWindow, upcomingReminders } from '@/lib/insurance/reminders/schedule';
+import { getCalendarToken } from '@/lib/insurance/reminders/repository';
+
+// Schema for the tool
+export const getUpcomingRemindersSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    period: {
+      type: 'string',
+      enum: ['next_30_days', 'next_90_days', 'this_month', 'this_quarter', 'next_quarter', 'this_financial_year'],
+      description: "Period to list what falls due in (default 'next_90_days'). Quarters follow the financial year: Apr-Jun, Jul-Sep, Oct-Dec, Jan-Mar."
+    }
+  },
+  additionalProperties: false,
+  description: "List premium dues, renewals and maturities on the user's recorded policies"
+});
+
+// Zod schema for validation
+const getUpcomingRemindersZodSchema = z.object({
+  period: reminderPeriodSchema.default('next_90_days')
+});
+
+export interface GetUpcomingRemindersResult {
+  success: boolean;
+  period?: ReminderPeriod;
+  from?: string;
+  to?: string;
+  reminders?: Reminder[];
+  // Sum of the premiums due in the period
+  totalDue?: number;
+  // Relative URL of the user's calendar feed, for subscribing
+  calendarPath?: string;
+  error?: string;
+}
+
+// Main tool implementation
+export const getUpcomingRemindersTool = tool({
+  description: "List what falls due on the user's existing policies in a period: premium instalments, renewals and maturities, with amounts and grace periods. Use for questions like \"what's due this quarter?\" or \"when is my next premium?\".",
+  parameters: getUpcomingRemindersSchema,
+  execute: async (params): Promise<GetUpcomingRemindersResult> => {
+    try {
+      // Validate parameters using Zod
+      const { period } = getUpcomingRemindersZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const window = reminderWindow(period);
+      const policies = await listPolicies(supabase, user.id, { status: 'active' });
+      const reminders = upcomingReminders(policies, window);
+
+      // The feed link is a convenience; the list still shows without it
+      let calendarPath: string | undefined;
+      try {
+        calendarPath = `/api/reminders/calendar?token=${await getCalendarToken(supabase, user.id)}`;
+      } catch (tokenError) {
+        console.error('[getUpcomingReminders] Failed to get calendar token:', tokenError);
+      }
+
+      return {
+        success: true,
+        period,
+        ...window,
+        reminders,
+        totalDue: reminders.reduce((total, reminder) => total + (reminder.amount || 0), 0),
+        calendarPath
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[getUpcomingReminders] Error:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default getUpcomingRemindersTool;
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { findProduct, listProducts } from '@/lib/insurance/catalog/repository';
+import { ReturnOfPremiumComparison, compareReturnOfPremium } from '@/lib/insurance/returnOfPremium';
+import {
+  calculateSmartPolicyTerm,
+  generateInsuranceProducts,
+  hasMinimumRequiredFields,
+  resolveCoverageAmount,
+  resolveOccupationClass
+} from './showLifeInsuranceRecommendations';
+import { loadNeedsContext } from './coverageNeeds';
+
+// Schema for the tool
+export const compareReturnOfPremiumSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    product: {
+      type: 'string',
+      description: 'Plan to compare, by insurer or plan name; defaults to every plan with a return of premium variant'
+    },
+    expectedReturn: {
+      type: 'number',
+      minimum: 0,
+      maximum: 20,
+      description: 'Assumed annual return in percent on the invested difference (default 8)'
+    },
+    coverageAmount: {
+      type: 'number',
+      minimum: 100000,
+      description: 'Sum assured; defaults to the user\'s preference or needs-based cover'
+    },
+    policyTerm: {
+      type: 'number',
+      minimum: 5,
+      maximum: 50,
+      description: 'Policy term in years; defaults to the user\'s preference or the suggested term for their age'
+    }
+  },
+  additionalProperties: false,
+  description: 'Compare a return of premium plan with pure term cover plus investing the difference'
+});
+
+// Zod schema for validation
+const compareReturnOfPremiumZodSchema = z.object({
+  product: z.string().trim().min(1).optional(),
+  expectedReturn: z.number().min(0).max(20).default(8),
+  coverageAmount: z.number().min(100000).optional(),
+  policyTerm: z.number().int().min(5).max(50).optional()
+});
+
+export interface ReturnOfPremiumPlan {
+  productId: string;
+  name: string;
+  company: string;
+  coverageAmount: number;
+  policyTerm: number;
+  // Age at which the refund is paid
+  maturityAge: number;
+  termAnnualPremium: number;
+  ropAnnualPremium: number;
+  comparison: ReturnOfPremiumComparison;
+}
+
+export interface CompareReturnOfPremiumResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  // Percent a year, as assumed for the invested difference
+  expectedReturn?: number;
+  plans?: ReturnOfPremiumPlan[];
+  // Plans with a return of premium variant the user cannot be offered, and why
+  unavailable?: { productId: string; name: string; company: string; reasons: string[] }[];
+  summary?: string;
+  missingFields?: string[];
+  error?: string;
+}
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+function summarise(plan: ReturnOfPremiumPlan, expectedReturn: number): string {
+  const { comparison } = plan;
+  const parts = [
+    `${plan.company} ${plan.name} with return of premium costs ${formatRupees(comparison.extraPerYear)} a year more ` +
+      `than pure term (${formatRupees(comparison.totalExtraPaid)} in all) and refunds ${formatRupees(comparison.maturityBenefit)} at ${plan.maturityAge}.`,
+    `Investing the difference at ${expectedReturn}% would grow to ${formatRupees(comparison.investedCorpus)}, ` +
+      (comparison.advantage >= 0
+        ? `${formatRupees(comparison.advantage)} more than the refund.`
+        : `${formatRupees(-comparison.advantage)} less than the refund.`)
+  ];
+  if (comparison.ropImpliedReturn !== null) {
+    parts.push(`The refund works out to ${(comparison.ropImpliedReturn * 100).toFixed(1)}% a year on the extra premium.`);
+  }
+  return parts.join(' ');
+}
+
+// Main tool implementation
+export const compareReturnOfPremiumTool = tool({
+  description: 'Compare a return of premium (ROP) term plan, which refunds the premiums if the user survives the term, with buying pure term cover and investing the premium difference at an assumed return. Prices both variants for the user and shows the refund, the invested corpus and the return ROP effectively earns. Use for "is return of premium worth it?" or "ROP vs term".',
+  parameters: compareReturnOfPremiumSchema,
+  execute: async (params): Promise<CompareReturnOfPremiumResult> => {
+    try {
+      // Validate parameters using Zod
+      const validatedParams = compareReturnOfPremiumZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const { valid, missing } = hasMinimumRequiredFields(userProfile);
+      if (!valid) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: missing,
+          error: `Please provide your ${missing.join(' and ')} first using the life insurance form.`
+        };
+      }
+
+      const profile = { ...userProfile, occupation_class: resolveOccupationClass(userProfile) };
+      const catalog = await listProducts(supabase, { line: 'term_life' });
+      const ropCatalog = catalog.filter(product => product.returnOfPremium);
+      const ropNames = ropCatalog.map(product => `${product.insurer} ${product.name}`).join(', ') || 'none';
+
+      let products = ropCatalog;
+      if (validatedParams.product) {
+        const product = findProduct(catalog, validatedParams.product);
+        if (!product) {
+          return {
+            success: false,
+            status: 'error',
+            error: `No plan matches "${validatedParams.product}". Plans with return of premium: ${ropNames}.`
+          };
+        }
+        if (!product.returnOfPremium) {
+          return {
+            success: false,
+            status: 'error',
+            error: `${product.insurer} ${product.name} has no return of premium variant. Plans with one: ${ropNames}.`
+          };
+        }
+        products = [product];
+      }
+      if (products.length === 0) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'None of our plans currently offer a return of premium variant.'
+        };
+      }
+
+      const coverageAmount = validatedParams.coverageAmount
+        ?? resolveCoverageAmount(profile, await loadNeedsContext(supabase, user.id)).coverageAmount;
+      const policyTerm = validatedParams.policyTerm ?? (profile.policy_term || calculateSmartPolicyTerm(profile));
+      const age = ageFromDob(profile.dob);
+
+      const { recommendations, excludedProducts } = generateInsuranceProducts(
+        { ...profile, policy_term: policyTerm },
+        products,
+        coverageAmount
+      );
+
+      const unavailable: NonNullable<CompareReturnOfPremiumResult['unavailable']> = excludedProducts.map(product => ({
+        productId: product.productId,
+        name: product.name,
+        company: product.company,
+        reasons: product.reasons
+      }));
+
+      const plans: ReturnOfPremiumPlan[] = [];
+      for (const quote of recommendations) {
+        if (!quote.returnOfPremium) {
+          unavailable.push({
+            productId: quote.productId,
+            name: quote.name,
+            company: quote.company,
+            reasons: [`Return of premium is not offered on a ${quote.policyTerm}-year term`]
+          });
+          continue;
+        }
+
+        plans.push({
+          productId: quote.productId,
+          name: quote.name,
+          company: quote.company,
+          coverageAmount,
+          policyTerm: quote.policyTerm,
+          maturityAge: age + quote.policyTerm,
+          termAnnualPremium: quote.annualPremium,
+          ropAnnualPremium: quote.returnOfPremium.annualPremium,
+          // Regular pay: premiums, and so the refund, run for the whole term
+          comparison: compareReturnOfPremium({
+            termPremium: quote.annualPremium,
+            ropPremium: quote.returnOfPremium.annualPremium,
+            maturityBenefit: quote.returnOfPremium.maturityBenefit,
+            premiumPaymentTerm: quote.policyTerm,
+            policyTerm: quote.policyTerm,
+            expectedReturn: validatedParams.expectedReturn / 100
+          })
+        });
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        expectedReturn: validatedParams.expectedReturn,
+        plans,
+        unavailable,
+        summary: plans.length > 0
+          ? plans.map(plan => summarise(plan, validatedParams.expectedReturn)).join(' ')
+          : 'None of the return of premium plans can be offered on the current profile.'
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[compareReturnOfPremium] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default compareReturnOfPremiumTool;
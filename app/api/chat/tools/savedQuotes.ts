@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { getQuote, listQuotes, updateQuoteStatus } from '@/lib/insurance/quotes/repository';
+import { SavedQuote, quoteLineSchema } from '@/lib/insurance/quotes/schema';
+
+// Schema for the tool
+export const manageSavedQuotesSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    operation: {
+      type: 'string',
+      enum: ['list', 'open', 'accept', 'withdraw'],
+      description: "'list' the user's saved quotes, 'open' one to show it again, or mark one as 'accept'ed or 'withdraw'n."
+    },
+    quoteId: {
+      type: 'string',
+      description: "The quote ID. Required for 'open', 'accept' and 'withdraw'."
+    },
+    line: {
+      type: 'string',
+      enum: ['term_life', 'health', 'motor', 'travel', 'home'],
+      description: "Only list quotes for this insurance line"
+    }
+  },
+  required: ['operation'],
+  additionalProperties: false,
+  description: "List, reopen, accept or withdraw the user's saved insurance quotes"
+});
+
+// Zod schema for validation
+const manageSavedQuotesZodSchema = z.object({
+  operation: z.enum(['list', 'open', 'accept', 'withdraw']),
+  quoteId: z.string().uuid().optional(),
+  line: quoteLineSchema.optional()
+}).refine(data => data.operation === 'list' || Boolean(data.quoteId), {
+  message: "A quoteId is required for 'open', 'accept' and 'withdraw'."
+});
+
+// Compact view of a quote for listing
+export interface SavedQuoteSummary {
+  id: string;
+  line: SavedQuote['line'];
+  status: SavedQuote['status'];
+  createdAt: string;
+  validUntil: string;
+  productCount: number;
+  coverageAmount?: number;
+  // Travel covers are quoted in US dollars; everything else is in rupees
+  coverageCurrency?: 'INR' | 'USD';
+  lowestAnnualPremium?: number;
+  // Travel plans are priced for the trip rather than a year
+  lowestTripPremium?: number;
+}
+
+export interface ManageSavedQuotesResult {
+  success: boolean;
+  operation?: 'list' | 'open' | 'accept' | 'withdraw';
+  quotes?: SavedQuoteSummary[];
+  quote?: SavedQuote;
+  error?: string;
+}
+
+// Helper function to summarise a quote without its full product payload
+function summariseQuote(quote: SavedQuote): SavedQuoteSummary {
+  const premiums = quote.products
+    .map(product => (product as { annualPremium?: number }).annualPremium)
+    .filter((premium): premium is number => typeof premium === 'number');
+  const tripPremiums = quote.products
+    .map(product => (product as { totalPremium?: number }).totalPremium)
+    .filter((premium): premium is number => typeof premium === 'number');
+
+  return {
+    id: quote.id,
+    line: quote.line,
+    status: quote.status,
+    createdAt: quote.createdAt,
+    validUntil: quote.validUntil,
+    productCount: quote.products.length,
+    coverageAmount: typeof quote.details.coverageAmount === 'number' ? quote.details.coverageAmount : undefined,
+    coverageCurrency: quote.details.coverageCurrency === 'USD' ? 'USD' : 'INR',
+    lowestAnnualPremium: premiums.length > 0 ? Math.min(...premiums) : undefined,
+    lowestTripPremium: quote.line === 'travel' && tripPremiums.length > 0 ? Math.min(...tripPremiums) : undefined
+  };
+}
+
+// Main tool implementation
+export const manageSavedQuotesTool = tool({
+  description: "List the user's saved insurance quotes, reopen a past quote exactly as it was priced, or mark a quote as accepted or withdrawn.",
+  parameters: manageSavedQuotesSchema,
+  execute: async (params): Promise<ManageSavedQuotesResult> => {
+    try {
+      // Validate parameters using Zod
+      const { operation, quoteId, line } = manageSavedQuotesZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      if (operation === 'list') {
+        const quotes = await listQuotes(supabase, user.id, { line, limit: 20 });
+        return { success: true, operation, quotes: quotes.map(summariseQuote) };
+      }
+
+      if (operation === 'open') {
+        const quote = await getQuote(supabase, user.id, quoteId!);
+        if (!quote) {
+          return { success: false, operation, error: 'Quote not found' };
+        }
+        return { success: true, operation, quote };
+      }
+
+      const { quote, error } = await updateQuoteStatus(
+        supabase,
+        user.id,
+        quoteId!,
+        operation === 'accept' ? 'accepted' : 'withdrawn'
+      );
+
+      if (error === 'not_found') {
+        return { success: false, operation, error: 'Quote not found' };
+      }
+      if (error === 'not_active') {
+        return { success: false, operation, error: `This quote is ${quote?.status} and can no longer be changed` };
+      }
+
+      return { success: true, operation, quote: quote! };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[manageSavedQuotes] Error:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default manageSavedQuotesTool;
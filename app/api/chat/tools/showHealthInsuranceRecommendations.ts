@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import {
+  CityTier,
+  CoverType,
+  HealthMember,
+  HealthPreferences,
+  HealthProduct,
+  RoomRentLimit,
+  WaitingPeriods,
+  coverTypeSchema,
+  roomRentLimitSchema
+} from '@/lib/insurance/health/schema';
+import { closestSumInsured, healthEligibilityIssues, listHealthProducts } from '@/lib/insurance/health/repository';
+import {
+  DEFAULT_HEALTH_PRICING,
+  MemberPremium,
+  calculateHealthPremium,
+  cityTier,
+  recommendedSumInsured
+} from '@/lib/insurance/health/pricing';
+import { UnderwritingDecision, underwrite } from '@/lib/insurance/underwriting/engine';
+import { HEALTH_UNDERWRITING_RULES } from '@/lib/insurance/underwriting/healthRules';
+import { createQuote, quoteValidUntil } from '@/lib/insurance/quotes/repository';
+import { HealthProfileData, resolveHealthMembers, savedHealthPreferences } from './collectHealthInsuranceInfo';
+import { ExcludedProduct } from './showLifeInsuranceRecommendations';
+
+// Schema for the tool - answers are read from the profile, overrides are optional
+export const showHealthInsuranceRecommendationsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    sumInsured: {
+      type: 'number',
+      minimum: 300000,
+      description: 'Optional sum insured to quote, e.g. 1000000 for "₹10 lakh cover"; defaults to the saved or suggested amount'
+    },
+    coverType: {
+      type: 'string',
+      enum: ['individual', 'family_floater'],
+      description: 'Optional override of the saved cover type'
+    }
+  },
+  additionalProperties: false,
+  description: 'Show personalized health insurance recommendations based on the saved health form answers'
+});
+
+// Zod schema for validation
+const showHealthInsuranceRecommendationsZodSchema = z.object({
+  sumInsured: z.number().min(300000).optional(),
+  coverType: coverTypeSchema.optional()
+});
+
+export interface PreExistingCover {
+  relation: HealthMember['relation'];
+  condition: string;
+  // Months from the policy start before claims for this condition are paid
+  coveredAfterMonths: number;
+}
+
+export interface HealthInsuranceProduct {
+  id: string;
+  // Health plan this quote was priced from
+  productId: string;
+  name: string;
+  company: string;
+  logo?: string;
+  coverType: CoverType;
+  sumInsured: number;
+  annualPremium: number;
+  monthlyPremium: number;
+  memberPremiums: MemberPremium[];
+  roomRent: RoomRentLimit;
+  roomRentPercent?: number;
+  waitingPeriods: WaitingPeriods;
+  preExistingCover: PreExistingCover[];
+  copay: HealthProduct['copay'];
+  features: string[];
+  exclusions: string[];
+  claimSettlementRatio: string;
+  // Underwriting outcome the premium was priced on
+  underwriting: {
+    decision: Extract<UnderwritingDecision, 'accept' | 'load'>;
+    reasons: string[];
+  };
+}
+
+// Extras saved with a health quote alongside the priced products
+export interface HealthQuoteDetails {
+  excludedProducts: ExcludedProduct[];
+  // Requested sum insured; named to match the other lines' quote summaries
+  coverageAmount: number;
+  coverType: CoverType;
+  cityTier: CityTier;
+  members: HealthMember[];
+}
+
+export interface ShowHealthRecommendationsResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  // Saved quote for this run, if it could be stored
+  quoteId?: string;
+  quoteValidUntil?: string;
+  recommendations?: HealthInsuranceProduct[];
+  excludedProducts?: ExcludedProduct[];
+  sumInsured?: number;
+  coverType?: CoverType;
+  cityTier?: CityTier;
+  members?: HealthMember[];
+  userData?: HealthProfileData;
+  error?: string;
+}
+
+const RELATION_LABELS: Record<HealthMember['relation'], string> = {
+  self: 'You',
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  parent_in_law: 'Parent-in-law'
+};
+
+// Room-rent limits from least to most restrictive, for matching the user's preference
+const ROOM_RENT_ORDER = roomRentLimitSchema.options;
+
+// Helper function to check a plan's room-rent limit against the user's preference
+function roomRentIssue(product: HealthProduct, preference: HealthPreferences['roomRent']): string | null {
+  if (preference === 'any') return null;
+  if (ROOM_RENT_ORDER.indexOf(product.roomRent) <= ROOM_RENT_ORDER.indexOf(preference)) return null;
+  return preference === 'no_limit'
+    ? 'Has a room-rent limit; you asked for no capping'
+    : 'Room rent is capped below a single private room';
+}
+
+// Helper function to generate health quotes from the plan list. Plans ruled
+// out by their limits or by underwriting are returned separately with the
+// reasons, as on the life flow.
+export function generateHealthProducts(
+  profile: HealthProfileData,
+  products: HealthProduct[],
+  options: { coverType: CoverType; members: HealthMember[]; sumInsured: number; cityTier: CityTier; roomRent: HealthPreferences['roomRent'] }
+): { recommendations: HealthInsuranceProduct[]; excludedProducts: ExcludedProduct[] } {
+  const { coverType, members, sumInsured } = options;
+  const recommendations: HealthInsuranceProduct[] = [];
+  const excludedProducts: ExcludedProduct[] = [];
+
+  for (const product of products) {
+    const issues = healthEligibilityIssues(product, { coverType, members, sumInsured });
+    const roomRent = roomRentIssue(product, options.roomRent);
+    if (roomRent) issues.push(roomRent);
+
+    const quotedSumInsured = closestSumInsured(product, sumInsured);
+    if (issues.length > 0 || quotedSumInsured === null) {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: 'ineligible',
+        reasons: issues
+      });
+      continue;
+    }
+
+    // Underwrite each member on their own declarations; one declined member
+    // rules the plan out for the family
+    const results = members.map(member => underwrite(HEALTH_UNDERWRITING_RULES, {
+      age: member.age,
+      annualIncome: 0,
+      sumAssured: quotedSumInsured,
+      smoker: member.relation === 'self' && profile.smoking_status === true,
+      conditions: member.conditions
+    }, product.id));
+
+    const excluded = results.findIndex(result => result.decision === 'postpone' || result.decision === 'decline');
+    if (excluded !== -1) {
+      const decision = results[excluded].decision as 'postpone' | 'decline';
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision,
+        reasons: results.flatMap((result, index) => result.outcomes
+          .filter(outcome => outcome.decision === decision)
+          .map(outcome => `${RELATION_LABELS[members[index].relation]}: ${outcome.reason}`))
+      });
+      continue;
+    }
+
+    const premium = calculateHealthPremium({
+      coverType,
+      members,
+      sumInsured: quotedSumInsured,
+      cityTier: options.cityTier,
+      roomRent: product.roomRent,
+      copay: product.copay,
+      loadings: results.map(result => result.extraMortality)
+    }, { ...DEFAULT_HEALTH_PRICING, ...product.pricing });
+
+    const preExistingCover: PreExistingCover[] = members.flatMap(member => member.conditions.map(condition => ({
+      relation: member.relation,
+      condition,
+      coveredAfterMonths: product.waitingPeriods.preExistingMonths
+    })));
+
+    // Adjust features based on the quote
+    const features = [...product.features];
+    if (quotedSumInsured !== sumInsured) {
+      features.push(`Quoted for ₹${quotedSumInsured.toLocaleString('en-IN')} (closest sum insured offered)`);
+    }
+    if (product.copay && members.some(member => member.age >= product.copay!.fromAge)) {
+      features.push(product.copay.fromAge > 0
+        ? `${product.copay.percent}% co-payment on claims for members aged ${product.copay.fromAge}+`
+        : `${product.copay.percent}% co-payment on every claim`);
+    }
+    const loaded = results.some(result => result.decision === 'load');
+    if (loaded) {
+      features.push('Premium includes an underwriting loading for declared conditions');
+    }
+
+    recommendations.push({
+      id: randomUUID(),
+      productId: product.id,
+      name: product.name,
+      company: product.insurer,
+      logo: product.logo,
+      coverType,
+      sumInsured: quotedSumInsured,
+      annualPremium: premium.annualPremium,
+      monthlyPremium: premium.monthlyPremium,
+      memberPremiums: premium.members,
+      roomRent: product.roomRent,
+      roomRentPercent: product.roomRentPercent,
+      waitingPeriods: product.waitingPeriods,
+      preExistingCover,
+      copay: product.copay,
+      features,
+      exclusions: product.exclusions,
+      claimSettlementRatio: product.claimSettlementRatio,
+      underwriting: {
+        decision: loaded ? 'load' : 'accept',
+        reasons: results.flatMap((result, index) => result.reasons
+          .map(reason => `${RELATION_LABELS[members[index].relation]}: ${reason}`))
+      }
+    });
+  }
+
+  return { recommendations, excludedProducts };
+}
+
+// Main tool implementation
+export const showHealthInsuranceRecommendationsTool = tool({
+  description: 'STEP 2 of 2: Show personalized health insurance recommendations (premiums per plan, room-rent limits, waiting periods and when pre-existing conditions are covered). Call AFTER collectHealthInsuranceInfo once the user has submitted the health form.',
+  parameters: showHealthInsuranceRecommendationsSchema,
+  execute: async (params): Promise<ShowHealthRecommendationsResult> => {
+    try {
+      // Validate parameters using Zod
+      const overrides = showHealthInsuranceRecommendationsZodSchema.parse(params ?? {});
+
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences = savedHealthPreferences(userProfile);
+      if (!preferences) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'Please tell me who to cover first using the health insurance form.'
+        };
+      }
+
+      const members = resolveHealthMembers(userProfile, preferences.members);
+      const coverType = members.length === 1 ? 'individual' : overrides.coverType ?? preferences.coverType;
+      // Without a city we price at metro rates so the quote is never understated
+      const tier = cityTier(userProfile.city) ?? 'tier_1';
+      const sumInsured = overrides.sumInsured ?? preferences.sumInsured ?? recommendedSumInsured(members, tier);
+
+      const products = await listHealthProducts(supabase);
+      const { recommendations, excludedProducts } = generateHealthProducts(userProfile, products, {
+        coverType,
+        members,
+        sumInsured,
+        cityTier: tier,
+        roomRent: preferences.roomRent
+      });
+
+      // Save the run as a quote. A failed save is logged but should not stop
+      // the user seeing their recommendations.
+      let quote: { id: string; validUntil: string } | undefined;
+      try {
+        quote = await createQuote<HealthInsuranceProduct, HealthQuoteDetails>(supabase, user.id, {
+          line: 'health',
+          inputs: {
+            dob: userProfile.dob ?? null,
+            city: userProfile.city ?? null,
+            smoking_status: userProfile.smoking_status ?? null,
+            issues: userProfile.issues ?? [],
+            health_insurance: preferences
+          },
+          products: recommendations,
+          details: { excludedProducts, coverageAmount: sumInsured, coverType, cityTier: tier, members },
+          validUntil: quoteValidUntil(userProfile.dob)
+        });
+      } catch (quoteError) {
+        console.error('[showHealthInsuranceRecommendations] Failed to save quote:', quoteError);
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        quoteId: quote?.id,
+        quoteValidUntil: quote?.validUntil,
+        userData: userProfile,
+        recommendations,
+        excludedProducts,
+        sumInsured,
+        coverType,
+        cityTier: tier,
+        members
+      };
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[showHealthInsuranceRecommendations] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default showHealthInsuranceRecommendationsTool;
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import { HomePreferences, HomeProduct } from '@/lib/insurance/home/schema';
+import { listHomeProducts, homeEligibilityIssues } from '@/lib/insurance/home/repository';
+import { CityRisk, resolveCityRisk } from '@/lib/insurance/home/locations';
+import {
+  DEFAULT_HOME_PRICING,
+  HomePremiumBreakdown,
+  automaticContentsCover,
+  calculateHomePremium,
+  calculateStructureValue
+} from '@/lib/insurance/home/pricing';
+import { createQuote, quoteValidUntil } from '@/lib/insurance/quotes/repository';
+import { HomeProfileData, savedHomePreferences } from './collectHomeInsuranceInfo';
+import { ExcludedProduct } from './showLifeInsuranceRecommendations';
+
+// Schema for the tool - answers are read from the profile, overrides are optional
+export const showHomeInsuranceRecommendationsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    burglaryCover: {
+      type: 'boolean',
+      description: 'Optional override of the saved burglary cover choice'
+    },
+    contentsValue: {
+      type: 'number',
+      minimum: 0,
+      description: 'Optional total value of household contents in rupees, e.g. 800000 for "8 lakh of contents"'
+    }
+  },
+  additionalProperties: false,
+  description: 'Show home insurance quotes based on the saved property details'
+});
+
+// Zod schema for validation
+const showHomeInsuranceRecommendationsZodSchema = z.object({
+  burglaryCover: z.boolean().optional(),
+  contentsValue: z.number().min(0).optional()
+});
+
+export interface HomeInsuranceProduct {
+  id: string;
+  // Home plan this quote was priced from
+  productId: string;
+  name: string;
+  company: string;
+  logo?: string;
+  structureSumInsured: number;
+  contentsSumInsured: number;
+  // Whether burglary cover is included in the price
+  burglaryCover: boolean;
+  annualPremium: number;
+  premium: HomePremiumBreakdown;
+  features: string[];
+  exclusions: string[];
+  claimSettlementRatio: string;
+}
+
+// Location risk the quote was priced on
+export interface HomeLocation extends CityRisk {
+  // False when the city is not in our dataset and average risk was assumed
+  known: boolean;
+}
+
+// Extras saved with a home quote alongside the priced products
+export interface HomeQuoteDetails {
+  excludedProducts: ExcludedProduct[];
+  // Building plus contents cover; named to match the other lines' quote summaries
+  coverageAmount: number;
+  property: HomePreferences;
+  location: HomeLocation;
+  structureValue: number;
+  buildingAge: number;
+}
+
+export interface ShowHomeRecommendationsResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  // Saved quote for this run, if it could be stored
+  quoteId?: string;
+  quoteValidUntil?: string;
+  recommendations?: HomeInsuranceProduct[];
+  excludedProducts?: ExcludedProduct[];
+  property?: HomePreferences;
+  location?: HomeLocation;
+  // Reinstatement value of the building; 0 for tenants
+  structureValue?: number;
+  buildingAge?: number;
+  userData?: HomeProfileData;
+  error?: string;
+}
+
+// Helper function to generate home quotes from the plan list. Plans that
+// cannot insure the property are returned separately, as on the life flow.
+export function generateHomeProducts(
+  products: HomeProduct[],
+  options: { property: HomePreferences; location: HomeLocation; structureValue: number; buildingAge: number }
+): { recommendations: HomeInsuranceProduct[]; excludedProducts: ExcludedProduct[] } {
+  const { property, location, structureValue } = options;
+  const recommendations: HomeInsuranceProduct[] = [];
+  const excludedProducts: ExcludedProduct[] = [];
+
+  for (const product of products) {
+    const issues = homeEligibilityIssues(product, {
+      ownership: property.ownership,
+      buildingAge: options.buildingAge,
+      structureValue
+    });
+
+    if (issues.length > 0) {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: 'ineligible',
+        reasons: issues
+      });
+      continue;
+    }
+
+    const burglary = property.burglaryCover && product.burglaryAvailable;
+    const premium = calculateHomePremium({
+      propertyType: property.propertyType,
+      constructionType: property.constructionType,
+      seismicZone: location.seismicZone,
+      floodRisk: location.floodRisk,
+      structureValue,
+      contentsValue: property.contentsValue ?? 0,
+      burglary
+    }, {
+      ...DEFAULT_HOME_PRICING,
+      rateFactor: product.rateFactor,
+      burglaryRateFactor: product.burglaryRateFactor
+    });
+
+    // Adjust features based on the quote
+    const features = [...product.features];
+    if (premium.automaticContentsCover > 0) {
+      features.push(`Contents up to ₹${premium.automaticContentsCover.toLocaleString('en-IN')} covered free with the building`);
+    }
+    if (property.burglaryCover && !product.burglaryAvailable) {
+      features.push('Burglary cover not offered on this plan');
+    }
+
+    recommendations.push({
+      id: randomUUID(),
+      productId: product.id,
+      name: product.name,
+      company: product.insurer,
+      logo: product.logo,
+      structureSumInsured: premium.structureSumInsured,
+      contentsSumInsured: premium.contentsSumInsured,
+      burglaryCover: burglary,
+      annualPremium: premium.totalPremium,
+      premium,
+      features,
+      exclusions: product.exclusions,
+      claimSettlementRatio: product.claimSettlementRatio
+    });
+  }
+
+  return { recommendations, excludedProducts };
+}
+
+// Main tool implementation
+export const showHomeInsuranceRecommendationsTool = tool({
+  description: 'STEP 2 of 2: Show home insurance quotes for the saved property (building and contents sums insured, fire, earthquake, flood and burglary premiums per insurer). Call AFTER collectHomeInsuranceInfo once the user has submitted the home form.',
+  parameters: showHomeInsuranceRecommendationsSchema,
+  execute: async (params): Promise<ShowHomeRecommendationsResult> => {
+    try {
+      // Validate parameters using Zod
+      const overrides = showHomeInsuranceRecommendationsZodSchema.parse(params ?? {});
+
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences: HomePreferences | null = savedHomePreferences(userProfile);
+      if (!preferences) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'Please tell me about your home first using the home insurance form.'
+        };
+      }
+
+      const property: HomePreferences = {
+        ...preferences,
+        burglaryCover: overrides.burglaryCover ?? preferences.burglaryCover,
+        contentsValue: overrides.contentsValue ?? preferences.contentsValue
+      };
+
+      if (property.ownership === 'tenant' && !property.contentsValue) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'As a tenant you can insure your contents. Please add their value in the home insurance form.'
+        };
+      }
+
+      const { risk, known } = resolveCityRisk(property.city);
+      const location: HomeLocation = { ...risk, known };
+      const structureValue = property.ownership === 'owner'
+        ? calculateStructureValue(property.builtUpAreaSqFt!, property.constructionRate ?? risk.constructionRate, property.constructionType)
+        : 0;
+      const buildingAge = new Date().getFullYear() - property.constructionYear;
+
+      const products = await listHomeProducts(supabase);
+      const { recommendations, excludedProducts } = generateHomeProducts(products, {
+        property,
+        location,
+        structureValue,
+        buildingAge
+      });
+
+      // Save the run as a quote. A failed save is logged but should not stop
+      // the user seeing their quotes. Home premiums do not depend on the
+      // owner's age, so validity is the standard 30 days.
+      let quote: { id: string; validUntil: string } | undefined;
+      try {
+        quote = await createQuote<HomeInsuranceProduct, HomeQuoteDetails>(supabase, user.id, {
+          line: 'home',
+          inputs: {
+            home_insurance: property
+          },
+          products: recommendations,
+          details: {
+            excludedProducts,
+            coverageAmount: structureValue + Math.max(property.contentsValue ?? 0, automaticContentsCover(structureValue)),
+            property,
+            location,
+            structureValue,
+            buildingAge
+          },
+          validUntil: quoteValidUntil()
+        });
+      } catch (quoteError) {
+        console.error('[showHomeInsuranceRecommendations] Failed to save quote:', quoteError);
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        quoteId: quote?.id,
+        quoteValidUntil: quote?.validUntil,
+        userData: userProfile,
+        recommendations,
+        excludedProducts,
+        property,
+        location,
+        structureValue,
+        buildingAge
+      };
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[showHomeInsuranceRecommendations] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default showHomeInsuranceRecommendationsTool;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SEED_PRODUCTS } from '@/lib/insurance/catalog/seed';
+import { generateInsuranceProducts, resolveCoverageAmount } from './showLifeInsuranceRecommendations';
+
+// A 30-year-old on ₹6L a year, married with two young children and a ₹30L loan
+const profile = {
+  first_name: 'Test',
+  dob: `${new Date().getFullYear() - 30}-01-01`,
+  gender: 'male',
+  is_married: true,
+  smoking_status: false,
+  annual_income: 600000,
+  city: 'Pune',
+  issues: [],
+  needs_analysis: {
+    children: [{ age: 2 }, { age: 5 }],
+    outstandingLoans: 3000000
+  }
+};
+
+describe('resolveCoverageAmount', () => {
+  it('caps the needs-based default at the income multiple for the age band', () => {
+    const { coverageAmount, coverageNeeds, coverageCap } = resolveCoverageAmount(profile);
+
+    expect(coverageNeeds!.recommendedCover).toBeGreaterThan(600000 * 25);
+    expect(coverageAmount).toBe(600000 * 25);
+    expect(coverageCap).toMatchObject({ neededCover: coverageNeeds!.recommendedCover, maxMultiple: 25 });
+    expect(coverageCap!.reason).toContain('25x your annual income');
+  });
+
+  it('quotes plans at the capped default instead of declining them all', () => {
+    const { coverageAmount } = resolveCoverageAmount(profile);
+    const { recommendations, excludedProducts } = generateInsuranceProducts(profile, SEED_PRODUCTS, coverageAmount);
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    expect(excludedProducts.filter(product => product.decision === 'decline')).toEqual([]);
+  });
+
+  it('leaves a default within the limit alone', () => {
+    const { coverageAmount, coverageNeeds, coverageCap } = resolveCoverageAmount({ ...profile, annual_income: 1500000 });
+
+    expect(coverageAmount).toBe(coverageNeeds!.recommendedCover);
+    expect(coverageCap).toBeUndefined();
+  });
+
+  it('never caps a cover amount the user chose', () => {
+    expect(resolveCoverageAmount({ ...profile, coverage_amount: 30000000 })).toEqual({ coverageAmount: 30000000 });
+  });
+});
@@ -2,43 +2,151 @@ import { z } from 'zod';
 import { tool, jsonSchema } from 'ai';
 import { createClient } from '@/utils/supabase/server';
 import { randomUUID } from 'crypto';
+import {
+  DEFAULT_PRICING_BASIS,
+  PaymentOption,
+  PremiumInput,
+  PricingBasis,
+  ageFromDob,
+  calculatePaymentOptions,
+  calculateTermPremium,
+  estimatePremiumRange,
+  pricingGender
+} from '@/lib/insurance/pricing';
+import { UserProfileData } from './collectLifeInsuranceInfo';
+import { NeedsContext, loadNeedsContext, needsInputFromProfile, savedNeedsAnswers } from './coverageNeeds';
+import { CatalogProduct, riderCodeSchema } from '@/lib/insurance/catalog/schema';
+import { closestTermOption, eligibilityIssues, listProducts } from '@/lib/insurance/catalog/repository';
+import { NeedsAnalysisResult, calculateCoverageNeeds } from '@/lib/insurance/needsAnalysis';
+import { RIDER_CODES, RIDER_DEFINITIONS, RiderCode, RiderQuote, priceRiders, selectedRidersPremium } from '@/lib/insurance/riders';
+import { UnderwritingApplicant, UnderwritingDecision, underwrite } from '@/lib/insurance/underwriting/engine';
+import { DEFAULT_UNDERWRITING_RULES, maxInsurableCover } from '@/lib/insurance/underwriting/rules';
+import { createQuote, quoteValidUntil } from '@/lib/insurance/quotes/repository';
+import { OCCUPATION_CLASSES, OccupationClass, classifyOccupation, occupationExtraMortality } from '@/lib/insurance/occupation';
+import { ProductRanking, RankingCandidate, parseClaimSettlementRatio, rankProducts } from '@/lib/insurance/ranking';
+import { InsurerScorecard } from '@/lib/insurance/scorecards/schema';
+import { FamilyMember } from '@/lib/insurance/family/schema';
+import { SEED_SCORECARDS } from '@/lib/insurance/scorecards/seed';
+import { claimSettlementFor, latestScorecard, listScorecards } from '@/lib/insurance/scorecards/repository';
 
-// Schema for the tool - no parameters needed
+// Schema for the tool - profile data is read from the database, only optional riders are passed in
 export const showLifeInsuranceRecommendationsSchema = jsonSchema({
   type: 'object',
-  properties: {},
+  properties: {
+    riders: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: RIDER_CODES
+      },
+      description: 'Optional riders the user asked to include, e.g. ["critical_illness"] for "with CI cover". Options: critical_illness, accidental_death, waiver_of_premium, terminal_illness'
+    }
+  },
   additionalProperties: false,
   description: 'Show personalized life insurance recommendations based on user profile data'
 });
 
+// Zod schema for validation
+const showLifeInsuranceRecommendationsZodSchema = z.object({
+  riders: z.array(riderCodeSchema).default([])
+});
+
 export interface InsuranceProduct {
   id: string;
+  // Catalog product this quote was priced from
+  productId: string;
   name: string;
   company: string;
   logo?: string;
   coverageAmount: number;
+  policyTerm: number;
   monthlyPremium: number;
   annualPremium: number;
   premiumRange?: {
     min: number;
     max: number;
   };
+  // Regular, limited and single pay options by payment mode (base plan only)
+  paymentOptions: PaymentOption[];
+  // Return of premium variant of the base plan, when the product offers one
+  returnOfPremium?: ReturnOfPremiumQuote;
   features: string[];
+  // Riders offered on this plan, priced for the user
+  riders: RiderQuote[];
+  // Riders included in the quote because the user asked for them
+  selectedRiders: RiderCode[];
   claimSettlementRatio: string;
+  // Financial year of the insurer scorecard the ratio comes from; absent when
+  // it is the catalog's own figure
+  claimSettlementYear?: string;
+  // Score and reasons behind the plan's position in the list
+  ranking?: ProductRanking;
+  // Underwriting outcome the premium was priced on
+  underwriting: {
+    decision: Extract<UnderwritingDecision, 'accept' | 'load'>;
+    extraMortality: number;
+    reasons: string[];
+  };
   accuracyNote?: string;
 }
 
+export interface ReturnOfPremiumQuote {
+  annualPremium: number;
+  monthlyPremium: number;
+  // Premiums refunded, excluding GST, on survival to the end of the term
+  maturityBenefit: number;
+}
+
+// A catalog product the user cannot be offered, and why
+export interface ExcludedProduct {
+  productId: string;
+  name: string;
+  company: string;
+  // 'ineligible' means the plan's own entry limits rule it out
+  decision: Extract<UnderwritingDecision, 'postpone' | 'decline'> | 'ineligible';
+  reasons: string[];
+}
+
+// Why the default cover is below the needs analysis figure
+export interface CoverageCap {
+  neededCover: number;
+  maxMultiple: number;
+  reason: string;
+}
+
+// Capped default cover is rounded down to a whole lakh
+const COVER_CAP_ROUNDING = 100000;
+
+// Extras saved with a life quote alongside the priced products
+export interface LifeQuoteDetails {
+  excludedProducts: ExcludedProduct[];
+  coverageAmount: number;
+  requestedRiders: RiderCode[];
+  coverageNeeds?: NeedsAnalysisResult;
+  coverageCap?: CoverageCap;
+}
+
 export interface ShowRecommendationsResult {
   success: boolean;
   status: 'ready' | 'incomplete_profile' | 'error';
+  // Saved quote for this run, if it could be stored
+  quoteId?: string;
+  quoteValidUntil?: string;
   recommendations?: InsuranceProduct[];
+  excludedProducts?: ExcludedProduct[];
+  coverageAmount?: number;
+  requestedRiders?: RiderCode[];
+  // Needs analysis behind the default coverage amount, when one was used
+  coverageNeeds?: NeedsAnalysisResult;
+  // Set when the needs analysis figure was cut to the largest insurable cover
+  coverageCap?: CoverageCap;
   userData?: any;
   missingFields?: string[];
   error?: string;
 }
 
 // Helper function to check if we have minimum required fields
-function hasMinimumRequiredFields(data: any): { valid: boolean; missing: string[] } {
+export function hasMinimumRequiredFields(data: any): { valid: boolean; missing: string[] } {
   const missing: string[] = [];
   
   // Required field 1: Smoking Status
@@ -64,85 +172,121 @@ function hasMinimumRequiredFields(data: any): { valid: boolean; missing: string[
   return { valid: missing.length === 0, missing };
 }
 
-// Helper function to calculate premium
-function calculatePremium(data: any): { monthly: number; annual: number; min?: number; max?: number } {
-  // Base premium calculation
-  let basePremium = 5000; // Base annual premium
-  
-  // Age factor
-  if (data.dob) {
-    const age = new Date().getFullYear() - new Date(data.dob).getFullYear();
-    basePremium += (age - 25) * 200; // Increase by 200 per year above 25
-  } else {
-    // Default age assumption if DOB not available
-    basePremium += (30 - 25) * 200;
-  }
+// Profile fields a life quote is priced on, snapshotted with the quote so it
+// can be reopened as it was shown even after the profile changes
+const QUOTE_INPUT_FIELDS = [
+  'first_name', 'dob', 'gender', 'is_married', 'smoking_status', 'issues', 'annual_income',
+  'city', 'occupation', 'occupation_class', 'coverage_amount', 'policy_term'
+] as const;
 
-  // Smoking factor
-  if (data.smoking_status === true) {
-    basePremium *= 1.5; // 50% increase for smokers
-  }
+function quoteInputsFromProfile(data: UserProfileData): Record<string, unknown> {
+  return Object.fromEntries(QUOTE_INPUT_FIELDS.map(field => [field, data[field] ?? null]));
+}
 
-  // Health issues factor
-  if (data.issues && data.issues.length > 0) {
-    basePremium *= (1 + data.issues.length * 0.15); // 15% increase per health issue
-  }
+// Helper function to get the occupation risk class, classifying the free-text
+// occupation when no class has been stored yet
+export function resolveOccupationClass(data: UserProfileData): OccupationClass | null {
+  return data.occupation_class || classifyOccupation(data.occupation)?.riskClass || null;
+}
 
-  // Coverage amount factor
-  if (data.coverage_amount) {
-    basePremium = (data.coverage_amount / 1000000) * (basePremium / 5); // Adjust based on coverage
-  }
+// Helper function to build the underwriting applicant from the profile
+function buildApplicant(data: UserProfileData, coverageAmount: number): UnderwritingApplicant {
+  return {
+    age: data.dob ? ageFromDob(data.dob) : 30,
+    annualIncome: data.annual_income || 0,
+    sumAssured: coverageAmount,
+    smoker: data.smoking_status === true,
+    conditions: data.issues || [],
+    occupationClass: data.occupation_class
+  };
+}
 
-  // Policy term factor
-  if (data.policy_term) {
-    const termMultiplier: Record<string, number> = {
-      '5': 0.8,
-      '10': 0.9,
-      '15': 1.0,
-      '20': 1.1,
-      '25': 1.2,
-      '30': 1.3
-    };
-    basePremium *= termMultiplier[data.policy_term] || 1.0;
-  }
+// Helper function to build the pricing engine input from the profile
+function buildPremiumInput(
+  data: UserProfileData,
+  coverageAmount: number,
+  policyTerm: number,
+  extraMortality: number = 0
+): PremiumInput {
+  return {
+    // Default age assumption if DOB not available
+    age: data.dob ? ageFromDob(data.dob) : 30,
+    gender: pricingGender(data.gender),
+    smoker: data.smoking_status === true,
+    sumAssured: coverageAmount,
+    term: policyTerm,
+    extraMortality,
+    occupationClass: data.occupation_class
+  };
+}
+
+// Helper function to price a product for the user through the actuarial engine
+function calculatePremium(
+  data: any,
+  coverageAmount: number,
+  policyTerm: number,
+  basis: PricingBasis,
+  extraMortality: number
+): { monthly: number; annual: number; base: number; min?: number; max?: number } {
+  const premiumInput = buildPremiumInput(data, coverageAmount, policyTerm, extraMortality);
+
+  const quote = calculateTermPremium(premiumInput, basis);
 
   // If we have incomplete data, return a range
-  const hasCompleteData = data.dob && data.annual_income && data.city && data.coverage_amount;
-  
+  const hasCompleteData = data.dob && data.annual_income && data.city;
+
   if (!hasCompleteData) {
+    const range = estimatePremiumRange(premiumInput, basis, { genderKnown: Boolean(data.gender) });
     return {
-      monthly: Math.round(basePremium / 12),
-      annual: Math.round(basePremium),
-      min: Math.round(basePremium * 0.7),
-      max: Math.round(basePremium * 1.3)
+      monthly: quote.monthlyPremium,
+      annual: quote.annualPremium,
+      base: quote.basePremium,
+      min: range.min,
+      max: range.max
     };
   }
 
   return {
-    monthly: Math.round(basePremium / 12),
-    annual: Math.round(basePremium)
+    monthly: quote.monthlyPremium,
+    annual: quote.annualPremium,
+    base: quote.basePremium
   };
 }
 
-// Helper function to calculate smart coverage amount based on income
-function calculateSmartCoverageAmount(userData: any): number {
-  if (!userData.annual_income || userData.annual_income <= 0) {
-    return 5000000; // Fallback to 50 lakhs if no income
+// Helper function to price the return of premium variant of a product.
+// Returns undefined when the term is too short for the refund to be funded.
+export function priceReturnOfPremium(
+  data: UserProfileData,
+  coverageAmount: number,
+  policyTerm: number,
+  basis: PricingBasis,
+  extraMortality: number
+): ReturnOfPremiumQuote | undefined {
+  try {
+    const quote = calculateTermPremium({
+      ...buildPremiumInput(data, coverageAmount, policyTerm, extraMortality),
+      returnOfPremium: true
+    }, basis);
+    return {
+      annualPremium: quote.annualPremium,
+      monthlyPremium: quote.monthlyPremium,
+      maturityBenefit: quote.maturityBenefit!
+    };
+  } catch {
+    return undefined;
   }
-  
-  // Industry standard: 10-15x annual income, we'll use 12x as default
-  const recommendedCoverage = userData.annual_income * 12;
-  
-  // Ensure minimum coverage of 10 lakhs and maximum practical limit of 10 crores
-  const minCoverage = 1000000; // 10 lakhs
-  const maxCoverage = 100000000; // 10 crores
-  
-  return Math.max(minCoverage, Math.min(maxCoverage, recommendedCoverage));
+}
+
+// Helper function to tell whether anyone relies on the user's income: a
+// spouse, or any dependent member of the saved household such as a child or
+// a parent
+export function hasDependants(data: UserProfileData, household: FamilyMember[] = []): boolean {
+  return data.is_married === true || household.some(member => member.isDependent);
 }
 
 // Helper function to calculate smart policy term based on age
-function calculateSmartPolicyTerm(userData: any): number {
-  const age = userData.dob ? new Date().getFullYear() - new Date(userData.dob).getFullYear() : 30;
+export function calculateSmartPolicyTerm(userData: any): number {
+  const age = userData.dob ? ageFromDob(userData.dob) : 30;
   
   // Age-based term recommendations for retirement planning
   if (age <= 25) return 30; // Young professionals - longest term
@@ -152,122 +296,204 @@ function calculateSmartPolicyTerm(userData: any): number {
   return 10; // Near retirement - minimum term
 }
 
-// Helper function to generate insurance products
-function generateInsuranceProducts(userData: any): InsuranceProduct[] {
-  // Calculate smart defaults for coverage amount and policy term
-  const coverageAmount = userData.coverage_amount || calculateSmartCoverageAmount(userData);
+// Helper function to pick the coverage amount: the user's own preference, or
+// the needs analysis (using the recorded household and policies) when they
+// have not set one. A needs-based amount above what underwriting accepts for
+// the user's income and age is cut to the largest insurable cover, so the
+// default never rules out every plan.
+export function resolveCoverageAmount(
+  profile: any,
+  context: NeedsContext = {}
+): { coverageAmount: number; coverageNeeds?: NeedsAnalysisResult; coverageCap?: CoverageCap } {
+  if (profile.coverage_amount) {
+    return { coverageAmount: profile.coverage_amount };
+  }
+  const coverageNeeds = calculateCoverageNeeds(needsInputFromProfile(profile, savedNeedsAnswers(profile), context));
+  const insurable = maxInsurableCover(profile.dob ? ageFromDob(profile.dob) : 30, profile.annual_income || 0);
+  if (!insurable || coverageNeeds.recommendedCover <= insurable.amount) {
+    return { coverageAmount: coverageNeeds.recommendedCover, coverageNeeds };
+  }
+
+  const coverageAmount = Math.floor(insurable.amount / COVER_CAP_ROUNDING) * COVER_CAP_ROUNDING || insurable.amount;
+  return {
+    coverageAmount,
+    coverageNeeds,
+    coverageCap: {
+      neededCover: coverageNeeds.recommendedCover,
+      maxMultiple: insurable.multiple,
+      reason: `Your needs come to ₹${coverageNeeds.recommendedCover.toLocaleString('en-IN')}, but insurers allow at most ` +
+        `${insurable.multiple}x your annual income at your age, so these quotes are for the largest cover you can get: ` +
+        `₹${coverageAmount.toLocaleString('en-IN')}.`
+    }
+  };
+}
+
+// Helper function to generate insurance products from the catalog. Products
+// ruled out by their entry limits or by underwriting are returned separately
+// with the reasons, so the user can see why a plan is missing. Recommendations
+// come back best first, as ranked by lib/insurance/ranking, using the insurer
+// scorecards for claim settlement and solvency and the saved household to
+// tell whether anyone relies on the user's income.
+export function generateInsuranceProducts(
+  userData: any,
+  catalog: CatalogProduct[],
+  coverageAmount: number,
+  requestedRiders: RiderCode[] = [],
+  scorecards: InsurerScorecard[] = SEED_SCORECARDS,
+  household: FamilyMember[] = []
+): { recommendations: InsuranceProduct[]; excludedProducts: ExcludedProduct[] } {
+  // Calculate smart default for policy term
   const policyTerm = userData.policy_term || calculateSmartPolicyTerm(userData);
-  
-  const products = [
-    {
-      name: 'SecureLife Plus',
-      company: 'HDFC Life',
-      logo: '🏦',
-      claimSettlementRatio: '98.01%',
-      baseFeatures: [
-        'No medical checkup till 45 years',
-        'Tax benefits under Section 80C',
-        'Critical illness rider available',
-        'Accidental death benefit'
-      ]
-    },
-    {
-      name: 'iProtect Smart',
-      company: 'ICICI Prudential',
-      logo: '🏛️',
-      claimSettlementRatio: '97.82%',
-      baseFeatures: [
-        'Life stage protection benefit',
-        'Terminal illness benefit',
-        'Premium waiver option',
-        '34 critical illnesses covered'
-      ]
-    },
-    {
-      name: 'Smart Term Plan',
-      company: 'Max Life',
-      logo: '🛡️',
-      claimSettlementRatio: '99.35%',
-      baseFeatures: [
-        'Comprehensive life cover',
-        'Monthly income benefit option',
-        'Return of premium option',
-        'Online discount available'
-      ]
-    },
-    {
-      name: 'Saral Jeevan Bima',
-      company: 'LIC',
-      logo: '🏢',
-      claimSettlementRatio: '98.74%',
-      baseFeatures: [
-        'Simple and affordable',
-        'Government backed insurer',
-        'Loan facility available',
-        'Maturity benefits'
-      ]
-    },
-    {
-      name: 'DigiShield Plan',
-      company: 'Bajaj Allianz',
-      logo: '🚀',
-      claimSettlementRatio: '98.48%',
-      baseFeatures: [
-        '100% online process',
-        'Instant policy issuance',
-        'Flexible premium payment',
-        'Women get discounted rates'
-      ]
+  const age = userData.dob ? ageFromDob(userData.dob) : 30;
+  const applicant = buildApplicant(userData, coverageAmount);
+
+  const recommendations: InsuranceProduct[] = [];
+  const excludedProducts: ExcludedProduct[] = [];
+  const candidates: RankingCandidate[] = [];
+
+  for (const product of catalog) {
+    const issues = eligibilityIssues(product, { age, sumAssured: coverageAmount, term: policyTerm });
+    if (issues.length > 0) {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: 'ineligible',
+        reasons: issues
+      });
+      continue;
     }
-  ];
-
-  return products.map((product, index) => {
-    const premium = calculatePremium({
-      ...userData,
-      coverage_amount: coverageAmount,
-      policy_term: policyTerm,
-      // Add some variation for different products
-      variation: index * 0.1
-    });
+
+    const underwriting = underwrite(DEFAULT_UNDERWRITING_RULES, applicant, product.id);
+    if (underwriting.decision === 'postpone' || underwriting.decision === 'decline') {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: underwriting.decision,
+        // Only the reasons that led to the exclusion, not incidental loadings
+        reasons: underwriting.outcomes
+          .filter(outcome => outcome.decision === underwriting.decision)
+          .map(outcome => outcome.reason)
+      });
+      continue;
+    }
+
+    const productTerm = closestTermOption(product, policyTerm);
+    const basis = { ...DEFAULT_PRICING_BASIS, ...product.pricing };
+    const premium = calculatePremium(userData, coverageAmount, productTerm, basis, underwriting.extraMortality);
+
+    const paymentOptions = calculatePaymentOptions(
+      buildPremiumInput(userData, coverageAmount, productTerm, underwriting.extraMortality),
+      basis,
+      { limitedPayTerms: product.limitedPayTerms, singlePay: product.singlePay }
+    );
+
+    const riders = priceRiders(product.riders, {
+      age,
+      gender: pricingGender(userData.gender),
+      smoker: userData.smoking_status === true,
+      sumAssured: coverageAmount,
+      term: productTerm,
+      basePremium: premium.base,
+      occupationClass: userData.occupation_class
+    }, basis.taxRate);
+    const selectedRiders = requestedRiders.filter(code =>
+      riders.some(rider => rider.code === code && rider.eligible)
+    );
 
     // Adjust features based on user data
-    const features = [...product.baseFeatures];
-    if (userData.issues && userData.issues.length > 0) {
-      features[0] = 'Pre-existing diseases covered after 4 years';
+    const features = [...product.features];
+    const occupationLoading = occupationExtraMortality(userData.occupation_class);
+    if (occupationLoading > 0) {
+      const occupationClass: OccupationClass = userData.occupation_class;
+      features.push(`Premium includes a ${Math.round(occupationLoading * 100)}% ${OCCUPATION_CLASSES[occupationClass].label.toLowerCase()} occupation loading`);
+    }
+    if (underwriting.decision === 'load') {
+      features.push(`Premium includes a ${Math.round(underwriting.extraMortality * 100)}% underwriting loading`);
     }
     if (userData.smoking_status === true) {
       features.push('Higher premium due to smoking');
     }
+    if (productTerm !== policyTerm) {
+      features.push(`Quoted for ${productTerm} years (closest term offered)`);
+    }
+    for (const code of requestedRiders) {
+      if (!selectedRiders.includes(code)) {
+        features.push(`${RIDER_DEFINITIONS[code].name} rider not available on this plan`);
+      }
+    }
 
     const hasCompleteData = userData.dob && userData.annual_income && userData.city;
+    const claimSettlement = claimSettlementFor(scorecards, product.insurer, product.claimSettlementRatio);
 
-    return {
+    candidates.push({
+      id: product.id,
+      annualPremium: premium.annual + selectedRidersPremium(riders, selectedRiders),
+      claimSettlementRatio: parseClaimSettlementRatio(claimSettlement.claimSettlementRatio),
+      solvencyRatio: latestScorecard(scorecards, product.insurer, 'solvencyRatio')?.solvencyRatio ?? undefined,
+      ridersOffered: riders.filter(rider => rider.eligible).map(rider => rider.code),
+      payoutOptions: product.payoutOptions,
+      quotedTerm: productTerm,
+      extraMortality: underwriting.extraMortality
+    });
+
+    recommendations.push({
       id: randomUUID(),
+      productId: product.id,
       name: product.name,
-      company: product.company,
+      company: product.insurer,
       logo: product.logo,
       coverageAmount,
-      monthlyPremium: premium.monthly + (index * 500), // Add variation
-      annualPremium: premium.annual + (index * 6000), // Add variation
+      policyTerm: productTerm,
+      monthlyPremium: premium.monthly,
+      annualPremium: premium.annual,
       premiumRange: !hasCompleteData ? {
-        min: premium.min! + (index * 500),
-        max: premium.max! + (index * 500)
+        min: premium.min!,
+        max: premium.max!
       } : undefined,
+      paymentOptions,
+      returnOfPremium: product.returnOfPremium
+        ? priceReturnOfPremium(userData, coverageAmount, productTerm, basis, underwriting.extraMortality)
+        : undefined,
       features,
-      claimSettlementRatio: product.claimSettlementRatio,
+      riders,
+      selectedRiders,
+      claimSettlementRatio: claimSettlement.claimSettlementRatio,
+      claimSettlementYear: claimSettlement.financialYear,
+      underwriting: {
+        decision: underwriting.decision,
+        extraMortality: underwriting.extraMortality,
+        reasons: underwriting.reasons
+      },
       accuracyNote: hasCompleteData ? 
         'Accurate quote based on your profile' : 
         'Estimated range - provide more details for accurate pricing'
-    };
+    });
+  }
+
+  const rankings = rankProducts(candidates, {
+    requestedTerm: policyTerm,
+    requestedRiders,
+    hasDependants: hasDependants(userData, household)
+  });
+  recommendations.forEach((recommendation, index) => {
+    recommendation.ranking = rankings[index];
   });
+  recommendations.sort((a, b) => a.ranking!.rank - b.ranking!.rank);
+
+  return { recommendations, excludedProducts };
 }
 
 // Main tool implementation
 export const showLifeInsuranceRecommendationsTool = tool({
   description: 'STEP 2 of 2: Show personalized life insurance recommendations based on the user profile data. This should be called AFTER collectLifeInsuranceInfo when the user has provided their information.',
   parameters: showLifeInsuranceRecommendationsSchema,
-  execute: async () => {
+  execute: async (params) => {
     try {
+      // Validate parameters using Zod
+      const { riders: requestedRiders } = showLifeInsuranceRecommendationsZodSchema.parse(params ?? {});
+
       // Get authenticated user
       const supabase = await createClient();
       const { data: { user } } = await supabase.auth.getUser();
@@ -307,17 +533,76 @@ export const showLifeInsuranceRecommendationsTool = tool({
         };
       }
 
-      // Generate recommendations
-      const recommendations = generateInsuranceProducts(userProfile);
+      // Resolve the occupation risk class for profiles saved before it was
+      // stored, and keep it so the next run does not need to classify again
+      const profile = { ...userProfile, occupation_class: resolveOccupationClass(userProfile) };
+      if (!userProfile.occupation_class && profile.occupation_class) {
+        const { error: classError } = await supabase
+          .from('user_profile')
+          .update({ occupation_class: profile.occupation_class })
+          .eq('user_id', user.id);
+
+        if (classError) {
+          console.error('[showLifeInsuranceRecommendations] Failed to save occupation class:', classError);
+        }
+      }
+
+      // Generate recommendations from the active catalog
+      const catalog = await listProducts(supabase, { line: 'term_life' });
+      const scorecards = await listScorecards(supabase);
+      // Without an explicit coverage preference, size cover from a needs analysis
+      const needsContext = await loadNeedsContext(supabase, user.id);
+      const { coverageAmount, coverageNeeds, coverageCap } = resolveCoverageAmount(profile, needsContext);
+
+      const { recommendations, excludedProducts } = generateInsuranceProducts(
+        profile,
+        catalog,
+        coverageAmount,
+        requestedRiders,
+        scorecards,
+        needsContext.household
+      );
 
+      // Save the run as a quote. A failed save is logged but should not stop
+      // the user seeing their recommendations.
+      let quote: { id: string; validUntil: string } | undefined;
+      try {
+        quote = await createQuote<InsuranceProduct, LifeQuoteDetails>(supabase, user.id, {
+          line: 'term_life',
+          inputs: { ...quoteInputsFromProfile(profile), requested_riders: requestedRiders },
+          products: recommendations,
+          details: { excludedProducts, coverageAmount, requestedRiders, coverageNeeds, coverageCap },
+          validUntil: quoteValidUntil(profile.dob)
+        });
+      } catch (quoteError) {
+        console.error('[showLifeInsuranceRecommendations] Failed to save quote:', quoteError);
+      }
+
+      // Still 'ready' when everything is excluded: the card explains why each
+      // plan is unavailable, which is more useful than a bare error
       return {
         success: true,
         status: 'ready' as const,
-        userData: userProfile,
-        recommendations
+        quoteId: quote?.id,
+        quoteValidUntil: quote?.validUntil,
+        userData: profile,
+        recommendations,
+        excludedProducts,
+        coverageAmount,
+        requestedRiders,
+        coverageNeeds,
+        coverageCap
       };
 
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error' as const,
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
       console.error('[showLifeInsuranceRecommendations] Error:', error);
       
       return {
@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import {
+  MotorAddOn,
+  MotorPolicyType,
+  MotorPreferences,
+  MotorProduct,
+  MotorVehicle,
+  NcbSlab,
+  motorAddOnSchema,
+  motorPolicyTypeSchema
+} from '@/lib/insurance/motor/schema';
+import { listMotorProducts } from '@/lib/insurance/motor/repository';
+import { VehicleSpecs, resolveVehicleSpecs } from '@/lib/insurance/motor/vehicles';
+import {
+  MotorPremiumBreakdown,
+  NCB_LAPSE_DAYS,
+  RtoZone,
+  calculateIdv,
+  calculateMotorPremium,
+  clampIdv,
+  renewalNcb,
+  rtoZone,
+  vehicleAgeMonths
+} from '@/lib/insurance/motor/pricing';
+import { MotorAddOnQuote, priceMotorAddOns } from '@/lib/insurance/motor/addOns';
+import { createQuote, quoteValidUntil } from '@/lib/insurance/quotes/repository';
+import { MotorProfileData, savedMotorPreferences } from './collectMotorInsuranceInfo';
+import { ExcludedProduct } from './showLifeInsuranceRecommendations';
+
+// Schema for the tool - answers are read from the profile, overrides are optional
+export const showMotorInsuranceRecommendationsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    policyType: {
+      type: 'string',
+      enum: ['comprehensive', 'third_party'],
+      description: 'Optional override of the saved policy type'
+    },
+    addOns: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['zero_depreciation', 'engine_protect', 'roadside_assistance']
+      },
+      description: 'Optional add-ons to quote instead of the saved selection'
+    },
+    idv: {
+      type: 'number',
+      minimum: 1,
+      description: 'Optional Insured Declared Value to quote; each insurer keeps it within its allowed band around the computed IDV'
+    }
+  },
+  additionalProperties: false,
+  description: 'Show motor insurance quotes based on the saved vehicle details'
+});
+
+// Zod schema for validation
+const showMotorInsuranceRecommendationsZodSchema = z.object({
+  policyType: motorPolicyTypeSchema.optional(),
+  addOns: z.array(motorAddOnSchema).optional(),
+  idv: z.number().positive().optional()
+});
+
+export interface MotorInsuranceProduct {
+  id: string;
+  // Motor plan this quote was priced from
+  productId: string;
+  name: string;
+  company: string;
+  logo?: string;
+  policyType: MotorPolicyType;
+  idv: number;
+  // IDV band the insurer would accept for this vehicle
+  idvRange: { min: number; max: number };
+  ncb: NcbSlab;
+  annualPremium: number;
+  premium: MotorPremiumBreakdown;
+  // Every add-on with its price or why it is unavailable
+  addOns: MotorAddOnQuote[];
+  selectedAddOns: MotorAddOn[];
+  cashlessGarages: number;
+  features: string[];
+  claimSettlementRatio: string;
+}
+
+// Extras saved with a motor quote alongside the priced products
+export interface MotorQuoteDetails {
+  excludedProducts: ExcludedProduct[];
+  // Computed IDV; named to match the other lines' quote summaries
+  coverageAmount: number;
+  policyType: MotorPolicyType;
+  vehicle: MotorVehicle;
+  ncb: NcbSlab;
+  zone: RtoZone;
+}
+
+export interface ShowMotorRecommendationsResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  // Saved quote for this run, if it could be stored
+  quoteId?: string;
+  quoteValidUntil?: string;
+  recommendations?: MotorInsuranceProduct[];
+  excludedProducts?: ExcludedProduct[];
+  vehicle?: MotorVehicle;
+  policyType?: MotorPolicyType;
+  computedIdv?: number;
+  ncb?: NcbSlab;
+  // Whether the NCB was reset by a claim or lapse
+  ncbForfeited?: boolean;
+  zone?: RtoZone;
+  vehicleAgeMonths?: number;
+  userData?: MotorProfileData;
+  error?: string;
+}
+
+const VEHICLE_TYPE_LABELS: Record<MotorVehicle['vehicleType'], string> = {
+  private_car: 'cars',
+  two_wheeler: 'two-wheelers'
+};
+
+// Helper function to generate motor quotes from the plan list. Plans that do
+// not insure the vehicle type are returned separately, as on the life flow.
+export function generateMotorProducts(
+  products: MotorProduct[],
+  options: {
+    vehicle: MotorVehicle;
+    specs: VehicleSpecs;
+    ageMonths: number;
+    zone: RtoZone;
+    policyType: MotorPolicyType;
+    computedIdv: number;
+    requestedIdv?: number;
+    ncb: NcbSlab;
+    addOns: MotorAddOn[];
+  }
+): { recommendations: MotorInsuranceProduct[]; excludedProducts: ExcludedProduct[] } {
+  const { vehicle, policyType } = options;
+  const recommendations: MotorInsuranceProduct[] = [];
+  const excludedProducts: ExcludedProduct[] = [];
+
+  for (const product of products) {
+    if (!product.vehicleTypes.includes(vehicle.vehicleType)) {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: 'ineligible',
+        reasons: [`Does not insure ${VEHICLE_TYPE_LABELS[vehicle.vehicleType]}`]
+      });
+      continue;
+    }
+
+    const idv = clampIdv(options.computedIdv, options.requestedIdv, product.idvVariance);
+    const addOns = priceMotorAddOns(product, {
+      vehicleType: vehicle.vehicleType,
+      fuelType: vehicle.fuelType,
+      ageMonths: options.ageMonths,
+      idv
+    });
+
+    // Add-ons only attach to own-damage cover
+    const selected = policyType === 'comprehensive'
+      ? addOns.filter(addOn => addOn.eligible && options.addOns.includes(addOn.code))
+      : [];
+
+    const premium = calculateMotorPremium({
+      vehicleType: vehicle.vehicleType,
+      fuelType: vehicle.fuelType,
+      specs: options.specs,
+      ageMonths: options.ageMonths,
+      zone: options.zone,
+      policyType,
+      idv,
+      ncb: options.ncb,
+      odDiscount: product.odDiscount,
+      addOnPremium: selected.reduce((sum, addOn) => sum + addOn.annualPremium, 0)
+    });
+
+    // Adjust features based on the quote
+    const features = [...product.features];
+    if (policyType === 'comprehensive') {
+      if (options.requestedIdv !== undefined && idv !== Math.round(options.requestedIdv)) {
+        features.push(`IDV adjusted to ₹${idv.toLocaleString('en-IN')} (the closest this insurer allows)`);
+      }
+      for (const addOn of addOns) {
+        if (options.addOns.includes(addOn.code) && !addOn.eligible) {
+          features.push(`${addOn.name} not included: ${addOn.reason}`);
+        }
+      }
+    }
+
+    recommendations.push({
+      id: randomUUID(),
+      productId: product.id,
+      name: product.name,
+      company: product.insurer,
+      logo: product.logo,
+      policyType,
+      idv: premium.idv,
+      idvRange: {
+        min: Math.round(options.computedIdv * (1 - product.idvVariance)),
+        max: Math.round(options.computedIdv * (1 + product.idvVariance))
+      },
+      ncb: options.ncb,
+      annualPremium: premium.totalPremium,
+      premium,
+      addOns,
+      selectedAddOns: selected.map(addOn => addOn.code),
+      cashlessGarages: product.cashlessGarages,
+      features,
+      claimSettlementRatio: product.claimSettlementRatio
+    });
+  }
+
+  return { recommendations, excludedProducts };
+}
+
+// Main tool implementation
+export const showMotorInsuranceRecommendationsTool = tool({
+  description: 'STEP 2 of 2: Show motor insurance quotes for the saved vehicle (IDV, own-damage and third-party premiums, NCB discount and add-on prices per insurer). Call AFTER collectMotorInsuranceInfo once the user has submitted the motor form.',
+  parameters: showMotorInsuranceRecommendationsSchema,
+  execute: async (params): Promise<ShowMotorRecommendationsResult> => {
+    try {
+      // Validate parameters using Zod
+      const overrides = showMotorInsuranceRecommendationsZodSchema.parse(params ?? {});
+
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences: MotorPreferences | null = savedMotorPreferences(userProfile);
+      if (!preferences) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'Please tell me about your vehicle first using the motor insurance form.'
+        };
+      }
+
+      const { vehicle } = preferences;
+      const { specs, missing } = resolveVehicleSpecs(vehicle);
+      if (!specs) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: `We don't have specs for the ${vehicle.make} ${vehicle.model}. Please add its ${missing.join(' and ')} in the motor insurance form.`
+        };
+      }
+
+      const ageMonths = vehicleAgeMonths(vehicle.registrationYear, vehicle.registrationMonth);
+      const zone = rtoZone(vehicle.rtoCity);
+      const policyType = overrides.policyType ?? preferences.policyType;
+      const computedIdv = calculateIdv(specs.exShowroomPrice, ageMonths);
+      const ncb = renewalNcb(preferences.previousNcb, preferences.claimedLastYear, preferences.daysSinceExpiry, ageMonths);
+      const addOns = overrides.addOns ?? preferences.addOns;
+
+      const products = await listMotorProducts(supabase);
+      const { recommendations, excludedProducts } = generateMotorProducts(products, {
+        vehicle,
+        specs,
+        ageMonths,
+        zone,
+        policyType,
+        computedIdv,
+        requestedIdv: overrides.idv,
+        ncb,
+        addOns
+      });
+
+      // Save the run as a quote. A failed save is logged but should not stop
+      // the user seeing their quotes. Motor premiums do not depend on the
+      // owner's age, so validity is the standard 30 days.
+      let quote: { id: string; validUntil: string } | undefined;
+      try {
+        quote = await createQuote<MotorInsuranceProduct, MotorQuoteDetails>(supabase, user.id, {
+          line: 'motor',
+          inputs: {
+            motor_insurance: { ...preferences, policyType, addOns },
+            idv: overrides.idv ?? null
+          },
+          products: recommendations,
+          details: {
+            excludedProducts,
+            coverageAmount: policyType === 'comprehensive' ? computedIdv : 0,
+            policyType,
+            vehicle,
+            ncb,
+            zone
+          },
+          validUntil: quoteValidUntil()
+        });
+      } catch (quoteError) {
+        console.error('[showMotorInsuranceRecommendations] Failed to save quote:', quoteError);
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        quoteId: quote?.id,
+        quoteValidUntil: quote?.validUntil,
+        userData: userProfile,
+        recommendations,
+        excludedProducts,
+        vehicle,
+        policyType,
+        computedIdv,
+        ncb,
+        ncbForfeited: ageMonths >= 12 && ncb === 0 && (preferences.claimedLastYear || preferences.daysSinceExpiry > NCB_LAPSE_DAYS),
+        zone,
+        vehicleAgeMonths: ageMonths
+      };
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[showMotorInsuranceRecommendations] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default showMotorInsuranceRecommendationsTool;
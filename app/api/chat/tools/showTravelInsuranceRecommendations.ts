@@ -0,0 +1,370 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { randomUUID } from 'crypto';
+import {
+  Traveller,
+  TravellerRelation,
+  TravelPreferences,
+  TravelProduct,
+  TravelRegion,
+  TripType
+} from '@/lib/insurance/travel/schema';
+import { closestMedicalCover, listTravelProducts, travelEligibilityIssues } from '@/lib/insurance/travel/repository';
+import {
+  DEFAULT_TRAVEL_PRICING,
+  TravellerPremium,
+  calculateTravelPremium,
+  recommendedMedicalCover,
+  tripDays
+} from '@/lib/insurance/travel/pricing';
+import { UnderwritingDecision, underwrite } from '@/lib/insurance/underwriting/engine';
+import { TRAVEL_UNDERWRITING_RULES } from '@/lib/insurance/underwriting/travelRules';
+import { createQuote, quoteValidUntil } from '@/lib/insurance/quotes/repository';
+import { TravelProfileData, resolveTravellers, savedTravelPreferences } from './collectTravelInsuranceInfo';
+import { ExcludedProduct } from './showLifeInsuranceRecommendations';
+
+// Schema for the tool - answers are read from the profile, overrides are optional
+export const showTravelInsuranceRecommendationsSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    medicalCover: {
+      type: 'number',
+      minimum: 25000,
+      description: 'Optional medical cover in US dollars, e.g. 100000 for "$100k cover"; defaults to the saved or suggested amount'
+    }
+  },
+  additionalProperties: false,
+  description: 'Show travel insurance plans based on the saved trip details'
+});
+
+// Zod schema for validation
+const showTravelInsuranceRecommendationsZodSchema = z.object({
+  medicalCover: z.number().min(25000).optional()
+});
+
+export interface TravelInsuranceProduct {
+  id: string;
+  // Travel plan this quote was priced from
+  productId: string;
+  name: string;
+  company: string;
+  logo?: string;
+  tripType: TripType;
+  // Covers per traveller, in USD
+  medicalCover: number;
+  baggageCover: number;
+  cancellationCover: number;
+  deductible: number;
+  preExistingEmergencyCover: number;
+  // Premium for the whole policy, all travellers, including GST
+  totalPremium: number;
+  basePremium: number;
+  tax: number;
+  travellerPremiums: Array<TravellerPremium & { relation: TravellerRelation }>;
+  features: string[];
+  exclusions: string[];
+  claimSettlementRatio: string;
+  // Underwriting outcome the premium was priced on
+  underwriting: {
+    decision: Extract<UnderwritingDecision, 'accept' | 'load'>;
+    reasons: string[];
+  };
+}
+
+// Extras saved with a travel quote alongside the priced products
+export interface TravelQuoteDetails {
+  excludedProducts: ExcludedProduct[];
+  // Requested medical cover; named to match the other lines' quote summaries
+  coverageAmount: number;
+  coverageCurrency: 'USD';
+  region: TravelRegion;
+  tripType: TripType;
+  startDate: string;
+  endDate?: string;
+  days: number;
+  travellers: Traveller[];
+}
+
+export interface ShowTravelRecommendationsResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  // Saved quote for this run, if it could be stored
+  quoteId?: string;
+  quoteValidUntil?: string;
+  recommendations?: TravelInsuranceProduct[];
+  excludedProducts?: ExcludedProduct[];
+  medicalCover?: number;
+  region?: TravelRegion;
+  tripType?: TripType;
+  startDate?: string;
+  endDate?: string;
+  // Trip length, or 365 for annual multi-trip cover
+  days?: number;
+  maxTripDays?: number;
+  travellers?: Traveller[];
+  userData?: TravelProfileData;
+  error?: string;
+}
+
+const RELATION_LABELS: Record<TravellerRelation, string> = {
+  self: 'You',
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  companion: 'Companion'
+};
+
+const ANNUAL_POLICY_DAYS = 365;
+
+// Helper function to generate travel quotes from the plan list. Plans ruled
+// out by their limits or by underwriting are returned separately with the
+// reasons, as on the life flow.
+export function generateTravelProducts(
+  products: TravelProduct[],
+  options: { region: TravelRegion; tripType: TripType; days: number; maxTripDays: number; travellers: Traveller[]; medicalCover: number }
+): { recommendations: TravelInsuranceProduct[]; excludedProducts: ExcludedProduct[] } {
+  const { region, tripType, travellers } = options;
+  const recommendations: TravelInsuranceProduct[] = [];
+  const excludedProducts: ExcludedProduct[] = [];
+
+  for (const product of products) {
+    const issues = travelEligibilityIssues(product, { tripType, region, days: options.days, travellers });
+    const quotedMedicalCover = closestMedicalCover(product, options.medicalCover);
+    if (quotedMedicalCover === null) {
+      issues.push(`Maximum medical cover is $${Math.max(...product.medicalCoverOptions).toLocaleString('en-US')}`);
+    }
+
+    if (issues.length > 0 || quotedMedicalCover === null) {
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision: 'ineligible',
+        reasons: issues
+      });
+      continue;
+    }
+
+    // Underwrite each traveller on their own declarations; one declined
+    // traveller rules the plan out for the group
+    const results = travellers.map(traveller => underwrite(TRAVEL_UNDERWRITING_RULES, {
+      age: traveller.age,
+      annualIncome: 0,
+      sumAssured: quotedMedicalCover,
+      smoker: false,
+      conditions: traveller.conditions
+    }, product.id));
+
+    const excluded = results.findIndex(result => result.decision === 'postpone' || result.decision === 'decline');
+    if (excluded !== -1) {
+      const decision = results[excluded].decision as 'postpone' | 'decline';
+      excludedProducts.push({
+        productId: product.id,
+        name: product.name,
+        company: product.insurer,
+        decision,
+        reasons: results.flatMap((result, index) => result.outcomes
+          .filter(outcome => outcome.decision === decision)
+          .map(outcome => `${RELATION_LABELS[travellers[index].relation]}: ${outcome.reason}`))
+      });
+      continue;
+    }
+
+    const premium = calculateTravelPremium({
+      region,
+      tripType,
+      days: options.days,
+      maxTripDays: options.maxTripDays,
+      medicalCover: quotedMedicalCover,
+      baggageCover: product.baggageCover,
+      cancellationCover: product.cancellationCover,
+      travellers: travellers.map((traveller, index) => ({ age: traveller.age, loading: results[index].extraMortality }))
+    }, { ...DEFAULT_TRAVEL_PRICING, rateFactor: product.rateFactor });
+
+    // Adjust features based on the quote
+    const features = [...product.features];
+    if (quotedMedicalCover !== options.medicalCover) {
+      features.push(`Quoted for $${quotedMedicalCover.toLocaleString('en-US')} medical cover (closest offered)`);
+    }
+    const declared = travellers.some(traveller => traveller.conditions.length > 0);
+    if (declared) {
+      features.push(product.preExistingEmergencyCover > 0
+        ? `Life-threatening emergencies from declared conditions covered up to $${product.preExistingEmergencyCover.toLocaleString('en-US')}`
+        : 'Declared conditions are not covered abroad');
+    }
+    const loaded = results.some(result => result.decision === 'load');
+
+    recommendations.push({
+      id: randomUUID(),
+      productId: product.id,
+      name: product.name,
+      company: product.insurer,
+      logo: product.logo,
+      tripType,
+      medicalCover: quotedMedicalCover,
+      baggageCover: product.baggageCover,
+      cancellationCover: product.cancellationCover,
+      deductible: product.deductible,
+      preExistingEmergencyCover: product.preExistingEmergencyCover,
+      totalPremium: premium.totalPremium,
+      basePremium: premium.basePremium,
+      tax: premium.tax,
+      travellerPremiums: premium.travellers.map((traveller, index) => ({
+        ...traveller,
+        relation: travellers[index].relation
+      })),
+      features,
+      exclusions: product.exclusions,
+      claimSettlementRatio: product.claimSettlementRatio,
+      underwriting: {
+        decision: loaded ? 'load' : 'accept',
+        reasons: results.flatMap((result, index) => result.reasons
+          .map(reason => `${RELATION_LABELS[travellers[index].relation]}: ${reason}`))
+      }
+    });
+  }
+
+  return { recommendations, excludedProducts };
+}
+
+// Main tool implementation
+export const showTravelInsuranceRecommendationsTool = tool({
+  description: 'STEP 2 of 2: Show travel insurance plans for the saved trip (premium per plan with medical, baggage and trip-cancellation covers, deductibles and pre-existing condition cover). Call AFTER collectTravelInsuranceInfo once the user has submitted the travel form.',
+  parameters: showTravelInsuranceRecommendationsSchema,
+  execute: async (params): Promise<ShowTravelRecommendationsResult> => {
+    try {
+      // Validate parameters using Zod
+      const overrides = showTravelInsuranceRecommendationsZodSchema.parse(params ?? {});
+
+      // Get authenticated user
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const preferences: TravelPreferences | null = savedTravelPreferences(userProfile);
+      if (!preferences) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'Please tell me about your trip first using the travel insurance form.'
+        };
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      if (preferences.startDate < today) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          error: 'Your saved trip has already started. Please update your trip dates in the travel insurance form.'
+        };
+      }
+
+      const { region, tripType, startDate, endDate, maxTripDays } = preferences;
+      const travellers = resolveTravellers(userProfile, preferences.travellers);
+      const days = tripType === 'multi_trip' ? ANNUAL_POLICY_DAYS : tripDays(startDate, endDate!);
+      const medicalCover = overrides.medicalCover ?? preferences.medicalCover ?? recommendedMedicalCover(region);
+
+      const products = await listTravelProducts(supabase);
+      const { recommendations, excludedProducts } = generateTravelProducts(products, {
+        region,
+        tripType,
+        days,
+        maxTripDays,
+        travellers,
+        medicalCover
+      });
+
+      // Save the run as a quote. A failed save is logged but should not stop
+      // the user seeing their plans. A travel quote cannot be bought after
+      // departure, so it lapses on the departure date if that comes first.
+      let quote: { id: string; validUntil: string } | undefined;
+      try {
+        const validUntil = quoteValidUntil(userProfile.dob);
+        const departure = new Date(`${startDate}T23:59:59`);
+        quote = await createQuote<TravelInsuranceProduct, TravelQuoteDetails>(supabase, user.id, {
+          line: 'travel',
+          inputs: {
+            dob: userProfile.dob ?? null,
+            issues: userProfile.issues ?? [],
+            travel_insurance: preferences
+          },
+          products: recommendations,
+          details: {
+            excludedProducts,
+            coverageAmount: medicalCover,
+            coverageCurrency: 'USD',
+            region,
+            tripType,
+            startDate,
+            endDate,
+            days,
+            travellers
+          },
+          validUntil: departure < validUntil ? departure : validUntil
+        });
+      } catch (quoteError) {
+        console.error('[showTravelInsuranceRecommendations] Failed to save quote:', quoteError);
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        quoteId: quote?.id,
+        quoteValidUntil: quote?.validUntil,
+        userData: userProfile,
+        recommendations,
+        excludedProducts,
+        medicalCover,
+        region,
+        tripType,
+        startDate,
+        endDate: tripType === 'multi_trip' ? undefined : endDate,
+        days,
+        maxTripDays: tripType === 'multi_trip' ? maxTripDays : undefined,
+        travellers
+      };
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[showTravelInsuranceRecommendations] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default showTravelInsuranceRecommendationsTool;
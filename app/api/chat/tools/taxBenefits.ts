@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { tool, jsonSchema } from 'ai';
+import { createClient } from '@/utils/supabase/server';
+import { ageFromDob } from '@/lib/insurance/pricing';
+import { listFamilyMembers } from '@/lib/insurance/family/repository';
+import { listPolicies } from '@/lib/insurance/policies/repository';
+import { EMPLOYER_TYPES, ExistingPolicy, POLICY_TYPE_CATEGORIES, POLICY_TYPE_LABELS } from '@/lib/insurance/policies/schema';
+import { annualisedPremium } from '@/lib/insurance/policies/gapAnalysis';
+import { LifePolicyInput, TaxBenefitResult, calculateTaxBenefits } from '@/lib/insurance/tax';
+
+// Schema for the tool
+export const taxBenefitCalculatorSchema = jsonSchema({
+  type: 'object',
+  properties: {
+    annualIncome: {
+      type: 'number',
+      description: "Gross annual income in rupees; defaults to the profile's annual_income"
+    },
+    salaried: {
+      type: 'boolean',
+      description: 'Whether the income is salary or pension, which gets the standard deduction (default true)'
+    },
+    other80C: {
+      type: 'number',
+      description: 'Other 80C investments this year: EPF, PPF, ELSS, home loan principal, tuition fees'
+    },
+    otherDeductions: {
+      type: 'number',
+      description: 'Other old-regime deductions: home loan interest, 80CCD(1B) NPS, HRA exemption'
+    },
+    healthPremiumSelf: {
+      type: 'number',
+      description: 'Annual health premium for self, spouse and children not already recorded as a policy'
+    },
+    healthPremiumParents: {
+      type: 'number',
+      description: "Annual health premium paid for the user's parents"
+    },
+    parentsSeniorCitizen: {
+      type: 'boolean',
+      description: "Whether either parent is 60 or over; worked out from the household when omitted"
+    },
+    preventiveCheckup: {
+      type: 'number',
+      description: 'Preventive health check-up spend this year'
+    },
+    additionalPolicies: {
+      type: 'array',
+      description: 'Life policies not recorded with manageExistingPolicies, including ones the user is considering',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', description: 'Plan or insurer name' },
+          kind: {
+            type: 'string',
+            enum: ['term', 'traditional', 'ulip'],
+            description: 'term for pure protection, traditional for endowment, money back and whole life, ulip for unit linked'
+          },
+          annualPremium: { type: 'number', description: 'Premium paid per year' },
+          sumAssured: { type: 'number', description: 'Sum assured in rupees' },
+          issueDate: { type: 'string', description: 'Issue date in YYYY-MM-DD; omit for a new policy' }
+        },
+        required: ['kind', 'annualPremium', 'sumAssured'],
+        additionalProperties: false
+      }
+    },
+    includeRecordedPolicies: {
+      type: 'boolean',
+      description: "Count premiums on the user's recorded active policies (default true)"
+    }
+  },
+  additionalProperties: false,
+  description: 'Work out tax deductions on insurance premiums and compare the old and new tax regimes'
+});
+
+// Zod schema for validation
+const taxBenefitCalculatorZodSchema = z.object({
+  annualIncome: z.number().positive().optional(),
+  salaried: z.boolean().default(true),
+  other80C: z.number().min(0).default(0),
+  otherDeductions: z.number().min(0).default(0),
+  healthPremiumSelf: z.number().min(0).default(0),
+  healthPremiumParents: z.number().min(0).default(0),
+  parentsSeniorCitizen: z.boolean().optional(),
+  preventiveCheckup: z.number().min(0).default(0),
+  additionalPolicies: z.array(z.object({
+    label: z.string().trim().min(1).max(150).default('New policy'),
+    kind: z.enum(['term', 'traditional', 'ulip']),
+    annualPremium: z.number().min(0),
+    sumAssured: z.number().positive(),
+    issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format.').optional()
+  })).default([]),
+  includeRecordedPolicies: z.boolean().default(true)
+});
+
+export interface TaxBenefitCalculatorResult {
+  success: boolean;
+  status: 'ready' | 'incomplete_profile' | 'error';
+  result?: TaxBenefitResult;
+  // Recorded policies whose premiums were counted
+  countedPolicies?: string[];
+  missingFields?: string[];
+  error?: string;
+}
+
+// Start of the current financial year (1 April), for single premiums
+function financialYearStart(today: Date = new Date()): string {
+  const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${year}-04-01`;
+}
+
+function lifePolicyInput(policy: ExistingPolicy): LifePolicyInput {
+  const single = policy.premiumFrequency === 'single';
+  return {
+    label: policy.planName || `${policy.insurer} ${POLICY_TYPE_LABELS[policy.policyType]}`,
+    kind: policy.policyType === 'term_life' ? 'term' : policy.policyType === 'ulip' ? 'ulip' : 'traditional',
+    annualPremium: single ? policy.premium : annualisedPremium(policy),
+    sumAssured: policy.sumAssured,
+    issueDate: policy.startDate,
+    paidThisYear: single ? !!policy.startDate && policy.startDate >= financialYearStart() : true
+  };
+}
+
+// Main tool implementation
+export const taxBenefitCalculatorTool = tool({
+  description: "Work out the income tax benefits of the user's insurance: 80C on life premiums (capped at 10% of sum assured), 80D on health premiums for self and parents with senior citizen limits, whether savings policies' maturity payouts are tax-free under 10(10D), and the tax under the old vs new regime. Uses the profile income and recorded policies.",
+  parameters: taxBenefitCalculatorSchema,
+  execute: async (params): Promise<TaxBenefitCalculatorResult> => {
+    try {
+      // Validate parameters using Zod
+      const input = taxBenefitCalculatorZodSchema.parse(params ?? {});
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'User not authenticated'
+        };
+      }
+
+      const { data: userProfile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('dob, annual_income')
+        .eq('user_id', user.id)
+        .single();
+
+      if (profileError || !userProfile) {
+        return {
+          success: false,
+          status: 'error',
+          error: 'Unable to fetch user profile'
+        };
+      }
+
+      const annualIncome = input.annualIncome ?? userProfile.annual_income;
+      if (!annualIncome || annualIncome <= 0) {
+        return {
+          success: false,
+          status: 'incomplete_profile',
+          missingFields: ['annual income'],
+          error: 'Please provide your annual income so I can work out your tax.'
+        };
+      }
+
+      // Senior citizen limits depend on the ages of the user, spouse and parents
+      const age = userProfile.dob ? ageFromDob(userProfile.dob) : 0;
+      const household = await listFamilyMembers(supabase, user.id);
+      const isSenior = (dob: string) => ageFromDob(dob) >= 60;
+      const selfSeniorCitizen = age >= 60 || household.some(member => member.relation === 'spouse' && isSenior(member.dob));
+      const parentsSeniorCitizen = input.parentsSeniorCitizen
+        ?? household.some(member => member.relation === 'parent' && isSenior(member.dob));
+
+      // Employer-paid cover earns the user no deduction
+      const recorded = input.includeRecordedPolicies
+        ? (await listPolicies(supabase, user.id, { status: 'active' }))
+          .filter(policy => !EMPLOYER_TYPES.includes(policy.policyType) && policy.premium > 0)
+        : [];
+      const recordedLife = recorded.filter(policy => POLICY_TYPE_CATEGORIES[policy.policyType] === 'life');
+      const recordedHealth = recorded.filter(policy => POLICY_TYPE_CATEGORIES[policy.policyType] === 'health');
+
+      const result = calculateTaxBenefits({
+        annualIncome,
+        age,
+        salaried: input.salaried,
+        lifePolicies: [...recordedLife.map(lifePolicyInput), ...input.additionalPolicies],
+        other80C: input.other80C,
+        // Recorded health policies are taken to cover the user's own family
+        healthPremiumSelf: input.healthPremiumSelf + recordedHealth.reduce((total, policy) => total + annualisedPremium(policy), 0),
+        selfSeniorCitizen,
+        healthPremiumParents: input.healthPremiumParents,
+        parentsSeniorCitizen,
+        preventiveCheckup: input.preventiveCheckup,
+        otherDeductions: input.otherDeductions
+      });
+
+      if (!userProfile.dob) {
+        result.notes.push('Your date of birth is not saved, so the under-60 tax slabs were used.');
+      }
+
+      return {
+        success: true,
+        status: 'ready',
+        result,
+        countedPolicies: [...recordedLife, ...recordedHealth].map(policy => policy.planName || `${policy.insurer} ${POLICY_TYPE_LABELS[policy.policyType]}`)
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          status: 'error',
+          error: `Validation error: ${error.issues.map(issue => issue.message).join(', ')}`
+        };
+      }
+
+      console.error('[taxBenefitCalculator] Error:', error);
+
+      return {
+        success: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+});
+
+// Export the tool
+export default taxBenefitCalculatorTool;
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { tool, jsonSchema } from 'ai';
 import { createClient } from '@/utils/supabase/server';
+import { OccupationClass, classifyOccupation } from '@/lib/insurance/occupation';
 
 // Schema definitions for tool parameters - Using explicit JSON Schema for OpenRouter Anthropic compatibility
 export const getUserProfileSchema = jsonSchema({
@@ -119,6 +120,7 @@ type UserProfile = {
   city: string | null;
   smokingStatus: boolean | null;
   occupation: string | null;
+  occupationClass: OccupationClass | null;
 };
 
 // Tool: Get user profile
@@ -138,7 +140,7 @@ export const getUserProfileTool = tool({
       // Get user profile with automatic RLS filtering
       const { data: profile, error } = await supabase
         .from('user_profile')
-        .select('first_name, last_name, dob, gender, is_married, has_issues, issues, annual_income, city, smoking_status, occupation')
+        .select('first_name, last_name, dob, gender, is_married, has_issues, issues, annual_income, city, smoking_status, occupation, occupation_class')
         .eq('user_id', user.id)
         .single();
 
@@ -177,7 +179,8 @@ export const getUserProfileTool = tool({
         annualIncome: profile.annual_income,
         city: profile.city,
         smokingStatus: profile.smoking_status,
-        occupation: profile.occupation
+        occupation: profile.occupation,
+        occupationClass: profile.occupation_class
       };
 
       return { success: true, data: userProfile };
@@ -413,7 +416,11 @@ async function performProfileUpdate(validatedParams: any, supabase: any, userId:
   if (validatedParams.annualIncome !== undefined) updateData.annual_income = validatedParams.annualIncome;
   if (validatedParams.city !== undefined) updateData.city = validatedParams.city;
   if (validatedParams.smokingStatus !== undefined) updateData.smoking_status = validatedParams.smokingStatus;
-  if (validatedParams.occupation !== undefined) updateData.occupation = validatedParams.occupation;
+  if (validatedParams.occupation !== undefined) {
+    updateData.occupation = validatedParams.occupation;
+    // Keep the resolved risk class in step with the raw text
+    updateData.occupation_class = classifyOccupation(validatedParams.occupation)?.riskClass ?? null;
+  }
   if (validatedParams.coverageAmount !== undefined) updateData.coverage_amount = validatedParams.coverageAmount;
   if (validatedParams.policyTerm !== undefined) updateData.policy_term = validatedParams.policyTerm;
   
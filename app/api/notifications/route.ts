@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { listNotifications, markNotificationsRead } from '@/lib/notifications/inApp';
+
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100)
+});
+
+// GET /api/notifications?all=true
+// Lists the user's in-app notifications, newest first; unread only unless
+// all=true.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const notifications = await listNotifications(supabase, user.id, {
+      includeRead: req.nextUrl.searchParams.get('all') === 'true'
+    });
+
+    return Response.json(notifications);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
+
+// PATCH /api/notifications - mark notifications read ({ ids: [...] })
+export async function PATCH(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const body = markReadSchema.safeParse(await req.json().catch(() => null));
+
+    if (!body.success) {
+      return new Response('ids must be a list of notification IDs', { status: 400 });
+    }
+
+    const updated = await markNotificationsRead(supabase, user.id, body.data.ids);
+
+    return Response.json({ updated });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { getQuote, updateQuoteStatus } from '@/lib/insurance/quotes/repository';
+import { quoteStatusUpdateSchema } from '@/lib/insurance/quotes/schema';
+
+// Quote ids are uuids; anything else cannot match a quote, and passing it on
+// would make Postgres reject the query
+const quoteIdSchema = z.string().uuid();
+
+// GET /api/quotes/:id - reopen a saved quote
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!quoteIdSchema.safeParse(params.id).success) {
+      return new Response('Quote not found', { status: 404 });
+    }
+
+    const quote = await getQuote(supabase, user.id, params.id);
+
+    if (!quote) {
+      return new Response('Quote not found', { status: 404 });
+    }
+
+    return Response.json(quote);
+  } catch (error) {
+    console.error('Error fetching quote:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
+
+// PATCH /api/quotes/:id - accept or withdraw an active quote
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!quoteIdSchema.safeParse(params.id).success) {
+      return new Response('Quote not found', { status: 404 });
+    }
+
+    const body = quoteStatusUpdateSchema.safeParse(await req.json().catch(() => null));
+
+    if (!body.success) {
+      return new Response('Status must be accepted or withdrawn', { status: 400 });
+    }
+
+    const { quote, error } = await updateQuoteStatus(supabase, user.id, params.id, body.data.status);
+
+    if (error === 'not_found') {
+      return new Response('Quote not found', { status: 404 });
+    }
+
+    if (error === 'not_active') {
+      return new Response(`Quote is ${quote?.status} and can no longer be changed`, { status: 409 });
+    }
+
+    return Response.json(quote);
+  } catch (error) {
+    console.error('Error updating quote:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
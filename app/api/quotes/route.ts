@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { listQuotes } from '@/lib/insurance/quotes/repository';
+import { quoteLineSchema, quoteStatusSchema } from '@/lib/insurance/quotes/schema';
+
+// GET /api/quotes?line=term_life&status=active&ids=a,b
+// Lists the user's saved quotes, newest first. Pass ids to fetch specific
+// quotes side by side for comparison.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const line = quoteLineSchema.optional().safeParse(searchParams.get('line') ?? undefined);
+    const status = quoteStatusSchema.optional().safeParse(searchParams.get('status') ?? undefined);
+
+    if (!line.success || !status.success) {
+      return new Response('Invalid line or status', { status: 400 });
+    }
+
+    const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+
+    const quotes = await listQuotes(supabase, user.id, {
+      line: line.data,
+      status: status.data,
+      ids
+    });
+
+    return Response.json(quotes);
+  } catch (error) {
+    console.error('Error fetching quotes:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
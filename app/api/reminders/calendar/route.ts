@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { listPolicies, listPoliciesForCalendarFeed } from '@/lib/insurance/policies/repository';
+import { formatDate, upcomingReminders } from '@/lib/insurance/reminders/schedule';
+import { buildCalendar } from '@/lib/insurance/reminders/ics';
+
+// The feed covers the last month, so recently missed dues stay visible, and
+// the coming year
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 365;
+
+// GET /api/reminders/calendar?token=...
+// iCalendar feed of the user's policy reminders. Calendar apps subscribe
+// with the token from GET /api/reminders; a signed-in user can also download
+// the file without one.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const tokenParam = req.nextUrl.searchParams.get('token');
+
+    let policies;
+    if (tokenParam) {
+      const token = z.string().uuid().safeParse(tokenParam);
+      if (!token.success) {
+        return new Response('Calendar not found', { status: 404 });
+      }
+      policies = await listPoliciesForCalendarFeed(supabase, token.data);
+    } else {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        return new Response('Unauthorized', { status: 401 });
+      }
+
+      policies = await listPolicies(supabase, user.id, { status: 'active' });
+    }
+
+    const now = new Date();
+    const reminders = upcomingReminders(policies, {
+      from: formatDate(new Date(now.getTime() - PAST_DAYS * 24 * 60 * 60 * 1000)),
+      to: formatDate(new Date(now.getTime() + FUTURE_DAYS * 24 * 60 * 60 * 1000))
+    });
+
+    return new Response(buildCalendar(reminders, { now }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="covernow-reminders.ics"',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Error building reminder calendar:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
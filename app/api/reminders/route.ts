@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { listPolicies } from '@/lib/insurance/policies/repository';
+import { reminderPeriodSchema } from '@/lib/insurance/reminders/schema';
+import { reminderWindow, upcomingReminders } from '@/lib/insurance/reminders/schedule';
+import { getCalendarToken } from '@/lib/insurance/reminders/repository';
+import { dispatchDueReminders } from '@/lib/insurance/reminders/dispatch';
+import { createNotifiers } from '@/lib/notifications/notifiers';
+
+// GET /api/reminders?period=this_quarter
+// Lists premium dues, renewals and maturities on the user's active policies
+// for the period (default the next 90 days), with the calendar feed URL.
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const period = reminderPeriodSchema.default('next_90_days').safeParse(req.nextUrl.searchParams.get('period') ?? undefined);
+
+    if (!period.success) {
+      return new Response('Invalid period', { status: 400 });
+    }
+
+    const window = reminderWindow(period.data);
+    const policies = await listPolicies(supabase, user.id, { status: 'active' });
+    const reminders = upcomingReminders(policies, window);
+    const token = await getCalendarToken(supabase, user.id);
+
+    return Response.json({
+      period: period.data,
+      ...window,
+      reminders,
+      totalDue: reminders.reduce((total, reminder) => total + (reminder.amount || 0), 0),
+      calendarUrl: `${req.nextUrl.origin}/api/reminders/calendar?token=${token}`
+    });
+  } catch (error) {
+    console.error('Error fetching reminders:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
+
+// POST /api/reminders - send reminders falling due in the next week through
+// the configured notifiers. Safe to call repeatedly; each reminder is sent
+// once per channel.
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const result = await dispatchDueReminders(
+      supabase,
+      { userId: user.id, email: user.email },
+      createNotifiers(supabase, req.nextUrl.origin)
+    );
+
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -14,6 +14,25 @@ import SearchResults from '@/app/components/SearchResults'
 import DeepResearchProgress from '@/app/components/DeepResearchProgress'
 import LifeInsuranceForm from '@/app/components/LifeInsuranceForm'
 import LifeInsuranceRecommendations from '@/app/components/LifeInsuranceRecommendations'
+import HealthInsuranceForm from '@/app/components/HealthInsuranceForm'
+import HealthInsuranceRecommendations from '@/app/components/HealthInsuranceRecommendations'
+import MotorInsuranceForm from '@/app/components/MotorInsuranceForm'
+import MotorInsuranceRecommendations from '@/app/components/MotorInsuranceRecommendations'
+import TravelInsuranceForm from '@/app/components/TravelInsuranceForm'
+import TravelInsuranceRecommendations from '@/app/components/TravelInsuranceRecommendations'
+import HomeInsuranceForm from '@/app/components/HomeInsuranceForm'
+import HomeInsuranceRecommendations from '@/app/components/HomeInsuranceRecommendations'
+import CoverageNeedsBreakdown from '@/app/components/CoverageNeedsBreakdown'
+import SavedQuotesList from '@/app/components/SavedQuotesList'
+import ProductComparisonTable from '@/app/components/ProductComparisonTable'
+import PolicyPortfolioCard from '@/app/components/PolicyPortfolioCard'
+import UpcomingReminders from '@/app/components/UpcomingReminders'
+import TaxBenefitCard from '@/app/components/TaxBenefitCard'
+import PremiumWhatIfChart from '@/app/components/PremiumWhatIfChart'
+import BuyNowVsLaterChart from '@/app/components/BuyNowVsLaterChart'
+import { InAppNotification } from '@/lib/notifications/inApp'
+import { classifyOccupation } from '@/lib/insurance/occupation'
+import { addFamilyMembers } from '@/lib/insurance/family/repository'
 import { ThemeToggle } from '@/components/theme-toggle'
 import AudioVisualizer from '@/app/components/AudioVisualizer'
 import { useSpeechControls } from '@/app/hooks/useSpeechControls'
@@ -87,6 +106,9 @@ export default function ChatPage() {
   
   // Track when we're waiting for the initial AI response
   const [waitingForResponse, setWaitingForResponse] = useState(false)
+
+  // In-app notifications such as policy reminders
+  const [notifications, setNotifications] = useState<InAppNotification[]>([])
   
   // Speech controls
   const speechControls = useSpeechControls()
@@ -101,9 +123,9 @@ export default function ChatPage() {
       inv.toolName === 'deepResearchSynthesize' && 'result' in inv && inv.result?.success
     );
     
-    // Check if this message has life insurance recommendations that show a component instead of text
+    // Check if this message has insurance recommendations that show a component instead of text
     const hasLifeInsuranceRecommendations = message.toolInvocations?.some(inv => 
-      inv.toolName === 'showLifeInsuranceRecommendations' && 
+      (inv.toolName === 'showLifeInsuranceRecommendations' || inv.toolName === 'showHealthInsuranceRecommendations' || inv.toolName === 'showMotorInsuranceRecommendations' || inv.toolName === 'showTravelInsuranceRecommendations' || inv.toolName === 'showHomeInsuranceRecommendations') && 
       'result' in inv && 
       inv.result?.status === 'ready'
     );
@@ -303,6 +325,7 @@ export default function ChatPage() {
   useEffect(() => {
     checkAuth()
     loadConversations()
+    loadNotifications()
     
     // Restore sidebar state from localStorage
     const savedSidebarState = localStorage.getItem('sidebarCollapsed')
@@ -364,6 +387,32 @@ export default function ChatPage() {
     }
   }
 
+  // Send any policy reminders now due, then show unread notifications
+  const loadNotifications = async () => {
+    try {
+      await fetch('/api/reminders', { method: 'POST' })
+      const response = await fetch('/api/notifications')
+      if (response.ok) {
+        setNotifications(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading notifications:', error)
+    }
+  }
+
+  const dismissNotification = async (id: string) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id))
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [id] })
+      })
+    } catch (error) {
+      console.error('Error dismissing notification:', error)
+    }
+  }
+
   const loadConversations = async () => {
     const { data, error } = await supabase
       .from('conversations')
@@ -951,6 +1000,26 @@ export default function ChatPage() {
               </div>
             </div>
           )}
+          {/* In-app notifications */}
+          {notifications.length > 0 && (
+            <div className="max-w-5xl mx-auto px-6 pt-4 space-y-2">
+              {notifications.map(notification => (
+                <div key={notification.id} className="flex items-start justify-between gap-4 px-4 py-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-xl">
+                  <div>
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-300">{notification.title}</p>
+                    <p className="text-xs text-amber-700 dark:text-amber-400/80">{notification.body}</p>
+                  </div>
+                  <button
+                    onClick={() => dismissNotification(notification.id)}
+                    className="text-amber-600 dark:text-amber-400 hover:text-amber-800 dark:hover:text-amber-200 text-sm"
+                    aria-label="Dismiss notification"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           {messages.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center">
               <div className="w-20 h-20 mb-8 relative">
@@ -978,6 +1047,10 @@ export default function ChatPage() {
                 const hasSpecialComponent = message.role === 'assistant' && (
                   message.toolInvocations?.some(inv => 
                     (inv.toolName === 'showLifeInsuranceRecommendations' && 'result' in inv && inv.result?.status === 'ready') ||
+                    (inv.toolName === 'showHealthInsuranceRecommendations' && 'result' in inv && inv.result?.status === 'ready') ||
+                    (inv.toolName === 'showMotorInsuranceRecommendations' && 'result' in inv && inv.result?.status === 'ready') ||
+                    (inv.toolName === 'showTravelInsuranceRecommendations' && 'result' in inv && inv.result?.status === 'ready') ||
+                    (inv.toolName === 'showHomeInsuranceRecommendations' && 'result' in inv && inv.result?.status === 'ready') ||
                     (inv.toolName === 'deepResearchSynthesize' && 'result' in inv && inv.result?.success)
                   )
                 );
@@ -1229,6 +1302,7 @@ export default function ChatPage() {
                                   <LifeInsuranceForm
                                     userData={toolInvocation.result.userData}
                                     fieldsToShow={toolInvocation.result.fieldsToShow || []}
+                                    familyMembers={toolInvocation.result.familyMembers || []}
                                     sessionId={toolInvocation.result.sessionId || ''}
                                     onSubmit={async (data) => {
                                       console.log('[LifeInsurance] Form submission with data:', data);
@@ -1238,14 +1312,32 @@ export default function ChatPage() {
                                       const { data: { user } } = await supabase.auth.getUser();
                                       
                                       if (user) {
-                                        // Update user profile with the form data
+                                        const dependents = data.dependents || [];
+                                        const hasSpouse = dependents.some((member: { relation: string }) => member.relation === 'spouse');
+
+                                        // Update user profile with the form data, resolving
+                                        // the occupation risk class alongside the raw text
                                         const { error } = await supabase
                                           .from('user_profile')
                                           .update({
                                             ...data.formData,
+                                            ...(data.formData.occupation !== undefined && {
+                                              occupation_class: classifyOccupation(data.formData.occupation)?.riskClass ?? null
+                                            }),
+                                            ...(hasSpouse && { is_married: true }),
                                             updated_at: new Date().toISOString()
                                           })
                                           .eq('user_id', user.id);
+
+                                        // Save family members added in the form to the household;
+                                        // recommendations still work without them
+                                        if (!error && dependents.length > 0) {
+                                          try {
+                                            await addFamilyMembers(supabase, user.id, dependents);
+                                          } catch (familyError) {
+                                            console.error('Error saving family members:', familyError);
+                                          }
+                                        }
                                           
                                         if (!error) {
                                           // Tell the AI to show recommendations
@@ -1265,6 +1357,18 @@ export default function ChatPage() {
                                   <LifeInsuranceRecommendations
                                     recommendations={toolInvocation.result.recommendations || []}
                                     userData={toolInvocation.result.userData}
+                                    coverageNeeds={toolInvocation.result.coverageNeeds}
+                                    coverageCap={toolInvocation.result.coverageCap}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    coverageAmount={toolInvocation.result.coverageAmount}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                    onCompare={(productNames) => append({
+                                      role: 'user',
+                                      content: `Compare ${productNames.join(' and ')} side by side`
+                                    })}
                                   />
                                 </div>
                               ) : (
@@ -1296,6 +1400,18 @@ export default function ChatPage() {
                                   <LifeInsuranceRecommendations
                                     recommendations={toolInvocation.result.recommendations || []}
                                     userData={toolInvocation.result.userData}
+                                    coverageNeeds={toolInvocation.result.coverageNeeds}
+                                    coverageCap={toolInvocation.result.coverageCap}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    coverageAmount={toolInvocation.result.coverageAmount}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                    onCompare={(productNames) => append({
+                                      role: 'user',
+                                      content: `Compare ${productNames.join(' and ')} side by side`
+                                    })}
                                   />
                                 </div>
                               ) : toolInvocation.result?.status === 'incomplete_profile' ? (
@@ -1317,6 +1433,637 @@ export default function ChatPage() {
                             );
                           }
 
+                          // Handle collectHealthInsuranceInfo tool
+                          if (toolInvocation.toolName === 'collectHealthInsuranceInfo') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'needs_input' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <HealthInsuranceForm
+                                    userData={toolInvocation.result.userData}
+                                    preferences={toolInvocation.result.preferences}
+                                    cityTier={toolInvocation.result.cityTier}
+                                    suggestedSumInsured={toolInvocation.result.suggestedSumInsured}
+                                    sumInsuredOptions={toolInvocation.result.sumInsuredOptions || []}
+                                    sessionId={toolInvocation.result.sessionId || ''}
+                                    onSubmit={async (data) => {
+                                      // Save the answers and any profile details to the database
+                                      const supabase = createClient();
+                                      const { data: { user } } = await supabase.auth.getUser();
+
+                                      if (user) {
+                                        const { error } = await supabase
+                                          .from('user_profile')
+                                          .update({
+                                            ...data.formData,
+                                            has_issues: data.formData.issues.length > 0,
+                                            updated_at: new Date().toISOString()
+                                          })
+                                          .eq('user_id', user.id);
+
+                                        if (!error) {
+                                          // Tell the AI to show recommendations
+                                          append({
+                                            role: 'user',
+                                            content: "I've submitted my health insurance details. Please show me health insurance recommendations."
+                                          });
+                                        } else {
+                                          console.error('Error updating profile:', error);
+                                        }
+                                      }
+                                    }}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                                    <p className="text-sm text-red-400">
+                                      Failed to process insurance request: {toolInvocation.result?.error || 'Unknown error'}
+                                    </p>
+                                  </div>
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                  <div className="w-4 h-4 bg-[#22C55E]/20 rounded-full flex items-center justify-center">
+                                    <div className="w-2 h-2 bg-[#22C55E] rounded-full animate-pulse" />
+                                  </div>
+                                  <span>Aria is preparing your health insurance form...</span>
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle showHealthInsuranceRecommendations tool
+                          if (toolInvocation.toolName === 'showHealthInsuranceRecommendations') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <HealthInsuranceRecommendations
+                                    recommendations={toolInvocation.result.recommendations || []}
+                                    userData={toolInvocation.result.userData}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    sumInsured={toolInvocation.result.sumInsured}
+                                    coverType={toolInvocation.result.coverType}
+                                    cityTier={toolInvocation.result.cityTier}
+                                    members={toolInvocation.result.members}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                  />
+                                </div>
+                              ) : toolInvocation.result?.status === 'incomplete_profile' ? (
+                                <div key={toolCallId} className="mt-2 text-sm text-[#22C55E]">
+                                  {toolInvocation.result.error}
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 text-sm text-red-400">
+                                  Error: {toolInvocation.result?.error || 'Unknown error'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is pricing health plans for your family...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle collectMotorInsuranceInfo tool
+                          if (toolInvocation.toolName === 'collectMotorInsuranceInfo') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'needs_input' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <MotorInsuranceForm
+                                    userData={toolInvocation.result.userData}
+                                    preferences={toolInvocation.result.preferences}
+                                    vehicleModels={toolInvocation.result.vehicleModels || []}
+                                    sessionId={toolInvocation.result.sessionId || ''}
+                                    onSubmit={async (data) => {
+                                      // Save the vehicle details to the database
+                                      const supabase = createClient();
+                                      const { data: { user } } = await supabase.auth.getUser();
+
+                                      if (user) {
+                                        const { error } = await supabase
+                                          .from('user_profile')
+                                          .update({
+                                            ...data.formData,
+                                            updated_at: new Date().toISOString()
+                                          })
+                                          .eq('user_id', user.id);
+
+                                        if (!error) {
+                                          // Tell the AI to show recommendations
+                                          append({
+                                            role: 'user',
+                                            content: "I've submitted my vehicle details. Please show me motor insurance quotes."
+                                          });
+                                        } else {
+                                          console.error('Error updating profile:', error);
+                                        }
+                                      }
+                                    }}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                                    <p className="text-sm text-red-400">
+                                      Failed to process insurance request: {toolInvocation.result?.error || 'Unknown error'}
+                                    </p>
+                                  </div>
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                  <div className="w-4 h-4 bg-[#22C55E]/20 rounded-full flex items-center justify-center">
+                                    <div className="w-2 h-2 bg-[#22C55E] rounded-full animate-pulse" />
+                                  </div>
+                                  <span>Aria is preparing your motor insurance form...</span>
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle showMotorInsuranceRecommendations tool
+                          if (toolInvocation.toolName === 'showMotorInsuranceRecommendations') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <MotorInsuranceRecommendations
+                                    recommendations={toolInvocation.result.recommendations || []}
+                                    userData={toolInvocation.result.userData}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    vehicle={toolInvocation.result.vehicle}
+                                    policyType={toolInvocation.result.policyType}
+                                    computedIdv={toolInvocation.result.computedIdv}
+                                    ncb={toolInvocation.result.ncb}
+                                    ncbForfeited={toolInvocation.result.ncbForfeited}
+                                    zone={toolInvocation.result.zone}
+                                    vehicleAgeMonths={toolInvocation.result.vehicleAgeMonths}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                  />
+                                </div>
+                              ) : toolInvocation.result?.status === 'incomplete_profile' ? (
+                                <div key={toolCallId} className="mt-2 text-sm text-[#22C55E]">
+                                  {toolInvocation.result.error}
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 text-sm text-red-400">
+                                  Error: {toolInvocation.result?.error || 'Unknown error'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is pricing motor plans for your vehicle...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle collectTravelInsuranceInfo tool
+                          if (toolInvocation.toolName === 'collectTravelInsuranceInfo') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'needs_input' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <TravelInsuranceForm
+                                    userData={toolInvocation.result.userData}
+                                    preferences={toolInvocation.result.preferences}
+                                    travellers={toolInvocation.result.travellers || []}
+                                    medicalCoverOptions={toolInvocation.result.medicalCoverOptions || []}
+                                    sessionId={toolInvocation.result.sessionId || ''}
+                                    onSubmit={async (data) => {
+                                      // Save the trip details to the database
+                                      const supabase = createClient();
+                                      const { data: { user } } = await supabase.auth.getUser();
+
+                                      if (user) {
+                                        const { error } = await supabase
+                                          .from('user_profile')
+                                          .update({
+                                            ...data.formData,
+                                            updated_at: new Date().toISOString()
+                                          })
+                                          .eq('user_id', user.id);
+
+                                        if (!error) {
+                                          // Tell the AI to show recommendations
+                                          append({
+                                            role: 'user',
+                                            content: "I've submitted my trip details. Please show me travel insurance plans."
+                                          });
+                                        } else {
+                                          console.error('Error updating profile:', error);
+                                        }
+                                      }
+                                    }}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                                    <p className="text-sm text-red-400">
+                                      Failed to process insurance request: {toolInvocation.result?.error || 'Unknown error'}
+                                    </p>
+                                  </div>
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                  <div className="w-4 h-4 bg-[#22C55E]/20 rounded-full flex items-center justify-center">
+                                    <div className="w-2 h-2 bg-[#22C55E] rounded-full animate-pulse" />
+                                  </div>
+                                  <span>Aria is preparing your travel insurance form...</span>
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle showTravelInsuranceRecommendations tool
+                          if (toolInvocation.toolName === 'showTravelInsuranceRecommendations') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <TravelInsuranceRecommendations
+                                    recommendations={toolInvocation.result.recommendations || []}
+                                    userData={toolInvocation.result.userData}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    medicalCover={toolInvocation.result.medicalCover}
+                                    region={toolInvocation.result.region}
+                                    tripType={toolInvocation.result.tripType}
+                                    startDate={toolInvocation.result.startDate}
+                                    endDate={toolInvocation.result.endDate}
+                                    days={toolInvocation.result.days}
+                                    maxTripDays={toolInvocation.result.maxTripDays}
+                                    travellers={toolInvocation.result.travellers}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                  />
+                                </div>
+                              ) : toolInvocation.result?.status === 'incomplete_profile' ? (
+                                <div key={toolCallId} className="mt-2 text-sm text-[#22C55E]">
+                                  {toolInvocation.result.error}
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 text-sm text-red-400">
+                                  Error: {toolInvocation.result?.error || 'Unknown error'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is pricing travel plans for your trip...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle collectHomeInsuranceInfo tool
+                          if (toolInvocation.toolName === 'collectHomeInsuranceInfo') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'needs_input' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <HomeInsuranceForm
+                                    userData={toolInvocation.result.userData}
+                                    preferences={toolInvocation.result.preferences}
+                                    cities={toolInvocation.result.cities || []}
+                                    sessionId={toolInvocation.result.sessionId || ''}
+                                    onSubmit={async (data) => {
+                                      // Save the property details to the database
+                                      const supabase = createClient();
+                                      const { data: { user } } = await supabase.auth.getUser();
+
+                                      if (user) {
+                                        const { error } = await supabase
+                                          .from('user_profile')
+                                          .update({
+                                            ...data.formData,
+                                            updated_at: new Date().toISOString()
+                                          })
+                                          .eq('user_id', user.id);
+
+                                        if (!error) {
+                                          // Tell the AI to show recommendations
+                                          append({
+                                            role: 'user',
+                                            content: "I've submitted my home details. Please show me home insurance quotes."
+                                          });
+                                        } else {
+                                          console.error('Error updating profile:', error);
+                                        }
+                                      }
+                                    }}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                                    <p className="text-sm text-red-400">
+                                      Failed to process insurance request: {toolInvocation.result?.error || 'Unknown error'}
+                                    </p>
+                                  </div>
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6">
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                  <div className="w-4 h-4 bg-[#22C55E]/20 rounded-full flex items-center justify-center">
+                                    <div className="w-2 h-2 bg-[#22C55E] rounded-full animate-pulse" />
+                                  </div>
+                                  <span>Aria is preparing your home insurance form...</span>
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle showHomeInsuranceRecommendations tool
+                          if (toolInvocation.toolName === 'showHomeInsuranceRecommendations') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <HomeInsuranceRecommendations
+                                    recommendations={toolInvocation.result.recommendations || []}
+                                    userData={toolInvocation.result.userData}
+                                    excludedProducts={toolInvocation.result.excludedProducts}
+                                    property={toolInvocation.result.property}
+                                    location={toolInvocation.result.location}
+                                    structureValue={toolInvocation.result.structureValue}
+                                    buildingAge={toolInvocation.result.buildingAge}
+                                    quote={toolInvocation.result.quoteId ? {
+                                      id: toolInvocation.result.quoteId,
+                                      validUntil: toolInvocation.result.quoteValidUntil
+                                    } : undefined}
+                                  />
+                                </div>
+                              ) : toolInvocation.result?.status === 'incomplete_profile' ? (
+                                <div key={toolCallId} className="mt-2 text-sm text-[#22C55E]">
+                                  {toolInvocation.result.error}
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 text-sm text-red-400">
+                                  Error: {toolInvocation.result?.error || 'Unknown error'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is pricing home plans for your property...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle manageExistingPolicies tool - show the portfolio after each change
+                          if (toolInvocation.toolName === 'manageExistingPolicies' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            return (
+                              <div key={toolCallId} className="mt-4">
+                                <PolicyPortfolioCard
+                                  policies={toolInvocation.result.policies || []}
+                                  portfolio={toolInvocation.result.portfolio}
+                                />
+                              </div>
+                            );
+                          }
+
+                          // Handle getUpcomingReminders tool
+                          if (toolInvocation.toolName === 'getUpcomingReminders' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            return (
+                              <div key={toolCallId} className="mt-4">
+                                <UpcomingReminders
+                                  reminders={toolInvocation.result.reminders || []}
+                                  from={toolInvocation.result.from}
+                                  to={toolInvocation.result.to}
+                                  totalDue={toolInvocation.result.totalDue || 0}
+                                  calendarPath={toolInvocation.result.calendarPath}
+                                />
+                              </div>
+                            );
+                          }
+
+                          // Handle premiumWhatIf tool
+                          if (toolInvocation.toolName === 'premiumWhatIf' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            return (
+                              <div key={toolCallId} className="mt-4">
+                                <PremiumWhatIfChart
+                                  current={toolInvocation.result.current}
+                                  scenarios={toolInvocation.result.scenarios || []}
+                                  rows={toolInvocation.result.rows || []}
+                                  summary={toolInvocation.result.summary}
+                                />
+                              </div>
+                            );
+                          }
+
+                          // Handle buyNowVsLater tool
+                          if (toolInvocation.toolName === 'buyNowVsLater' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            return (
+                              <div key={toolCallId} className="mt-4">
+                                <BuyNowVsLaterChart
+                                  productName={toolInvocation.result.productName}
+                                  company={toolInvocation.result.company}
+                                  coverageAmount={toolInvocation.result.coverageAmount}
+                                  coverToAge={toolInvocation.result.coverToAge}
+                                  points={toolInvocation.result.points || []}
+                                  summary={toolInvocation.result.summary}
+                                />
+                              </div>
+                            );
+                          }
+
+                          // Handle taxBenefitCalculator tool
+                          if (toolInvocation.toolName === 'taxBenefitCalculator' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            return (
+                              <div key={toolCallId} className="mt-4">
+                                <TaxBenefitCard result={toolInvocation.result.result} />
+                              </div>
+                            );
+                          }
+
+                          // Handle coverageGapAnalysis tool
+                          if (toolInvocation.toolName === 'coverageGapAnalysis') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <PolicyPortfolioCard
+                                    policies={toolInvocation.result.policies || []}
+                                    portfolio={toolInvocation.result.analysis.portfolio}
+                                    analysis={toolInvocation.result.analysis}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-[#22C55E]">
+                                  {toolInvocation.result?.error || 'Unable to analyse your coverage'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is checking your cover against your needs...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle calculateCoverageNeeds tool
+                          if (toolInvocation.toolName === 'calculateCoverageNeeds') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <CoverageNeedsBreakdown analysis={toolInvocation.result.analysis} />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-[#22C55E]">
+                                  {toolInvocation.result?.error || 'Unable to calculate coverage needs'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is working out how much cover you need...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle compareInsuranceProducts tool
+                          if (toolInvocation.toolName === 'compareInsuranceProducts') {
+                            return 'result' in toolInvocation ? (
+                              toolInvocation.result?.status === 'ready' ? (
+                                <div key={toolCallId} className="mt-4">
+                                  <ProductComparisonTable
+                                    products={toolInvocation.result.products || []}
+                                    coverageAmount={toolInvocation.result.coverageAmount}
+                                    missingFields={toolInvocation.result.missingFields}
+                                  />
+                                </div>
+                              ) : (
+                                <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-[#22C55E]">
+                                  {toolInvocation.result?.error || 'Unable to compare these plans'}
+                                </div>
+                              )
+                            ) : (
+                              <div key={toolCallId} className="mt-2 max-w-5xl mx-auto px-6 text-sm text-gray-500">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                                  Aria is lining up the plans side by side...
+                                </div>
+                              </div>
+                            );
+                          }
+
+                          // Handle manageSavedQuotes tool - list or reopen saved quotes
+                          if (toolInvocation.toolName === 'manageSavedQuotes' && 'result' in toolInvocation && toolInvocation.result?.success) {
+                            const { operation, quotes, quote } = toolInvocation.result;
+                            if (operation === 'list') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <SavedQuotesList quotes={quotes || []} />
+                                </div>
+                              );
+                            }
+                            if (operation === 'open' && quote?.line === 'term_life') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <LifeInsuranceRecommendations
+                                    recommendations={quote.products}
+                                    userData={quote.inputs}
+                                    coverageNeeds={quote.details.coverageNeeds}
+                                    coverageCap={quote.details.coverageCap}
+                                    excludedProducts={quote.details.excludedProducts}
+                                    coverageAmount={quote.details.coverageAmount}
+                                    quote={{ id: quote.id, validUntil: quote.validUntil, status: quote.status }}
+                                  />
+                                </div>
+                              );
+                            }
+                            if (operation === 'open' && quote?.line === 'health') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <HealthInsuranceRecommendations
+                                    recommendations={quote.products}
+                                    userData={quote.inputs}
+                                    excludedProducts={quote.details.excludedProducts}
+                                    sumInsured={quote.details.coverageAmount}
+                                    coverType={quote.details.coverType}
+                                    cityTier={quote.details.cityTier}
+                                    members={quote.details.members}
+                                    quote={{ id: quote.id, validUntil: quote.validUntil, status: quote.status }}
+                                  />
+                                </div>
+                              );
+                            }
+                            if (operation === 'open' && quote?.line === 'motor') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <MotorInsuranceRecommendations
+                                    recommendations={quote.products}
+                                    userData={quote.inputs}
+                                    excludedProducts={quote.details.excludedProducts}
+                                    vehicle={quote.details.vehicle}
+                                    policyType={quote.details.policyType}
+                                    computedIdv={quote.details.coverageAmount}
+                                    ncb={quote.details.ncb}
+                                    zone={quote.details.zone}
+                                    quote={{ id: quote.id, validUntil: quote.validUntil, status: quote.status }}
+                                  />
+                                </div>
+                              );
+                            }
+                            if (operation === 'open' && quote?.line === 'travel') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <TravelInsuranceRecommendations
+                                    recommendations={quote.products}
+                                    userData={quote.inputs}
+                                    excludedProducts={quote.details.excludedProducts}
+                                    medicalCover={quote.details.coverageAmount}
+                                    region={quote.details.region}
+                                    tripType={quote.details.tripType}
+                                    startDate={quote.details.startDate}
+                                    endDate={quote.details.endDate}
+                                    days={quote.details.days}
+                                    maxTripDays={quote.inputs.travel_insurance?.maxTripDays}
+                                    travellers={quote.details.travellers}
+                                    quote={{ id: quote.id, validUntil: quote.validUntil, status: quote.status }}
+                                  />
+                                </div>
+                              );
+                            }
+                            if (operation === 'open' && quote?.line === 'home') {
+                              return (
+                                <div key={toolCallId} className="mt-4">
+                                  <HomeInsuranceRecommendations
+                                    recommendations={quote.products}
+                                    userData={quote.inputs}
+                                    excludedProducts={quote.details.excludedProducts}
+                                    property={quote.details.property}
+                                    location={quote.details.location}
+                                    structureValue={quote.details.structureValue}
+                                    buildingAge={quote.details.buildingAge}
+                                    quote={{ id: quote.id, validUntil: quote.validUntil, status: quote.status }}
+                                  />
+                                </div>
+                              );
+                            }
+                          }
+
                           // Other tools - show friendly status messages that hide after completion
                           const toolMessages: Record<string, { pending: string; completed: string }> = {
                             updateUserProfile: {
@@ -1327,6 +2074,10 @@ export default function ChatPage() {
                               pending: 'Aria is updating your health conditions...',
                               completed: '✓ Health conditions updated'
                             },
+                            manageFamilyMembers: {
+                              pending: 'Aria is updating your family details...',
+                              completed: '✓ Family details updated'
+                            },
                             handleConfirmationResponse: {
                               pending: 'Processing your response...',
                               completed: '✓ Response processed'
@@ -1355,6 +2106,82 @@ export default function ChatPage() {
                               pending: 'Aria is analyzing your insurance needs...',
                               completed: '✓ Insurance recommendations ready'
                             },
+                            collectHealthInsuranceInfo: {
+                              pending: 'Aria is preparing your health insurance form...',
+                              completed: '✓ Health insurance form ready'
+                            },
+                            showHealthInsuranceRecommendations: {
+                              pending: 'Aria is pricing health plans...',
+                              completed: '✓ Health insurance recommendations ready'
+                            },
+                            collectMotorInsuranceInfo: {
+                              pending: 'Aria is preparing your motor insurance form...',
+                              completed: '✓ Motor insurance form ready'
+                            },
+                            showMotorInsuranceRecommendations: {
+                              pending: 'Aria is pricing motor plans...',
+                              completed: '✓ Motor insurance quotes ready'
+                            },
+                            collectTravelInsuranceInfo: {
+                              pending: 'Aria is preparing your travel insurance form...',
+                              completed: '✓ Travel insurance form ready'
+                            },
+                            showTravelInsuranceRecommendations: {
+                              pending: 'Aria is pricing travel plans...',
+                              completed: '✓ Travel insurance plans ready'
+                            },
+                            collectHomeInsuranceInfo: {
+                              pending: 'Aria is preparing your home insurance form...',
+                              completed: '✓ Home insurance form ready'
+                            },
+                            showHomeInsuranceRecommendations: {
+                              pending: 'Aria is pricing home plans...',
+                              completed: '✓ Home insurance quotes ready'
+                            },
+                            calculateCoverageNeeds: {
+                              pending: 'Aria is working out how much cover you need...',
+                              completed: '✓ Coverage needs calculated'
+                            },
+                            compareInsuranceProducts: {
+                              pending: 'Aria is comparing plans...',
+                              completed: '✓ Plans compared'
+                            },
+                            manageExistingPolicies: {
+                              pending: 'Aria is updating your policies...',
+                              completed: '✓ Policies updated'
+                            },
+                            coverageGapAnalysis: {
+                              pending: 'Aria is checking your cover against your needs...',
+                              completed: '✓ Coverage gaps analysed'
+                            },
+                            getUpcomingReminders: {
+                              pending: 'Aria is checking what falls due...',
+                              completed: '✓ Reminders ready'
+                            },
+                            premiumWhatIf: {
+                              pending: 'Aria is repricing your options...',
+                              completed: '✓ What-if prices ready'
+                            },
+                            buyNowVsLater: {
+                              pending: 'Aria is projecting future premiums...',
+                              completed: '✓ Buy now vs later ready'
+                            },
+                            compareReturnOfPremium: {
+                              pending: 'Aria is comparing return of premium with term...',
+                              completed: '✓ Return of premium comparison ready'
+                            },
+                            getInsurerScorecard: {
+                              pending: 'Aria is looking up insurer track records...',
+                              completed: '✓ Insurer scorecard ready'
+                            },
+                            taxBenefitCalculator: {
+                              pending: 'Aria is working out your tax benefits...',
+                              completed: '✓ Tax benefits calculated'
+                            },
+                            manageSavedQuotes: {
+                              pending: 'Aria is fetching your saved quotes...',
+                              completed: '✓ Saved quotes loaded'
+                            },
                             calculator: {
                               pending: 'Aria is calculating...',
                               completed: '✓ Calculation completed'
@@ -0,0 +1,132 @@
+'use client'
+
+import { BuyLaterPoint } from '@/app/api/chat/tools/buyNowVsLater'
+
+interface BuyNowVsLaterChartProps {
+  productName: string;
+  company: string;
+  coverageAmount: number;
+  coverToAge: number;
+  points: BuyLaterPoint[];
+  summary?: string;
+}
+
+export default function BuyNowVsLaterChart({
+  productName,
+  company,
+  coverageAmount,
+  coverToAge,
+  points,
+  summary
+}: BuyNowVsLaterChartProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const maxPremium = Math.max(1, ...points.map(point => point.annualPremium || 0))
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">Buy now or later · annual premium by starting age</p>
+        <p className="text-lg text-white mb-1">
+          {company} <span className="text-white/50">{productName}</span>
+        </p>
+        <p className="text-xs text-white/50 mb-4">
+          {formatCurrency(coverageAmount)} cover until age {coverToAge}, assuming your health stays the same
+        </p>
+        {summary && <p className="text-sm text-white/80 mb-6">{summary}</p>}
+
+        {/* Annual premium for each starting age */}
+        <div className="flex items-end gap-2 h-48 mb-2">
+          {points.map(point => (
+            <div key={point.delayYears} className="flex-1 h-full flex flex-col justify-end items-center">
+              {point.available ? (
+                <>
+                  <span className="text-[10px] text-white/60 mb-1 whitespace-nowrap">
+                    {point.indicative ? '~' : ''}
+                    {point.premiumIncreasePercent !== undefined ? `+${point.premiumIncreasePercent}%` : 'Now'}
+                  </span>
+                  <div
+                    className={`w-full rounded-t-md ${point.delayYears === 0 ? 'bg-green-400' : 'bg-orange-400/80'} ${point.indicative ? 'opacity-50' : ''}`}
+                    style={{ height: `${((point.annualPremium || 0) / maxPremium) * 100}%` }}
+                    title={formatCurrency(point.annualPremium || 0)}
+                  />
+                </>
+              ) : (
+                <span className="text-[10px] text-white/40 mb-1" title={point.reasons?.join('; ')}>N/A</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mb-6">
+          {points.map(point => (
+            <span key={point.delayYears} className="flex-1 text-center text-xs text-white/60">{point.age}</span>
+          ))}
+        </div>
+        {points.some(point => point.indicative) && (
+          <p className="text-[11px] text-white/40 -mt-4 mb-6">
+            ~ Indicative: the plan does not list the exact term for this start, so the insurer may quote a different premium
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-white/50 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Start at</th>
+                <th className="py-2 pr-4 font-medium text-right">Annual premium</th>
+                <th className="py-2 pr-4 font-medium text-right">Term</th>
+                <th className="py-2 pr-4 font-medium text-right">Total outgo</th>
+                <th className="py-2 font-medium text-right">Break-even age</th>
+              </tr>
+            </thead>
+            <tbody>
+              {points.map(point => (
+                <tr key={point.delayYears} className="border-b border-white/5 text-white/80">
+                  <td className="py-2 pr-4">
+                    {point.age}
+                    <span className="text-white/40 ml-2">
+                      {point.delayYears === 0 ? 'today' : `+${point.delayYears} yr`}
+                    </span>
+                  </td>
+                  {point.available ? (
+                    <>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(point.annualPremium || 0)}
+                        {point.indicative && (
+                          <span className="ml-1 text-xs text-white/40" title="The plan does not list this term, so the premium is indicative">~</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{point.policyTerm} yrs</td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(point.totalOutgo || 0)}
+                        {point.totalDifference !== undefined && point.totalDifference !== 0 && (
+                          <span className={`ml-2 text-xs ${point.totalDifference > 0 ? 'text-orange-400' : 'text-green-400'}`}>
+                            {point.totalDifference > 0 ? '+' : '−'}{formatCurrency(Math.abs(point.totalDifference))}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {point.delayYears === 0 ? '—' : point.breakEvenAge != null ? Math.ceil(point.breakEvenAge) : 'Never'}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="py-2 text-right text-white/40">
+                      Not available{point.reasons && point.reasons.length > 0 ? ` · ${point.reasons.join('; ')}` : ''}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { NeedsAnalysisResult } from '@/lib/insurance/needsAnalysis'
+
+interface CoverageNeedsBreakdownProps {
+  analysis: NeedsAnalysisResult;
+  // Compact mode drops the header and assumptions, for use inside other cards
+  compact?: boolean;
+}
+
+export default function CoverageNeedsBreakdown({ analysis, compact = false }: CoverageNeedsBreakdownProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(2)} Cr`
+    } else if (amount >= 100000) { // 1 lakh or more
+      return `₹${(amount / 100000).toFixed(1)} Lakhs`
+    }
+    return formatCurrency(amount)
+  }
+
+  const rows = (
+    <div className="space-y-2">
+      {analysis.breakdown.map(item => (
+        <div key={item.key} className="flex items-start justify-between gap-4">
+          <div>
+            <p className={`text-sm font-medium ${item.amount < 0 ? 'text-green-300' : 'text-white'}`}>{item.label}</p>
+            <p className="text-xs text-white/50">{item.explanation}</p>
+          </div>
+          <p className={`text-sm font-semibold whitespace-nowrap ${item.amount < 0 ? 'text-green-400' : 'text-white'}`}>
+            {item.amount < 0 ? '−' : ''}{formatCoverage(Math.abs(item.amount))}
+          </p>
+        </div>
+      ))}
+      <div className="flex items-center justify-between border-t border-white/10 pt-2">
+        <p className="text-sm font-semibold text-white">Recommended cover</p>
+        <p className="text-lg font-bold text-orange-400">{formatCoverage(analysis.recommendedCover)}</p>
+      </div>
+    </div>
+  )
+
+  if (compact) {
+    return rows
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <div className="mb-6">
+          <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">How much cover you need</p>
+          <p className="text-3xl font-bold text-white tracking-tight">{formatCoverage(analysis.recommendedCover)}</p>
+          <p className="text-sm text-white/70 mt-2">{analysis.summary}</p>
+        </div>
+
+        {rows}
+
+        <div className="mt-6 flex flex-wrap gap-2 text-xs text-white/60">
+          <span className="px-3 py-1 bg-white/5 rounded-full">Retire at {analysis.assumptions.retirementAge}</span>
+          <span className="px-3 py-1 bg-white/5 rounded-full">Inflation {(analysis.assumptions.inflationRate * 100).toFixed(1)}%</span>
+          <span className="px-3 py-1 bg-white/5 rounded-full">Returns {(analysis.assumptions.investmentReturn * 100).toFixed(1)}%</span>
+          <span className="px-3 py-1 bg-white/5 rounded-full">Own expenses {(analysis.assumptions.personalExpenseShare * 100).toFixed(0)}% of income</span>
+        </div>
+      </div>
+    </div>
+  )
+}
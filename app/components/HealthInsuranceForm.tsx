@@ -0,0 +1,391 @@
+'use client'
+
+import { useState } from 'react'
+import { HealthProfileData } from '@/app/api/chat/tools/collectHealthInsuranceInfo'
+import { CityTier, HealthMember, HealthPreferences, MemberRelation } from '@/lib/insurance/health/schema'
+import { ageFromDob } from '@/lib/insurance/pricing'
+
+interface HealthInsuranceFormProps {
+  userData: HealthProfileData;
+  preferences: HealthPreferences;
+  cityTier?: CityTier | null;
+  suggestedSumInsured?: number;
+  sumInsuredOptions: number[];
+  sessionId: string;
+  onSubmit: (data: HealthFormSubmission) => void;
+}
+
+export interface HealthFormSubmission {
+  sessionId: string;
+  // Columns to update on user_profile
+  formData: {
+    dob?: string;
+    city?: string;
+    issues: string[];
+    health_insurance: HealthPreferences;
+  };
+}
+
+// Member rows are edited as strings and parsed on submit
+interface MemberRow {
+  relation: MemberRelation;
+  age: string;
+  conditions: string;
+}
+
+const RELATION_OPTIONS: { value: MemberRelation; label: string }[] = [
+  { value: 'self', label: 'Self' },
+  { value: 'spouse', label: 'Spouse' },
+  { value: 'child', label: 'Child' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'parent_in_law', label: 'Parent-in-law' }
+]
+
+const ROOM_RENT_OPTIONS: { value: HealthPreferences['roomRent']; label: string; help: string }[] = [
+  { value: 'any', label: 'Any plan', help: 'Include plans with room-rent caps for lower premiums' },
+  { value: 'single_private', label: 'Single private room', help: 'Skip plans capping room rent below a private room' },
+  { value: 'no_limit', label: 'No capping', help: 'Only plans with no room-rent limit' }
+]
+
+const TIER_LABELS: Record<CityTier, string> = {
+  tier_1: 'Metro (tier 1) pricing',
+  tier_2: 'Tier 2 city pricing',
+  tier_3: 'Tier 3 city pricing'
+}
+
+const MAX_MEMBERS = 8
+
+function toRow(member: HealthMember): MemberRow {
+  return { relation: member.relation, age: String(member.age), conditions: member.conditions.join(', ') }
+}
+
+export default function HealthInsuranceForm({
+  userData,
+  preferences,
+  cityTier,
+  suggestedSumInsured,
+  sumInsuredOptions,
+  sessionId,
+  onSubmit
+}: HealthInsuranceFormProps) {
+  const [members, setMembers] = useState<MemberRow[]>(preferences.members.map(toRow))
+  const [coverType, setCoverType] = useState<HealthPreferences['coverType']>(preferences.coverType)
+  const [sumInsured, setSumInsured] = useState<string>(preferences.sumInsured ? String(preferences.sumInsured) : '')
+  const [roomRent, setRoomRent] = useState<HealthPreferences['roomRent']>(preferences.roomRent)
+  const [dob, setDob] = useState<string>(userData.dob || '')
+  const [city, setCity] = useState<string>(userData.city || '')
+  const [issues, setIssues] = useState<string[]>(userData.issues || [])
+  const [newHealthIssue, setNewHealthIssue] = useState('')
+
+  const hasSelf = members.some(member => member.relation === 'self')
+  const selfAge = dob ? ageFromDob(dob) : null
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(amount % 10000000 === 0 ? 0 : 1)} Cr`
+    }
+    return `₹${(amount / 100000).toFixed(0)} Lakhs`
+  }
+
+  const updateMember = (index: number, changes: Partial<MemberRow>) => {
+    setMembers(prev => prev.map((member, i) => i === index ? { ...member, ...changes } : member))
+  }
+
+  const addMember = () => {
+    setMembers(prev => [...prev, { relation: hasSelf ? 'spouse' : 'self', age: '', conditions: '' }])
+  }
+
+  const removeMember = (index: number) => {
+    setMembers(prev => prev.filter((_, i) => i !== index))
+  }
+
+  // Handle adding health issues
+  const handleAddHealthIssue = () => {
+    if (newHealthIssue.trim()) {
+      setIssues(prev => [...prev, newHealthIssue.trim()])
+      setNewHealthIssue('')
+    }
+  }
+
+  const memberAge = (member: MemberRow) => member.relation === 'self' && selfAge !== null ? selfAge : parseInt(member.age, 10)
+
+  // Check if we can proceed: every member has a valid age, at most one is
+  // "self", and the user's date of birth is known when they are covered
+  const canProceed = () => {
+    if (members.length === 0) return false
+    if (members.filter(member => member.relation === 'self').length > 1) return false
+    if (hasSelf && !dob) return false
+    return members.every(member => {
+      const age = memberAge(member)
+      return !isNaN(age) && age >= 0 && age <= 99
+    })
+  }
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canProceed()) return
+
+    const healthInsurance: HealthPreferences = {
+      coverType: members.length === 1 ? 'individual' : coverType,
+      members: members.map(member => ({
+        relation: member.relation,
+        age: memberAge(member),
+        // The user's own conditions live on the profile's issues list
+        conditions: member.relation === 'self'
+          ? []
+          : member.conditions.split(',').map(condition => condition.trim()).filter(Boolean)
+      })),
+      sumInsured: sumInsured ? Number(sumInsured) : undefined,
+      roomRent
+    }
+
+    onSubmit({
+      sessionId,
+      formData: {
+        ...(dob && dob !== userData.dob && { dob }),
+        ...(city.trim() && city.trim() !== userData.city && { city: city.trim() }),
+        issues,
+        health_insurance: healthInsurance
+      }
+    })
+  }
+
+  const inputClasses = "w-full px-4 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl text-white placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/10 transition-all duration-300 font-medium tracking-wide shadow-inner"
+  const toggleClasses = (active: boolean) => `flex-1 px-4 py-3 rounded-2xl border font-medium tracking-wide transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-emerald-500 to-teal-500 border-emerald-500/50 text-white shadow-lg'
+      : 'bg-white/5 border-white/10 text-white/80 hover:border-white/20 hover:bg-white/10'
+  }`
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4">
+      {/* Header */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl p-8 rounded-3xl border border-white/10 mb-8 shadow-2xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-emerald-600/10 via-teal-600/10 to-cyan-600/10 rounded-3xl"></div>
+        <div className="relative flex items-center gap-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-white/90 tracking-tight">Health Insurance Consultation</h3>
+            <p className="text-sm text-white/60">Hospital cover for you and your family</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Members */}
+        <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+          <h4 className="text-lg font-semibold text-white tracking-tight mb-1">Who should be covered?</h4>
+          <p className="text-sm text-white/60 mb-6">Premiums depend on each member&apos;s age</p>
+
+          <div className="space-y-4">
+            {members.map((member, index) => (
+              <div key={index} className="grid md:grid-cols-[1fr_120px_2fr_auto] gap-3 items-start">
+                <select
+                  value={member.relation}
+                  onChange={(e) => updateMember(index, { relation: e.target.value as MemberRelation })}
+                  className={`${inputClasses} cursor-pointer`}
+                >
+                  {RELATION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value} className="bg-slate-800 text-white">
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {member.relation === 'self' && selfAge !== null ? (
+                  <div className={`${inputClasses} text-white/60`}>{selfAge} yrs</div>
+                ) : (
+                  <input
+                    type="number"
+                    min={0}
+                    max={99}
+                    value={member.age}
+                    onChange={(e) => updateMember(index, { age: e.target.value })}
+                    placeholder="Age"
+                    className={inputClasses}
+                  />
+                )}
+                {member.relation === 'self' ? (
+                  <p className="text-xs text-white/50 py-3">Your health conditions are listed below</p>
+                ) : (
+                  <input
+                    type="text"
+                    value={member.conditions}
+                    onChange={(e) => updateMember(index, { conditions: e.target.value })}
+                    placeholder="Health conditions, if any (e.g., Diabetes)"
+                    className={inputClasses}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeMember(index)}
+                  disabled={members.length === 1}
+                  className="px-3 py-3 text-white/40 hover:text-red-400 disabled:opacity-30"
+                  aria-label="Remove member"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {members.length < MAX_MEMBERS && (
+            <button type="button" onClick={addMember} className="mt-4 text-emerald-400 text-sm hover:text-emerald-300">
+              + Add family member
+            </button>
+          )}
+
+          {members.length > 1 && (
+            <div className="mt-6">
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">Cover type</label>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => setCoverType('family_floater')} className={toggleClasses(coverType === 'family_floater')}>
+                  Family floater
+                </button>
+                <button type="button" onClick={() => setCoverType('individual')} className={toggleClasses(coverType === 'individual')}>
+                  Individual policies
+                </button>
+              </div>
+              <p className="text-xs text-white/50 mt-2">
+                {coverType === 'family_floater'
+                  ? 'One shared sum insured for everyone - cheaper, but one big claim uses up the family cover'
+                  : 'Each member gets their own full sum insured - costs more, best with older members'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* About you */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">About you</h4>
+          {!userData.dob && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Date of Birth
+                {hasSelf && <span className="text-orange-400 ml-1.5">•</span>}
+              </label>
+              <input
+                type="date"
+                value={dob}
+                onChange={(e) => setDob(e.target.value)}
+                max={new Date().toISOString().split('T')[0]}
+                className={inputClasses}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">City</label>
+            <input
+              type="text"
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              placeholder="e.g., Mumbai, Jaipur, Nashik"
+              className={inputClasses}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {cityTier && city === userData.city
+                ? TIER_LABELS[cityTier]
+                : 'Hospital costs, and so premiums, are higher in metros'}
+            </p>
+          </div>
+
+          {/* Health conditions - shared with the profile */}
+          <div className="border border-gray-700 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium">Your Pre-existing Health Conditions</label>
+              <span className="text-xs text-gray-500">Optional</span>
+            </div>
+            {issues.length === 0 ? (
+              <p className="text-xs text-gray-400 mb-3">No health issues recorded. Declared conditions are covered after the plan&apos;s waiting period.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {issues.map((issue, index) => (
+                  <span key={index} className="px-3 py-1 bg-gray-700 rounded-full text-sm flex items-center gap-2">
+                    {issue}
+                    <button
+                      type="button"
+                      onClick={() => setIssues(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newHealthIssue}
+                onChange={(e) => setNewHealthIssue(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddHealthIssue())}
+                placeholder="e.g., Diabetes, Hypertension"
+                className="flex-1 px-3 py-1 bg-[#2a2a2a] border border-gray-700 rounded text-sm"
+              />
+              <button type="button" onClick={handleAddHealthIssue} className="px-3 py-1 bg-blue-500 rounded text-sm">
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Coverage Preferences */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">Coverage Preferences</h4>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Sum Insured
+              <span className="text-gray-500 text-xs ml-2">(Optional)</span>
+            </label>
+            <select
+              value={sumInsured}
+              onChange={(e) => setSumInsured(e.target.value)}
+              className={`${inputClasses} cursor-pointer`}
+            >
+              <option value="" className="bg-slate-800 text-white">
+                {suggestedSumInsured ? `Suggested: ${formatCoverage(suggestedSumInsured)}` : 'Suggest for me'}
+              </option>
+              {sumInsuredOptions.map(option => (
+                <option key={option} value={option} className="bg-slate-800 text-white">
+                  {formatCoverage(option)}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Suggested from your city and family; bigger families and older members need more</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Hospital Room</label>
+            <div className="flex gap-3">
+              {ROOM_RENT_OPTIONS.map(option => (
+                <button key={option.value} type="button" onClick={() => setRoomRent(option.value)} className={toggleClasses(roomRent === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {ROOM_RENT_OPTIONS.find(option => option.value === roomRent)?.help}
+            </p>
+          </div>
+        </div>
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!canProceed()}
+          className={`w-full py-4 rounded-2xl font-semibold tracking-wide transition-all duration-300 shadow-lg ${
+            canProceed()
+              ? 'bg-gradient-to-r from-emerald-500 via-teal-500 to-cyan-500 hover:from-emerald-600 hover:via-teal-600 hover:to-cyan-600 text-white transform hover:scale-[1.02] hover:shadow-xl'
+              : 'bg-white/5 border border-white/10 text-white/40 cursor-not-allowed'
+          }`}
+        >
+          {canProceed() ? 'Get Health Quotes' : hasSelf && !dob ? 'Add Your Date of Birth' : 'Add Every Member\'s Age'}
+        </button>
+      </form>
+    </div>
+  )
+}
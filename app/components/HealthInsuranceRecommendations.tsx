@@ -0,0 +1,320 @@
+'use client'
+
+import { useState } from 'react'
+import { HealthInsuranceProduct } from '@/app/api/chat/tools/showHealthInsuranceRecommendations'
+import { HealthProfileData } from '@/app/api/chat/tools/collectHealthInsuranceInfo'
+import { ExcludedProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { CityTier, CoverType, HealthMember, RoomRentLimit } from '@/lib/insurance/health/schema'
+import { QuoteStatus } from '@/lib/insurance/quotes/schema'
+
+interface HealthInsuranceRecommendationsProps {
+  recommendations: HealthInsuranceProduct[];
+  userData: HealthProfileData;
+  // Plans the user cannot be offered, with the reasons
+  excludedProducts?: ExcludedProduct[];
+  sumInsured?: number;
+  coverType?: CoverType;
+  cityTier?: CityTier;
+  members?: HealthMember[];
+  // Saved quote these recommendations belong to
+  quote?: {
+    id: string;
+    validUntil?: string;
+    status?: QuoteStatus;
+  };
+}
+
+const EXCLUSION_LABELS: Record<ExcludedProduct['decision'], string> = {
+  decline: 'Declined',
+  postpone: 'Postponed',
+  ineligible: 'Not eligible'
+}
+
+const RELATION_LABELS: Record<HealthMember['relation'], string> = {
+  self: 'You',
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  parent_in_law: 'Parent-in-law'
+}
+
+const TIER_LABELS: Record<CityTier, string> = {
+  tier_1: 'Metro',
+  tier_2: 'Tier 2',
+  tier_3: 'Tier 3'
+}
+
+// Format years or months of waiting for display
+const formatMonths = (months: number) =>
+  months % 12 === 0 ? `${months / 12} year${months === 12 ? '' : 's'}` : `${months} months`
+
+export default function HealthInsuranceRecommendations({
+  recommendations,
+  userData,
+  excludedProducts = [],
+  sumInsured,
+  coverType,
+  cityTier,
+  members = [],
+  quote
+}: HealthInsuranceRecommendationsProps) {
+  const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(1)} Cr`
+    } else if (amount >= 100000) { // 1 lakh or more
+      return `₹${(amount / 100000).toFixed(0)} Lakhs`
+    }
+    return formatCurrency(amount)
+  }
+
+  const roomRentLabel = (roomRent: RoomRentLimit, percent?: number) => {
+    switch (roomRent) {
+      case 'no_limit':
+        return 'No limit'
+      case 'single_private':
+        return 'Single private room'
+      case 'percent_of_sum_insured':
+        return `${percent}% of sum insured per day`
+      case 'shared':
+        return 'Shared room'
+    }
+  }
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <div className="inline-flex items-center gap-3 mb-6">
+          <div className="w-14 h-14 bg-gradient-to-br from-emerald-500 via-teal-600 to-cyan-600 rounded-3xl flex items-center justify-center shadow-xl">
+            <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h3 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight mb-1">
+              Health Plans for {userData.first_name || 'You'}
+            </h3>
+            <p className="text-gray-600 dark:text-white/60 font-medium">
+              {coverType === 'family_floater' ? 'Family floater' : 'Individual cover'} for {members.length} member{members.length === 1 ? '' : 's'}
+            </p>
+            {quote && (
+              <p className="text-xs text-gray-500 dark:text-white/40 mt-1">
+                Quote <span className="font-mono">#{quote.id.slice(0, 8)}</span>
+                {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                {quote.status && quote.status !== 'active' && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-500/20 rounded capitalize">{quote.status}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Key Details Summary */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 mb-12 shadow-2xl">
+        <div className="relative grid grid-cols-2 md:grid-cols-4 gap-8">
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Sum Insured</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{sumInsured ? formatCoverage(sumInsured) : '—'}</p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Members</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {members.map(member => `${RELATION_LABELS[member.relation]} (${member.age})`).join(', ')}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">City Pricing</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{cityTier ? TIER_LABELS[cityTier] : '—'}</p>
+            {!userData.city && (
+              <span className="text-xs text-blue-400 bg-blue-500/20 px-3 py-1 rounded-full mt-2 inline-block font-medium">
+                Add your city
+              </span>
+            )}
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Declared Conditions</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {members.some(member => member.conditions.length > 0)
+                ? members.flatMap(member => member.conditions).join(', ')
+                : 'None'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {recommendations.length === 0 && (
+        <div className="p-6 mb-8 bg-red-500/10 border border-red-500/30 rounded-xl text-center">
+          <p className="text-lg font-semibold text-red-300 mb-1">No plans can be offered right now</p>
+          <p className="text-sm text-red-200/70">See below why each plan is unavailable. A different sum insured, cover type or room preference may help.</p>
+        </div>
+      )}
+
+      {/* Plans */}
+      <div className="grid md:grid-cols-2 gap-6 mb-12">
+        {recommendations.map(product => (
+          <div
+            key={product.id}
+            onClick={() => setSelectedProduct(selectedProduct === product.id ? null : product.id)}
+            className={`relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 rounded-3xl border p-6 shadow-xl cursor-pointer transition-all duration-300 ${
+              selectedProduct === product.id ? 'border-emerald-500/60' : 'border-white/10 hover:border-white/20'
+            }`}
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                {product.logo && <span className="text-3xl">{product.logo}</span>}
+                <div>
+                  <p className="text-lg font-bold text-white">{product.name}</p>
+                  <p className="text-sm text-white/50">{product.company}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-white">{formatCurrency(product.annualPremium)}</p>
+                <p className="text-xs text-white/50">per year · {formatCurrency(product.monthlyPremium)}/mo</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+              <div>
+                <p className="text-xs text-white/50">Room rent</p>
+                <p className={product.roomRent === 'no_limit' ? 'text-green-400' : 'text-white/80'}>
+                  {roomRentLabel(product.roomRent, product.roomRentPercent)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Claim settlement</p>
+                <p className="text-white/80">{product.claimSettlementRatio}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Sum insured</p>
+                <p className="text-white/80">{formatCoverage(product.sumInsured)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Co-payment</p>
+                <p className="text-white/80">
+                  {product.copay ? `${product.copay.percent}%${product.copay.fromAge > 0 ? ` from age ${product.copay.fromAge}` : ''}` : 'None'}
+                </p>
+              </div>
+            </div>
+
+            {/* Waiting periods */}
+            <div className="p-3 mb-4 bg-white/5 rounded-xl">
+              <p className="text-xs font-medium text-white/60 mb-2">Waiting periods</p>
+              <div className="grid grid-cols-3 gap-2 text-xs text-white/80">
+                <p>Initial<span className="block text-white font-semibold">{product.waitingPeriods.initialDays} days</span></p>
+                <p>Pre-existing<span className="block text-white font-semibold">{formatMonths(product.waitingPeriods.preExistingMonths)}</span></p>
+                <p>Specific illness<span className="block text-white font-semibold">{formatMonths(product.waitingPeriods.specificIllnessMonths)}</span></p>
+              </div>
+              {product.preExistingCover.length > 0 && (
+                <div className="mt-3 space-y-1">
+                  {product.preExistingCover.map((cover, index) => (
+                    <p key={index} className="text-xs text-amber-300">
+                      • {RELATION_LABELS[cover.relation]}: {cover.condition} covered after {formatMonths(cover.coveredAfterMonths)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {product.underwriting.decision === 'load' && (
+              <div className="p-3 mb-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                <p className="text-xs font-medium text-amber-300 mb-1">Underwriting Loading</p>
+                {product.underwriting.reasons.map((reason, index) => (
+                  <p key={index} className="text-xs text-amber-200/80">• {reason}</p>
+                ))}
+              </div>
+            )}
+
+            <ul className="space-y-1">
+              {product.features.map((feature, index) => (
+                <li key={index} className="text-xs text-white/60">• {feature}</li>
+              ))}
+            </ul>
+
+            {selectedProduct === product.id && (
+              <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+                {product.memberPremiums.length > 1 && (
+                  <div>
+                    <p className="text-xs font-medium text-white/60 mb-2">Premium by member (before tax)</p>
+                    {product.memberPremiums.map((member, index) => (
+                      <div key={index} className="flex justify-between text-xs text-white/80">
+                        <span>{RELATION_LABELS[member.relation]} ({member.age})</span>
+                        <span>
+                          {formatCurrency(member.premium)}
+                          {member.premium !== member.standalonePremium && (
+                            <span className="text-white/40"> of {formatCurrency(member.standalonePremium)} alone</span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {product.exclusions.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-white/60 mb-2">Key exclusions</p>
+                    {product.exclusions.map((exclusion, index) => (
+                      <p key={index} className="text-xs text-white/60">• {exclusion}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {/* Excluded Products */}
+        {excludedProducts.length > 0 && (
+          <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+            <h4 className="text-lg font-semibold text-white mb-3">Plans not available to you</h4>
+            <div className="space-y-3">
+              {excludedProducts.map(product => (
+                <div key={product.productId} className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-white">{product.name}</p>
+                    <p className="text-xs text-gray-500 mb-1">{product.company}</p>
+                    {product.reasons.map((reason, rIndex) => (
+                      <p key={rIndex} className="text-xs text-gray-400">• {reason}</p>
+                    ))}
+                  </div>
+                  <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+                    product.decision === 'postpone'
+                      ? 'bg-amber-500/20 text-amber-400'
+                      : 'bg-red-500/20 text-red-400'
+                  }`}>
+                    {EXCLUSION_LABELS[product.decision]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* General Information */}
+        <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+          <h4 className="text-lg font-semibold text-white mb-3">Important Information</h4>
+          <div className="space-y-2 text-sm text-gray-400">
+            <p>• Premiums shown are indicative and may vary based on underwriting</p>
+            <p>• Premiums qualify for deduction under Section 80D</p>
+            <p>• Only accidents are covered during the initial waiting period</p>
+            <p>• Declared conditions are covered once their waiting period ends; undisclosed conditions can lead to claim rejection</p>
+            <p>• Actual premiums will be confirmed by the insurance provider</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
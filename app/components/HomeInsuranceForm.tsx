@@ -0,0 +1,295 @@
+'use client'
+
+import { useState } from 'react'
+import { HomeProfileData } from '@/app/api/chat/tools/collectHomeInsuranceInfo'
+import { ConstructionType, HomePreferences, Ownership, PropertyType } from '@/lib/insurance/home/schema'
+import { CityRisk, DEFAULT_CITY_RISK, FloodRisk, findCityRisk } from '@/lib/insurance/home/locations'
+import { automaticContentsCover, calculateStructureValue } from '@/lib/insurance/home/pricing'
+
+interface HomeInsuranceFormProps {
+  userData: HomeProfileData;
+  preferences?: HomePreferences | null;
+  cities: CityRisk[];
+  sessionId: string;
+  onSubmit: (data: HomeFormSubmission) => void;
+}
+
+export interface HomeFormSubmission {
+  sessionId: string;
+  // Columns to update on user_profile
+  formData: {
+    home_insurance: HomePreferences;
+  };
+}
+
+const CONSTRUCTION_OPTIONS: { value: ConstructionType; label: string; help: string }[] = [
+  { value: 'rcc_framed', label: 'RCC framed', help: 'Concrete columns and beams; most apartments and newer houses' },
+  { value: 'load_bearing', label: 'Load bearing', help: 'Brick or stone walls carry the roof; common in older houses' }
+]
+
+const FLOOD_RISK_LABELS: Record<FloodRisk, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High'
+}
+
+export default function HomeInsuranceForm({ userData, preferences, cities, sessionId, onSubmit }: HomeInsuranceFormProps) {
+  const currentYear = new Date().getFullYear()
+  const [ownership, setOwnership] = useState<Ownership>(preferences?.ownership || 'owner')
+  const [propertyType, setPropertyType] = useState<PropertyType>(preferences?.propertyType || 'apartment')
+  const [city, setCity] = useState<string>(preferences?.city || userData.city || '')
+  const [builtUpArea, setBuiltUpArea] = useState<string>(preferences?.builtUpAreaSqFt ? String(preferences.builtUpAreaSqFt) : '')
+  const [constructionType, setConstructionType] = useState<ConstructionType>(preferences?.constructionType || 'rcc_framed')
+  const [constructionYear, setConstructionYear] = useState<string>(preferences?.constructionYear ? String(preferences.constructionYear) : '')
+  const [constructionRate, setConstructionRate] = useState<string>(preferences?.constructionRate ? String(preferences.constructionRate) : '')
+  const [contentsValue, setContentsValue] = useState<string>(preferences?.contentsValue ? String(preferences.contentsValue) : '')
+  const [burglaryCover, setBurglaryCover] = useState<boolean>(preferences?.burglaryCover || false)
+
+  const isOwner = ownership === 'owner'
+  const cityRisk = city.trim() ? findCityRisk(city) : null
+  const rate = constructionRate ? Number(constructionRate) : (cityRisk?.constructionRate ?? DEFAULT_CITY_RISK.constructionRate)
+  const area = parseInt(builtUpArea, 10)
+  const structureValue = isOwner && area > 0 ? calculateStructureValue(area, rate, constructionType) : 0
+  const freeContents = automaticContentsCover(structureValue)
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Check if we can proceed: a city, a build year, and either the area of the
+  // building or, for tenants, a contents value
+  const canProceed = () => {
+    const year = parseInt(constructionYear, 10)
+    if (!city.trim() || isNaN(year) || year < 1900 || year > currentYear) return false
+    if (constructionRate && (Number(constructionRate) < 500 || Number(constructionRate) > 20000)) return false
+    if (isOwner) return area >= 100 && area <= 20000
+    return Number(contentsValue) > 0
+  }
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canProceed()) return
+
+    onSubmit({
+      sessionId,
+      formData: {
+        home_insurance: {
+          propertyType,
+          ownership,
+          city: city.trim(),
+          builtUpAreaSqFt: isOwner ? area : undefined,
+          constructionType,
+          constructionYear: parseInt(constructionYear, 10),
+          constructionRate: isOwner && constructionRate ? Number(constructionRate) : undefined,
+          contentsValue: contentsValue ? Number(contentsValue) : undefined,
+          burglaryCover
+        }
+      }
+    })
+  }
+
+  const inputClasses = "w-full px-4 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl text-white placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/10 transition-all duration-300 font-medium tracking-wide shadow-inner"
+  const toggleClasses = (active: boolean) => `flex-1 px-4 py-3 rounded-2xl border font-medium tracking-wide transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-amber-500 to-orange-500 border-amber-500/50 text-white shadow-lg'
+      : 'bg-white/5 border-white/10 text-white/80 hover:border-white/20 hover:bg-white/10'
+  }`
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4">
+      {/* Header */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl p-8 rounded-3xl border border-white/10 mb-8 shadow-2xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-amber-600/10 via-orange-600/10 to-rose-600/10 rounded-3xl"></div>
+        <div className="relative flex items-center gap-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-orange-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-white/90 tracking-tight">Home Insurance Quote</h3>
+            <p className="text-sm text-white/60">Cover your building and belongings against fire, floods and earthquakes</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Property */}
+        <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl space-y-6">
+          <div>
+            <h4 className="text-lg font-semibold text-white tracking-tight mb-1">Your home</h4>
+            <p className="text-sm text-white/60">Where it is and how it is built set the premium</p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">You are the</label>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => setOwnership('owner')} className={toggleClasses(isOwner)}>Owner</button>
+                <button type="button" onClick={() => setOwnership('tenant')} className={toggleClasses(!isOwner)}>Tenant</button>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">Property type</label>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => setPropertyType('apartment')} className={toggleClasses(propertyType === 'apartment')}>Apartment</button>
+                <button type="button" onClick={() => setPropertyType('independent_house')} className={toggleClasses(propertyType === 'independent_house')}>House</button>
+              </div>
+            </div>
+          </div>
+          {!isOwner && (
+            <p className="text-xs text-white/50">As a tenant you insure your belongings; the building is the owner&apos;s to insure</p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">City</label>
+              <input
+                type="text"
+                list="home-insurance-cities"
+                value={city}
+                onChange={(e) => setCity(e.target.value)}
+                placeholder="e.g. Pune"
+                className={inputClasses}
+              />
+              <datalist id="home-insurance-cities">
+                {cities.map(entry => <option key={entry.city} value={entry.city} />)}
+              </datalist>
+              {city.trim() && (
+                <p className="text-xs text-white/50 mt-1">
+                  {cityRisk
+                    ? `Seismic zone ${cityRisk.seismicZone} · ${FLOOD_RISK_LABELS[cityRisk.floodRisk]} flood risk`
+                    : 'Not in our city list; we will price on average risk'}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Year built</label>
+              <input
+                type="number"
+                min={1900}
+                max={currentYear}
+                value={constructionYear}
+                onChange={(e) => setConstructionYear(e.target.value)}
+                placeholder={`e.g. ${currentYear - 10}`}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">Construction</label>
+            <div className="flex gap-3">
+              {CONSTRUCTION_OPTIONS.map(option => (
+                <button key={option.value} type="button" onClick={() => setConstructionType(option.value)} className={toggleClasses(constructionType === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-white/50 mt-2">{CONSTRUCTION_OPTIONS.find(option => option.value === constructionType)?.help}</p>
+          </div>
+        </div>
+
+        {/* Building */}
+        {isOwner && (
+          <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+            <h4 className="text-lg font-semibold text-gray-300">Building Value</h4>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Built-up Area (sq ft)
+                  <span className="text-orange-400 ml-1.5">•</span>
+                </label>
+                <input
+                  type="number"
+                  min={100}
+                  max={20000}
+                  value={builtUpArea}
+                  onChange={(e) => setBuiltUpArea(e.target.value)}
+                  placeholder="e.g. 1100"
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Construction Cost per sq ft
+                  <span className="text-gray-500 text-xs ml-2">(Optional)</span>
+                </label>
+                <input
+                  type="number"
+                  min={500}
+                  max={20000}
+                  value={constructionRate}
+                  onChange={(e) => setConstructionRate(e.target.value)}
+                  placeholder={`${cityRisk ? cityRisk.city : 'Typical'} rate: ₹${(cityRisk?.constructionRate ?? DEFAULT_CITY_RISK.constructionRate).toLocaleString('en-IN')}`}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            {structureValue > 0 && (
+              <p className="text-sm text-gray-400">
+                Rebuilding cost: <span className="text-white font-medium">{formatCurrency(structureValue)}</span>
+                <span className="text-xs text-gray-500 ml-2">(the building is insured for this, not its market price)</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Contents */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">Contents &amp; Burglary</h4>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Value of Household Contents
+              {isOwner
+                ? <span className="text-gray-500 text-xs ml-2">(Optional)</span>
+                : <span className="text-orange-400 ml-1.5">•</span>}
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={contentsValue}
+              onChange={(e) => setContentsValue(e.target.value)}
+              placeholder="Furniture, appliances, electronics, clothes"
+              className={inputClasses}
+            />
+            {isOwner && freeContents > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Contents up to {formatCurrency(freeContents)} are covered free with the building; only the amount above is charged
+              </p>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-300">Burglary cover</p>
+              <p className="text-xs text-gray-500">Theft of contents after forced entry</p>
+            </div>
+            <div className="flex gap-3 w-48">
+              <button type="button" onClick={() => setBurglaryCover(true)} className={toggleClasses(burglaryCover)}>Yes</button>
+              <button type="button" onClick={() => setBurglaryCover(false)} className={toggleClasses(!burglaryCover)}>No</button>
+            </div>
+          </div>
+        </div>
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!canProceed()}
+          className={`w-full py-4 rounded-2xl font-semibold tracking-wide transition-all duration-300 shadow-lg ${
+            canProceed()
+              ? 'bg-gradient-to-r from-amber-500 via-orange-500 to-rose-500 hover:from-amber-600 hover:via-orange-600 hover:to-rose-600 text-white transform hover:scale-[1.02] hover:shadow-xl'
+              : 'bg-white/5 border border-white/10 text-white/40 cursor-not-allowed'
+          }`}
+        >
+          {canProceed() ? 'Get Home Quotes' : 'Complete Property Details'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import { HomeInsuranceProduct, HomeLocation } from '@/app/api/chat/tools/showHomeInsuranceRecommendations'
+import { HomeProfileData } from '@/app/api/chat/tools/collectHomeInsuranceInfo'
+import { ExcludedProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { HomePreferences } from '@/lib/insurance/home/schema'
+import { FloodRisk } from '@/lib/insurance/home/locations'
+import { QuoteStatus } from '@/lib/insurance/quotes/schema'
+
+interface HomeInsuranceRecommendationsProps {
+  recommendations: HomeInsuranceProduct[];
+  userData: HomeProfileData;
+  // Plans that cannot insure this home, with the reasons
+  excludedProducts?: ExcludedProduct[];
+  property?: HomePreferences;
+  location?: HomeLocation;
+  structureValue?: number;
+  buildingAge?: number;
+  // Saved quote these recommendations belong to
+  quote?: {
+    id: string;
+    validUntil?: string;
+    status?: QuoteStatus;
+  };
+}
+
+const EXCLUSION_LABELS: Record<ExcludedProduct['decision'], string> = {
+  decline: 'Declined',
+  postpone: 'Postponed',
+  ineligible: 'Not eligible'
+}
+
+const FLOOD_RISK_LABELS: Record<FloodRisk, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High'
+}
+
+export default function HomeInsuranceRecommendations({
+  recommendations,
+  userData,
+  excludedProducts = [],
+  property,
+  location,
+  structureValue = 0,
+  buildingAge,
+  quote
+}: HomeInsuranceRecommendationsProps) {
+  const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const isOwner = property?.ownership !== 'tenant'
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <div className="inline-flex items-center gap-3 mb-6">
+          <div className="w-14 h-14 bg-gradient-to-br from-amber-500 via-orange-600 to-rose-600 rounded-3xl flex items-center justify-center shadow-xl">
+            <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h3 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight mb-1">
+              Home Insurance for {userData.first_name || 'You'}
+            </h3>
+            <p className="text-gray-600 dark:text-white/60 font-medium">
+              {isOwner ? 'Building and contents' : 'Contents'} cover
+              {property && ` · ${property.propertyType === 'apartment' ? 'Apartment' : 'Independent house'}`}
+              {location && ` in ${location.city}`}
+            </p>
+            {quote && (
+              <p className="text-xs text-gray-500 dark:text-white/40 mt-1">
+                Quote <span className="font-mono">#{quote.id.slice(0, 8)}</span>
+                {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                {quote.status && quote.status !== 'active' && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-500/20 rounded capitalize">{quote.status}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Key Details Summary */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 mb-12 shadow-2xl">
+        <div className="relative grid grid-cols-2 md:grid-cols-4 gap-8">
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Building</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{isOwner ? formatCurrency(structureValue) : '—'}</p>
+            <span className="text-xs text-white/50 mt-2 inline-block">
+              {isOwner && property?.builtUpAreaSqFt ? `${property.builtUpAreaSqFt.toLocaleString('en-IN')} sq ft, rebuilding cost` : 'Insured by the owner'}
+            </span>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Contents</p>
+            <p className="text-2xl font-bold text-white tracking-tight">
+              {recommendations[0] ? formatCurrency(recommendations[0].contentsSumInsured) : property?.contentsValue ? formatCurrency(property.contentsValue) : '—'}
+            </p>
+            <span className="text-xs text-white/50 mt-2 inline-block">
+              {property?.burglaryCover ? 'With burglary cover' : 'Without burglary cover'}
+            </span>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Location Risk</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {location ? `Seismic zone ${location.seismicZone}` : '—'}
+            </p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {location ? `${FLOOD_RISK_LABELS[location.floodRisk]} flood risk` : ''}
+            </p>
+            {location && !location.known && (
+              <span className="text-xs text-amber-400 mt-2 inline-block">City not in our list; average risk assumed</span>
+            )}
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Building Age</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{buildingAge !== undefined ? `${buildingAge} yrs` : '—'}</p>
+            <span className="text-xs text-white/50 mt-2 inline-block">
+              {property?.constructionType === 'load_bearing' ? 'Load-bearing walls' : 'RCC framed'}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {recommendations.length === 0 && (
+        <div className="p-6 mb-8 bg-red-500/10 border border-red-500/30 rounded-xl text-center">
+          <p className="text-lg font-semibold text-red-300 mb-1">No plans can insure this home</p>
+          <p className="text-sm text-red-200/70">See below why each plan is unavailable.</p>
+        </div>
+      )}
+
+      {/* Plans */}
+      <div className="grid md:grid-cols-2 gap-6 mb-12">
+        {recommendations.map(product => (
+          <div
+            key={product.id}
+            onClick={() => setSelectedProduct(selectedProduct === product.id ? null : product.id)}
+            className={`relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 rounded-3xl border p-6 shadow-xl cursor-pointer transition-all duration-300 ${
+              selectedProduct === product.id ? 'border-amber-500/60' : 'border-white/10 hover:border-white/20'
+            }`}
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                {product.logo && <span className="text-3xl">{product.logo}</span>}
+                <div>
+                  <p className="text-lg font-bold text-white">{product.name}</p>
+                  <p className="text-sm text-white/50">{product.company}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-white">{formatCurrency(product.annualPremium)}</p>
+                <p className="text-xs text-white/50">per year incl. GST</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+              <div>
+                <p className="text-xs text-white/50">Fire &amp; allied perils</p>
+                <p className="text-white/80">{formatCurrency(product.premium.firePremium)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Earthquake</p>
+                <p className="text-white/80">{formatCurrency(product.premium.earthquakePremium)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Flood &amp; storm</p>
+                <p className="text-white/80">{formatCurrency(product.premium.floodPremium)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Burglary</p>
+                <p className={product.burglaryCover ? 'text-white/80' : 'text-white/40'}>
+                  {product.burglaryCover ? formatCurrency(product.premium.burglaryPremium) : 'Not included'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Claim settlement</p>
+                <p className="text-white/80">{product.claimSettlementRatio}</p>
+              </div>
+            </div>
+
+            <ul className="space-y-1">
+              {product.features.map((feature, index) => (
+                <li key={index} className="text-xs text-white/60">• {feature}</li>
+              ))}
+            </ul>
+
+            {selectedProduct === product.id && (
+              <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+                <div className="space-y-1 text-xs text-white/70">
+                  <p className="font-medium text-white/60 mb-2">Sums insured</p>
+                  {product.structureSumInsured > 0 && <p>Building: {formatCurrency(product.structureSumInsured)}</p>}
+                  {product.premium.automaticContentsCover > 0 && <p>Contents included free: {formatCurrency(product.premium.automaticContentsCover)}</p>}
+                  {product.premium.declaredContents > 0 && <p>Contents declared and charged: {formatCurrency(product.premium.declaredContents)}</p>}
+                  <p>GST: {formatCurrency(product.premium.gst)}</p>
+                </div>
+                {product.exclusions.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-white/60 mb-2">Key exclusions</p>
+                    {product.exclusions.map((exclusion, index) => (
+                      <p key={index} className="text-xs text-white/60">• {exclusion}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {/* Excluded Products */}
+        {excludedProducts.length > 0 && (
+          <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+            <h4 className="text-lg font-semibold text-white mb-3">Plans not available for this home</h4>
+            <div className="space-y-3">
+              {excludedProducts.map(product => (
+                <div key={product.productId} className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-white">{product.name}</p>
+                    <p className="text-xs text-gray-500 mb-1">{product.company}</p>
+                    {product.reasons.map((reason, rIndex) => (
+                      <p key={rIndex} className="text-xs text-gray-400">• {reason}</p>
+                    ))}
+                  </div>
+                  <span className="px-2 py-1 rounded text-xs whitespace-nowrap bg-red-500/20 text-red-400">
+                    {EXCLUSION_LABELS[product.decision]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* General Information */}
+        <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+          <h4 className="text-lg font-semibold text-white mb-3">Important Information</h4>
+          <div className="space-y-2 text-sm text-gray-400">
+            <p>• Premiums shown are indicative and may vary after the insurer&apos;s inspection</p>
+            <p>• The building is insured for its rebuilding cost, not its market price; land is never covered</p>
+            <p>• Bharat Griha Raksha pays claims without deducting for the building&apos;s age</p>
+            <p>• Jewellery, art and other valuables must be declared separately to be covered</p>
+            <p>• Actual premiums will be confirmed by the insurance provider</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
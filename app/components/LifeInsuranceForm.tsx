@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { FormFieldDefinition, UserProfileData } from '@/app/api/chat/tools/collectLifeInsuranceInfo'
+import { FAMILY_RELATION_LABELS, FamilyMember, FamilyMemberInput, FamilyRelation } from '@/lib/insurance/family/schema'
 
 interface LifeInsuranceFormProps {
   userData: UserProfileData & {
@@ -11,13 +12,30 @@ interface LifeInsuranceFormProps {
     policy_term?: number;
   };
   fieldsToShow: FormFieldDefinition[];
+  // Household already on record
+  familyMembers?: FamilyMember[];
   sessionId: string;
   onSubmit: (data: any) => void;
 }
 
+const EMPTY_DEPENDENT: FamilyMemberInput = { relation: 'spouse', dob: '', isDependent: true }
+
+// Age in whole years for the household list
+const ageFromDob = (dob: string) => {
+  const birthDate = new Date(dob)
+  const today = new Date()
+  let age = today.getFullYear() - birthDate.getFullYear()
+  const monthDiff = today.getMonth() - birthDate.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--
+  }
+  return age
+}
+
 export default function LifeInsuranceForm({ 
   userData, 
   fieldsToShow, 
+  familyMembers = [],
   sessionId, 
   onSubmit 
 }: LifeInsuranceFormProps) {
@@ -25,6 +43,10 @@ export default function LifeInsuranceForm({
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [showHealthIssues, setShowHealthIssues] = useState(false)
   const [newHealthIssue, setNewHealthIssue] = useState('')
+  // Family members added in this form, saved to the household on submit
+  const [dependents, setDependents] = useState<FamilyMemberInput[]>([])
+  const [showDependentForm, setShowDependentForm] = useState(false)
+  const [newDependent, setNewDependent] = useState<FamilyMemberInput>(EMPTY_DEPENDENT)
 
   // Initialize form data with existing values
   useEffect(() => {
@@ -93,10 +115,27 @@ export default function LifeInsuranceForm({
         // Ensure boolean values are properly formatted
         smoking_status: formData.smoking_status === 'true' ? true : formData.smoking_status === 'false' ? false : formData.smoking_status,
         is_married: formData.is_married === 'true' ? true : formData.is_married === 'false' ? false : formData.is_married === 'null' ? null : formData.is_married
-      }
+      },
+      dependents
     })
   }
 
+  // Handle adding a family member
+  const handleAddDependent = () => {
+    if (!newDependent.dob) return
+    setDependents(prev => [...prev, {
+      ...newDependent,
+      name: newDependent.name?.trim() || undefined
+    }])
+    setNewDependent(EMPTY_DEPENDENT)
+    setShowDependentForm(false)
+  }
+
+  // Handle removing a family member added in this form
+  const handleRemoveDependent = (index: number) => {
+    setDependents(prev => prev.filter((_, i) => i !== index))
+  }
+
   // Handle adding health issues
   const handleAddHealthIssue = () => {
     if (newHealthIssue.trim()) {
@@ -381,6 +420,126 @@ export default function LifeInsuranceForm({
           </div>
         )}
 
+        {/* Dependents */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6">
+          <h4 className="text-lg font-semibold text-gray-300 mb-2">Dependents</h4>
+          <p className="text-sm text-gray-500 mb-4">
+            Optional: Family members who rely on your income help us size your cover
+          </p>
+
+          {familyMembers.length === 0 && dependents.length === 0 ? (
+            <p className="text-xs text-gray-400 mb-3">No family members recorded yet.</p>
+          ) : (
+            <div className="space-y-2 mb-3">
+              {familyMembers.map(member => (
+                <div key={member.id} className="flex items-center justify-between px-3 py-2 bg-gray-800/60 rounded-lg text-sm">
+                  <span className="text-gray-300">
+                    {member.name || FAMILY_RELATION_LABELS[member.relation]}
+                    <span className="text-gray-500 ml-2">
+                      {FAMILY_RELATION_LABELS[member.relation]}, {ageFromDob(member.dob)} yrs
+                      {member.annualIncome ? ` · earns ${formatCurrency(member.annualIncome)}` : ''}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-500">{member.isDependent ? 'Dependent' : 'Independent'}</span>
+                </div>
+              ))}
+              {dependents.map((member, index) => (
+                <div key={index} className="flex items-center justify-between px-3 py-2 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm">
+                  <span className="text-gray-300">
+                    {member.name || FAMILY_RELATION_LABELS[member.relation]}
+                    <span className="text-gray-500 ml-2">
+                      {FAMILY_RELATION_LABELS[member.relation]}, {ageFromDob(member.dob)} yrs
+                      {member.annualIncome ? ` · earns ${formatCurrency(member.annualIncome)}` : ''}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveDependent(index)}
+                    className="text-gray-400 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!showDependentForm ? (
+            <button
+              type="button"
+              onClick={() => setShowDependentForm(true)}
+              className="text-blue-400 text-sm hover:text-blue-300"
+            >
+              + Add family member
+            </button>
+          ) : (
+            <div className="space-y-3 border border-gray-700 rounded-lg p-4">
+              <div className="grid md:grid-cols-2 gap-3">
+                <select
+                  value={newDependent.relation}
+                  onChange={(e) => setNewDependent(prev => ({ ...prev, relation: e.target.value as FamilyRelation }))}
+                  className="px-3 py-2 bg-[#2a2a2a] border border-gray-700 rounded text-sm cursor-pointer"
+                >
+                  {(Object.keys(FAMILY_RELATION_LABELS) as FamilyRelation[]).map(relation => (
+                    <option key={relation} value={relation} className="bg-slate-800 text-white">
+                      {FAMILY_RELATION_LABELS[relation]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={newDependent.name || ''}
+                  onChange={(e) => setNewDependent(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name (optional)"
+                  className="px-3 py-2 bg-[#2a2a2a] border border-gray-700 rounded text-sm"
+                />
+                <input
+                  type="date"
+                  value={newDependent.dob}
+                  onChange={(e) => setNewDependent(prev => ({ ...prev, dob: e.target.value }))}
+                  max={new Date().toISOString().split('T')[0]}
+                  className="px-3 py-2 bg-[#2a2a2a] border border-gray-700 rounded text-sm"
+                />
+                <input
+                  type="number"
+                  value={newDependent.annualIncome ?? ''}
+                  onChange={(e) => setNewDependent(prev => ({ ...prev, annualIncome: e.target.value ? Number(e.target.value) : undefined }))}
+                  placeholder="Annual income in ₹ (optional)"
+                  className="px-3 py-2 bg-[#2a2a2a] border border-gray-700 rounded text-sm"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={newDependent.isDependent ?? true}
+                  onChange={(e) => setNewDependent(prev => ({ ...prev, isDependent: e.target.checked }))}
+                />
+                Relies on my income
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleAddDependent}
+                  disabled={!newDependent.dob}
+                  className="px-3 py-1 bg-blue-500 rounded text-sm disabled:opacity-50"
+                >
+                  Add
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNewDependent(EMPTY_DEPENDENT)
+                    setShowDependentForm(false)
+                  }}
+                  className="px-3 py-1 bg-gray-700 rounded text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Coverage Preferences */}
         {coverageFields.length > 0 && (
           <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6">
@@ -1,18 +1,82 @@
 'use client'
 
 import { useState } from 'react'
-import { InsuranceProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { CoverageCap, ExcludedProduct, InsuranceProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { RiderCode, selectedRidersPremium } from '@/lib/insurance/riders'
+import { MODAL_FACTORS } from '@/lib/insurance/pricing'
+import PaymentOptionsTable from '@/app/components/PaymentOptionsTable'
+import CoverageNeedsBreakdown from '@/app/components/CoverageNeedsBreakdown'
+import { NeedsAnalysisResult } from '@/lib/insurance/needsAnalysis'
+import { QuoteStatus } from '@/lib/insurance/quotes/schema'
 
 interface LifeInsuranceRecommendationsProps {
   recommendations: InsuranceProduct[];
   userData: any;
+  coverageNeeds?: NeedsAnalysisResult;
+  // Set when the needs-based cover was cut to the largest insurable amount
+  coverageCap?: CoverageCap;
+  // Plans the user cannot be offered, with the reasons
+  excludedProducts?: ExcludedProduct[];
+  coverageAmount?: number;
+  // Saved quote these recommendations belong to
+  quote?: {
+    id: string;
+    validUntil?: string;
+    status?: QuoteStatus;
+  };
+  // Ask Aria to compare the chosen plans
+  onCompare?: (productNames: string[]) => void;
+}
+
+const MAX_COMPARE = 4
+
+const EXCLUSION_LABELS: Record<ExcludedProduct['decision'], string> = {
+  decline: 'Declined',
+  postpone: 'Postponed',
+  ineligible: 'Not eligible'
 }
 
 export default function LifeInsuranceRecommendations({ 
   recommendations, 
-  userData 
+  userData,
+  coverageNeeds,
+  coverageCap,
+  excludedProducts = [],
+  coverageAmount,
+  quote,
+  onCompare
 }: LifeInsuranceRecommendationsProps) {
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  const [paymentOptionsOpen, setPaymentOptionsOpen] = useState<string | null>(null)
+  const [rankingOpen, setRankingOpen] = useState<string | null>(null)
+  // Riders toggled on per product, starting from the ones the user asked for
+  const [riderSelections, setRiderSelections] = useState<Record<string, RiderCode[]>>(() =>
+    Object.fromEntries(recommendations.map(product => [product.id, product.selectedRiders || []]))
+  )
+
+  const toggleRider = (productId: string, code: RiderCode) => {
+    setRiderSelections(prev => {
+      const current = prev[productId] || []
+      return {
+        ...prev,
+        [productId]: current.includes(code)
+          ? current.filter(selected => selected !== code)
+          : [...current, code]
+      }
+    })
+  }
+
+  const toggleCompare = (productId: string) => {
+    setCompareSelection(prev => prev.includes(productId)
+      ? prev.filter(id => id !== productId)
+      : prev.length < MAX_COMPARE ? [...prev, productId] : prev
+    )
+  }
+
+  // Annual premium of the riders currently toggled on for a product
+  const ridersPremium = (product: InsuranceProduct) =>
+    selectedRidersPremium(product.riders || [], riderSelections[product.id] || [])
 
   // Format currency
   const formatCurrency = (value: number) => {
@@ -33,12 +97,6 @@ export default function LifeInsuranceRecommendations({
     return formatCurrency(amount)
   }
 
-  // Calculate savings percentage (dummy calculation)
-  const calculateSavings = (index: number) => {
-    const savingsPercentages = [15, 10, 12, 8, 20]
-    return savingsPercentages[index % savingsPercentages.length]
-  }
-
   // Calculate default term based on age (matching backend logic)
   const calculateDefaultTerm = (userData: any): number => {
     const age = userData.dob ? new Date().getFullYear() - new Date(userData.dob).getFullYear() : 30;
@@ -67,6 +125,15 @@ export default function LifeInsuranceRecommendations({
             <p className="text-gray-600 dark:text-white/60 font-medium">
               Curated recommendations based on your profile
             </p>
+            {quote && (
+              <p className="text-xs text-gray-500 dark:text-white/40 mt-1">
+                Quote <span className="font-mono">#{quote.id.slice(0, 8)}</span>
+                {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                {quote.status && quote.status !== 'active' && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-500/20 rounded capitalize">{quote.status}</span>
+                )}
+              </p>
+            )}
           </div>
         </div>
 
@@ -80,7 +147,7 @@ export default function LifeInsuranceRecommendations({
             <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Coverage Amount</p>
             <div className="flex flex-col items-center">
               <p className="text-2xl font-bold text-white tracking-tight">
-                {formatCoverage(recommendations[0]?.coverageAmount || 5000000)}
+                {formatCoverage(coverageAmount || recommendations[0]?.coverageAmount || 5000000)}
               </p>
               {!userData.coverage_amount && (
                 <span className="text-xs text-blue-400 bg-blue-500/20 px-3 py-1 rounded-full mt-2 font-medium">
@@ -122,10 +189,21 @@ export default function LifeInsuranceRecommendations({
 
 
 
+      {recommendations.length === 0 && (
+        <div className="p-6 mb-8 bg-red-500/10 border border-red-500/30 rounded-xl text-center">
+          <p className="text-lg font-semibold text-red-300 mb-1">No plans can be offered right now</p>
+          <p className="text-sm text-red-200/70">See below why each plan is unavailable. A lower coverage amount or a different term may help.</p>
+        </div>
+      )}
+
       {/* Insurance Product Cards - Horizontal Scroll */}
       <div className="relative">
         <div className="flex gap-6 overflow-x-auto pb-6 scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
-          {recommendations.map((product, index) => (
+          {recommendations.map((product, index) => {
+            const riderPremium = ridersPremium(product)
+            const annualTotal = product.annualPremium + riderPremium
+
+            return (
             <div
               key={product.id}
               className={`min-w-[420px] relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border transition-all duration-500 cursor-pointer group ${
@@ -164,13 +242,13 @@ export default function LifeInsuranceRecommendations({
                   {product.premiumRange ? (
                     <div>
                       <p className="text-xl font-bold text-white">
-                        {formatCurrency(product.premiumRange.min / 12)} - {formatCurrency(product.premiumRange.max / 12)}
+                        {formatCurrency((product.premiumRange.min + riderPremium) * MODAL_FACTORS.monthly)} - {formatCurrency((product.premiumRange.max + riderPremium) * MODAL_FACTORS.monthly)}
                       </p>
                       <p className="text-xs text-gray-500">per month</p>
                     </div>
                   ) : (
                     <div>
-                      <p className="text-xl font-bold text-white">{formatCurrency(product.monthlyPremium)}</p>
+                      <p className="text-xl font-bold text-white">{formatCurrency(riderPremium > 0 ? annualTotal * MODAL_FACTORS.monthly : product.monthlyPremium)}</p>
                       <p className="text-xs text-gray-500">per month</p>
                     </div>
                   )}
@@ -182,14 +260,16 @@ export default function LifeInsuranceRecommendations({
                   {product.premiumRange ? (
                     <div>
                       <p className="text-xl font-bold text-white">
-                        {formatCurrency(product.premiumRange.min)} - {formatCurrency(product.premiumRange.max)}
+                        {formatCurrency(product.premiumRange.min + riderPremium)} - {formatCurrency(product.premiumRange.max + riderPremium)}
                       </p>
                       <p className="text-xs text-gray-500">per year</p>
                     </div>
                   ) : (
                     <div>
-                      <p className="text-xl font-bold text-white">{formatCurrency(product.annualPremium)}</p>
-                      <p className="text-xs text-gray-500">per year</p>
+                      <p className="text-xl font-bold text-white">{formatCurrency(annualTotal)}</p>
+                      <p className="text-xs text-gray-500">
+                        {riderPremium > 0 ? `incl. ${formatCurrency(riderPremium)} riders` : 'per year'}
+                      </p>
                     </div>
                   )}
                 </div>
@@ -198,10 +278,63 @@ export default function LifeInsuranceRecommendations({
                 <div>
                   <p className="text-sm text-gray-400 mb-1">Claim Settlement Ratio</p>
                   <p className="text-xl font-bold text-green-400">{product.claimSettlementRatio}</p>
-                  <p className="text-xs text-gray-500">Industry avg: 97.5%</p>
+                  <p className="text-xs text-gray-500">
+                    {product.claimSettlementYear ? `FY ${product.claimSettlementYear}, by number of claims` : 'As stated by the insurer'}
+                  </p>
                 </div>
               </div>
 
+              {/* Why This Plan */}
+              {product.ranking && (
+                <div className="border-t border-gray-700 pt-4 mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-400">Why this plan</p>
+                    <span className="px-2 py-1 bg-blue-500/20 rounded text-xs font-semibold text-blue-300">
+                      Score {product.ranking.score}/100
+                    </span>
+                  </div>
+                  {product.ranking.reasons.length > 0 && (
+                    <ul className="space-y-1">
+                      {product.ranking.reasons.map((reason, rIndex) => (
+                        <li key={rIndex} className="text-sm text-gray-300">• {reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setRankingOpen(rankingOpen === product.id ? null : product.id)
+                    }}
+                    className="mt-2 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300"
+                  >
+                    How we scored it
+                    <svg
+                      className={`w-3 h-3 transition-transform ${rankingOpen === product.id ? 'rotate-180' : ''}`}
+                      fill="none" stroke="currentColor" viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  {rankingOpen === product.id && (
+                    <div className="mt-3 space-y-2">
+                      {product.ranking.factors.map(factor => (
+                        <div key={factor.key} title={factor.detail}>
+                          <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>{factor.label} <span className="text-gray-600">({Math.round(factor.weight * 100)}%)</span></span>
+                            <span>{factor.score}</span>
+                          </div>
+                          <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-400 rounded-full" style={{ width: `${factor.score}%` }} />
+                          </div>
+                          <p className="text-xs text-gray-500 mt-0.5">{factor.detail}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Features */}
               <div className="border-t border-gray-700 pt-4">
                 <p className="text-sm text-gray-400 mb-2">Key Features</p>
@@ -217,6 +350,97 @@ export default function LifeInsuranceRecommendations({
                 </div>
               </div>
 
+              {/* Underwriting Loading */}
+              {product.underwriting?.decision === 'load' && (
+                <div className="border-t border-gray-700 pt-4 mt-4">
+                  <p className="text-sm text-amber-400 mb-1">
+                    Rated up +{Math.round(product.underwriting.extraMortality * 100)}% after underwriting
+                  </p>
+                  <ul className="space-y-0.5">
+                    {product.underwriting.reasons.map((reason, rIndex) => (
+                      <li key={rIndex} className="text-xs text-gray-400">• {reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Payment Options */}
+              {product.paymentOptions && product.paymentOptions.length > 0 && (
+                <div className="border-t border-gray-700 pt-4 mt-4">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setPaymentOptionsOpen(paymentOptionsOpen === product.id ? null : product.id)
+                    }}
+                    className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-200"
+                  >
+                    <span>Payment options ({product.paymentOptions.length})</span>
+                    <svg
+                      className={`w-4 h-4 transition-transform ${paymentOptionsOpen === product.id ? 'rotate-180' : ''}`}
+                      fill="none" stroke="currentColor" viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  {paymentOptionsOpen === product.id && (
+                    <div className="mt-3">
+                      <PaymentOptionsTable options={product.paymentOptions} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Riders */}
+              {product.riders && product.riders.length > 0 && (
+                <div className="border-t border-gray-700 pt-4 mt-4">
+                  <p className="text-sm text-gray-400 mb-2">Add Riders</p>
+                  <div className="space-y-2">
+                    {product.riders.map(rider => {
+                      const isSelected = (riderSelections[product.id] || []).includes(rider.code)
+                      return (
+                        <button
+                          key={rider.code}
+                          type="button"
+                          disabled={!rider.eligible}
+                          title={rider.eligible ? rider.description : rider.reason}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            toggleRider(product.id, rider.code)
+                          }}
+                          className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg border text-left transition-colors ${
+                            !rider.eligible
+                              ? 'border-gray-800 text-gray-600 cursor-not-allowed'
+                              : isSelected
+                                ? 'border-orange-500/50 bg-orange-500/10 text-white'
+                                : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                          }`}
+                        >
+                          <span className="flex items-center gap-2 text-sm">
+                            <span className={`w-4 h-4 rounded border flex items-center justify-center ${
+                              isSelected ? 'bg-orange-500 border-orange-500' : 'border-gray-500'
+                            }`}>
+                              {isSelected && (
+                                <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                                </svg>
+                              )}
+                            </span>
+                            {rider.name}
+                            {rider.sumAssured > 0 && (
+                              <span className="text-xs text-gray-500">({formatCoverage(rider.sumAssured)})</span>
+                            )}
+                          </span>
+                          <span className="text-xs">
+                            {rider.eligible ? `+${formatCurrency(rider.annualPremium)}/yr` : rider.reason}
+                          </span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3 mt-4">
                 <button
@@ -239,27 +463,51 @@ export default function LifeInsuranceRecommendations({
                 >
                   View Details
                 </button>
+                {onCompare && (
+                  <button
+                    className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
+                      compareSelection.includes(product.id)
+                        ? 'bg-orange-500/20 text-orange-400 border border-orange-500/50'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleCompare(product.id)
+                    }}
+                  >
+                    {compareSelection.includes(product.id) ? '✓ Compare' : 'Compare'}
+                  </button>
+                )}
               </div>
-
-              {/* Savings Badge */}
-              {index < 3 && (
-                <div className="mt-3 flex items-center gap-2">
-                  <span className="px-2 py-1 bg-green-500/20 rounded text-xs text-green-400">
-                    Save {calculateSavings(index)}% with annual payment
-                  </span>
-                  {userData.dob && new Date().getFullYear() - new Date(userData.dob).getFullYear() < 30 && (
-                    <span className="px-2 py-1 bg-blue-500/20 rounded text-xs text-blue-400">
-                      Young age discount applied
-                    </span>
-                  )}
-                </div>
-              )}
             </div>
           </div>
-        ))}
+            )
+          })}
         </div>
       </div>
 
+      {/* Compare Bar */}
+      {onCompare && compareSelection.length > 0 && (
+        <div className="mt-4 flex items-center justify-between gap-4 p-4 bg-orange-500/10 border border-orange-500/30 rounded-xl">
+          <p className="text-sm text-orange-300">
+            {compareSelection.length === 1
+              ? 'Pick at least one more plan to compare'
+              : `${compareSelection.length} plans selected`}
+          </p>
+          <button
+            disabled={compareSelection.length < 2}
+            className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 rounded-lg text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={() => onCompare(
+              recommendations
+                .filter(product => compareSelection.includes(product.id))
+                .map(product => `${product.company} ${product.name}`)
+            )}
+          >
+            Compare side by side
+          </button>
+        </div>
+      )}
+
       {/* Footer Information */}
       <div className="mt-8 space-y-4">
         {/* Smart Defaults Information */}
@@ -272,8 +520,11 @@ export default function LifeInsuranceRecommendations({
               About Smart Defaults
             </h4>
             <div className="space-y-1 text-xs text-blue-300">
-              {!userData.coverage_amount && (
-                <p>• <strong>Coverage Amount:</strong> Calculated as 12x your annual income (₹{(userData.annual_income * 12 / 10000000).toFixed(1)} Cr), following industry best practices</p>
+              {!userData.coverage_amount && coverageNeeds && (
+                <p>• <strong>Coverage Amount:</strong> {coverageNeeds.summary} See the breakdown below.</p>
+              )}
+              {!userData.coverage_amount && coverageCap && (
+                <p>• <strong>Cover limit:</strong> {coverageCap.reason}</p>
               )}
               {!userData.policy_term && (
                 <p>• <strong>Policy Term:</strong> {calculateDefaultTerm(userData)} years based on your age for optimal retirement planning</p>
@@ -283,6 +534,41 @@ export default function LifeInsuranceRecommendations({
           </div>
         )}
 
+        {/* Coverage Needs Breakdown */}
+        {!userData.coverage_amount && coverageNeeds && (
+          <div className="p-6 bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 rounded-xl border border-white/10">
+            <h4 className="text-sm font-semibold text-white/80 mb-4">How we sized your cover</h4>
+            <CoverageNeedsBreakdown analysis={coverageNeeds} compact />
+          </div>
+        )}
+
+        {/* Excluded Products */}
+        {excludedProducts.length > 0 && (
+          <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+            <h4 className="text-lg font-semibold text-white mb-3">Plans not available to you</h4>
+            <div className="space-y-3">
+              {excludedProducts.map(product => (
+                <div key={product.productId} className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-white">{product.name}</p>
+                    <p className="text-xs text-gray-500 mb-1">{product.company}</p>
+                    {product.reasons.map((reason, rIndex) => (
+                      <p key={rIndex} className="text-xs text-gray-400">• {reason}</p>
+                    ))}
+                  </div>
+                  <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+                    product.decision === 'postpone'
+                      ? 'bg-amber-500/20 text-amber-400'
+                      : 'bg-red-500/20 text-red-400'
+                  }`}>
+                    {EXCLUSION_LABELS[product.decision]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* General Information */}
         <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
           <h4 className="text-lg font-semibold text-white mb-3">Important Information</h4>
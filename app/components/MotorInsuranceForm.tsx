@@ -0,0 +1,435 @@
+'use client'
+
+import { useState } from 'react'
+import { MotorProfileData } from '@/app/api/chat/tools/collectMotorInsuranceInfo'
+import {
+  FuelType,
+  MotorAddOn,
+  MotorPolicyType,
+  MotorPreferences,
+  NCB_SLABS,
+  VehicleType
+} from '@/lib/insurance/motor/schema'
+import { VehicleModel, findVehicleModel } from '@/lib/insurance/motor/vehicles'
+import { MOTOR_ADD_ON_DEFINITIONS } from '@/lib/insurance/motor/addOns'
+
+interface MotorInsuranceFormProps {
+  userData: MotorProfileData;
+  preferences?: MotorPreferences | null;
+  vehicleModels: VehicleModel[];
+  sessionId: string;
+  onSubmit: (data: MotorFormSubmission) => void;
+}
+
+export interface MotorFormSubmission {
+  sessionId: string;
+  // Columns to update on user_profile
+  formData: {
+    motor_insurance: MotorPreferences;
+  };
+}
+
+const VEHICLE_TYPE_OPTIONS: { value: VehicleType; label: string }[] = [
+  { value: 'private_car', label: 'Car' },
+  { value: 'two_wheeler', label: 'Two-wheeler' }
+]
+
+const FUEL_OPTIONS: { value: FuelType; label: string }[] = [
+  { value: 'petrol', label: 'Petrol' },
+  { value: 'diesel', label: 'Diesel' },
+  { value: 'cng', label: 'CNG' },
+  { value: 'electric', label: 'Electric' }
+]
+
+const POLICY_TYPE_OPTIONS: { value: MotorPolicyType; label: string; help: string }[] = [
+  { value: 'comprehensive', label: 'Comprehensive', help: 'Covers damage to your own vehicle plus third-party liability' },
+  { value: 'third_party', label: 'Third-party only', help: 'The legal minimum - pays for damage you cause to others, nothing for your own vehicle' }
+]
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const CURRENT_YEAR = new Date().getFullYear()
+const REGISTRATION_YEARS = Array.from({ length: 20 }, (_, i) => CURRENT_YEAR - i)
+
+export default function MotorInsuranceForm({
+  userData,
+  preferences,
+  vehicleModels,
+  sessionId,
+  onSubmit
+}: MotorInsuranceFormProps) {
+  const saved = preferences?.vehicle
+  const [vehicleType, setVehicleType] = useState<VehicleType>(saved?.vehicleType || 'private_car')
+  const [make, setMake] = useState<string>(saved?.make || '')
+  const [model, setModel] = useState<string>(saved?.model || '')
+  const [variant, setVariant] = useState<string>(saved?.variant || '')
+  const [fuelType, setFuelType] = useState<FuelType>(saved?.fuelType || 'petrol')
+  const [registrationYear, setRegistrationYear] = useState<string>(saved ? String(saved.registrationYear) : '')
+  const [registrationMonth, setRegistrationMonth] = useState<string>(saved?.registrationMonth ? String(saved.registrationMonth) : '')
+  const [rtoCity, setRtoCity] = useState<string>(saved?.rtoCity || userData.city || '')
+  const [engineCc, setEngineCc] = useState<string>(saved?.engineCc ? String(saved.engineCc) : '')
+  const [batteryKw, setBatteryKw] = useState<string>(saved?.batteryKw ? String(saved.batteryKw) : '')
+  const [exShowroomPrice, setExShowroomPrice] = useState<string>(saved?.exShowroomPrice ? String(saved.exShowroomPrice) : '')
+  const [policyType, setPolicyType] = useState<MotorPolicyType>(preferences?.policyType || 'comprehensive')
+  const [previousNcb, setPreviousNcb] = useState<number>(preferences?.previousNcb ?? 0)
+  const [claimedLastYear, setClaimedLastYear] = useState<boolean>(preferences?.claimedLastYear ?? false)
+  const [daysSinceExpiry, setDaysSinceExpiry] = useState<string>(String(preferences?.daysSinceExpiry ?? 0))
+  const [addOns, setAddOns] = useState<MotorAddOn[]>(preferences?.addOns || ['zero_depreciation'])
+
+  const modelsForType = vehicleModels.filter(vehicle => vehicle.vehicleType === vehicleType)
+  const makes = Array.from(new Set(modelsForType.map(vehicle => vehicle.make)))
+  const modelsForMake = modelsForType.filter(vehicle => vehicle.make.toLowerCase() === make.trim().toLowerCase())
+  const knownModel = make && model ? findVehicleModel({ make, model, variant: variant || undefined, fuelType }) : null
+  const isElectric = fuelType === 'electric'
+  const isNewVehicle = registrationYear !== '' && Number(registrationYear) === CURRENT_YEAR
+
+  // Known models fill in their own specs; anything else needs them entered
+  const needsSpecs = !knownModel
+
+  const changeVehicleType = (type: VehicleType) => {
+    setVehicleType(type)
+    setMake('')
+    setModel('')
+    setVariant('')
+    setAddOns(prev => prev.filter(code => MOTOR_ADD_ON_DEFINITIONS[code].vehicleTypes.includes(type)))
+  }
+
+  // Picking a listed variant also sets its fuel type
+  const changeVariant = (value: string) => {
+    setVariant(value)
+    const match = modelsForMake.find(vehicle => vehicle.model === model && vehicle.variant === value)
+    if (match) setFuelType(match.fuelType)
+  }
+
+  const toggleAddOn = (code: MotorAddOn) => {
+    setAddOns(prev => prev.includes(code) ? prev.filter(existing => existing !== code) : [...prev, code])
+  }
+
+  // Format currency for display
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount)
+  }
+
+  // Check if we can proceed: the vehicle is identified and, for models we do
+  // not list, its size and price are given
+  const canProceed = () => {
+    if (!make.trim() || !model.trim() || !registrationYear || !rtoCity.trim()) return false
+    if (needsSpecs) {
+      const capacity = Number(isElectric ? batteryKw : engineCc)
+      if (!capacity || capacity <= 0) return false
+      if (!Number(exShowroomPrice) || Number(exShowroomPrice) <= 0) return false
+    }
+    const days = parseInt(daysSinceExpiry, 10)
+    return !isNaN(days) && days >= 0
+  }
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canProceed()) return
+
+    const motorInsurance: MotorPreferences = {
+      vehicle: {
+        vehicleType,
+        make: make.trim(),
+        model: model.trim(),
+        ...(variant.trim() && { variant: variant.trim() }),
+        registrationYear: Number(registrationYear),
+        ...(registrationMonth && { registrationMonth: Number(registrationMonth) }),
+        rtoCity: rtoCity.trim(),
+        fuelType,
+        ...(needsSpecs && !isElectric && { engineCc: Number(engineCc) }),
+        ...(needsSpecs && isElectric && { batteryKw: Number(batteryKw) }),
+        ...(needsSpecs && { exShowroomPrice: Number(exShowroomPrice) })
+      },
+      policyType,
+      previousNcb: isNewVehicle ? 0 : previousNcb,
+      claimedLastYear: isNewVehicle ? false : claimedLastYear,
+      daysSinceExpiry: isNewVehicle ? 0 : parseInt(daysSinceExpiry, 10),
+      addOns: policyType === 'comprehensive' ? addOns : []
+    }
+
+    onSubmit({
+      sessionId,
+      formData: { motor_insurance: motorInsurance }
+    })
+  }
+
+  const inputClasses = "w-full px-4 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl text-white placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/10 transition-all duration-300 font-medium tracking-wide shadow-inner"
+  const toggleClasses = (active: boolean) => `flex-1 px-4 py-3 rounded-2xl border font-medium tracking-wide transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-orange-500 to-amber-500 border-orange-500/50 text-white shadow-lg'
+      : 'bg-white/5 border-white/10 text-white/80 hover:border-white/20 hover:bg-white/10'
+  }`
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4">
+      {/* Header */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl p-8 rounded-3xl border border-white/10 mb-8 shadow-2xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-orange-600/10 via-amber-600/10 to-yellow-600/10 rounded-3xl"></div>
+        <div className="relative flex items-center gap-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-orange-500 to-amber-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l1.5-4.5A2 2 0 018.4 7h7.2a2 2 0 011.9 1.5L19 13m-14 0h14m-14 0v4a1 1 0 001 1h1a1 1 0 001-1v-1h8v1a1 1 0 001 1h1a1 1 0 001-1v-4M7.5 15.5h.01M16.5 15.5h.01" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-white/90 tracking-tight">Motor Insurance Quote</h3>
+            <p className="text-sm text-white/60">Cover for your car or two-wheeler</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Vehicle */}
+        <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl space-y-6">
+          <div>
+            <h4 className="text-lg font-semibold text-white tracking-tight mb-1">Your vehicle</h4>
+            <p className="text-sm text-white/60">The vehicle&apos;s value and engine size set the premium</p>
+          </div>
+
+          <div className="flex gap-3">
+            {VEHICLE_TYPE_OPTIONS.map(option => (
+              <button key={option.value} type="button" onClick={() => changeVehicleType(option.value)} className={toggleClasses(vehicleType === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Make</label>
+              <input
+                type="text"
+                list="motor-makes"
+                value={make}
+                onChange={(e) => setMake(e.target.value)}
+                placeholder={vehicleType === 'private_car' ? 'e.g., Maruti Suzuki' : 'e.g., Honda'}
+                className={inputClasses}
+              />
+              <datalist id="motor-makes">
+                {makes.map(value => <option key={value} value={value} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Model</label>
+              <input
+                type="text"
+                list="motor-models"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={vehicleType === 'private_car' ? 'e.g., Swift' : 'e.g., Activa'}
+                className={inputClasses}
+              />
+              <datalist id="motor-models">
+                {Array.from(new Set(modelsForMake.map(vehicle => vehicle.model))).map(value => <option key={value} value={value} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">
+                Variant
+                <span className="text-white/40 text-xs ml-2">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                list="motor-variants"
+                value={variant}
+                onChange={(e) => changeVariant(e.target.value)}
+                placeholder="e.g., VXi"
+                className={inputClasses}
+              />
+              <datalist id="motor-variants">
+                {modelsForMake.filter(vehicle => vehicle.model === model).map(vehicle => <option key={vehicle.variant} value={vehicle.variant} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">Fuel type</label>
+            <div className="flex gap-3">
+              {FUEL_OPTIONS.map(option => (
+                <button key={option.value} type="button" onClick={() => setFuelType(option.value)} className={toggleClasses(fuelType === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Registration year</label>
+              <select
+                value={registrationYear}
+                onChange={(e) => setRegistrationYear(e.target.value)}
+                className={`${inputClasses} cursor-pointer`}
+              >
+                <option value="" className="bg-slate-800 text-white">Select year</option>
+                {REGISTRATION_YEARS.map(year => (
+                  <option key={year} value={year} className="bg-slate-800 text-white">{year}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">
+                Month
+                <span className="text-white/40 text-xs ml-2">(Optional)</span>
+              </label>
+              <select
+                value={registrationMonth}
+                onChange={(e) => setRegistrationMonth(e.target.value)}
+                className={`${inputClasses} cursor-pointer`}
+              >
+                <option value="" className="bg-slate-800 text-white">Not sure</option>
+                {MONTHS.map((month, index) => (
+                  <option key={month} value={index + 1} className="bg-slate-800 text-white">{month}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">RTO city</label>
+              <input
+                type="text"
+                value={rtoCity}
+                onChange={(e) => setRtoCity(e.target.value)}
+                placeholder="Where it is registered"
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          {knownModel ? (
+            <p className="text-xs text-white/50">
+              {knownModel.make} {knownModel.model} {knownModel.variant} - {knownModel.engineCc ? `${knownModel.engineCc} cc` : `${knownModel.batteryKw} kW`},
+              ex-showroom {formatCurrency(knownModel.exShowroomPrice)}
+            </p>
+          ) : make && model ? (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">
+                  {isElectric ? 'Motor power (kW)' : 'Engine capacity (cc)'}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={isElectric ? batteryKw : engineCc}
+                  onChange={(e) => isElectric ? setBatteryKw(e.target.value) : setEngineCc(e.target.value)}
+                  placeholder={isElectric ? 'e.g., 30' : 'e.g., 1197'}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Ex-showroom price (₹)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={exShowroomPrice}
+                  onChange={(e) => setExShowroomPrice(e.target.value)}
+                  placeholder="Price when new"
+                  className={inputClasses}
+                />
+              </div>
+              <p className="md:col-span-2 text-xs text-white/50">We don&apos;t have specs for this model - they&apos;re on your RC and invoice</p>
+            </div>
+          ) : null}
+        </div>
+
+        {/* Previous policy */}
+        {!isNewVehicle && (
+          <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+            <h4 className="text-lg font-semibold text-gray-300">Previous Policy</h4>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">No Claim Bonus on current policy</label>
+                <select
+                  value={previousNcb}
+                  onChange={(e) => setPreviousNcb(Number(e.target.value))}
+                  className={`${inputClasses} cursor-pointer`}
+                >
+                  {NCB_SLABS.map(slab => (
+                    <option key={slab} value={slab} className="bg-slate-800 text-white">{slab}%</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Shown on your policy schedule; rises each claim-free year up to 50%</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Days since it expired</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={daysSinceExpiry}
+                  onChange={(e) => setDaysSinceExpiry(e.target.value)}
+                  className={inputClasses}
+                />
+                <p className="text-xs text-gray-500 mt-1">0 if it hasn&apos;t expired; NCB is lost after 90 days</p>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Did you make a claim this policy year?</label>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => setClaimedLastYear(false)} className={toggleClasses(!claimedLastYear)}>No</button>
+                <button type="button" onClick={() => setClaimedLastYear(true)} className={toggleClasses(claimedLastYear)}>Yes</button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Coverage Preferences */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">Coverage Preferences</h4>
+          <div>
+            <div className="flex gap-3">
+              {POLICY_TYPE_OPTIONS.map(option => (
+                <button key={option.value} type="button" onClick={() => setPolicyType(option.value)} className={toggleClasses(policyType === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {POLICY_TYPE_OPTIONS.find(option => option.value === policyType)?.help}
+            </p>
+          </div>
+
+          {policyType === 'comprehensive' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-300">Add-ons</label>
+              {Object.values(MOTOR_ADD_ON_DEFINITIONS)
+                .filter(definition => definition.vehicleTypes.includes(vehicleType))
+                .filter(definition => !(definition.code === 'engine_protect' && isElectric))
+                .map(definition => (
+                  <label key={definition.code} className="flex items-start gap-3 p-3 rounded-lg border border-gray-700 cursor-pointer hover:border-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={addOns.includes(definition.code)}
+                      onChange={() => toggleAddOn(definition.code)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm text-gray-200">{definition.name}</span>
+                      <span className="block text-xs text-gray-500">{definition.description}</span>
+                    </span>
+                  </label>
+                ))}
+            </div>
+          )}
+        </div>
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!canProceed()}
+          className={`w-full py-4 rounded-2xl font-semibold tracking-wide transition-all duration-300 shadow-lg ${
+            canProceed()
+              ? 'bg-gradient-to-r from-orange-500 via-amber-500 to-yellow-500 hover:from-orange-600 hover:via-amber-600 hover:to-yellow-600 text-white transform hover:scale-[1.02] hover:shadow-xl'
+              : 'bg-white/5 border border-white/10 text-white/40 cursor-not-allowed'
+          }`}
+        >
+          {canProceed() ? 'Get Motor Quotes' : 'Complete Vehicle Details'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+'use client'
+
+import { useState } from 'react'
+import { MotorInsuranceProduct } from '@/app/api/chat/tools/showMotorInsuranceRecommendations'
+import { MotorProfileData } from '@/app/api/chat/tools/collectMotorInsuranceInfo'
+import { ExcludedProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { MotorPolicyType, MotorVehicle } from '@/lib/insurance/motor/schema'
+import { RtoZone } from '@/lib/insurance/motor/pricing'
+import { QuoteStatus } from '@/lib/insurance/quotes/schema'
+
+interface MotorInsuranceRecommendationsProps {
+  recommendations: MotorInsuranceProduct[];
+  userData: MotorProfileData;
+  // Plans that cannot insure this vehicle, with the reasons
+  excludedProducts?: ExcludedProduct[];
+  vehicle?: MotorVehicle;
+  policyType?: MotorPolicyType;
+  computedIdv?: number;
+  ncb?: number;
+  ncbForfeited?: boolean;
+  zone?: RtoZone;
+  vehicleAgeMonths?: number;
+  // Saved quote these recommendations belong to
+  quote?: {
+    id: string;
+    validUntil?: string;
+    status?: QuoteStatus;
+  };
+}
+
+const EXCLUSION_LABELS: Record<ExcludedProduct['decision'], string> = {
+  decline: 'Declined',
+  postpone: 'Postponed',
+  ineligible: 'Not eligible'
+}
+
+const FUEL_LABELS: Record<MotorVehicle['fuelType'], string> = {
+  petrol: 'Petrol',
+  diesel: 'Diesel',
+  cng: 'CNG',
+  electric: 'Electric'
+}
+
+// Format a vehicle age in months for display
+const formatVehicleAge = (months: number) => {
+  if (months < 12) return 'Under 1 year'
+  const years = Math.floor(months / 12)
+  return `${years} year${years === 1 ? '' : 's'}`
+}
+
+export default function MotorInsuranceRecommendations({
+  recommendations,
+  userData,
+  excludedProducts = [],
+  vehicle,
+  policyType,
+  computedIdv,
+  ncb,
+  ncbForfeited,
+  zone,
+  vehicleAgeMonths,
+  quote
+}: MotorInsuranceRecommendationsProps) {
+  const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+
+  const cheapest = recommendations.length > 0
+    ? Math.min(...recommendations.map(product => product.annualPremium))
+    : null
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const isComprehensive = policyType !== 'third_party'
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <div className="inline-flex items-center gap-3 mb-6">
+          <div className="w-14 h-14 bg-gradient-to-br from-orange-500 via-amber-600 to-yellow-600 rounded-3xl flex items-center justify-center shadow-xl">
+            <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l1.5-4.5A2 2 0 018.4 7h7.2a2 2 0 011.9 1.5L19 13m-14 0h14m-14 0v4a1 1 0 001 1h1a1 1 0 001-1v-1h8v1a1 1 0 001 1h1a1 1 0 001-1v-4M7.5 15.5h.01M16.5 15.5h.01" />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h3 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight mb-1">
+              Motor Quotes for {userData.first_name || 'You'}
+            </h3>
+            <p className="text-gray-600 dark:text-white/60 font-medium">
+              {vehicle ? `${vehicle.make} ${vehicle.model}${vehicle.variant ? ` ${vehicle.variant}` : ''}` : 'Your vehicle'}
+              {' · '}{isComprehensive ? 'Comprehensive' : 'Third-party only'}
+            </p>
+            {quote && (
+              <p className="text-xs text-gray-500 dark:text-white/40 mt-1">
+                Quote <span className="font-mono">#{quote.id.slice(0, 8)}</span>
+                {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                {quote.status && quote.status !== 'active' && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-500/20 rounded capitalize">{quote.status}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Key Details Summary */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 mb-12 shadow-2xl">
+        <div className="relative grid grid-cols-2 md:grid-cols-4 gap-8">
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Insured Declared Value</p>
+            <p className="text-2xl font-bold text-white tracking-tight">
+              {isComprehensive && computedIdv ? formatCurrency(computedIdv) : '—'}
+            </p>
+            {!isComprehensive && (
+              <span className="text-xs text-white/50 mt-2 inline-block">Own damage not covered</span>
+            )}
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Vehicle</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {vehicle ? `${FUEL_LABELS[vehicle.fuelType]} · ${vehicle.registrationYear}` : '—'}
+              {vehicleAgeMonths !== undefined && <span className="block text-white/60">{formatVehicleAge(vehicleAgeMonths)} old</span>}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">No Claim Bonus</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{ncb !== undefined ? `${ncb}%` : '—'}</p>
+            {ncbForfeited && (
+              <span className="text-xs text-amber-400 bg-amber-500/20 px-3 py-1 rounded-full mt-2 inline-block font-medium">
+                Reset after claim or lapse
+              </span>
+            )}
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">RTO</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{vehicle?.rtoCity || '—'}</p>
+            {zone && <span className="text-xs text-white/50 mt-2 inline-block">Zone {zone}</span>}
+          </div>
+        </div>
+      </div>
+
+      {recommendations.length === 0 && (
+        <div className="p-6 mb-8 bg-red-500/10 border border-red-500/30 rounded-xl text-center">
+          <p className="text-lg font-semibold text-red-300 mb-1">No plans can be offered right now</p>
+          <p className="text-sm text-red-200/70">See below why each plan is unavailable.</p>
+        </div>
+      )}
+
+      {/* Plans */}
+      <div className="grid md:grid-cols-2 gap-6 mb-12">
+        {recommendations.map(product => (
+          <div
+            key={product.id}
+            onClick={() => setSelectedProduct(selectedProduct === product.id ? null : product.id)}
+            className={`relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 rounded-3xl border p-6 shadow-xl cursor-pointer transition-all duration-300 ${
+              selectedProduct === product.id ? 'border-orange-500/60' : 'border-white/10 hover:border-white/20'
+            }`}
+          >
+            {product.annualPremium === cheapest && recommendations.length > 1 && (
+              <span className="absolute -top-3 left-6 px-3 py-1 bg-gradient-to-r from-orange-500 to-amber-500 rounded-full text-xs font-semibold text-white shadow-lg">
+                Lowest premium
+              </span>
+            )}
+
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                {product.logo && <span className="text-3xl">{product.logo}</span>}
+                <div>
+                  <p className="text-lg font-bold text-white">{product.name}</p>
+                  <p className="text-sm text-white/50">{product.company}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-white">{formatCurrency(product.annualPremium)}</p>
+                <p className="text-xs text-white/50">per year incl. GST</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+              <div>
+                <p className="text-xs text-white/50">IDV</p>
+                <p className="text-white/80">{isComprehensive ? formatCurrency(product.idv) : '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Claim settlement</p>
+                <p className="text-white/80">{product.claimSettlementRatio}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Cashless garages</p>
+                <p className="text-white/80">{product.cashlessGarages.toLocaleString('en-IN')}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Add-ons included</p>
+                <p className="text-white/80">
+                  {product.selectedAddOns.length > 0
+                    ? product.addOns.filter(addOn => product.selectedAddOns.includes(addOn.code)).map(addOn => addOn.name).join(', ')
+                    : 'None'}
+                </p>
+              </div>
+            </div>
+
+            <ul className="space-y-1">
+              {product.features.map((feature, index) => (
+                <li key={index} className="text-xs text-white/60">• {feature}</li>
+              ))}
+            </ul>
+
+            {selectedProduct === product.id && (
+              <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+                {/* Premium breakup */}
+                <div>
+                  <p className="text-xs font-medium text-white/60 mb-2">Premium breakup</p>
+                  <div className="space-y-1 text-xs text-white/80">
+                    {isComprehensive && (
+                      <>
+                        <div className="flex justify-between"><span>Basic own damage</span><span>{formatCurrency(product.premium.basicOd)}</span></div>
+                        <div className="flex justify-between text-green-400"><span>Insurer discount</span><span>−{formatCurrency(product.premium.odDiscount)}</span></div>
+                        {product.premium.ncbDiscount > 0 && (
+                          <div className="flex justify-between text-green-400"><span>No Claim Bonus ({product.ncb}%)</span><span>−{formatCurrency(product.premium.ncbDiscount)}</span></div>
+                        )}
+                        {product.premium.addOnPremium > 0 && (
+                          <div className="flex justify-between"><span>Add-ons</span><span>{formatCurrency(product.premium.addOnPremium)}</span></div>
+                        )}
+                      </>
+                    )}
+                    <div className="flex justify-between"><span>Third-party liability</span><span>{formatCurrency(product.premium.thirdParty)}</span></div>
+                    <div className="flex justify-between"><span>Owner-driver PA cover</span><span>{formatCurrency(product.premium.paCover)}</span></div>
+                    <div className="flex justify-between"><span>GST (18%)</span><span>{formatCurrency(product.premium.gst)}</span></div>
+                    <div className="flex justify-between pt-1 border-t border-white/10 font-semibold text-white"><span>Total</span><span>{formatCurrency(product.premium.totalPremium)}</span></div>
+                  </div>
+                </div>
+
+                {isComprehensive && (
+                  <>
+                    <p className="text-xs text-white/50">
+                      IDV can be set between {formatCurrency(product.idvRange.min)} and {formatCurrency(product.idvRange.max)} with this insurer
+                    </p>
+                    <div>
+                      <p className="text-xs font-medium text-white/60 mb-2">Add-on prices (before GST)</p>
+                      {product.addOns.map(addOn => (
+                        <div key={addOn.code} className="flex justify-between text-xs">
+                          <span className={addOn.eligible ? 'text-white/80' : 'text-white/40'}>{addOn.name}</span>
+                          <span className={addOn.eligible ? 'text-white/80' : 'text-white/40'}>
+                            {addOn.eligible ? formatCurrency(addOn.annualPremium) : addOn.reason}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {/* Excluded Products */}
+        {excludedProducts.length > 0 && (
+          <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+            <h4 className="text-lg font-semibold text-white mb-3">Plans not available to you</h4>
+            <div className="space-y-3">
+              {excludedProducts.map(product => (
+                <div key={product.productId} className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-white">{product.name}</p>
+                    <p className="text-xs text-gray-500 mb-1">{product.company}</p>
+                    {product.reasons.map((reason, rIndex) => (
+                      <p key={rIndex} className="text-xs text-gray-400">• {reason}</p>
+                    ))}
+                  </div>
+                  <span className="px-2 py-1 rounded text-xs whitespace-nowrap bg-red-500/20 text-red-400">
+                    {EXCLUSION_LABELS[product.decision]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* General Information */}
+        <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+          <h4 className="text-lg font-semibold text-white mb-3">Important Information</h4>
+          <div className="space-y-2 text-sm text-gray-400">
+            <p>• Premiums shown are indicative and may vary after vehicle inspection</p>
+            <p>• IDV is the ex-showroom price less IRDAI depreciation for the vehicle&apos;s age; it is the most a total-loss claim pays</p>
+            <p>• Third-party premiums are set by IRDAI and are the same with every insurer</p>
+            <p>• No Claim Bonus belongs to you, not the vehicle, and transfers when you switch insurers</p>
+            <p>• Actual premiums will be confirmed by the insurance provider</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { PaymentMode, PaymentOption } from '@/lib/insurance/pricing'
+
+interface PaymentOptionsTableProps {
+  options: PaymentOption[];
+}
+
+const MODE_LABELS: Record<Exclude<PaymentMode, 'single'>, { label: string; suffix: string }> = {
+  annual: { label: 'Annual', suffix: '/yr' },
+  half_yearly: { label: 'Half-yearly', suffix: '/6 mo' },
+  quarterly: { label: 'Quarterly', suffix: '/qtr' },
+  monthly: { label: 'Monthly', suffix: '/mo' }
+}
+
+export default function PaymentOptionsTable({ options }: PaymentOptionsTableProps) {
+  const [mode, setMode] = useState<Exclude<PaymentMode, 'single'>>('annual')
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Single pay has one mode; everything else is shown in the selected mode
+  const rows = options.map(option => ({
+    option,
+    premium: option.modes.find(m => m.mode === mode) || option.modes[0]
+  }))
+  const lowestOutgo = Math.min(...rows.map(row => row.premium.totalOutgo))
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <div className="flex gap-1 mb-3">
+        {(Object.keys(MODE_LABELS) as Array<keyof typeof MODE_LABELS>).map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setMode(key)}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+              mode === key
+                ? 'bg-orange-500 text-white'
+                : 'bg-gray-700/60 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {MODE_LABELS[key].label}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 text-left">
+            <th className="font-medium pb-2">Payment term</th>
+            <th className="font-medium pb-2 text-right">Instalment</th>
+            <th className="font-medium pb-2 text-right">Total outgo</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ option, premium }) => (
+            <tr key={`${option.type}-${option.premiumPaymentTerm}`} className="border-t border-gray-800">
+              <td className="py-2 text-gray-300">{option.label}</td>
+              <td className="py-2 text-right text-white font-medium">
+                {formatCurrency(premium.instalment)}
+                <span className="text-xs text-gray-500 ml-1">
+                  {premium.mode === 'single' ? 'once' : MODE_LABELS[premium.mode].suffix}
+                </span>
+              </td>
+              <td className={`py-2 text-right font-medium ${
+                premium.totalOutgo === lowestOutgo ? 'text-green-400' : 'text-gray-300'
+              }`}>
+                {formatCurrency(premium.totalOutgo)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">
+        Base plan premium incl. GST. Shorter payment terms cost more per instalment but less overall.
+      </p>
+    </div>
+  )
+}
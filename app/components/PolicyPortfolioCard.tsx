@@ -0,0 +1,152 @@
+'use client'
+
+import { ExistingPolicy, POLICY_TYPE_LABELS, PolicyStatus } from '@/lib/insurance/policies/schema'
+import { CoverageGapResult, GapStatus, PortfolioSummary, annualisedPremium } from '@/lib/insurance/policies/gapAnalysis'
+
+interface PolicyPortfolioCardProps {
+  policies: ExistingPolicy[];
+  portfolio: PortfolioSummary;
+  // Gap analysis, when the card shows the result of coverageGapAnalysis
+  analysis?: CoverageGapResult;
+}
+
+const STATUS_STYLES: Record<PolicyStatus, string> = {
+  active: 'bg-green-500/20 text-green-400',
+  lapsed: 'bg-red-500/20 text-red-400',
+  matured: 'bg-blue-500/20 text-blue-400',
+  surrendered: 'bg-gray-500/20 text-gray-400'
+}
+
+const GAP_STYLES: Record<GapStatus, { label: string; className: string }> = {
+  gap: { label: 'Shortfall', className: 'bg-red-500/20 text-red-400' },
+  adequate: { label: 'Adequate', className: 'bg-green-500/20 text-green-400' },
+  over_insured: { label: 'Over-insured', className: 'bg-amber-500/20 text-amber-400' }
+}
+
+export default function PolicyPortfolioCard({ policies, portfolio, analysis }: PolicyPortfolioCardProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(2)} Cr`
+    } else if (amount >= 100000) { // 1 lakh or more
+      return `₹${(amount / 100000).toFixed(1)} Lakhs`
+    }
+    return formatCurrency(amount)
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <p className="text-sm font-medium text-white/60 mb-4 tracking-wide">Your insurance portfolio</p>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+          <div>
+            <p className="text-xs text-white/50 mb-1">Life cover</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{formatCoverage(portfolio.lifeCover)}</p>
+            {portfolio.employerLifeCover > 0 && (
+              <p className="text-xs text-white/50 mt-1">{formatCoverage(portfolio.employerLifeCover)} from employer</p>
+            )}
+          </div>
+          <div>
+            <p className="text-xs text-white/50 mb-1">Health cover</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{formatCoverage(portfolio.healthCover)}</p>
+            {portfolio.employerHealthCover > 0 && (
+              <p className="text-xs text-white/50 mt-1">{formatCoverage(portfolio.employerHealthCover)} from employer</p>
+            )}
+          </div>
+          <div>
+            <p className="text-xs text-white/50 mb-1">Accident cover</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{formatCoverage(portfolio.accidentCover)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-white/50 mb-1">Premiums a year</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{formatCurrency(portfolio.annualPremium)}</p>
+            {portfolio.premiumToIncome !== null && (
+              <p className="text-xs text-white/50 mt-1">{(portfolio.premiumToIncome * 100).toFixed(1)}% of income</p>
+            )}
+          </div>
+        </div>
+
+        {/* Gaps */}
+        {analysis && (
+          <div className="mb-6 space-y-3">
+            <p className="text-sm text-white/70">{analysis.summary}</p>
+            {analysis.gaps.map(gap => (
+              <div key={gap.category} className="flex items-start justify-between gap-4 p-4 bg-white/5 rounded-2xl">
+                <div>
+                  <p className="text-sm font-medium text-white">{gap.label}</p>
+                  <p className="text-xs text-white/50">{gap.explanation}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${GAP_STYLES[gap.status].className}`}>
+                    {GAP_STYLES[gap.status].label}
+                  </span>
+                  {gap.status === 'gap' && (
+                    <p className="text-sm font-semibold text-orange-400 mt-2 whitespace-nowrap">+{formatCoverage(gap.shortfall)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {analysis.flags.length > 0 && (
+              <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-2xl space-y-1">
+                {analysis.flags.map((flag, index) => (
+                  <p key={`${flag.policyId}-${index}`} className="text-xs text-amber-200">• {flag.message}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Policies */}
+        {policies.length === 0 ? (
+          <p className="text-sm text-white/70">No policies recorded yet. Tell Aria about any cover you already hold.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-white/50 text-left">
+                <th className="font-medium pb-2">Policy</th>
+                <th className="font-medium pb-2">Type</th>
+                <th className="font-medium pb-2 text-right">Cover</th>
+                <th className="font-medium pb-2 text-right">Premium / yr</th>
+                <th className="font-medium pb-2 text-right">Next due</th>
+                <th className="font-medium pb-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {policies.map(policy => (
+                <tr key={policy.id} className="border-t border-white/10">
+                  <td className="py-2 text-white">
+                    {policy.insurer}
+                    {policy.planName && <span className="block text-xs text-white/50">{policy.planName}</span>}
+                  </td>
+                  <td className="py-2 text-white/80">{POLICY_TYPE_LABELS[policy.policyType]}</td>
+                  <td className="py-2 text-right text-white/80">{formatCoverage(policy.sumAssured)}</td>
+                  <td className="py-2 text-right text-white/80">
+                    {policy.premiumFrequency === 'single' ? 'Single' : formatCurrency(annualisedPremium(policy))}
+                  </td>
+                  <td className="py-2 text-right text-white/60">{policy.renewalDate ? formatDate(policy.renewalDate) : '—'}</td>
+                  <td className="py-2 text-right">
+                    <span className={`px-2 py-1 rounded text-xs capitalize ${STATUS_STYLES[policy.status]}`}>{policy.status}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
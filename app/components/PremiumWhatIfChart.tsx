@@ -0,0 +1,99 @@
+'use client'
+
+import { WhatIfAssumptions, WhatIfPrice, WhatIfProductRow, WhatIfScenarioPrice } from '@/app/api/chat/tools/premiumWhatIf'
+
+interface PremiumWhatIfChartProps {
+  current: WhatIfAssumptions;
+  scenarios: WhatIfAssumptions[];
+  rows: WhatIfProductRow[];
+  summary?: string;
+}
+
+// Bar colours: the current profile first, then each scenario
+const BAR_COLORS = ['bg-white/30', 'bg-blue-400', 'bg-purple-400', 'bg-teal-400']
+
+export default function PremiumWhatIfChart({ current, scenarios, rows, summary }: PremiumWhatIfChartProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const series = [current, ...scenarios]
+  const maxPremium = Math.max(
+    1,
+    ...rows.flatMap(row => [row.current, ...row.scenarios].map(price => price.annualPremium || 0))
+  )
+
+  const renderBar = (price: WhatIfPrice | WhatIfScenarioPrice, index: number) => {
+    const delta = 'annualDelta' in price ? price.annualDelta : undefined
+    const percent = 'annualDeltaPercent' in price ? price.annualDeltaPercent : undefined
+
+    return (
+      <div key={index} className="flex items-center gap-3">
+        <div className="flex-1 h-3 bg-white/5 rounded-full overflow-hidden">
+          {price.available && (
+            <div
+              className={`h-full rounded-full ${BAR_COLORS[index]}`}
+              style={{ width: `${((price.annualPremium || 0) / maxPremium) * 100}%` }}
+            />
+          )}
+        </div>
+        <div className="w-40 text-right text-xs whitespace-nowrap">
+          {price.available ? (
+            <>
+              <span className="text-white/80">{formatCurrency(price.annualPremium || 0)}</span>
+              {delta !== undefined && delta !== 0 && (
+                <span className={`ml-2 ${delta < 0 ? 'text-green-400' : 'text-orange-400'}`}>
+                  {delta < 0 ? '−' : '+'}{Math.abs(percent || 0)}%
+                </span>
+              )}
+            </>
+          ) : (
+            <span className="text-white/40" title={price.reasons?.join('; ')}>Not available</span>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">What if · annual premium</p>
+        {summary && <p className="text-sm text-white/80 mb-4">{summary}</p>}
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 mb-6">
+          {series.map((item, index) => (
+            <div key={item.label} className="flex items-center gap-2 text-xs text-white/70">
+              <span className={`w-3 h-3 rounded-full ${BAR_COLORS[index]}`} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-white/70">None of our plans can be offered in these scenarios.</p>
+        ) : (
+          <div className="space-y-5">
+            {rows.map(row => (
+              <div key={row.productId}>
+                <p className="text-sm text-white mb-2">
+                  {row.company} <span className="text-white/50">{row.name}</span>
+                </p>
+                <div className="space-y-1.5">
+                  {renderBar(row.current, 0)}
+                  {row.scenarios.map((price, index) => renderBar(price, index + 1))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
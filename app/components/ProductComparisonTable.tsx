@@ -0,0 +1,174 @@
+'use client'
+
+import { Fragment, ReactNode } from 'react'
+import { ComparedProduct } from '@/app/api/chat/tools/compareInsuranceProducts'
+import { PayoutOption } from '@/lib/insurance/catalog/schema'
+
+interface ProductComparisonTableProps {
+  products: ComparedProduct[];
+  coverageAmount?: number;
+  missingFields?: string[];
+}
+
+const PAYOUT_LABELS: Record<PayoutOption, string> = {
+  lump_sum: 'Lump sum',
+  monthly_income: 'Monthly income',
+  lump_sum_plus_income: 'Lump sum + income',
+  increasing_income: 'Increasing income'
+}
+
+const AVAILABILITY_LABELS: Record<ComparedProduct['availability'], string> = {
+  available: 'Available',
+  postpone: 'Postponed',
+  decline: 'Declined',
+  ineligible: 'Not eligible',
+  unpriced: 'Not priced'
+}
+
+export default function ProductComparisonTable({ products, coverageAmount, missingFields = [] }: ProductComparisonTableProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(1)} Cr`
+    } else if (amount >= 100000) { // 1 lakh or more
+      return `₹${(amount / 100000).toFixed(0)} L`
+    }
+    return formatCurrency(amount)
+  }
+
+  // Best values are highlighted across the row
+  const premiums = products.flatMap(product => product.premium ? [product.premium.annual] : [])
+  const lowestPremium = premiums.length > 0 ? Math.min(...premiums) : undefined
+  const ratios = products.map(product => parseFloat(product.claimSettlementRatio))
+  const highestRatio = Math.max(...ratios.filter(ratio => !isNaN(ratio)))
+
+  const riderCodes = Array.from(new Set(products.flatMap(product => product.riders.map(rider => rider.code))))
+  const riderNames = Object.fromEntries(products.flatMap(product => product.riders.map(rider => [rider.code, rider.name])))
+  const payoutOptions = (Object.keys(PAYOUT_LABELS) as PayoutOption[])
+    .filter(option => products.some(product => product.payoutOptions.includes(option)))
+
+  const check = (
+    <svg className="w-4 h-4 text-green-400 inline" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+    </svg>
+  )
+  const dash = <span className="text-gray-600">—</span>
+
+  const row = (label: string, render: (product: ComparedProduct) => ReactNode) => (
+    <tr className="border-t border-white/10">
+      <th className="py-3 pr-4 text-left text-xs font-medium text-white/50 align-top whitespace-nowrap">{label}</th>
+      {products.map(product => (
+        <td key={product.productId} className="py-3 px-3 text-sm text-white/80 align-top">
+          {render(product)}
+        </td>
+      ))}
+    </tr>
+  )
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl overflow-x-auto">
+        <div className="mb-6">
+          <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">Plan comparison</p>
+          <p className="text-sm text-white/70">
+            {coverageAmount
+              ? `Premiums priced for ${formatCoverage(coverageAmount)} cover on your profile`
+              : `Complete your ${missingFields.join(', ')} to see premiums for your profile`}
+          </p>
+        </div>
+
+        <table className="w-full min-w-[640px]">
+          <thead>
+            <tr>
+              <th className="w-40"></th>
+              {products.map(product => (
+                <th key={product.productId} className="px-3 pb-4 text-left align-bottom">
+                  <div className="flex items-center gap-2">
+                    {product.logo && <span className="text-2xl">{product.logo}</span>}
+                    <div>
+                      <p className="text-base font-bold text-white">{product.name}</p>
+                      <p className="text-xs font-medium text-white/50">{product.company}</p>
+                    </div>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {row('Annual premium', product => product.premium ? (
+              <span className={product.premium.annual === lowestPremium ? 'text-green-400 font-semibold' : 'text-white font-semibold'}>
+                {formatCurrency(product.premium.annual)}
+                <span className="block text-xs text-white/50 font-normal">
+                  {formatCurrency(product.premium.monthly)}/mo · {product.premium.policyTerm} yrs
+                </span>
+              </span>
+            ) : (
+              <span className={`px-2 py-1 rounded text-xs ${
+                product.availability === 'unpriced' ? 'bg-white/5 text-white/50' : 'bg-red-500/20 text-red-400'
+              }`}>
+                {AVAILABILITY_LABELS[product.availability]}
+              </span>
+            ))}
+            {row('Underwriting', product => product.availabilityReasons.length > 0 ? (
+              <ul className="space-y-1">
+                {product.availabilityReasons.map((reason, index) => (
+                  <li key={index} className="text-xs text-white/60">• {reason}</li>
+                ))}
+              </ul>
+            ) : product.availability === 'available' ? 'Standard rates' : dash)}
+            {row('Claim settlement', product => (
+              <span className={parseFloat(product.claimSettlementRatio) === highestRatio ? 'text-green-400 font-semibold' : ''}>
+                {product.claimSettlementRatio}
+                {product.claimSettlementYear && (
+                  <span className="block text-xs text-white/40 font-normal">FY {product.claimSettlementYear}</span>
+                )}
+              </span>
+            ))}
+            {row('Entry age', product => `${product.minEntryAge}–${product.maxEntryAge} years`)}
+            {row('Cover till age', product => `${product.maxMaturityAge}`)}
+            {row('Sum assured', product => `${formatCoverage(product.minSumAssured)} – ${formatCoverage(product.maxSumAssured)}`)}
+            {row('Policy terms', product => `${Math.min(...product.termOptions)}–${Math.max(...product.termOptions)} years`)}
+            {riderCodes.map(code => (
+              <Fragment key={code}>
+                {row(`${riderNames[code]} rider`, product => {
+                  const rider = product.riders.find(r => r.code === code)
+                  if (!rider) return dash
+                  if (rider.annualPremium !== undefined) return `+${formatCurrency(rider.annualPremium)}/yr`
+                  return rider.eligible === false ? <span className="text-xs text-white/50">Not eligible</span> : check
+                })}
+              </Fragment>
+            ))}
+            {payoutOptions.map(option => (
+              <Fragment key={option}>
+                {row(`Payout: ${PAYOUT_LABELS[option]}`, product => product.payoutOptions.includes(option) ? check : dash)}
+              </Fragment>
+            ))}
+            {row('Exclusions', product => (
+              <ul className="space-y-1">
+                {product.exclusions.map((exclusion, index) => (
+                  <li key={index} className="text-xs text-white/60">• {exclusion}</li>
+                ))}
+              </ul>
+            ))}
+            {row('Key features', product => (
+              <ul className="space-y-1">
+                {product.features.map((feature, index) => (
+                  <li key={index} className="text-xs text-white/60">• {feature}</li>
+                ))}
+              </ul>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
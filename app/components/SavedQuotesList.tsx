@@ -0,0 +1,102 @@
+'use client'
+
+import { SavedQuoteSummary } from '@/app/api/chat/tools/savedQuotes'
+
+interface SavedQuotesListProps {
+  quotes: SavedQuoteSummary[];
+}
+
+const LINE_LABELS: Record<SavedQuoteSummary['line'], string> = {
+  term_life: 'Term life',
+  health: 'Health',
+  motor: 'Motor',
+  travel: 'Travel',
+  home: 'Home'
+}
+
+const STATUS_STYLES: Record<SavedQuoteSummary['status'], string> = {
+  active: 'bg-green-500/20 text-green-400',
+  accepted: 'bg-blue-500/20 text-blue-400',
+  withdrawn: 'bg-gray-500/20 text-gray-400',
+  expired: 'bg-red-500/20 text-red-400'
+}
+
+export default function SavedQuotesList({ quotes }: SavedQuotesListProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  // Format coverage amount for display
+  const formatCoverage = (amount: number) => {
+    if (amount >= 10000000) { // 1 crore or more
+      return `₹${(amount / 10000000).toFixed(1)} Cr`
+    } else if (amount >= 100000) { // 1 lakh or more
+      return `₹${(amount / 100000).toFixed(0)} Lakhs`
+    }
+    return formatCurrency(amount)
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <p className="text-sm font-medium text-white/60 mb-4 tracking-wide">Your saved quotes</p>
+
+        {quotes.length === 0 ? (
+          <p className="text-sm text-white/70">No saved quotes yet. Quotes are saved every time you view recommendations.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-white/50 text-left">
+                <th className="font-medium pb-2">Quoted</th>
+                <th className="font-medium pb-2">Line</th>
+                <th className="font-medium pb-2 text-right">Cover</th>
+                <th className="font-medium pb-2 text-right">From</th>
+                <th className="font-medium pb-2 text-right">Valid until</th>
+                <th className="font-medium pb-2 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.map(quote => (
+                <tr key={quote.id} className="border-t border-white/10">
+                  <td className="py-2 text-white">
+                    {formatDate(quote.createdAt)}
+                    <span className="block text-xs text-white/40 font-mono">#{quote.id.slice(0, 8)}</span>
+                  </td>
+                  <td className="py-2 text-white/80">{LINE_LABELS[quote.line]}</td>
+                  <td className="py-2 text-right text-white/80">
+                    {quote.coverageAmount
+                      ? quote.coverageCurrency === 'USD'
+                        ? `$${quote.coverageAmount.toLocaleString('en-US')}`
+                        : formatCoverage(quote.coverageAmount)
+                      : '—'}
+                  </td>
+                  <td className="py-2 text-right text-white font-medium">
+                    {quote.lowestAnnualPremium
+                      ? `${formatCurrency(quote.lowestAnnualPremium)}/yr`
+                      : quote.lowestTripPremium
+                        ? `${formatCurrency(quote.lowestTripPremium)}/trip`
+                        : '—'}
+                  </td>
+                  <td className="py-2 text-right text-white/70">{formatDate(quote.validUntil)}</td>
+                  <td className="py-2 text-right">
+                    <span className={`px-2 py-1 rounded text-xs capitalize ${STATUS_STYLES[quote.status]}`}>
+                      {quote.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
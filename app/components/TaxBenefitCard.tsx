@@ -0,0 +1,139 @@
+'use client'
+
+import { RegimeTax, TaxBenefitResult } from '@/lib/insurance/tax'
+
+interface TaxBenefitCardProps {
+  result: TaxBenefitResult;
+}
+
+export default function TaxBenefitCard({ result }: TaxBenefitCardProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const regimeRows = (regime: RegimeTax) => [
+    { label: 'Gross income', value: regime.grossIncome },
+    { label: 'Standard deduction', value: -regime.standardDeduction },
+    { label: 'Deductions', value: -regime.deductions },
+    { label: 'Taxable income', value: regime.taxableIncome },
+    { label: 'Tax on slabs', value: regime.slabTax },
+    { label: 'Rebate (87A)', value: -regime.rebate },
+    { label: 'Surcharge', value: regime.surcharge },
+    { label: 'Cess (4%)', value: regime.cess }
+  ].filter(row => row.value !== 0 || row.label === 'Deductions')
+
+  const { section80C, section80D } = result
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">Tax benefits · {result.taxYear}</p>
+        <p className="text-sm text-white/80 mb-6">{result.summary}</p>
+
+        {/* Regime comparison */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {[result.oldRegime, result.newRegime].map(regime => (
+            <div
+              key={regime.regime}
+              className={`p-5 rounded-2xl ${regime.regime === result.betterRegime ? 'bg-green-500/10 border border-green-500/30' : 'bg-white/5'}`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-medium text-white capitalize">{regime.regime} regime</p>
+                {regime.regime === result.betterRegime && result.regimeSaving > 0 && (
+                  <span className="px-2 py-0.5 rounded text-xs bg-green-500/20 text-green-400">
+                    Saves {formatCurrency(result.regimeSaving)}
+                  </span>
+                )}
+              </div>
+              <div className="space-y-1 mb-3">
+                {regimeRows(regime).map(row => (
+                  <div key={row.label} className="flex justify-between text-xs">
+                    <span className="text-white/50">{row.label}</span>
+                    <span className="text-white/80">{row.value < 0 ? `− ${formatCurrency(-row.value)}` : formatCurrency(row.value)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between items-baseline border-t border-white/10 pt-2">
+                <span className="text-xs text-white/60">Total tax ({(regime.effectiveRate * 100).toFixed(1)}%)</span>
+                <span className="text-xl font-bold text-white">{formatCurrency(regime.totalTax)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Deductions */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="p-5 bg-white/5 rounded-2xl">
+            <div className="flex justify-between mb-3">
+              <p className="text-sm font-medium text-white">Section 80C</p>
+              <p className="text-sm text-white/80">{formatCurrency(section80C.deduction)} of {formatCurrency(section80C.limit)}</p>
+            </div>
+            {section80C.lines.length === 0 ? (
+              <p className="text-xs text-white/50">No life premiums or other 80C investments this year.</p>
+            ) : (
+              <div className="space-y-2">
+                {section80C.lines.map((line, index) => (
+                  <div key={`${line.label}-${index}`}>
+                    <div className="flex justify-between text-xs">
+                      <span className="text-white/70">{line.label}</span>
+                      <span className="text-white/80">{formatCurrency(line.eligible)}</span>
+                    </div>
+                    {line.note && <p className="text-xs text-amber-300/80">{line.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="p-5 bg-white/5 rounded-2xl">
+            <div className="flex justify-between mb-3">
+              <p className="text-sm font-medium text-white">Section 80D</p>
+              <p className="text-sm text-white/80">{formatCurrency(section80D.deduction)}</p>
+            </div>
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-white/70">Self, spouse and children (limit {formatCurrency(section80D.self.limit)})</span>
+                <span className="text-white/80">{formatCurrency(section80D.self.deduction)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/70">Parents (limit {formatCurrency(section80D.parents.limit)})</span>
+                <span className="text-white/80">{formatCurrency(section80D.parents.deduction)}</span>
+              </div>
+              {section80D.checkup.paid > 0 && (
+                <p className="text-white/50">Includes {formatCurrency(section80D.checkup.deduction)} for preventive check-ups</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Maturity exemption */}
+        {result.maturity.length > 0 && (
+          <div className="mb-6 space-y-2">
+            <p className="text-sm font-medium text-white">Maturity payouts · Section 10(10D)</p>
+            {result.maturity.map((item, index) => (
+              <div key={`${item.label}-${index}`} className="flex items-start justify-between gap-4 p-4 bg-white/5 rounded-2xl">
+                <div>
+                  <p className="text-sm text-white">{item.label}</p>
+                  <p className="text-xs text-white/50">{item.reason}</p>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${item.exempt ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                  {item.exempt ? 'Tax-free' : 'Taxable'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          {result.notes.map((note, index) => (
+            <p key={index} className="text-xs text-white/50">• {note}</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,386 @@
+'use client'
+
+import { useState } from 'react'
+import { TravelProfileData } from '@/app/api/chat/tools/collectTravelInsuranceInfo'
+import {
+  MULTI_TRIP_DAY_OPTIONS,
+  Traveller,
+  TravellerRelation,
+  TravelPreferences,
+  TravelRegion,
+  TripType
+} from '@/lib/insurance/travel/schema'
+import { recommendedMedicalCover, tripDays } from '@/lib/insurance/travel/pricing'
+import { ageFromDob } from '@/lib/insurance/pricing'
+
+interface TravelInsuranceFormProps {
+  userData: TravelProfileData;
+  preferences?: TravelPreferences | null;
+  travellers: Traveller[];
+  medicalCoverOptions: number[];
+  sessionId: string;
+  onSubmit: (data: TravelFormSubmission) => void;
+}
+
+export interface TravelFormSubmission {
+  sessionId: string;
+  // Columns to update on user_profile
+  formData: {
+    dob?: string;
+    travel_insurance: TravelPreferences;
+  };
+}
+
+// Traveller rows are edited as strings and parsed on submit
+interface TravellerRow {
+  relation: TravellerRelation;
+  age: string;
+  conditions: string;
+}
+
+const REGION_OPTIONS: { value: TravelRegion; label: string; help: string }[] = [
+  { value: 'asia', label: 'Asia', help: 'Excluding Japan' },
+  { value: 'schengen', label: 'Schengen / Europe', help: 'Meets Schengen visa requirements' },
+  { value: 'worldwide_ex_us_canada', label: 'Worldwide excl. US & Canada', help: 'Includes Japan, UK, Australia and more' },
+  { value: 'worldwide', label: 'Worldwide incl. US & Canada', help: 'Highest medical costs, so the highest premiums' }
+]
+
+const TRIP_TYPE_OPTIONS: { value: TripType; label: string; help: string }[] = [
+  { value: 'single', label: 'Single trip', help: 'One trip, covered from departure to return' },
+  { value: 'multi_trip', label: 'Multi-trip', help: 'Unlimited trips for a year, each up to a maximum length' },
+  { value: 'student', label: 'Student', help: 'Long-stay cover for studying abroad' }
+]
+
+const RELATION_OPTIONS: { value: TravellerRelation; label: string }[] = [
+  { value: 'self', label: 'Self' },
+  { value: 'spouse', label: 'Spouse' },
+  { value: 'child', label: 'Child' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'companion', label: 'Companion' }
+]
+
+const MAX_TRAVELLERS = 6
+
+function toRow(traveller: Traveller): TravellerRow {
+  return { relation: traveller.relation, age: String(traveller.age), conditions: traveller.conditions.join(', ') }
+}
+
+export default function TravelInsuranceForm({
+  userData,
+  preferences,
+  travellers: initialTravellers,
+  medicalCoverOptions,
+  sessionId,
+  onSubmit
+}: TravelInsuranceFormProps) {
+  const today = new Date().toISOString().split('T')[0]
+  const [region, setRegion] = useState<TravelRegion | ''>(preferences?.region || '')
+  const [tripType, setTripType] = useState<TripType>(preferences?.tripType || 'single')
+  // Past trips are not carried over; the user picks new dates
+  const [startDate, setStartDate] = useState<string>(preferences && preferences.startDate >= today ? preferences.startDate : '')
+  const [endDate, setEndDate] = useState<string>(preferences && preferences.startDate >= today ? preferences.endDate || '' : '')
+  const [maxTripDays, setMaxTripDays] = useState<number>(preferences?.maxTripDays || 30)
+  const [travellers, setTravellers] = useState<TravellerRow[]>(initialTravellers.map(toRow))
+  const [medicalCover, setMedicalCover] = useState<string>(preferences?.medicalCover ? String(preferences.medicalCover) : '')
+  const [dob, setDob] = useState<string>(userData.dob || '')
+
+  const hasSelf = travellers.some(traveller => traveller.relation === 'self')
+  const selfAge = dob ? ageFromDob(dob) : null
+  const isStudent = tripType === 'student'
+  const visibleTravellers = isStudent ? travellers.slice(0, 1) : travellers
+
+  const updateTraveller = (index: number, changes: Partial<TravellerRow>) => {
+    setTravellers(prev => prev.map((traveller, i) => i === index ? { ...traveller, ...changes } : traveller))
+  }
+
+  const addTraveller = () => {
+    setTravellers(prev => [...prev, { relation: hasSelf ? 'spouse' : 'self', age: '', conditions: '' }])
+  }
+
+  const removeTraveller = (index: number) => {
+    setTravellers(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const travellerAge = (traveller: TravellerRow) => traveller.relation === 'self' && selfAge !== null ? selfAge : parseInt(traveller.age, 10)
+
+  // Check if we can proceed: a destination, valid dates for the trip type and
+  // an age for every traveller
+  const canProceed = () => {
+    if (!region || !startDate || startDate < today) return false
+    if (tripType !== 'multi_trip' && (!endDate || endDate < startDate)) return false
+    if (visibleTravellers.length === 0) return false
+    if (visibleTravellers.filter(traveller => traveller.relation === 'self').length > 1) return false
+    if (visibleTravellers.some(traveller => traveller.relation === 'self') && !dob) return false
+    return visibleTravellers.every(traveller => {
+      const age = travellerAge(traveller)
+      return !isNaN(age) && age >= 0 && age <= 99
+    })
+  }
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canProceed() || !region) return
+
+    const travelInsurance: TravelPreferences = {
+      region,
+      tripType,
+      startDate,
+      ...(tripType !== 'multi_trip' && { endDate }),
+      maxTripDays,
+      travellers: visibleTravellers.map(traveller => ({
+        relation: traveller.relation,
+        age: travellerAge(traveller),
+        // The user's own conditions live on the profile's issues list
+        conditions: traveller.relation === 'self'
+          ? []
+          : traveller.conditions.split(',').map(condition => condition.trim()).filter(Boolean)
+      })),
+      medicalCover: medicalCover ? Number(medicalCover) : undefined
+    }
+
+    onSubmit({
+      sessionId,
+      formData: {
+        ...(dob && dob !== userData.dob && { dob }),
+        travel_insurance: travelInsurance
+      }
+    })
+  }
+
+  const inputClasses = "w-full px-4 py-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl text-white placeholder-white/40 focus:outline-none focus:border-white/30 focus:bg-white/10 transition-all duration-300 font-medium tracking-wide shadow-inner"
+  const toggleClasses = (active: boolean) => `flex-1 px-4 py-3 rounded-2xl border font-medium tracking-wide transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-sky-500 to-indigo-500 border-sky-500/50 text-white shadow-lg'
+      : 'bg-white/5 border-white/10 text-white/80 hover:border-white/20 hover:bg-white/10'
+  }`
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4">
+      {/* Header */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl p-8 rounded-3xl border border-white/10 mb-8 shadow-2xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-sky-600/10 via-indigo-600/10 to-violet-600/10 rounded-3xl"></div>
+        <div className="relative flex items-center gap-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-sky-500 to-indigo-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-white/90 tracking-tight">Travel Insurance Quote</h3>
+            <p className="text-sm text-white/60">Medical, baggage and cancellation cover abroad</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Trip */}
+        <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl space-y-6">
+          <div>
+            <h4 className="text-lg font-semibold text-white tracking-tight mb-1">Your trip</h4>
+            <p className="text-sm text-white/60">Where you go and for how long set the premium</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Destination</label>
+            <select
+              value={region}
+              onChange={(e) => setRegion(e.target.value as TravelRegion)}
+              className={`${inputClasses} cursor-pointer`}
+            >
+              <option value="" className="bg-slate-800 text-white">Select region</option>
+              {REGION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} className="bg-slate-800 text-white">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {region && (
+              <p className="text-xs text-white/50 mt-1">{REGION_OPTIONS.find(option => option.value === region)?.help}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/80 tracking-wide mb-3">Trip type</label>
+            <div className="flex gap-3">
+              {TRIP_TYPE_OPTIONS.map(option => (
+                <button key={option.value} type="button" onClick={() => setTripType(option.value)} className={toggleClasses(tripType === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-white/50 mt-2">{TRIP_TYPE_OPTIONS.find(option => option.value === tripType)?.help}</p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">
+                {tripType === 'multi_trip' ? 'Policy start date' : 'Departure date'}
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                min={today}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClasses}
+              />
+            </div>
+            {tripType === 'multi_trip' ? (
+              <div>
+                <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">Longest single trip</label>
+                <select
+                  value={maxTripDays}
+                  onChange={(e) => setMaxTripDays(Number(e.target.value))}
+                  className={`${inputClasses} cursor-pointer`}
+                >
+                  {MULTI_TRIP_DAY_OPTIONS.map(days => (
+                    <option key={days} value={days} className="bg-slate-800 text-white">{days} days</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-white/80 tracking-wide mb-2">
+                  {isStudent ? 'Course end date' : 'Return date'}
+                </label>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate || today}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className={inputClasses}
+                />
+                {startDate && endDate && endDate >= startDate && (
+                  <p className="text-xs text-white/50 mt-1">{tripDays(startDate, endDate)} days of cover</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Travellers */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">{isStudent ? 'Student' : 'Travellers'}</h4>
+          {!userData.dob && hasSelf && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Your Date of Birth
+                <span className="text-orange-400 ml-1.5">•</span>
+              </label>
+              <input
+                type="date"
+                value={dob}
+                onChange={(e) => setDob(e.target.value)}
+                max={today}
+                className={inputClasses}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {visibleTravellers.map((traveller, index) => (
+              <div key={index} className="grid md:grid-cols-[1fr_120px_2fr_auto] gap-3 items-start">
+                <select
+                  value={traveller.relation}
+                  onChange={(e) => updateTraveller(index, { relation: e.target.value as TravellerRelation })}
+                  className={`${inputClasses} cursor-pointer`}
+                >
+                  {RELATION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value} className="bg-slate-800 text-white">
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {traveller.relation === 'self' && selfAge !== null ? (
+                  <div className={`${inputClasses} text-white/60`}>{selfAge} yrs</div>
+                ) : (
+                  <input
+                    type="number"
+                    min={0}
+                    max={99}
+                    value={traveller.age}
+                    onChange={(e) => updateTraveller(index, { age: e.target.value })}
+                    placeholder="Age"
+                    className={inputClasses}
+                  />
+                )}
+                {traveller.relation === 'self' ? (
+                  <p className="text-xs text-gray-500 py-3">
+                    {userData.issues && userData.issues.length > 0
+                      ? `Declared conditions: ${userData.issues.join(', ')}`
+                      : 'No health conditions on your profile'}
+                  </p>
+                ) : (
+                  <input
+                    type="text"
+                    value={traveller.conditions}
+                    onChange={(e) => updateTraveller(index, { conditions: e.target.value })}
+                    placeholder="Health conditions, if any"
+                    className={inputClasses}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeTraveller(index)}
+                  disabled={visibleTravellers.length === 1}
+                  className="px-3 py-3 text-white/40 hover:text-red-400 disabled:opacity-30"
+                  aria-label="Remove traveller"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {!isStudent && travellers.length < MAX_TRAVELLERS && (
+            <button type="button" onClick={addTraveller} className="text-sky-400 text-sm hover:text-sky-300">
+              + Add traveller
+            </button>
+          )}
+          {isStudent && travellers.length > 1 && (
+            <p className="text-xs text-gray-500">Student plans cover one traveller; only the first is quoted</p>
+          )}
+        </div>
+
+        {/* Coverage Preferences */}
+        <div className="bg-[#2a2a2a] rounded-xl border border-gray-800 p-6 space-y-4">
+          <h4 className="text-lg font-semibold text-gray-300">Coverage Preferences</h4>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Medical Cover per Traveller
+              <span className="text-gray-500 text-xs ml-2">(Optional)</span>
+            </label>
+            <select
+              value={medicalCover}
+              onChange={(e) => setMedicalCover(e.target.value)}
+              className={`${inputClasses} cursor-pointer`}
+            >
+              <option value="" className="bg-slate-800 text-white">
+                {region ? `Suggested: $${recommendedMedicalCover(region).toLocaleString('en-US')}` : 'Suggest for me'}
+              </option>
+              {medicalCoverOptions.map(option => (
+                <option key={option} value={option} className="bg-slate-800 text-white">
+                  ${option.toLocaleString('en-US')}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Hospital bills in the US and Canada run far higher, so we suggest more cover there</p>
+          </div>
+        </div>
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!canProceed()}
+          className={`w-full py-4 rounded-2xl font-semibold tracking-wide transition-all duration-300 shadow-lg ${
+            canProceed()
+              ? 'bg-gradient-to-r from-sky-500 via-indigo-500 to-violet-500 hover:from-sky-600 hover:via-indigo-600 hover:to-violet-600 text-white transform hover:scale-[1.02] hover:shadow-xl'
+              : 'bg-white/5 border border-white/10 text-white/40 cursor-not-allowed'
+          }`}
+        >
+          {canProceed() ? 'Get Travel Quotes' : !region ? 'Choose Your Destination' : 'Complete Trip Details'}
+        </button>
+      </form>
+    </div>
+  )
+}
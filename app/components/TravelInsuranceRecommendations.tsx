@@ -0,0 +1,316 @@
+'use client'
+
+import { useState } from 'react'
+import { TravelInsuranceProduct } from '@/app/api/chat/tools/showTravelInsuranceRecommendations'
+import { TravelProfileData } from '@/app/api/chat/tools/collectTravelInsuranceInfo'
+import { ExcludedProduct } from '@/app/api/chat/tools/showLifeInsuranceRecommendations'
+import { Traveller, TravellerRelation, TravelRegion, TripType } from '@/lib/insurance/travel/schema'
+import { QuoteStatus } from '@/lib/insurance/quotes/schema'
+
+interface TravelInsuranceRecommendationsProps {
+  recommendations: TravelInsuranceProduct[];
+  userData: TravelProfileData;
+  // Plans the travellers cannot be offered, with the reasons
+  excludedProducts?: ExcludedProduct[];
+  medicalCover?: number;
+  region?: TravelRegion;
+  tripType?: TripType;
+  startDate?: string;
+  endDate?: string;
+  days?: number;
+  maxTripDays?: number;
+  travellers?: Traveller[];
+  // Saved quote these recommendations belong to
+  quote?: {
+    id: string;
+    validUntil?: string;
+    status?: QuoteStatus;
+  };
+}
+
+const EXCLUSION_LABELS: Record<ExcludedProduct['decision'], string> = {
+  decline: 'Declined',
+  postpone: 'Postponed',
+  ineligible: 'Not eligible'
+}
+
+const RELATION_LABELS: Record<TravellerRelation, string> = {
+  self: 'You',
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  companion: 'Companion'
+}
+
+const REGION_LABELS: Record<TravelRegion, string> = {
+  asia: 'Asia',
+  schengen: 'Schengen',
+  worldwide_ex_us_canada: 'Worldwide excl. US & Canada',
+  worldwide: 'Worldwide'
+}
+
+const TRIP_TYPE_LABELS: Record<TripType, string> = {
+  single: 'Single trip',
+  multi_trip: 'Annual multi-trip',
+  student: 'Student'
+}
+
+// Format a US dollar cover for display; 0 means not covered
+const formatUsd = (amount: number) => amount > 0 ? `$${amount.toLocaleString('en-US')}` : 'Not covered'
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+
+export default function TravelInsuranceRecommendations({
+  recommendations,
+  userData,
+  excludedProducts = [],
+  medicalCover,
+  region,
+  tripType,
+  startDate,
+  endDate,
+  days,
+  maxTripDays,
+  travellers = [],
+  quote
+}: TravelInsuranceRecommendationsProps) {
+  const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4">
+      {/* Header */}
+      <div className="text-center mb-12">
+        <div className="inline-flex items-center gap-3 mb-6">
+          <div className="w-14 h-14 bg-gradient-to-br from-sky-500 via-indigo-600 to-violet-600 rounded-3xl flex items-center justify-center shadow-xl">
+            <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h3 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight mb-1">
+              Travel Plans for {userData.first_name || 'You'}
+            </h3>
+            <p className="text-gray-600 dark:text-white/60 font-medium">
+              {tripType ? TRIP_TYPE_LABELS[tripType] : 'Trip'} to {region ? REGION_LABELS[region] : 'your destination'}
+              {' · '}{travellers.length} traveller{travellers.length === 1 ? '' : 's'}
+            </p>
+            {quote && (
+              <p className="text-xs text-gray-500 dark:text-white/40 mt-1">
+                Quote <span className="font-mono">#{quote.id.slice(0, 8)}</span>
+                {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                {quote.status && quote.status !== 'active' && (
+                  <span className="ml-2 px-2 py-0.5 bg-gray-500/20 rounded capitalize">{quote.status}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Key Details Summary */}
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 mb-12 shadow-2xl">
+        <div className="relative grid grid-cols-2 md:grid-cols-4 gap-8">
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Medical Cover</p>
+            <p className="text-2xl font-bold text-white tracking-tight">{medicalCover ? formatUsd(medicalCover) : '—'}</p>
+            <span className="text-xs text-white/50 mt-2 inline-block">per traveller</span>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Dates</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {startDate ? formatDate(startDate) : '—'}
+              {endDate && <> – {formatDate(endDate)}</>}
+            </p>
+            <span className="text-xs text-white/50 mt-2 inline-block">
+              {tripType === 'multi_trip'
+                ? `1 year, trips up to ${maxTripDays} days`
+                : days ? `${days} days` : ''}
+            </span>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Travellers</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {travellers.map(traveller => `${RELATION_LABELS[traveller.relation]} (${traveller.age})`).join(', ')}
+            </p>
+          </div>
+          <div className="text-center">
+            <p className="text-sm font-medium text-white/60 mb-3 tracking-wide">Declared Conditions</p>
+            <p className="text-sm font-medium text-white leading-relaxed">
+              {travellers.some(traveller => traveller.conditions.length > 0)
+                ? travellers.flatMap(traveller => traveller.conditions).join(', ')
+                : 'None'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {recommendations.length === 0 && (
+        <div className="p-6 mb-8 bg-red-500/10 border border-red-500/30 rounded-xl text-center">
+          <p className="text-lg font-semibold text-red-300 mb-1">No plans can be offered for this trip</p>
+          <p className="text-sm text-red-200/70">See below why each plan is unavailable. A different trip type or medical cover may help.</p>
+        </div>
+      )}
+
+      {/* Plans */}
+      <div className="grid md:grid-cols-2 gap-6 mb-12">
+        {recommendations.map(product => (
+          <div
+            key={product.id}
+            onClick={() => setSelectedProduct(selectedProduct === product.id ? null : product.id)}
+            className={`relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 rounded-3xl border p-6 shadow-xl cursor-pointer transition-all duration-300 ${
+              selectedProduct === product.id ? 'border-sky-500/60' : 'border-white/10 hover:border-white/20'
+            }`}
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                {product.logo && <span className="text-3xl">{product.logo}</span>}
+                <div>
+                  <p className="text-lg font-bold text-white">{product.name}</p>
+                  <p className="text-sm text-white/50">{product.company}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-white">{formatCurrency(product.totalPremium)}</p>
+                <p className="text-xs text-white/50">
+                  {product.tripType === 'multi_trip' ? 'per year' : 'for the trip'} incl. GST
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+              <div>
+                <p className="text-xs text-white/50">Medical</p>
+                <p className="text-white/80">{formatUsd(product.medicalCover)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Deductible</p>
+                <p className={product.deductible === 0 ? 'text-green-400' : 'text-white/80'}>
+                  {product.deductible === 0 ? 'None' : `$${product.deductible} per claim`}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Baggage loss</p>
+                <p className="text-white/80">{formatUsd(product.baggageCover)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Trip cancellation</p>
+                <p className="text-white/80">{formatUsd(product.cancellationCover)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Pre-existing emergencies</p>
+                <p className="text-white/80">{formatUsd(product.preExistingEmergencyCover)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-white/50">Claim settlement</p>
+                <p className="text-white/80">{product.claimSettlementRatio}</p>
+              </div>
+            </div>
+
+            {product.underwriting.decision === 'load' && (
+              <div className="p-3 mb-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                <p className="text-xs font-medium text-amber-300 mb-1">Underwriting Loading</p>
+                {product.underwriting.reasons.map((reason, index) => (
+                  <p key={index} className="text-xs text-amber-200/80">• {reason}</p>
+                ))}
+              </div>
+            )}
+
+            <ul className="space-y-1">
+              {product.features.map((feature, index) => (
+                <li key={index} className="text-xs text-white/60">• {feature}</li>
+              ))}
+            </ul>
+
+            {selectedProduct === product.id && (
+              <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+                <div>
+                  <p className="text-xs font-medium text-white/60 mb-2">Premium by traveller (before GST)</p>
+                  <table className="w-full text-xs text-white/80">
+                    <thead>
+                      <tr className="text-white/50">
+                        <th className="text-left font-medium pb-1">Traveller</th>
+                        <th className="text-right font-medium pb-1">Medical</th>
+                        <th className="text-right font-medium pb-1">Baggage</th>
+                        <th className="text-right font-medium pb-1">Cancellation</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {product.travellerPremiums.map((traveller, index) => (
+                        <tr key={index}>
+                          <td>{RELATION_LABELS[traveller.relation]} ({traveller.age})</td>
+                          <td className="text-right">{formatCurrency(traveller.medical)}</td>
+                          <td className="text-right">{traveller.baggage > 0 ? formatCurrency(traveller.baggage) : '—'}</td>
+                          <td className="text-right">{traveller.cancellation > 0 ? formatCurrency(traveller.cancellation) : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-white/50 mt-2">GST: {formatCurrency(product.tax)}</p>
+                </div>
+                {product.exclusions.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-white/60 mb-2">Key exclusions</p>
+                    {product.exclusions.map((exclusion, index) => (
+                      <p key={index} className="text-xs text-white/60">• {exclusion}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {/* Excluded Products */}
+        {excludedProducts.length > 0 && (
+          <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+            <h4 className="text-lg font-semibold text-white mb-3">Plans not available for this trip</h4>
+            <div className="space-y-3">
+              {excludedProducts.map(product => (
+                <div key={product.productId} className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-white">{product.name}</p>
+                    <p className="text-xs text-gray-500 mb-1">{product.company}</p>
+                    {product.reasons.map((reason, rIndex) => (
+                      <p key={rIndex} className="text-xs text-gray-400">• {reason}</p>
+                    ))}
+                  </div>
+                  <span className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+                    product.decision === 'postpone'
+                      ? 'bg-amber-500/20 text-amber-400'
+                      : 'bg-red-500/20 text-red-400'
+                  }`}>
+                    {EXCLUSION_LABELS[product.decision]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* General Information */}
+        <div className="p-6 bg-[#2a2a2a] rounded-xl border border-gray-800">
+          <h4 className="text-lg font-semibold text-white mb-3">Important Information</h4>
+          <div className="space-y-2 text-sm text-gray-400">
+            <p>• Premiums shown are indicative and may vary based on underwriting</p>
+            <p>• Buy before you leave India; cover cannot start once you are abroad</p>
+            <p>• Routine treatment of pre-existing conditions is not covered abroad</p>
+            <p>• Trip cancellation pays only for covered reasons such as illness or a family emergency</p>
+            <p>• Actual premiums will be confirmed by the insurance provider</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
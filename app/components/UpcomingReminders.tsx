@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { Reminder, ReminderKind } from '@/lib/insurance/reminders/schedule'
+
+interface UpcomingRemindersProps {
+  reminders: Reminder[];
+  from: string;
+  to: string;
+  totalDue: number;
+  calendarPath?: string;
+}
+
+const KIND_STYLES: Record<ReminderKind, { label: string; className: string }> = {
+  premium_due: { label: 'Premium', className: 'bg-orange-500/20 text-orange-400' },
+  renewal: { label: 'Renewal', className: 'bg-blue-500/20 text-blue-400' },
+  maturity: { label: 'Maturity', className: 'bg-green-500/20 text-green-400' }
+}
+
+export default function UpcomingReminders({ reminders, from, to, totalDue, calendarPath }: UpcomingRemindersProps) {
+  const [copied, setCopied] = useState(false)
+
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+
+  const handleCopyFeed = async () => {
+    if (!calendarPath) return
+    await navigator.clipboard.writeText(`${window.location.origin}${calendarPath}`)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6">
+      <div className="relative bg-gradient-to-br from-slate-900/95 via-slate-800/95 to-slate-900/95 backdrop-blur-xl rounded-3xl border border-white/10 p-8 shadow-2xl">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <p className="text-sm font-medium text-white/60 mb-1 tracking-wide">
+              Due {formatDate(from)} – {formatDate(to)}
+            </p>
+            <p className="text-3xl font-bold text-white tracking-tight">{formatCurrency(totalDue)}</p>
+            <p className="text-sm text-white/60 mt-1">
+              {reminders.length === 0 ? 'Nothing falls due in this period' : `${reminders.length} ${reminders.length === 1 ? 'item' : 'items'} due`}
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <a
+              href="/api/reminders/calendar"
+              className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs text-white transition-colors"
+            >
+              Download calendar (.ics)
+            </a>
+            {calendarPath && (
+              <button
+                type="button"
+                onClick={handleCopyFeed}
+                className="px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs text-white/70 transition-colors"
+              >
+                {copied ? '✓ Feed link copied' : 'Copy calendar feed link'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {reminders.length > 0 && (
+          <div className="space-y-3">
+            {reminders.map(reminder => (
+              <div key={reminder.key} className="flex items-start justify-between gap-4 p-4 bg-white/5 rounded-2xl">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded text-xs ${KIND_STYLES[reminder.kind].className}`}>
+                      {KIND_STYLES[reminder.kind].label}
+                    </span>
+                    <p className="text-sm font-medium text-white">{reminder.title}</p>
+                  </div>
+                  <p className="text-xs text-white/50">{reminder.description}</p>
+                  {reminder.graceEndsOn && (
+                    <p className="text-xs text-white/40 mt-1">Grace period ends {formatDate(reminder.graceEndsOn)}</p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="text-sm font-semibold text-white">{formatDate(reminder.dueDate)}</p>
+                  {reminder.amount !== null && (
+                    <p className="text-xs text-white/60 mt-1">{formatCurrency(reminder.amount)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
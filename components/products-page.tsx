@@ -298,7 +298,7 @@ export default function ProductsPage() {
                         Temporary accommodation expenses
                       </li>
                     </ul>
-                    <Button className="bg-green-500 hover:bg-green-600 text-white">Get Quote</Button>
+                    <Button onClick={() => router.push(user ? '/chat' : '/auth')} className="bg-green-500 hover:bg-green-600 text-white">Get Quote</Button>
                   </div>
                 </div>
               </CardContent>
@@ -324,7 +324,7 @@ export default function ProductsPage() {
                         </p>
                       </div>
                     </div>
-                    <Button className="bg-green-500 hover:bg-green-600 text-white">Get Quote</Button>
+                    <Button onClick={() => router.push(user ? '/chat' : '/auth')} className="bg-green-500 hover:bg-green-600 text-white">Get Quote</Button>
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
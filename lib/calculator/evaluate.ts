@@ -0,0 +1,162 @@
+import { BinaryOperator, ExpressionError, ExpressionNode, parseExpression } from './parser';
+import { formatNumber } from './format';
+
+// Calculator expression evaluator.
+//
+// Walks the syntax tree from parser.ts using only the functions and values in
+// the scope, and records each operation as a step the user can follow, e.g.
+// "5,00,000 × 0.15 = 75,000".
+
+export type CalculatorFunction = (...args: number[]) => number;
+
+export interface EvaluationScope {
+  functions: Record<string, CalculatorFunction>;
+  constants: Record<string, number>;
+  // User-supplied values; these take precedence over constants
+  variables?: Record<string, number>;
+}
+
+export interface EvaluationResult {
+  value: number;
+  steps: string[];
+}
+
+// Long expressions keep the first steps and say how many were left out
+const MAX_STEPS = 30;
+
+const OPERATOR_SYMBOLS: Record<BinaryOperator, string> = {
+  '+': '+',
+  '-': '−',
+  '*': '×',
+  '/': '÷',
+  '%': 'mod',
+  '^': '^'
+};
+
+export function evaluateExpression(expression: string, scope: EvaluationScope): EvaluationResult {
+  const variables = scope.variables ?? {};
+  const has = (values: Record<string, unknown>, name: string) => Object.prototype.hasOwnProperty.call(values, name);
+  const hasFunction = (name: string) => has(scope.functions, name);
+
+  const tree = parseExpression(expression, hasFunction);
+  const steps: string[] = [];
+  const usedVariables = new Set<string>();
+
+  const finite = (value: number, description: string, position: number) => {
+    if (!isFinite(value)) {
+      throw new ExpressionError(`${description} is not a finite number`, position);
+    }
+    return value;
+  };
+
+  const evaluate = (node: ExpressionNode): number => {
+    switch (node.type) {
+      case 'number':
+        // Show how a spoken or grouped amount was read, unless it is
+        // already written the way results are shown
+        if (node.text && node.text.replace(/^₹\s*/, '') !== formatNumber(node.value)) {
+          steps.push(`${node.text} = ${formatNumber(node.value)}`);
+        }
+        return node.value;
+
+      case 'identifier': {
+        if (has(variables, node.name)) {
+          usedVariables.add(node.name);
+          return variables[node.name];
+        }
+        if (has(scope.constants, node.name)) {
+          return scope.constants[node.name];
+        }
+        if (hasFunction(node.name)) {
+          throw new ExpressionError(`'${node.name}' is a function; call it as ${node.name}(...)`, node.position);
+        }
+        throw new ExpressionError(`Unknown name '${node.name}'`, node.position);
+      }
+
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        const value = node.operator === '-' ? -operand : operand;
+        if (node.operator === '-' && node.operand.type !== 'number') {
+          steps.push(`−(${formatNumber(operand)}) = ${formatNumber(value)}`);
+        }
+        return value;
+      }
+
+      case 'percent': {
+        const operand = evaluate(node.operand);
+        const value = operand / 100;
+        steps.push(`${formatNumber(operand)}% = ${formatNumber(value)}`);
+        return value;
+      }
+
+      case 'call': {
+        const args = node.args.map(evaluate);
+        const call = `${node.name}(${args.map(arg => formatNumber(arg)).join(', ')})`;
+        let value: number;
+        try {
+          value = scope.functions[node.name](...args);
+        } catch (error) {
+          if (error instanceof ExpressionError) throw error;
+          throw new ExpressionError(error instanceof Error ? error.message : `${node.name}() failed`, node.position);
+        }
+        finite(value, call, node.position);
+        steps.push(`${call} = ${formatNumber(value)}`);
+        return value;
+      }
+
+      case 'binary': {
+        // "a + b%" and "a - b%" add or take off b percent of a, as on a
+        // handheld calculator
+        if ((node.operator === '+' || node.operator === '-') && node.right.type === 'percent') {
+          const left = evaluate(node.left);
+          const percent = evaluate(node.right.operand);
+          const value = left * (1 + (node.operator === '+' ? percent : -percent) / 100);
+          steps.push(`${formatNumber(left)} ${OPERATOR_SYMBOLS[node.operator]} ${formatNumber(percent)}% = ${formatNumber(value)}`);
+          return value;
+        }
+
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if ((node.operator === '/' || node.operator === '%') && right === 0) {
+          throw new ExpressionError('Division by zero', node.position);
+        }
+
+        const value = applyOperator(node.operator, left, right);
+        const description = `${formatNumber(left)} ${OPERATOR_SYMBOLS[node.operator]} ${formatNumber(right)}`;
+        finite(value, description, node.position);
+        steps.push(`${description} = ${formatNumber(value)}`);
+        return value;
+      }
+    }
+  };
+
+  const value = evaluate(tree);
+
+  // Show what each variable stood for before the working
+  const substitutions = [...usedVariables].map(name => `${name} = ${formatNumber(variables[name])}`);
+  const allSteps = [...substitutions, ...steps];
+
+  return {
+    value,
+    steps: allSteps.length > MAX_STEPS
+      ? [...allSteps.slice(0, MAX_STEPS), `… ${allSteps.length - MAX_STEPS} more steps`]
+      : allSteps
+  };
+}
+
+function applyOperator(operator: BinaryOperator, left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+    case '^':
+      return Math.pow(left, right);
+  }
+}
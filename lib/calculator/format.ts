@@ -0,0 +1,37 @@
+// Number formatting for calculator results, in the Indian number system:
+// digits grouped as 12,34,567.89, or words such as "1.2 crore".
+
+export interface FormatNumberOptions {
+  // Say large amounts in thousands, lakhs and crores rather than digits
+  words?: boolean;
+}
+
+const NUMBER_WORDS: { value: number; word: string }[] = [
+  { value: 1e7, word: 'crore' },
+  { value: 1e5, word: 'lakh' },
+  { value: 1e3, word: 'thousand' }
+];
+
+export function formatNumber(num: number, options: FormatNumberOptions = {}): string {
+  if (options.words) {
+    // Two decimals at most: 1.2 crore, 45.75 lakh, 250 crore. Rounding can
+    // carry into the next word, so 99,999 is 1 lakh
+    const scaled = (value: number) => Math.round((num / value) * 100) / 100;
+    const scale = Math.abs(num) >= 1000 && NUMBER_WORDS.find(item => Math.abs(scaled(item.value)) >= 1);
+    if (scale) {
+      return `${formatNumber(scaled(scale.value))} ${scale.word}`;
+    }
+  }
+
+  if (Number.isInteger(num)) {
+    return num.toLocaleString('en-IN');
+  }
+  
+  // For decimals, show up to 6 decimal places, but remove trailing zeros
+  const formatted = num.toFixed(6).replace(/\.?0+$/, '');
+  
+  // Add Indian number formatting
+  const parts = formatted.split('.');
+  parts[0] = parseInt(parts[0]).toLocaleString('en-IN');
+  return parts.join('.');
+}
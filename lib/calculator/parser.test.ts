@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { emi, irr, npv } from '../finance';
+import { EvaluationScope, evaluateExpression } from './evaluate';
+import { parseExpression } from './parser';
+
+const scope: EvaluationScope = {
+  functions: {
+    max: Math.max,
+    min: Math.min,
+    pow: Math.pow,
+    npv,
+    irr,
+    emi
+  },
+  constants: {
+    PI: Math.PI
+  }
+};
+
+const calculate = (expression: string) => evaluateExpression(expression, scope).value;
+
+describe('commas inside function calls', () => {
+  it('separates every argument', () => {
+    expect(calculate('max(1,10,100)')).toBe(100);
+    expect(calculate('min(5,10,15,20)')).toBe(5);
+    expect(calculate('pow(2,10)')).toBe(1024);
+  });
+
+  it('passes each cash flow to npv and irr', () => {
+    expect(calculate('npv(0.1,30,40,500)')).toBeCloseTo(npv(0.1, 30, 40, 500), 6);
+    expect(calculate('npv(0.1,30,40,500)')).toBeLessThan(500);
+    expect(calculate('irr(-100,10,20,110)')).toBeCloseTo(irr(-100, 10, 20, 110), 6);
+    expect(calculate('irr(-100,10,20,110)')).toBeGreaterThan(0);
+  });
+
+  it('reads grouped amounts marked with a rupee sign', () => {
+    expect(calculate('max(₹12,50,000, 5 lakh)')).toBe(1250000);
+    expect(calculate('max(₹1,250,000, 2)')).toBe(1250000);
+    expect(calculate('emi(₹25,00,000, 8%, 20)')).toBeCloseTo(emi(2500000, 0.08, 20), 6);
+    expect(calculate('emi(25 lakh, 8%, 20)')).toBeCloseTo(emi(2500000, 0.08, 20), 6);
+  });
+
+  it('still reads grouped amounts outside calls', () => {
+    expect(calculate('12,50,000 / 2')).toBe(625000);
+    expect(calculate('1,250,000 + 1')).toBe(1250001);
+    expect(calculate('(25,00,000)')).toBe(2500000);
+  });
+});
+
+describe('percent and modulo', () => {
+  it('reads a percent before a parenthesis as a percentage of it', () => {
+    expect(calculate('15%(200)')).toBeCloseTo(30, 10);
+    expect(calculate('15% (200)')).toBeCloseTo(30, 10);
+    expect(parseExpression('15%(200)', name => name in scope.functions)).toMatchObject({
+      type: 'binary',
+      operator: '*',
+      implicit: true,
+      left: { type: 'percent' }
+    });
+  });
+
+  it('reads a percent between two operands as modulo', () => {
+    expect(calculate('10 % 3')).toBe(1);
+    expect(calculate('10 % PI')).toBeCloseTo(10 % Math.PI, 10);
+  });
+
+  it('adds a percent of the left operand', () => {
+    expect(calculate('200 + 15%')).toBeCloseTo(230, 10);
+  });
+});
@@ -0,0 +1,306 @@
+// Calculator expression parser.
+//
+// Turns calculator input into a syntax tree without ever executing it as
+// JavaScript. Precedence, lowest first:
+//
+//   + -                 addition and subtraction; "a + b%" adds b percent of a
+//   * / % and juxtaposition
+//                       multiplication, division, modulo, and implicit
+//                       multiplication as in 2(3 + 4), 2PI or (1 + r)(1 + r)
+//   unary + -           so -2^2 is -(2^2)
+//   ^                   power, right associative: 2^3^2 is 2^(3^2)
+//   postfix %           percent: 15% is 0.15
+//
+// A % followed by a number or name is modulo (10 % 3); otherwise it is a
+// percent, so 15%(200) is 15% of 200.
+//
+// Amounts can be written the way people say them: "2.5 crore", "50k",
+// "12 lakh", "₹12,50,000" or "1,250,000". Inside a function's arguments every
+// comma separates arguments, so "max(1,10,100)" has three; a grouped amount
+// there needs a ₹ sign, as in "max(₹12,50,000, 5 lakh)".
+//
+// Positions in nodes and errors are 0-based character offsets.
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+export type ExpressionNode =
+  // text is the amount as written when it used units or grouping commas
+  | { type: 'number'; value: number; position: number; text?: string }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'unary'; operator: '+' | '-'; operand: ExpressionNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number; implicit?: boolean }
+  | { type: 'percent'; operand: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+type Token =
+  | { type: 'number'; value: number; text: string; position: number; written: boolean }
+  | { type: 'identifier'; name: string; text: string; position: number }
+  | { type: 'operator'; value: BinaryOperator; text: string; position: number }
+  | { type: 'paren'; value: '(' | ')'; text: string; position: number }
+  | { type: 'comma'; text: string; position: number }
+  | { type: 'end'; text: string; position: number };
+
+// Syntax and evaluation errors, with the offset of the offending character
+export class ExpressionError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+// Typographic operators people paste from elsewhere
+const OPERATOR_ALIASES: Record<string, BinaryOperator> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '×': '*',
+  '/': '/',
+  '÷': '/',
+  '%': '%',
+  '^': '^'
+};
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+// Indian (12,50,000) and international (1,250,000) digit grouping
+const INDIAN_GROUPED_PATTERN = /^\d{1,3}(,\d{2})*,\d{3}(\.\d+)?(?!\d)(?!,\d)/;
+const INTERNATIONAL_GROUPED_PATTERN = /^\d{1,3}(,\d{3})+(\.\d+)?(?!\d)(?!,\d)/;
+
+// Words and suffixes that scale the amount before them; several may follow
+// one another, as in "10 thousand crore"
+export const NUMBER_UNITS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  thousands: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  percent: 0.01
+};
+
+// A number with any grouping and units after it, or null. Grouping commas
+// are only read where a comma cannot separate arguments.
+function readAmount(rest: string, allowGrouping: boolean): { value: number; length: number; written: boolean } | null {
+  const grouped = allowGrouping ? INDIAN_GROUPED_PATTERN.exec(rest) ?? INTERNATIONAL_GROUPED_PATTERN.exec(rest) : null;
+  const number = grouped ?? NUMBER_PATTERN.exec(rest);
+  if (!number) return null;
+
+  let value = parseFloat(number[0].replace(/,/g, ''));
+  let length = number[0].length;
+  let written = !!grouped;
+
+  for (;;) {
+    const unit = /^\s*([A-Za-z]+)\b/.exec(rest.slice(length));
+    if (!unit || !(unit[1].toLowerCase() in NUMBER_UNITS)) break;
+    value *= NUMBER_UNITS[unit[1].toLowerCase()];
+    length += unit[0].length;
+    written = true;
+  }
+
+  return { value, length, written };
+}
+
+export function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  // Whether each open parenthesis holds function arguments
+  const openCalls: boolean[] = [];
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    // A rupee sign marks an amount, so its commas are always grouping
+    const rupee = char === '₹';
+    const amount = readAmount(rupee ? rest.slice(1).trimStart() : rest, rupee || !openCalls[openCalls.length - 1]);
+    if (rupee && !amount) {
+      throw new ExpressionError("Expected an amount after '₹'", position);
+    }
+    if (amount) {
+      const length = rupee ? rest.length - rest.slice(1).trimStart().length + amount.length : amount.length;
+      const text = rest.slice(0, length);
+      tokens.push({ type: 'number', value: amount.value, text, position, written: amount.written || rupee });
+      position += length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER_PATTERN.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', name: identifier[0], text: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    if (rest.startsWith('**')) {
+      tokens.push({ type: 'operator', value: '^', text: '**', position });
+      position += 2;
+      continue;
+    }
+
+    if (char in OPERATOR_ALIASES) {
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[char], text: char, position });
+    } else if (char === '(' || char === ')') {
+      if (char === '(') {
+        openCalls.push(tokens[tokens.length - 1]?.type === 'identifier');
+      } else {
+        openCalls.pop();
+      }
+      tokens.push({ type: 'paren', value: char, text: char, position });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position });
+    } else {
+      throw new ExpressionError(`Unexpected character '${char}'`, position);
+    }
+    position++;
+  }
+
+  tokens.push({ type: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+// Parse an expression. Names followed by "(" are function calls when
+// isFunction accepts them; any other name is a variable or constant, so
+// x(1 + r) multiplies.
+export function parseExpression(expression: string, isFunction: (name: string) => boolean): ExpressionNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[index++];
+
+  const isOperator = (token: Token, ...operators: BinaryOperator[]) =>
+    token.type === 'operator' && operators.includes(token.value);
+
+  // Tokens that can start an operand, which makes juxtaposition a product
+  const startsOperand = (token: Token) =>
+    token.type === 'number' || token.type === 'identifier' || (token.type === 'paren' && token.value === '(');
+
+  // A % followed by one of these is modulo; before anything else, including
+  // "(", it is a percent
+  const startsModuloOperand = (token: Token) => token.type === 'number' || token.type === 'identifier';
+
+  const unexpected = (token: Token): never => {
+    if (token.type === 'end') {
+      throw new ExpressionError('Expression ended unexpectedly', token.position);
+    }
+    throw new ExpressionError(`Unexpected '${token.text}'`, token.position);
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseTerm();
+    while (isOperator(peek(), '+', '-')) {
+      const operator = next() as Extract<Token, { type: 'operator' }>;
+      left = { type: 'binary', operator: operator.value, left, right: parseTerm(), position: operator.position };
+    }
+    return left;
+  };
+
+  const parseTerm = (): ExpressionNode => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (isOperator(token, '*', '/', '%')) {
+        next();
+        left = { type: 'binary', operator: (token as Extract<Token, { type: 'operator' }>).value, left, right: parseUnary(), position: token.position };
+      } else if (startsOperand(token)) {
+        left = { type: 'binary', operator: '*', left, right: parseUnary(), position: token.position, implicit: true };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (isOperator(token, '+', '-')) {
+      next();
+      return { type: 'unary', operator: (token as Extract<Token, { type: 'operator' }>).value as '+' | '-', operand: parseUnary(), position: token.position };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePostfix();
+    const token = peek();
+    if (isOperator(token, '^')) {
+      next();
+      return { type: 'binary', operator: '^', left: base, right: parseUnary(), position: token.position };
+    }
+    return base;
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    while (isOperator(peek(), '%') && !startsModuloOperand(peek(1))) {
+      node = { type: 'percent', operand: node, position: next().position };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: token.value, position: token.position, text: token.written ? token.text.trim() : undefined };
+    }
+
+    if (token.type === 'identifier') {
+      const following = peek();
+      if (following.type === 'paren' && following.value === '(' && isFunction(token.name)) {
+        next();
+        const args: ExpressionNode[] = [];
+        if (!(peek().type === 'paren' && (peek() as Extract<Token, { type: 'paren' }>).value === ')')) {
+          args.push(parseAdditive());
+          while (peek().type === 'comma') {
+            next();
+            args.push(parseAdditive());
+          }
+        }
+        expectClosing(following.position);
+        return { type: 'call', name: token.name, args, position: token.position };
+      }
+      return { type: 'identifier', name: token.name, position: token.position };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      const inner = parseAdditive();
+      expectClosing(token.position);
+      return inner;
+    }
+
+    return unexpected(token);
+  };
+
+  const expectClosing = (openPosition: number) => {
+    const token = peek();
+    if (token.type === 'paren' && token.value === ')') {
+      next();
+      return;
+    }
+    if (token.type === 'end') {
+      throw new ExpressionError("Missing ')' for the '(' opened", openPosition);
+    }
+    unexpected(token);
+  };
+
+  const tree = parseAdditive();
+  if (peek().type !== 'end') {
+    unexpected(peek());
+  }
+  return tree;
+}
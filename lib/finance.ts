@@ -0,0 +1,147 @@
+// Time value of money functions.
+//
+// pmt, fv, pv, npv and irr follow spreadsheet conventions (Excel, Google
+// Sheets): rates are per period as decimals, money paid out is negative and
+// money received is positive, and `type` is 1 when payments fall at the start
+// of each period. The India-specific helpers (emi, sip) take annual rates and
+// years and return positive amounts, since that is how they are quoted.
+
+export interface DatedCashFlow {
+  // YYYY-MM-DD
+  date: string;
+  // Negative for money invested, positive for money received
+  amount: number;
+}
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+// Periodic payment on a loan or annuity
+export function pmt(rate: number, nper: number, pv: number, fv = 0, type = 0): number {
+  if (nper <= 0) throw new Error('pmt: number of periods must be positive');
+  if (rate === 0) return -(pv + fv) / nper;
+  const growth = Math.pow(1 + rate, nper);
+  return -(rate * (pv * growth + fv)) / ((1 + rate * type) * (growth - 1));
+}
+
+// Future value of a present sum and a series of payments
+export function fv(rate: number, nper: number, payment: number, pv = 0, type = 0): number {
+  if (rate === 0) return -(pv + payment * nper);
+  const growth = Math.pow(1 + rate, nper);
+  return -(pv * growth + payment * (1 + rate * type) * (growth - 1) / rate);
+}
+
+// Present value of a future sum and a series of payments
+export function pv(rate: number, nper: number, payment: number, futureValue = 0, type = 0): number {
+  if (rate === 0) return -(futureValue + payment * nper);
+  const growth = Math.pow(1 + rate, nper);
+  return -(futureValue + payment * (1 + rate * type) * (growth - 1) / rate) / growth;
+}
+
+// Net present value of cash flows at the end of periods 1, 2, ... As in a
+// spreadsheet, an investment made today is added outside: -cost + npv(...)
+export function npv(rate: number, ...values: number[]): number {
+  if (values.length === 0) throw new Error('npv: at least one cash flow is required');
+  return values.reduce((total, value, index) => total + value / Math.pow(1 + rate, index + 1), 0);
+}
+
+// Root of f between -99.99% and 1,000,000% per period: Newton's method from
+// the guess, falling back to bisection when it fails to converge
+function solveRate(f: (rate: number) => number, df: (rate: number) => number, guess: number, name: string): number {
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = f(rate);
+    const slope = df(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (next <= -1) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 10000;
+  if (Math.sign(f(low)) === Math.sign(f(high))) {
+    throw new Error(`${name}: cash flows need at least one negative and one positive amount`);
+  }
+  for (let i = 0; i < 1000; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(f(mid)) === Math.sign(f(low))) low = mid;
+    else high = mid;
+    if (high - low < TOLERANCE) break;
+  }
+  return (low + high) / 2;
+}
+
+// Internal rate of return per period of cash flows at periods 0, 1, 2, ...
+export function irr(...values: number[]): number {
+  if (values.length < 2) throw new Error('irr: at least two cash flows are required');
+  return solveRate(
+    rate => values.reduce((total, value, t) => total + value / Math.pow(1 + rate, t), 0),
+    rate => values.reduce((total, value, t) => total - (t * value) / Math.pow(1 + rate, t + 1), 0),
+    0.1,
+    'irr'
+  );
+}
+
+function yearsFrom(start: string, date: string): number {
+  const time = (value: string) => {
+    const parsed = Date.parse(`${value}T00:00:00Z`);
+    if (isNaN(parsed)) throw new Error(`Invalid date: ${value}`);
+    return parsed;
+  };
+  return (time(date) - time(start)) / (365 * 24 * 60 * 60 * 1000);
+}
+
+// Net present value of dated cash flows at an annual rate, discounted to the
+// first date on an actual/365 basis
+export function xnpv(rate: number, cashFlows: DatedCashFlow[]): number {
+  if (cashFlows.length === 0) throw new Error('xnpv: no cash flows given');
+  const start = cashFlows[0].date;
+  return cashFlows.reduce((total, flow) => total + flow.amount / Math.pow(1 + rate, yearsFrom(start, flow.date)), 0);
+}
+
+// Annualised return of dated cash flows, such as SIP instalments and a
+// redemption, or premiums and a maturity payout
+export function xirr(cashFlows: DatedCashFlow[], guess = 0.1): number {
+  if (cashFlows.length < 2) throw new Error('xirr: at least two dated cash flows are required');
+  const start = cashFlows[0].date;
+  const years = cashFlows.map(flow => yearsFrom(start, flow.date));
+  return solveRate(
+    rate => cashFlows.reduce((total, flow, i) => total + flow.amount / Math.pow(1 + rate, years[i]), 0),
+    rate => cashFlows.reduce((total, flow, i) => total - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0),
+    guess,
+    'xirr'
+  );
+}
+
+// Compound annual growth rate
+export function cagr(beginValue: number, endValue: number, years: number): number {
+  if (beginValue <= 0 || years <= 0) throw new Error('cagr: starting value and years must be positive');
+  return Math.pow(endValue / beginValue, 1 / years) - 1;
+}
+
+// Monthly instalment on a loan at an annual rate over a term in years
+export function emi(principal: number, annualRate: number, years: number): number {
+  return -pmt(annualRate / 12, Math.round(years * 12), principal);
+}
+
+// Value after the term of a monthly SIP invested at the start of each month
+export function sip(monthlyAmount: number, annualRate: number, years: number): number {
+  return fv(annualRate / 12, Math.round(years * 12), -monthlyAmount, 0, 1);
+}
+
+// What an amount in today's money will cost after the years at inflation
+export function inflate(amount: number, inflationRate: number, years: number): number {
+  return amount * Math.pow(1 + inflationRate, years);
+}
+
+// What a future amount is worth in today's money at inflation
+export function deflate(amount: number, inflationRate: number, years: number): number {
+  return amount / Math.pow(1 + inflationRate, years);
+}
+
+// Return after inflation
+export function realRate(nominalRate: number, inflationRate: number): number {
+  return (1 + nominalRate) / (1 + inflationRate) - 1;
+}
@@ -0,0 +1,207 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CatalogProduct, ProductLine, catalogProductSchema } from './schema';
+import { SEED_PRODUCTS } from './seed';
+
+// Product catalog repository.
+//
+// Plans live in the `insurance_products` table so they can be added or
+// retired without a deploy. If the table cannot be read, or has no rows for a
+// line yet, we fall back to the bundled seed catalog so quoting keeps working.
+
+interface ProductRow {
+  id: string;
+  line: string;
+  status: string;
+  name: string;
+  insurer: string;
+  logo: string | null;
+  min_entry_age: number;
+  max_entry_age: number;
+  max_maturity_age: number;
+  min_sum_assured: number;
+  max_sum_assured: number;
+  term_options: number[];
+  limited_pay_terms: number[] | null;
+  single_pay: boolean | null;
+  return_of_premium: boolean | null;
+  riders: string[] | null;
+  features: string[] | null;
+  payout_options: string[] | null;
+  exclusions: string[] | null;
+  pricing: Record<string, number> | null;
+  claim_settlement_ratio: string;
+  sort_order: number | null;
+}
+
+export interface ListProductsOptions {
+  line?: ProductLine;
+  includeRetired?: boolean;
+}
+
+export interface EligibilityCriteria {
+  age: number;
+  sumAssured: number;
+  term: number;
+}
+
+// Map a database row onto the catalog schema, dropping rows that fail
+// validation rather than failing the whole catalog
+function parseProductRow(row: ProductRow): CatalogProduct | null {
+  const result = catalogProductSchema.safeParse({
+    id: row.id,
+    line: row.line,
+    status: row.status,
+    name: row.name,
+    insurer: row.insurer,
+    logo: row.logo ?? undefined,
+    minEntryAge: row.min_entry_age,
+    maxEntryAge: row.max_entry_age,
+    maxMaturityAge: row.max_maturity_age,
+    minSumAssured: Number(row.min_sum_assured),
+    maxSumAssured: Number(row.max_sum_assured),
+    termOptions: row.term_options,
+    limitedPayTerms: row.limited_pay_terms || [],
+    singlePay: row.single_pay ?? false,
+    returnOfPremium: row.return_of_premium ?? false,
+    riders: row.riders || [],
+    features: row.features || [],
+    payoutOptions: row.payout_options && row.payout_options.length > 0 ? row.payout_options : undefined,
+    exclusions: row.exclusions || [],
+    pricing: row.pricing || {},
+    claimSettlementRatio: row.claim_settlement_ratio,
+    sortOrder: row.sort_order ?? 0
+  });
+
+  if (!result.success) {
+    console.error(`[catalog] Skipping invalid product row ${row.id}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function seedProducts({ line = 'term_life', includeRetired = false }: ListProductsOptions): CatalogProduct[] {
+  return SEED_PRODUCTS
+    .filter(product => product.line === line)
+    .filter(product => includeRetired || product.status === 'active')
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// List catalog products for a line, ordered for display
+export async function listProducts(
+  supabase: SupabaseClient,
+  options: ListProductsOptions = {}
+): Promise<CatalogProduct[]> {
+  const { line = 'term_life', includeRetired = false } = options;
+
+  let query = supabase
+    .from('insurance_products')
+    .select('*')
+    .eq('line', line)
+    .order('sort_order', { ascending: true });
+
+  if (!includeRetired) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[catalog] Falling back to seed catalog:', error.message);
+    return seedProducts(options);
+  }
+
+  if (!data || data.length === 0) {
+    return seedProducts(options);
+  }
+
+  return (data as ProductRow[])
+    .map(parseProductRow)
+    .filter((product): product is CatalogProduct => product !== null);
+}
+
+// Fetch a single product by id, including retired plans so old quotes can
+// still be displayed
+export async function getProductById(
+  supabase: SupabaseClient,
+  id: string
+): Promise<CatalogProduct | null> {
+  const { data, error } = await supabase
+    .from('insurance_products')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !data) {
+    return SEED_PRODUCTS.find(product => product.id === id) || null;
+  }
+
+  return parseProductRow(data as ProductRow);
+}
+
+// The offered term closest to the requested one. Ties go to the longer term,
+// which keeps the customer covered for at least as long as they asked.
+export function closestTermOption(product: CatalogProduct, requestedTerm: number): number {
+  return product.termOptions.reduce((best, option) => {
+    const bestDistance = Math.abs(best - requestedTerm);
+    const optionDistance = Math.abs(option - requestedTerm);
+    if (optionDistance < bestDistance || (optionDistance === bestDistance && option > best)) {
+      return option;
+    }
+    return best;
+  });
+}
+
+// Reasons a product cannot be offered for the given criteria. An empty list
+// means the product is eligible.
+export function eligibilityIssues(product: CatalogProduct, criteria: EligibilityCriteria): string[] {
+  const issues: string[] = [];
+
+  if (criteria.age < product.minEntryAge || criteria.age > product.maxEntryAge) {
+    issues.push(`Entry age must be between ${product.minEntryAge} and ${product.maxEntryAge}`);
+  }
+
+  if (criteria.sumAssured < product.minSumAssured) {
+    issues.push(`Minimum sum assured is ₹${product.minSumAssured.toLocaleString('en-IN')}`);
+  }
+
+  if (criteria.sumAssured > product.maxSumAssured) {
+    issues.push(`Maximum sum assured is ₹${product.maxSumAssured.toLocaleString('en-IN')}`);
+  }
+
+  const term = closestTermOption(product, criteria.term);
+  if (criteria.age + term > product.maxMaturityAge) {
+    issues.push(`Cover must end by age ${product.maxMaturityAge}`);
+  }
+
+  return issues;
+}
+
+function searchTokens(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').split(' ').filter(Boolean);
+}
+
+// Find the catalog product a user means by a loose name such as "HDFC",
+// "max life" or "iProtect". Each query word must match the start of a word in
+// the product id, name or insurer; the product matching the most words wins.
+export function findProduct(catalog: CatalogProduct[], query: string): CatalogProduct | null {
+  const exact = catalog.find(product => product.id === query);
+  if (exact) return exact;
+
+  const queryTokens = searchTokens(query);
+  if (queryTokens.length === 0) return null;
+
+  let best: { product: CatalogProduct; score: number } | null = null;
+  for (const product of catalog) {
+    const productTokens = searchTokens(`${product.id} ${product.name} ${product.insurer}`);
+    const matched = queryTokens.filter(token =>
+      productTokens.some(productToken => productToken.startsWith(token) && (token.length >= 3 || productToken === token))
+    ).length;
+    const score = matched / queryTokens.length;
+    if (score >= 0.5 && (!best || score > best.score)) {
+      best = { product, score };
+    }
+  }
+
+  return best?.product ?? null;
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+// Catalog schema for insurance products.
+//
+// Products are validated with these schemas whether they come from the
+// `insurance_products` table or the bundled seed data, so a malformed row is
+// rejected at load time instead of producing a bad quote.
+
+export const productLineSchema = z.enum(['term_life']);
+
+export const productStatusSchema = z.enum(['active', 'retired']);
+
+export const riderCodeSchema = z.enum([
+  'critical_illness',
+  'accidental_death',
+  'waiver_of_premium',
+  'terminal_illness'
+]);
+
+// How the death benefit can be paid to the nominee
+export const payoutOptionSchema = z.enum([
+  'lump_sum',
+  'monthly_income',
+  'lump_sum_plus_income',
+  'increasing_income'
+]);
+
+// Overrides applied on top of DEFAULT_PRICING_BASIS
+export const productPricingSchema = z.object({
+  interestRate: z.number().min(0).max(0.15).optional(),
+  mortalityFactor: z.number().positive().max(3).optional(),
+  expenseLoading: z.number().min(0).max(0.5).optional(),
+  policyFee: z.number().min(0).optional(),
+  profitMargin: z.number().min(0).max(0.5).optional(),
+  taxRate: z.number().min(0).max(0.3).optional()
+});
+
+export const catalogProductSchema = z.object({
+  id: z.string().min(1),
+  line: productLineSchema,
+  status: productStatusSchema,
+  name: z.string().min(1),
+  insurer: z.string().min(1),
+  logo: z.string().optional(),
+  minEntryAge: z.number().int().min(0),
+  maxEntryAge: z.number().int().max(100),
+  maxMaturityAge: z.number().int().max(100),
+  minSumAssured: z.number().positive(),
+  maxSumAssured: z.number().positive(),
+  termOptions: z.array(z.number().int().positive()).min(1),
+  // Premium payment terms shorter than the policy term, e.g. [5, 10, 15]
+  limitedPayTerms: z.array(z.number().int().positive()).default([]),
+  singlePay: z.boolean().default(false),
+  // Offers a return of premium variant that refunds the premiums paid if the
+  // life assured survives the term
+  returnOfPremium: z.boolean().default(false),
+  riders: z.array(riderCodeSchema),
+  features: z.array(z.string()),
+  payoutOptions: z.array(payoutOptionSchema).min(1).default(['lump_sum']),
+  // Key exclusions, worded as shown to customers
+  exclusions: z.array(z.string()).default([]),
+  pricing: productPricingSchema,
+  // Shown only when the insurer has no scorecard in lib/insurance/scorecards
+  claimSettlementRatio: z.string(),
+  sortOrder: z.number().int().default(0)
+}).refine(product => product.minEntryAge <= product.maxEntryAge, {
+  message: 'minEntryAge must not exceed maxEntryAge',
+  path: ['maxEntryAge']
+}).refine(product => product.minSumAssured <= product.maxSumAssured, {
+  message: 'minSumAssured must not exceed maxSumAssured',
+  path: ['maxSumAssured']
+});
+
+export type ProductLine = z.infer<typeof productLineSchema>;
+export type ProductStatus = z.infer<typeof productStatusSchema>;
+export type RiderCode = z.infer<typeof riderCodeSchema>;
+export type PayoutOption = z.infer<typeof payoutOptionSchema>;
+export type ProductPricing = z.infer<typeof productPricingSchema>;
+export type CatalogProduct = z.infer<typeof catalogProductSchema>;
@@ -0,0 +1,169 @@
+import { CatalogProduct, catalogProductSchema } from './schema';
+
+// Bundled catalog used to seed the `insurance_products` table and as the
+// fallback when the table is unreachable or empty. It is parsed with the
+// catalog schema when this module loads, so a bad edit fails fast rather
+// than reaching a quote.
+export const SEED_PRODUCTS: CatalogProduct[] = catalogProductSchema.array().parse([
+  {
+    id: 'hdfc-securelife-plus',
+    line: 'term_life',
+    status: 'active',
+    name: 'SecureLife Plus',
+    insurer: 'HDFC Life',
+    logo: '🏦',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxMaturityAge: 85,
+    minSumAssured: 2500000,
+    maxSumAssured: 200000000,
+    termOptions: [5, 10, 15, 20, 25, 30, 35, 40],
+    limitedPayTerms: [5, 10, 15],
+    singlePay: true,
+    returnOfPremium: false,
+    riders: ['critical_illness', 'accidental_death', 'waiver_of_premium'],
+    features: [
+      'No medical checkup till 45 years',
+      'Tax benefits under Section 80C',
+      'Critical illness rider available',
+      'Accidental death benefit'
+    ],
+    payoutOptions: ['lump_sum', 'monthly_income', 'lump_sum_plus_income', 'increasing_income'],
+    exclusions: [
+      'Suicide within 12 months of the policy start; 80% of premiums paid are refunded',
+      'Death while taking part in undisclosed hazardous sports or activities'
+    ],
+    pricing: { interestRate: 0.065, expenseLoading: 0.16, profitMargin: 0.1 },
+    claimSettlementRatio: '98.01%',
+    sortOrder: 1
+  },
+  {
+    id: 'icici-iprotect-smart',
+    line: 'term_life',
+    status: 'active',
+    name: 'iProtect Smart',
+    insurer: 'ICICI Prudential',
+    logo: '🏛️',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxMaturityAge: 99,
+    minSumAssured: 5000000,
+    maxSumAssured: 250000000,
+    termOptions: [5, 10, 15, 20, 25, 30, 35, 40],
+    limitedPayTerms: [5, 10, 15],
+    singlePay: true,
+    returnOfPremium: false,
+    riders: ['critical_illness', 'accidental_death', 'waiver_of_premium', 'terminal_illness'],
+    features: [
+      'Life stage protection benefit',
+      'Terminal illness benefit',
+      'Premium waiver option',
+      '34 critical illnesses covered'
+    ],
+    payoutOptions: ['lump_sum', 'monthly_income', 'lump_sum_plus_income'],
+    exclusions: [
+      'Suicide within 12 months of the policy start; 80% of premiums paid are refunded',
+      'Critical illness claims within 90 days of cover starting'
+    ],
+    pricing: { interestRate: 0.0625, expenseLoading: 0.15, profitMargin: 0.11 },
+    claimSettlementRatio: '97.82%',
+    sortOrder: 2
+  },
+  {
+    id: 'maxlife-smart-term',
+    line: 'term_life',
+    status: 'active',
+    name: 'Smart Term Plan',
+    insurer: 'Max Life',
+    logo: '🛡️',
+    minEntryAge: 18,
+    maxEntryAge: 60,
+    maxMaturityAge: 85,
+    minSumAssured: 2500000,
+    maxSumAssured: 150000000,
+    termOptions: [10, 15, 20, 25, 30, 35, 40],
+    limitedPayTerms: [5, 10, 15],
+    singlePay: true,
+    returnOfPremium: true,
+    riders: ['critical_illness', 'accidental_death', 'waiver_of_premium', 'terminal_illness'],
+    features: [
+      'Comprehensive life cover',
+      'Monthly income benefit option',
+      'Return of premium option',
+      'Online discount available'
+    ],
+    payoutOptions: ['lump_sum', 'monthly_income', 'lump_sum_plus_income'],
+    exclusions: [
+      'Suicide within 12 months of the policy start; 80% of premiums paid are refunded',
+      'Death due to undisclosed pre-existing conditions'
+    ],
+    pricing: { interestRate: 0.065, expenseLoading: 0.14, profitMargin: 0.1 },
+    claimSettlementRatio: '99.35%',
+    sortOrder: 3
+  },
+  {
+    id: 'lic-saral-jeevan-bima',
+    line: 'term_life',
+    status: 'active',
+    name: 'Saral Jeevan Bima',
+    insurer: 'LIC',
+    logo: '🏢',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxMaturityAge: 70,
+    minSumAssured: 500000,
+    maxSumAssured: 2500000,
+    termOptions: [5, 10, 15, 20, 25, 30, 35, 40],
+    limitedPayTerms: [5, 10],
+    singlePay: true,
+    returnOfPremium: false,
+    riders: ['accidental_death'],
+    features: [
+      'Simple and affordable',
+      'Government backed insurer',
+      'Loan facility available',
+      'Maturity benefits'
+    ],
+    payoutOptions: ['lump_sum', 'monthly_income'],
+    exclusions: [
+      'Suicide within 12 months of the policy start; 80% of premiums paid are refunded',
+      'Only accidental death is covered in the first 45 days'
+    ],
+    pricing: { interestRate: 0.055, expenseLoading: 0.18, profitMargin: 0.08, policyFee: 300 },
+    claimSettlementRatio: '98.74%',
+    sortOrder: 4
+  },
+  {
+    id: 'bajaj-digishield',
+    line: 'term_life',
+    status: 'active',
+    name: 'DigiShield Plan',
+    insurer: 'Bajaj Allianz',
+    logo: '🚀',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxMaturityAge: 85,
+    minSumAssured: 5000000,
+    maxSumAssured: 100000000,
+    termOptions: [10, 15, 20, 25, 30, 35, 40],
+    limitedPayTerms: [10],
+    singlePay: false,
+    returnOfPremium: false,
+    riders: ['accidental_death', 'waiver_of_premium', 'critical_illness'],
+    features: [
+      '100% online process',
+      'Instant policy issuance',
+      'Flexible premium payment',
+      'Women get discounted rates'
+    ],
+    payoutOptions: ['lump_sum', 'monthly_income'],
+    exclusions: [
+      'Suicide within 12 months of the policy start; 80% of premiums paid are refunded',
+      'Death due to undisclosed pre-existing conditions',
+      'Death from participation in criminal acts'
+    ],
+    pricing: { interestRate: 0.0625, expenseLoading: 0.12, profitMargin: 0.1 },
+    claimSettlementRatio: '98.48%',
+    sortOrder: 5
+  }
+]);
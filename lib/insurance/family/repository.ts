@@ -0,0 +1,134 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FamilyMember, FamilyMemberInput, FamilyMemberUpdate, FamilyRelation, familyMemberInputSchema } from './schema';
+
+// Family member repository.
+//
+// Rows are scoped to the signed-in user by RLS; every query also filters on
+// user_id so a misconfigured policy cannot leak another user's household.
+// Works with both the server and the browser Supabase clients.
+
+interface FamilyMemberRow {
+  id: string;
+  user_id: string;
+  name: string | null;
+  relation: FamilyRelation;
+  dob: string;
+  annual_income: number | null;
+  issues: string[] | null;
+  is_dependent: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Order members the way people describe a household
+const RELATION_ORDER: FamilyRelation[] = ['spouse', 'child', 'parent', 'parent_in_law', 'sibling'];
+
+function toFamilyMember(row: FamilyMemberRow): FamilyMember {
+  return {
+    id: row.id,
+    name: row.name,
+    relation: row.relation,
+    dob: row.dob,
+    annualIncome: row.annual_income !== null ? Number(row.annual_income) : null,
+    issues: row.issues || [],
+    isDependent: row.is_dependent,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// List a user's family members, spouse first, then children and parents
+// oldest first
+export async function listFamilyMembers(supabase: SupabaseClient, userId: string): Promise<FamilyMember[]> {
+  const { data, error } = await supabase
+    .from('family_members')
+    .select('*')
+    .eq('user_id', userId)
+    .order('dob', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as FamilyMemberRow[])
+    .map(toFamilyMember)
+    .sort((a, b) => RELATION_ORDER.indexOf(a.relation) - RELATION_ORDER.indexOf(b.relation));
+}
+
+export async function addFamilyMembers(
+  supabase: SupabaseClient,
+  userId: string,
+  members: FamilyMemberInput[]
+): Promise<FamilyMember[]> {
+  if (members.length === 0) return [];
+
+  const rows = members.map(member => {
+    const parsed = familyMemberInputSchema.parse(member);
+    return {
+      user_id: userId,
+      name: parsed.name ?? null,
+      relation: parsed.relation,
+      dob: parsed.dob,
+      annual_income: parsed.annualIncome ?? null,
+      issues: parsed.issues,
+      is_dependent: parsed.isDependent
+    };
+  });
+
+  const { data, error } = await supabase
+    .from('family_members')
+    .insert(rows)
+    .select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as FamilyMemberRow[]).map(toFamilyMember);
+}
+
+// Update a member; returns null when no such member belongs to the user
+export async function updateFamilyMember(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  changes: FamilyMemberUpdate
+): Promise<FamilyMember | null> {
+  const { data, error } = await supabase
+    .from('family_members')
+    .update({
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.relation !== undefined && { relation: changes.relation }),
+      ...(changes.dob !== undefined && { dob: changes.dob }),
+      ...(changes.annualIncome !== undefined && { annual_income: changes.annualIncome }),
+      ...(changes.issues !== undefined && { issues: changes.issues }),
+      ...(changes.isDependent !== undefined && { is_dependent: changes.isDependent }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? toFamilyMember(data as FamilyMemberRow) : null;
+}
+
+// Remove a member; returns false when no such member belongs to the user
+export async function removeFamilyMember(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('family_members')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Family member schema.
+//
+// The user's household lives in the `family_members` table, one row per
+// spouse, child, parent or other relative. It is shared by every line: needs
+// analysis counts the financial dependents, health floaters pick members from
+// it and life quotes can name a nominee from it.
+
+export const familyRelationSchema = z.enum(['spouse', 'child', 'parent', 'parent_in_law', 'sibling']);
+
+export const familyMemberInputSchema = z.object({
+  // Shown in the household and used as the nominee name; defaults to the relation
+  name: z.string().trim().min(1).max(100).optional(),
+  relation: familyRelationSchema,
+  dob: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of birth must be in YYYY-MM-DD format.'),
+  annualIncome: z.number().min(0).optional(),
+  issues: z.array(z.string().trim().min(1)).default([]),
+  // Whether the member relies on the user's income
+  isDependent: z.boolean().default(true)
+});
+
+// Fields that may be changed on an existing member
+export const familyMemberUpdateSchema = familyMemberInputSchema.partial();
+
+export type FamilyRelation = z.infer<typeof familyRelationSchema>;
+export type FamilyMemberInput = z.input<typeof familyMemberInputSchema>;
+export type FamilyMemberUpdate = z.infer<typeof familyMemberUpdateSchema>;
+
+export interface FamilyMember {
+  id: string;
+  name: string | null;
+  relation: FamilyRelation;
+  dob: string;
+  annualIncome: number | null;
+  issues: string[];
+  isDependent: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const FAMILY_RELATION_LABELS: Record<FamilyRelation, string> = {
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  parent_in_law: 'Parent-in-law',
+  sibling: 'Sibling'
+};
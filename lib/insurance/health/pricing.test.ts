@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { MODAL_FACTORS } from '../pricing';
+import { HealthMember } from './schema';
+import {
+  CITY_TIER_FACTORS,
+  DEFAULT_HEALTH_PRICING,
+  HealthPremiumInput,
+  ROOM_RENT_FACTORS,
+  ageBandRate,
+  calculateHealthPremium,
+  cityTier,
+  memberPremium,
+  recommendedSumInsured
+} from './pricing';
+
+const self: HealthMember = { relation: 'self', age: 35, conditions: [] };
+const spouse: HealthMember = { relation: 'spouse', age: 28, conditions: [] };
+const child: HealthMember = { relation: 'child', age: 5, conditions: [] };
+
+const standard: HealthPremiumInput = {
+  coverType: 'individual',
+  members: [self],
+  sumInsured: 500000,
+  cityTier: 'tier_1',
+  roomRent: 'no_limit'
+};
+
+describe('memberPremium', () => {
+  it('charges the age band rate for the base cover', () => {
+    expect(memberPremium(35, standard, DEFAULT_HEALTH_PRICING)).toBe(ageBandRate(35));
+    expect(ageBandRate(36)).toBeGreaterThan(ageBandRate(35));
+    expect(ageBandRate(90)).toBe(52000);
+  });
+
+  it('grows more slowly than the sum insured', () => {
+    const base = memberPremium(35, standard, DEFAULT_HEALTH_PRICING);
+    const doubled = memberPremium(35, { ...standard, sumInsured: 1000000 }, DEFAULT_HEALTH_PRICING);
+
+    expect(doubled).toBeGreaterThan(base);
+    expect(doubled).toBeLessThan(base * 2);
+  });
+
+  it('applies the city zone, room rent limit and loading', () => {
+    const base = memberPremium(35, standard, DEFAULT_HEALTH_PRICING);
+
+    expect(memberPremium(35, { ...standard, cityTier: 'tier_3' }, DEFAULT_HEALTH_PRICING))
+      .toBeCloseTo(base * CITY_TIER_FACTORS.tier_3, 6);
+    expect(memberPremium(35, { ...standard, roomRent: 'shared' }, DEFAULT_HEALTH_PRICING))
+      .toBeCloseTo(base * ROOM_RENT_FACTORS.shared, 6);
+    expect(memberPremium(35, standard, DEFAULT_HEALTH_PRICING, 0.5)).toBeCloseTo(base * 1.5, 6);
+  });
+
+  it('credits a co-payment only from its starting age', () => {
+    const copay = { fromAge: 60, percent: 20 };
+
+    expect(memberPremium(35, { ...standard, copay }, DEFAULT_HEALTH_PRICING)).toBe(ageBandRate(35));
+    expect(memberPremium(65, { ...standard, copay }, DEFAULT_HEALTH_PRICING)).toBeLessThan(ageBandRate(65));
+  });
+});
+
+describe('calculateHealthPremium', () => {
+  it('charges each member in full on individual cover', () => {
+    const quote = calculateHealthPremium({ ...standard, members: [self, spouse, child] });
+
+    expect(quote.members.every(member => member.premium === member.standalonePremium)).toBe(true);
+    expect(quote.basePremium).toBe(quote.members.reduce((total, member) => total + member.premium, 0));
+  });
+
+  it('anchors a floater on the eldest and discounts the others', () => {
+    const quote = calculateHealthPremium({ ...standard, coverType: 'family_floater', members: [child, spouse, self] });
+    const [childShare, spouseShare, selfShare] = quote.members;
+
+    expect(selfShare.premium).toBe(selfShare.standalonePremium);
+    expect(spouseShare.premium).toBe(Math.round(memberPremium(28, standard, DEFAULT_HEALTH_PRICING) * 0.6));
+    expect(childShare.premium).toBe(Math.round(memberPremium(5, standard, DEFAULT_HEALTH_PRICING) * 0.35));
+    expect(quote.basePremium).toBeLessThan(calculateHealthPremium({ ...standard, members: [child, spouse, self] }).basePremium);
+  });
+
+  it('applies per-member loadings in member order', () => {
+    const quote = calculateHealthPremium({ ...standard, members: [self, spouse], loadings: [0, 0.25] });
+
+    expect(quote.members[0].loading).toBe(0);
+    expect(quote.members[1].loading).toBe(0.25);
+    expect(quote.members[1].premium).toBe(Math.round(memberPremium(28, standard, DEFAULT_HEALTH_PRICING) * 1.25));
+  });
+
+  it('adds tax and a monthly instalment', () => {
+    const quote = calculateHealthPremium(standard, { rateFactor: 1, taxRate: 0.18 });
+
+    expect(quote.tax).toBe(Math.round(quote.basePremium * 0.18));
+    expect(quote.annualPremium).toBe(quote.basePremium + quote.tax);
+    expect(quote.monthlyPremium).toBe(Math.round(quote.annualPremium * MODAL_FACTORS.monthly));
+  });
+});
+
+describe('cityTier and recommendedSumInsured', () => {
+  it('zones known cities and prices unknown ones as tier 3', () => {
+    expect(cityTier(' Mumbai ')).toBe('tier_1');
+    expect(cityTier('Jaipur')).toBe('tier_2');
+    expect(cityTier('Bhilwara')).toBe('tier_3');
+    expect(cityTier(null)).toBeNull();
+  });
+
+  it('sizes cover up for metros, bigger families and seniors', () => {
+    expect(recommendedSumInsured([self], 'tier_3')).toBe(500000);
+    expect(recommendedSumInsured([self], 'tier_1')).toBe(1000000);
+    expect(recommendedSumInsured([self, spouse, child], 'tier_1')).toBe(1500000);
+    expect(recommendedSumInsured([{ relation: 'parent', age: 62, conditions: [] }], 'tier_2')).toBe(1500000);
+  });
+});
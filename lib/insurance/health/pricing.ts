@@ -0,0 +1,201 @@
+import { MODAL_FACTORS } from '../pricing';
+import { CityTier, CoverType, HealthMember, HealthProduct, RoomRentLimit } from './schema';
+
+// Premium model for indemnity health insurance.
+//
+// Health premiums are priced from an age-band rate table rather than a
+// mortality table: the rate for a ₹5 lakh cover is scaled for the sum insured,
+// the city zone, the room-rent limit and the plan's own rating, then combined
+// across members. Like the term engine, everything here is a pure function.
+
+export interface HealthPricingBasis {
+  // Multiple of the standard rate table for the plan
+  rateFactor: number;
+  // Individual health policies are GST-exempt from 22 September 2025
+  taxRate: number;
+}
+
+export const DEFAULT_HEALTH_PRICING: HealthPricingBasis = {
+  rateFactor: 1,
+  taxRate: 0
+};
+
+// Annual premium for a ₹5 lakh individual cover in a tier 1 city with no
+// room-rent limit, before tax, by age band
+const AGE_BAND_RATES: Array<{ maxAge: number; rate: number }> = [
+  { maxAge: 17, rate: 3200 },
+  { maxAge: 25, rate: 4800 },
+  { maxAge: 30, rate: 5600 },
+  { maxAge: 35, rate: 6700 },
+  { maxAge: 40, rate: 8200 },
+  { maxAge: 45, rate: 10500 },
+  { maxAge: 50, rate: 14000 },
+  { maxAge: 55, rate: 18500 },
+  { maxAge: 60, rate: 24000 },
+  { maxAge: 65, rate: 31000 },
+  { maxAge: 70, rate: 40000 },
+  { maxAge: Infinity, rate: 52000 }
+];
+
+const BASE_SUM_INSURED = 500000;
+
+// Premiums grow more slowly than cover: most claims are small, so doubling
+// the sum insured adds far less than double the expected claims
+const SUM_INSURED_ELASTICITY = 0.55;
+
+// Zone pricing: hospital costs in metros run well above smaller cities
+export const CITY_TIER_FACTORS: Record<CityTier, number> = {
+  tier_1: 1,
+  tier_2: 0.9,
+  tier_3: 0.8
+};
+
+export const ROOM_RENT_FACTORS: Record<RoomRentLimit, number> = {
+  no_limit: 1,
+  single_private: 0.93,
+  percent_of_sum_insured: 0.85,
+  shared: 0.8
+};
+
+// Share of their own premium each additional member adds to a floater; the
+// eldest member pays in full
+const FLOATER_SHARES = {
+  adult: 0.6,
+  child: 0.35
+};
+
+// A co-payment lowers the premium by a little less than the claim share it
+// shifts to the customer
+const COPAY_CREDIT = 0.75;
+
+const TIER_1_CITIES = [
+  'mumbai', 'navi mumbai', 'thane', 'delhi', 'new delhi', 'gurgaon', 'gurugram', 'noida', 'ghaziabad',
+  'faridabad', 'bangalore', 'bengaluru', 'chennai', 'kolkata', 'hyderabad', 'secunderabad', 'pune',
+  'ahmedabad'
+];
+
+const TIER_2_CITIES = [
+  'surat', 'vadodara', 'rajkot', 'jaipur', 'lucknow', 'kanpur', 'nagpur', 'nashik', 'indore', 'bhopal',
+  'chandigarh', 'mohali', 'ludhiana', 'amritsar', 'kochi', 'thiruvananthapuram', 'coimbatore', 'madurai',
+  'mysore', 'mysuru', 'mangalore', 'visakhapatnam', 'vijayawada', 'patna', 'ranchi', 'bhubaneswar',
+  'guwahati', 'dehradun', 'raipur', 'agra', 'varanasi', 'goa', 'panaji'
+];
+
+export interface MemberPremium {
+  relation: HealthMember['relation'];
+  age: number;
+  // Premium for this member alone, after any loading, before tax
+  standalonePremium: number;
+  // What this member adds to the policy, before tax
+  premium: number;
+  loading: number;
+}
+
+export interface HealthPremiumQuote {
+  members: MemberPremium[];
+  basePremium: number;
+  tax: number;
+  annualPremium: number;
+  monthlyPremium: number;
+}
+
+export interface HealthPremiumInput {
+  coverType: CoverType;
+  members: HealthMember[];
+  sumInsured: number;
+  cityTier: CityTier;
+  roomRent: RoomRentLimit;
+  copay?: HealthProduct['copay'];
+  // Underwriting loading per member, aligned with members
+  loadings?: number[];
+}
+
+function round(value: number): number {
+  return Math.round(value);
+}
+
+// Zone for a city; cities we do not recognise are priced as tier 3
+export function cityTier(city?: string | null): CityTier | null {
+  if (!city) return null;
+  const normalised = city.trim().toLowerCase();
+  if (TIER_1_CITIES.includes(normalised)) return 'tier_1';
+  if (TIER_2_CITIES.includes(normalised)) return 'tier_2';
+  return 'tier_3';
+}
+
+export function ageBandRate(age: number): number {
+  return AGE_BAND_RATES.find(band => age <= band.maxAge)!.rate;
+}
+
+// A sensible starting sum insured for the family and city: treatment costs
+// are highest in metros, and older members claim more and for more
+export function recommendedSumInsured(members: HealthMember[], tier: CityTier | null): number {
+  const base = tier === 'tier_3' ? 500000 : tier === 'tier_2' ? 750000 : 1000000;
+  const familyFactor = members.length > 2 ? 1.5 : 1;
+  const seniorFactor = members.some(member => member.age >= 60) ? 1.5 : 1;
+  // Round up to the nearest ₹5 lakh
+  return Math.ceil((base * familyFactor * seniorFactor) / 500000) * 500000;
+}
+
+// Premium for one member on a standalone cover, before tax
+export function memberPremium(
+  age: number,
+  input: Pick<HealthPremiumInput, 'sumInsured' | 'cityTier' | 'roomRent' | 'copay'>,
+  basis: HealthPricingBasis,
+  loading: number = 0
+): number {
+  const sumInsuredFactor = Math.pow(input.sumInsured / BASE_SUM_INSURED, SUM_INSURED_ELASTICITY);
+  const copayFactor = input.copay && age >= input.copay.fromAge
+    ? 1 - (input.copay.percent / 100) * COPAY_CREDIT
+    : 1;
+
+  return ageBandRate(age) *
+    sumInsuredFactor *
+    CITY_TIER_FACTORS[input.cityTier] *
+    ROOM_RENT_FACTORS[input.roomRent] *
+    basis.rateFactor *
+    copayFactor *
+    (1 + loading);
+}
+
+// Price an individual or floater policy. Individual cover is one policy per
+// member at the full sum insured each; a floater shares one sum insured, so
+// members after the eldest add only part of their standalone premium.
+export function calculateHealthPremium(
+  input: HealthPremiumInput,
+  basis: HealthPricingBasis = DEFAULT_HEALTH_PRICING
+): HealthPremiumQuote {
+  const standalone = input.members.map((member, index) => {
+    const loading = input.loadings?.[index] ?? 0;
+    return { member, loading, premium: memberPremium(member.age, input, basis, loading) };
+  });
+
+  // The eldest member (highest premium) anchors a floater
+  const anchor = standalone.reduce((max, entry) => entry.premium > max.premium ? entry : max, standalone[0]);
+
+  const members: MemberPremium[] = standalone.map(entry => {
+    const share = input.coverType === 'individual' || entry === anchor
+      ? 1
+      : entry.member.relation === 'child' ? FLOATER_SHARES.child : FLOATER_SHARES.adult;
+    return {
+      relation: entry.member.relation,
+      age: entry.member.age,
+      standalonePremium: round(entry.premium),
+      premium: round(entry.premium * share),
+      loading: entry.loading
+    };
+  });
+
+  const basePremium = members.reduce((total, member) => total + member.premium, 0);
+  const tax = round(basePremium * basis.taxRate);
+  const annualPremium = basePremium + tax;
+
+  return {
+    members,
+    basePremium,
+    tax,
+    annualPremium,
+    monthlyPremium: round(annualPremium * MODAL_FACTORS.monthly)
+  };
+}
+
@@ -0,0 +1,151 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CoverType, HealthMember, HealthProduct, healthProductSchema } from './schema';
+import { SEED_HEALTH_PRODUCTS } from './seed';
+
+// Health plan repository.
+//
+// Mirrors the term catalog: plans live in the `health_products` table and
+// fall back to the bundled seed plans if the table cannot be read or is empty.
+
+interface HealthProductRow {
+  id: string;
+  status: string;
+  name: string;
+  insurer: string;
+  logo: string | null;
+  cover_types: string[];
+  min_adult_age: number;
+  max_entry_age: number;
+  max_child_age: number;
+  max_members: number;
+  parents_on_floater: boolean | null;
+  sum_insured_options: number[];
+  room_rent: string;
+  room_rent_percent: number | null;
+  waiting_periods: Record<string, number>;
+  copay: { fromAge: number; percent: number } | null;
+  features: string[] | null;
+  exclusions: string[] | null;
+  pricing: Record<string, number> | null;
+  claim_settlement_ratio: string;
+  sort_order: number | null;
+}
+
+export interface HealthEligibilityCriteria {
+  coverType: CoverType;
+  members: HealthMember[];
+  sumInsured: number;
+}
+
+// Map a database row onto the schema, dropping rows that fail validation
+function parseHealthProductRow(row: HealthProductRow): HealthProduct | null {
+  const result = healthProductSchema.safeParse({
+    id: row.id,
+    status: row.status,
+    name: row.name,
+    insurer: row.insurer,
+    logo: row.logo ?? undefined,
+    coverTypes: row.cover_types,
+    minAdultAge: row.min_adult_age,
+    maxEntryAge: row.max_entry_age,
+    maxChildAge: row.max_child_age,
+    maxMembers: row.max_members,
+    parentsOnFloater: row.parents_on_floater ?? false,
+    sumInsuredOptions: (row.sum_insured_options || []).map(Number),
+    roomRent: row.room_rent,
+    roomRentPercent: row.room_rent_percent !== null ? Number(row.room_rent_percent) : undefined,
+    waitingPeriods: row.waiting_periods,
+    copay: row.copay,
+    features: row.features || [],
+    exclusions: row.exclusions || [],
+    pricing: row.pricing || {},
+    claimSettlementRatio: row.claim_settlement_ratio,
+    sortOrder: row.sort_order ?? 0
+  });
+
+  if (!result.success) {
+    console.error(`[health] Skipping invalid product row ${row.id}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function seedHealthProducts(includeRetired: boolean): HealthProduct[] {
+  return SEED_HEALTH_PRODUCTS
+    .filter(product => includeRetired || product.status === 'active')
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// List health plans, ordered for display
+export async function listHealthProducts(
+  supabase: SupabaseClient,
+  { includeRetired = false }: { includeRetired?: boolean } = {}
+): Promise<HealthProduct[]> {
+  let query = supabase
+    .from('health_products')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (!includeRetired) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[health] Falling back to seed plans:', error.message);
+    return seedHealthProducts(includeRetired);
+  }
+
+  if (!data || data.length === 0) {
+    return seedHealthProducts(includeRetired);
+  }
+
+  return (data as HealthProductRow[])
+    .map(parseHealthProductRow)
+    .filter((product): product is HealthProduct => product !== null);
+}
+
+// The smallest offered sum insured that meets the request, or null when the
+// request is above the plan's maximum
+export function closestSumInsured(product: HealthProduct, requested: number): number | null {
+  const options = [...product.sumInsuredOptions].sort((a, b) => a - b);
+  return options.find(option => option >= requested) ?? null;
+}
+
+// Reasons a plan cannot cover the given members. An empty list means the plan
+// is eligible.
+export function healthEligibilityIssues(product: HealthProduct, criteria: HealthEligibilityCriteria): string[] {
+  const issues: string[] = [];
+
+  if (!product.coverTypes.includes(criteria.coverType)) {
+    issues.push(criteria.coverType === 'family_floater'
+      ? 'Not available as a family floater'
+      : 'Only available as a family floater');
+  }
+
+  if (criteria.coverType === 'family_floater') {
+    if (criteria.members.length > product.maxMembers) {
+      issues.push(`Covers at most ${product.maxMembers} members on one floater`);
+    }
+    if (!product.parentsOnFloater && criteria.members.some(member => member.relation === 'parent' || member.relation === 'parent_in_law')) {
+      issues.push('Parents cannot be added to this floater');
+    }
+    if (criteria.members.some(member => member.relation === 'child' && member.age > product.maxChildAge)) {
+      issues.push(`Children are covered on the floater only up to age ${product.maxChildAge}`);
+    }
+  }
+
+  const adults = criteria.members.filter(member => member.relation !== 'child');
+  if (adults.some(member => member.age < product.minAdultAge || member.age > product.maxEntryAge)) {
+    issues.push(`Adult entry age must be between ${product.minAdultAge} and ${product.maxEntryAge}`);
+  }
+
+  const maxSumInsured = Math.max(...product.sumInsuredOptions);
+  if (criteria.sumInsured > maxSumInsured) {
+    issues.push(`Maximum sum insured is ₹${maxSumInsured.toLocaleString('en-IN')}`);
+  }
+
+  return issues;
+}
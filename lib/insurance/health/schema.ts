@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+// Health insurance schemas.
+//
+// Plans are validated with healthProductSchema whether they come from the
+// `health_products` table or the bundled seed data. The user's answers from
+// the health form are validated with healthPreferencesSchema before they are
+// stored on the profile.
+
+export const coverTypeSchema = z.enum(['individual', 'family_floater']);
+
+export const memberRelationSchema = z.enum(['self', 'spouse', 'child', 'parent', 'parent_in_law']);
+
+// Ordered from least to most restrictive
+export const roomRentLimitSchema = z.enum(['no_limit', 'single_private', 'percent_of_sum_insured', 'shared']);
+
+export const cityTierSchema = z.enum(['tier_1', 'tier_2', 'tier_3']);
+
+export const healthMemberSchema = z.object({
+  relation: memberRelationSchema,
+  age: z.number().int().min(0).max(99),
+  // Declared conditions for members other than the user; the user's own come
+  // from the profile's issues list
+  conditions: z.array(z.string().min(1)).default([])
+});
+
+export const healthPreferencesSchema = z.object({
+  coverType: coverTypeSchema,
+  members: z.array(healthMemberSchema).min(1, 'Add at least one member to cover').max(8, 'At most 8 members can be covered'),
+  // Requested sum insured; sized from the city and family when omitted
+  sumInsured: z.number().min(300000).max(100000000).optional(),
+  // Most restrictive room-rent limit the user will accept
+  roomRent: z.enum(['any', 'no_limit', 'single_private']).default('any')
+}).refine(preferences => preferences.members.filter(member => member.relation === 'self').length <= 1, {
+  message: 'Only one member can be "self"',
+  path: ['members']
+});
+
+export const waitingPeriodsSchema = z.object({
+  // No claims except accidents in the first days of the policy
+  initialDays: z.number().int().min(0),
+  // Declared pre-existing diseases are covered after this many months
+  preExistingMonths: z.number().int().min(0).max(48),
+  // Listed illnesses such as cataract, hernia or joint replacement
+  specificIllnessMonths: z.number().int().min(0).max(48)
+});
+
+// Overrides applied on top of DEFAULT_HEALTH_PRICING
+export const healthPricingSchema = z.object({
+  rateFactor: z.number().positive().max(3).optional(),
+  taxRate: z.number().min(0).max(0.3).optional()
+});
+
+export const healthProductSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(['active', 'retired']),
+  name: z.string().min(1),
+  insurer: z.string().min(1),
+  logo: z.string().optional(),
+  coverTypes: z.array(coverTypeSchema).min(1),
+  minAdultAge: z.number().int().min(18),
+  maxEntryAge: z.number().int().max(99),
+  // Children are covered on a floater up to this age
+  maxChildAge: z.number().int().max(30),
+  maxMembers: z.number().int().min(1),
+  // Whether parents and parents-in-law can join the floater
+  parentsOnFloater: z.boolean().default(false),
+  sumInsuredOptions: z.array(z.number().positive()).min(1),
+  roomRent: roomRentLimitSchema,
+  // Daily cap as a percentage of sum insured, for 'percent_of_sum_insured'
+  roomRentPercent: z.number().positive().max(5).optional(),
+  waitingPeriods: waitingPeriodsSchema,
+  // Co-payment on claims for members at or above an age
+  copay: z.object({
+    fromAge: z.number().int().min(0),
+    percent: z.number().min(0).max(50)
+  }).nullable().default(null),
+  features: z.array(z.string()),
+  exclusions: z.array(z.string()).default([]),
+  pricing: healthPricingSchema,
+  claimSettlementRatio: z.string(),
+  sortOrder: z.number().int().default(0)
+}).refine(product => product.roomRent !== 'percent_of_sum_insured' || product.roomRentPercent !== undefined, {
+  message: 'roomRentPercent is required when room rent is a percentage of sum insured',
+  path: ['roomRentPercent']
+});
+
+export type CoverType = z.infer<typeof coverTypeSchema>;
+export type MemberRelation = z.infer<typeof memberRelationSchema>;
+export type RoomRentLimit = z.infer<typeof roomRentLimitSchema>;
+export type CityTier = z.infer<typeof cityTierSchema>;
+export type HealthMember = z.infer<typeof healthMemberSchema>;
+export type HealthPreferences = z.infer<typeof healthPreferencesSchema>;
+export type WaitingPeriods = z.infer<typeof waitingPeriodsSchema>;
+export type HealthPricing = z.infer<typeof healthPricingSchema>;
+export type HealthProduct = z.infer<typeof healthProductSchema>;
@@ -0,0 +1,165 @@
+import { HealthProduct, healthProductSchema } from './schema';
+
+// Bundled health plans used to seed the `health_products` table and as the
+// fallback when the table is unreachable or empty. It is parsed with the
+// health plan schema when this module loads, so a bad edit fails fast rather
+// than reaching a quote.
+export const SEED_HEALTH_PRODUCTS: HealthProduct[] = healthProductSchema.array().parse([
+  {
+    id: 'hdfc-ergo-optima-secure',
+    status: 'active',
+    name: 'Optima Secure',
+    insurer: 'HDFC ERGO',
+    logo: '🏦',
+    coverTypes: ['individual', 'family_floater'],
+    minAdultAge: 18,
+    maxEntryAge: 65,
+    maxChildAge: 25,
+    maxMembers: 6,
+    parentsOnFloater: true,
+    sumInsuredOptions: [500000, 1000000, 1500000, 2000000, 2500000, 5000000, 10000000, 20000000],
+    roomRent: 'no_limit',
+    waitingPeriods: { initialDays: 30, preExistingMonths: 36, specificIllnessMonths: 24 },
+    copay: null,
+    features: [
+      '2x cover from day one with the Secure benefit',
+      'Unlimited restoration of sum insured',
+      'No room rent capping',
+      'Cashless at 13,000+ hospitals'
+    ],
+    exclusions: [
+      'Cosmetic and obesity treatment unless medically necessary',
+      'Injuries from hazardous or adventure sports',
+      'Maternity expenses'
+    ],
+    pricing: { rateFactor: 1.15 },
+    claimSettlementRatio: '98.59%',
+    sortOrder: 1
+  },
+  {
+    id: 'niva-bupa-reassure-2',
+    status: 'active',
+    name: 'ReAssure 2.0',
+    insurer: 'Niva Bupa',
+    logo: '💙',
+    coverTypes: ['individual', 'family_floater'],
+    minAdultAge: 18,
+    maxEntryAge: 65,
+    maxChildAge: 25,
+    maxMembers: 6,
+    parentsOnFloater: true,
+    sumInsuredOptions: [500000, 1000000, 1500000, 2000000, 2500000, 5000000, 10000000],
+    roomRent: 'no_limit',
+    waitingPeriods: { initialDays: 30, preExistingMonths: 36, specificIllnessMonths: 24 },
+    copay: null,
+    features: [
+      'Entry-age premium locked until your first claim',
+      'Unlimited reinstatement of sum insured',
+      'Unused cover carried forward up to 10x',
+      'Any room category'
+    ],
+    exclusions: [
+      'Cosmetic and obesity treatment unless medically necessary',
+      'Treatment outside India',
+      'Maternity expenses'
+    ],
+    pricing: { rateFactor: 1.1 },
+    claimSettlementRatio: '91.64%',
+    sortOrder: 2
+  },
+  {
+    id: 'care-supreme',
+    status: 'active',
+    name: 'Care Supreme',
+    insurer: 'Care Health',
+    logo: '🩺',
+    coverTypes: ['individual', 'family_floater'],
+    minAdultAge: 18,
+    maxEntryAge: 65,
+    maxChildAge: 24,
+    maxMembers: 6,
+    parentsOnFloater: true,
+    sumInsuredOptions: [500000, 700000, 1000000, 1500000, 2500000, 5000000, 10000000],
+    roomRent: 'single_private',
+    waitingPeriods: { initialDays: 30, preExistingMonths: 36, specificIllnessMonths: 24 },
+    copay: null,
+    features: [
+      'Cumulative bonus of 50% a year up to 100%',
+      'Unlimited automatic recharge of sum insured',
+      'Annual health check-up for all members',
+      'Single private AC room'
+    ],
+    exclusions: [
+      'Cosmetic and obesity treatment unless medically necessary',
+      'Self-inflicted injuries',
+      'Maternity expenses'
+    ],
+    pricing: { rateFactor: 1 },
+    claimSettlementRatio: '93.87%',
+    sortOrder: 3
+  },
+  {
+    id: 'star-family-health-optima',
+    status: 'active',
+    name: 'Family Health Optima',
+    insurer: 'Star Health',
+    logo: '⭐',
+    coverTypes: ['family_floater'],
+    minAdultAge: 18,
+    maxEntryAge: 65,
+    maxChildAge: 25,
+    maxMembers: 6,
+    parentsOnFloater: false,
+    sumInsuredOptions: [300000, 400000, 500000, 1000000, 1500000, 2000000, 2500000],
+    roomRent: 'percent_of_sum_insured',
+    roomRentPercent: 1,
+    waitingPeriods: { initialDays: 30, preExistingMonths: 36, specificIllnessMonths: 24 },
+    copay: null,
+    features: [
+      'Automatic restoration of sum insured three times a year',
+      'Newborn covered from day 16',
+      'Largest network of hospitals in India',
+      'Budget-friendly family floater'
+    ],
+    exclusions: [
+      'Room rent above 1% of sum insured per day, with proportionate deductions',
+      'Injuries from hazardous or adventure sports',
+      'Dental treatment unless from an accident'
+    ],
+    pricing: { rateFactor: 0.9 },
+    claimSettlementRatio: '82.31%',
+    sortOrder: 4
+  },
+  {
+    id: 'sbi-arogya-sanjeevani',
+    status: 'active',
+    name: 'Arogya Sanjeevani',
+    insurer: 'SBI General',
+    logo: '🏢',
+    coverTypes: ['individual', 'family_floater'],
+    minAdultAge: 18,
+    maxEntryAge: 65,
+    maxChildAge: 25,
+    maxMembers: 6,
+    parentsOnFloater: true,
+    sumInsuredOptions: [300000, 500000, 1000000],
+    roomRent: 'percent_of_sum_insured',
+    roomRentPercent: 2,
+    waitingPeriods: { initialDays: 30, preExistingMonths: 36, specificIllnessMonths: 24 },
+    copay: { fromAge: 0, percent: 5 },
+    features: [
+      'IRDAI standard plan with the same cover at every insurer',
+      'Lowest premiums for basic hospitalisation',
+      'AYUSH treatment covered',
+      'Cumulative bonus of 5% a year'
+    ],
+    exclusions: [
+      '5% co-payment on every claim',
+      'Room rent above 2% of sum insured per day (max ₹5,000)',
+      'Cataract claims limited to 25% of sum insured'
+    ],
+    pricing: { rateFactor: 0.75 },
+    claimSettlementRatio: '92.54%',
+    sortOrder: 5
+  }
+]);
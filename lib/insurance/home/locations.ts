@@ -0,0 +1,76 @@
+// Location risk for home insurance, keyed by city.
+//
+// Seismic zones follow the IS 1893 zoning map (zone 2 is the least and zone 5
+// the most severe). Flood risk combines river flooding, urban waterlogging and
+// cyclone storm surge for the city as a whole. Construction rates are typical
+// reinstatement costs for an RCC framed structure in rupees per sq ft of
+// built-up area. Cities not listed are priced on DEFAULT_CITY_RISK.
+
+export type SeismicZone = 2 | 3 | 4 | 5;
+
+export type FloodRisk = 'low' | 'moderate' | 'high';
+
+export interface CityRisk {
+  city: string;
+  aliases?: string[];
+  state: string;
+  seismicZone: SeismicZone;
+  floodRisk: FloodRisk;
+  constructionRate: number;
+}
+
+export const CITY_RISKS: CityRisk[] = [
+  { city: 'Mumbai', aliases: ['Bombay', 'Navi Mumbai', 'Thane'], state: 'Maharashtra', seismicZone: 3, floodRisk: 'high', constructionRate: 3000 },
+  { city: 'Delhi', aliases: ['New Delhi'], state: 'Delhi', seismicZone: 4, floodRisk: 'moderate', constructionRate: 2600 },
+  { city: 'Noida', aliases: ['Greater Noida'], state: 'Uttar Pradesh', seismicZone: 4, floodRisk: 'moderate', constructionRate: 2400 },
+  { city: 'Gurugram', aliases: ['Gurgaon'], state: 'Haryana', seismicZone: 4, floodRisk: 'moderate', constructionRate: 2600 },
+  { city: 'Bengaluru', aliases: ['Bangalore'], state: 'Karnataka', seismicZone: 2, floodRisk: 'moderate', constructionRate: 2500 },
+  { city: 'Chennai', aliases: ['Madras'], state: 'Tamil Nadu', seismicZone: 3, floodRisk: 'high', constructionRate: 2400 },
+  { city: 'Kolkata', aliases: ['Calcutta'], state: 'West Bengal', seismicZone: 3, floodRisk: 'high', constructionRate: 2200 },
+  { city: 'Hyderabad', aliases: ['Secunderabad'], state: 'Telangana', seismicZone: 2, floodRisk: 'moderate', constructionRate: 2300 },
+  { city: 'Pune', aliases: ['Pimpri-Chinchwad'], state: 'Maharashtra', seismicZone: 3, floodRisk: 'low', constructionRate: 2400 },
+  { city: 'Ahmedabad', aliases: ['Gandhinagar'], state: 'Gujarat', seismicZone: 3, floodRisk: 'moderate', constructionRate: 2100 },
+  { city: 'Surat', state: 'Gujarat', seismicZone: 3, floodRisk: 'high', constructionRate: 2000 },
+  { city: 'Jaipur', state: 'Rajasthan', seismicZone: 2, floodRisk: 'low', constructionRate: 1900 },
+  { city: 'Lucknow', state: 'Uttar Pradesh', seismicZone: 3, floodRisk: 'moderate', constructionRate: 1900 },
+  { city: 'Patna', state: 'Bihar', seismicZone: 4, floodRisk: 'high', constructionRate: 1800 },
+  { city: 'Guwahati', state: 'Assam', seismicZone: 5, floodRisk: 'high', constructionRate: 2000 },
+  { city: 'Srinagar', state: 'Jammu and Kashmir', seismicZone: 5, floodRisk: 'moderate', constructionRate: 2200 },
+  { city: 'Dehradun', state: 'Uttarakhand', seismicZone: 4, floodRisk: 'moderate', constructionRate: 2000 },
+  { city: 'Shimla', state: 'Himachal Pradesh', seismicZone: 4, floodRisk: 'low', constructionRate: 2300 },
+  { city: 'Chandigarh', aliases: ['Mohali', 'Panchkula'], state: 'Chandigarh', seismicZone: 4, floodRisk: 'low', constructionRate: 2200 },
+  { city: 'Bhubaneswar', aliases: ['Cuttack'], state: 'Odisha', seismicZone: 3, floodRisk: 'high', constructionRate: 1900 },
+  { city: 'Visakhapatnam', aliases: ['Vizag'], state: 'Andhra Pradesh', seismicZone: 2, floodRisk: 'high', constructionRate: 2000 },
+  { city: 'Kochi', aliases: ['Cochin', 'Ernakulam'], state: 'Kerala', seismicZone: 3, floodRisk: 'high', constructionRate: 2300 },
+  { city: 'Thiruvananthapuram', aliases: ['Trivandrum'], state: 'Kerala', seismicZone: 3, floodRisk: 'moderate', constructionRate: 2200 },
+  { city: 'Indore', state: 'Madhya Pradesh', seismicZone: 3, floodRisk: 'low', constructionRate: 1800 },
+  { city: 'Bhopal', state: 'Madhya Pradesh', seismicZone: 2, floodRisk: 'low', constructionRate: 1800 },
+  { city: 'Nagpur', state: 'Maharashtra', seismicZone: 2, floodRisk: 'low', constructionRate: 1900 }
+];
+
+// Middle-of-the-road assumptions for cities outside the list
+export const DEFAULT_CITY_RISK: Omit<CityRisk, 'city' | 'state'> = {
+  seismicZone: 3,
+  floodRisk: 'moderate',
+  constructionRate: 1800
+};
+
+function normalise(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]+/g, '');
+}
+
+// The listed city matching the name or one of its aliases
+export function findCityRisk(city: string): CityRisk | null {
+  const key = normalise(city);
+  return CITY_RISKS.find(entry =>
+    normalise(entry.city) === key ||
+    (entry.aliases || []).some(alias => normalise(alias) === key)
+  ) || null;
+}
+
+// Risk to price the city on, and whether it came from the list
+export function resolveCityRisk(city: string): { risk: CityRisk; known: boolean } {
+  const risk = findCityRisk(city);
+  if (risk) return { risk, known: true };
+  return { risk: { city: city.trim(), state: '', ...DEFAULT_CITY_RISK }, known: false };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_HOME_PRICING,
+  HomePremiumInput,
+  automaticContentsCover,
+  calculateHomePremium,
+  calculateStructureValue
+} from './pricing';
+
+const untaxed = { ...DEFAULT_HOME_PRICING, taxRate: 0 };
+
+// A ₹50 lakh RCC flat in the calmest zone, so the building is rated on 5,000
+// units of ₹1,000
+const flat: HomePremiumInput = {
+  propertyType: 'apartment',
+  constructionType: 'rcc_framed',
+  seismicZone: 2,
+  floodRisk: 'low',
+  structureValue: 5000000,
+  contentsValue: 0,
+  burglary: false
+};
+
+const premiumFor = (input: Partial<HomePremiumInput>) => calculateHomePremium({ ...flat, ...input }, untaxed);
+
+describe('zone loadings', () => {
+  it('charges fire on the rated value and nothing for low flood risk', () => {
+    expect(premiumFor({})).toMatchObject({ firePremium: 1000, earthquakePremium: 250, floodPremium: 0 });
+  });
+
+  it('loads earthquake cover by seismic zone', () => {
+    expect(premiumFor({ seismicZone: 3 }).earthquakePremium).toBe(500);
+    expect(premiumFor({ seismicZone: 4 }).earthquakePremium).toBe(1000);
+    expect(premiumFor({ seismicZone: 5 }).earthquakePremium).toBe(1500);
+    expect(premiumFor({ seismicZone: 5 }).firePremium).toBe(1000);
+  });
+
+  it('loads flood cover by risk, halved for flats', () => {
+    expect(premiumFor({ floodRisk: 'moderate' }).floodPremium).toBe(125);
+    expect(premiumFor({ floodRisk: 'high' }).floodPremium).toBe(375);
+    expect(premiumFor({ floodRisk: 'high', propertyType: 'independent_house' }).floodPremium).toBe(750);
+  });
+
+  it('loads fire and earthquake, but not flood, for load-bearing walls', () => {
+    expect(premiumFor({ constructionType: 'load_bearing', seismicZone: 4, floodRisk: 'high' })).toMatchObject({
+      firePremium: 1200,
+      earthquakePremium: 1200,
+      floodPremium: 375
+    });
+  });
+});
+
+describe('contents and burglary', () => {
+  it('covers contents up to a fifth of the building free, capped at ₹10 lakh', () => {
+    expect(automaticContentsCover(2000000)).toBe(400000);
+    expect(automaticContentsCover(8000000)).toBe(1000000);
+    expect(automaticContentsCover(0)).toBe(0);
+  });
+
+  it('prices only the contents declared above the free cover', () => {
+    const quote = premiumFor({ structureValue: 2000000, contentsValue: 1000000 });
+
+    expect(quote).toMatchObject({ automaticContentsCover: 400000, declaredContents: 600000, contentsSumInsured: 1000000 });
+    expect(quote.firePremium).toBe(520);
+  });
+
+  it('prices contents alone for a tenant', () => {
+    expect(premiumFor({ structureValue: 0, contentsValue: 300000 })).toMatchObject({
+      declaredContents: 300000,
+      firePremium: 60,
+      earthquakePremium: 15
+    });
+  });
+
+  it('charges burglary on the contents cover, more for a house', () => {
+    expect(premiumFor({ burglary: true }).burglaryPremium).toBe(1000);
+    expect(premiumFor({ burglary: true, propertyType: 'independent_house' }).burglaryPremium).toBe(1250);
+    expect(premiumFor({}).burglaryPremium).toBe(0);
+  });
+});
+
+describe('calculateHomePremium', () => {
+  it('adds GST on the total of the perils', () => {
+    const quote = calculateHomePremium({ ...flat, burglary: true }, DEFAULT_HOME_PRICING);
+
+    expect(quote.netPremium).toBe(2250);
+    expect(quote.gst).toBe(405);
+    expect(quote.totalPremium).toBe(2655);
+  });
+
+  it('values the building at reinstatement cost with no deduction for age', () => {
+    expect(calculateStructureValue(1000, 2500, 'rcc_framed')).toBe(2500000);
+    expect(calculateStructureValue(1000, 2500, 'load_bearing')).toBe(2125000);
+  });
+});
@@ -0,0 +1,142 @@
+import { ConstructionType, PropertyType } from './schema';
+import { FloodRisk, SeismicZone } from './locations';
+
+// Premium model for Bharat Griha Raksha style home insurance.
+//
+// The building is insured for its reinstatement value: built-up area times the
+// local construction rate, with no deduction for age. Household contents up to
+// 20% of that value (capped at ₹10 lakh) are covered automatically; anything
+// declared above that is priced alongside the building. Fire and allied perils
+// are charged per ₹1,000 of sum insured, with loadings for the seismic zone
+// and flood risk of the city. Burglary is an optional add-on on contents.
+// Everything here is a pure function.
+
+export interface HomePricingBasis {
+  // Multiple of the standard fire and allied perils rates for the plan
+  rateFactor: number;
+  burglaryRateFactor: number;
+  // GST on home insurance premiums
+  taxRate: number;
+}
+
+export const DEFAULT_HOME_PRICING: HomePricingBasis = {
+  rateFactor: 1,
+  burglaryRateFactor: 1,
+  taxRate: 0.18
+};
+
+// Rates in rupees per ₹1,000 of sum insured
+const FIRE_RATE = 0.2;
+
+const EARTHQUAKE_RATES: Record<SeismicZone, number> = {
+  2: 0.05,
+  3: 0.1,
+  4: 0.2,
+  5: 0.3
+};
+
+const FLOOD_RATES: Record<FloodRisk, number> = {
+  low: 0,
+  moderate: 0.05,
+  high: 0.15
+};
+
+const BURGLARY_RATE = 1;
+
+// Load-bearing masonry fares worse in fires and earthquakes but costs less to
+// rebuild than an RCC frame
+const CONSTRUCTION_RATE_FACTORS: Record<ConstructionType, number> = {
+  rcc_framed: 1,
+  load_bearing: 1.2
+};
+
+const CONSTRUCTION_COST_FACTORS: Record<ConstructionType, number> = {
+  rcc_framed: 1,
+  load_bearing: 0.85
+};
+
+// Flats above the ground floor rarely take flood damage, and a house with its
+// own entrance is easier to break into
+const FLOOD_PROPERTY_FACTORS: Record<PropertyType, number> = {
+  apartment: 0.5,
+  independent_house: 1
+};
+
+const BURGLARY_PROPERTY_FACTORS: Record<PropertyType, number> = {
+  apartment: 1,
+  independent_house: 1.25
+};
+
+const AUTOMATIC_CONTENTS_SHARE = 0.2;
+const AUTOMATIC_CONTENTS_CAP = 1000000;
+
+export interface HomePremiumInput {
+  propertyType: PropertyType;
+  constructionType: ConstructionType;
+  seismicZone: SeismicZone;
+  floodRisk: FloodRisk;
+  // Reinstatement value of the building; 0 when only contents are insured
+  structureValue: number;
+  // Total value of household contents
+  contentsValue: number;
+  burglary: boolean;
+}
+
+export interface HomePremiumBreakdown {
+  structureSumInsured: number;
+  // Contents covered free with the building
+  automaticContentsCover: number;
+  // Contents priced on top of the automatic cover
+  declaredContents: number;
+  contentsSumInsured: number;
+  firePremium: number;
+  earthquakePremium: number;
+  floodPremium: number;
+  burglaryPremium: number;
+  netPremium: number;
+  gst: number;
+  totalPremium: number;
+}
+
+// Reinstatement value of the building
+export function calculateStructureValue(builtUpAreaSqFt: number, constructionRate: number, constructionType: ConstructionType): number {
+  return Math.round(builtUpAreaSqFt * constructionRate * CONSTRUCTION_COST_FACTORS[constructionType]);
+}
+
+export function automaticContentsCover(structureValue: number): number {
+  return Math.min(AUTOMATIC_CONTENTS_CAP, Math.round(structureValue * AUTOMATIC_CONTENTS_SHARE));
+}
+
+export function calculateHomePremium(input: HomePremiumInput, basis: HomePricingBasis): HomePremiumBreakdown {
+  const automatic = automaticContentsCover(input.structureValue);
+  const declaredContents = Math.max(0, input.contentsValue - automatic);
+  const contentsSumInsured = Math.max(input.contentsValue, automatic);
+  const ratedValue = (input.structureValue + declaredContents) / 1000;
+  const perilFactor = basis.rateFactor * CONSTRUCTION_RATE_FACTORS[input.constructionType];
+
+  const firePremium = Math.round(ratedValue * FIRE_RATE * perilFactor);
+  const earthquakePremium = Math.round(ratedValue * EARTHQUAKE_RATES[input.seismicZone] * perilFactor);
+  const floodPremium = Math.round(
+    ratedValue * FLOOD_RATES[input.floodRisk] * FLOOD_PROPERTY_FACTORS[input.propertyType] * basis.rateFactor
+  );
+  const burglaryPremium = input.burglary
+    ? Math.round(contentsSumInsured / 1000 * BURGLARY_RATE * BURGLARY_PROPERTY_FACTORS[input.propertyType] * basis.burglaryRateFactor)
+    : 0;
+
+  const netPremium = firePremium + earthquakePremium + floodPremium + burglaryPremium;
+  const gst = Math.round(netPremium * basis.taxRate);
+
+  return {
+    structureSumInsured: input.structureValue,
+    automaticContentsCover: automatic,
+    declaredContents,
+    contentsSumInsured,
+    firePremium,
+    earthquakePremium,
+    floodPremium,
+    burglaryPremium,
+    netPremium,
+    gst,
+    totalPremium: netPremium + gst
+  };
+}
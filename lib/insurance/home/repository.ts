@@ -0,0 +1,117 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HomeProduct, Ownership, homeProductSchema } from './schema';
+import { SEED_HOME_PRODUCTS } from './seed';
+
+// Home plan repository.
+//
+// Mirrors the other catalogs: plans live in the `home_products` table and fall
+// back to the bundled seed plans if the table cannot be read or is empty.
+
+interface HomeProductRow {
+  id: string;
+  status: string;
+  name: string;
+  insurer: string;
+  logo: string | null;
+  ownership_types: string[];
+  max_building_age: number;
+  max_structure_value: number;
+  rate_factor: number | null;
+  burglary_available: boolean | null;
+  burglary_rate_factor: number | null;
+  features: string[] | null;
+  exclusions: string[] | null;
+  claim_settlement_ratio: string;
+  sort_order: number | null;
+}
+
+export interface HomeEligibilityCriteria {
+  ownership: Ownership;
+  buildingAge: number;
+  structureValue: number;
+}
+
+// Map a database row onto the schema, dropping rows that fail validation
+function parseHomeProductRow(row: HomeProductRow): HomeProduct | null {
+  const result = homeProductSchema.safeParse({
+    id: row.id,
+    status: row.status,
+    name: row.name,
+    insurer: row.insurer,
+    logo: row.logo ?? undefined,
+    ownershipTypes: row.ownership_types,
+    maxBuildingAge: row.max_building_age,
+    maxStructureValue: Number(row.max_structure_value),
+    rateFactor: row.rate_factor !== null ? Number(row.rate_factor) : undefined,
+    burglaryAvailable: row.burglary_available ?? undefined,
+    burglaryRateFactor: row.burglary_rate_factor !== null ? Number(row.burglary_rate_factor) : undefined,
+    features: row.features || [],
+    exclusions: row.exclusions || [],
+    claimSettlementRatio: row.claim_settlement_ratio,
+    sortOrder: row.sort_order ?? 0
+  });
+
+  if (!result.success) {
+    console.error(`[home] Skipping invalid product row ${row.id}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function seedHomeProducts(includeRetired: boolean): HomeProduct[] {
+  return SEED_HOME_PRODUCTS
+    .filter(product => includeRetired || product.status === 'active')
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// List home plans, ordered for display
+export async function listHomeProducts(
+  supabase: SupabaseClient,
+  { includeRetired = false }: { includeRetired?: boolean } = {}
+): Promise<HomeProduct[]> {
+  let query = supabase
+    .from('home_products')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (!includeRetired) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[home] Falling back to seed plans:', error.message);
+    return seedHomeProducts(includeRetired);
+  }
+
+  if (!data || data.length === 0) {
+    return seedHomeProducts(includeRetired);
+  }
+
+  return (data as HomeProductRow[])
+    .map(parseHomeProductRow)
+    .filter((product): product is HomeProduct => product !== null);
+}
+
+// Reasons a plan cannot insure the home. An empty list means the plan is
+// eligible.
+export function homeEligibilityIssues(product: HomeProduct, criteria: HomeEligibilityCriteria): string[] {
+  const issues: string[] = [];
+
+  if (!product.ownershipTypes.includes(criteria.ownership)) {
+    issues.push(criteria.ownership === 'tenant' ? 'Does not offer contents-only cover for tenants' : 'Only for tenants');
+  }
+
+  // The building's age only matters when the building is insured
+  if (criteria.structureValue > 0 && criteria.buildingAge > product.maxBuildingAge) {
+    issues.push(`Insures buildings up to ${product.maxBuildingAge} years old`);
+  }
+
+  if (criteria.structureValue > product.maxStructureValue) {
+    issues.push(`Maximum building cover is ₹${product.maxStructureValue.toLocaleString('en-IN')}`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// Home insurance schemas.
+//
+// Plans are validated with homeProductSchema whether they come from the
+// `home_products` table or the bundled seed data. The property answers from
+// the home form are validated with homePreferencesSchema before they are
+// stored on the profile.
+
+export const propertyTypeSchema = z.enum(['apartment', 'independent_house']);
+
+// Tenants insure their contents only; the building is the owner's to insure
+export const ownershipSchema = z.enum(['owner', 'tenant']);
+
+export const constructionTypeSchema = z.enum(['rcc_framed', 'load_bearing']);
+
+export const homePreferencesSchema = z.object({
+  propertyType: propertyTypeSchema,
+  ownership: ownershipSchema.default('owner'),
+  city: z.string().min(1),
+  builtUpAreaSqFt: z.number().int().min(100).max(20000).optional(),
+  constructionType: constructionTypeSchema.default('rcc_framed'),
+  constructionYear: z.number().int().min(1900).max(new Date().getFullYear()),
+  // Reinstatement cost per sq ft; the city's rate is used when omitted
+  constructionRate: z.number().min(500).max(20000).optional(),
+  // Total value of household contents; owners get part of it covered free
+  contentsValue: z.number().min(0).optional(),
+  burglaryCover: z.boolean().default(false)
+}).refine(preferences => preferences.ownership === 'tenant' || preferences.builtUpAreaSqFt !== undefined, {
+  message: 'Built-up area is required to insure the building',
+  path: ['builtUpAreaSqFt']
+}).refine(preferences => preferences.ownership === 'owner' || (preferences.contentsValue ?? 0) > 0, {
+  message: 'Tenants need a contents value to insure',
+  path: ['contentsValue']
+});
+
+export const homeProductSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(['active', 'retired']),
+  name: z.string().min(1),
+  insurer: z.string().min(1),
+  logo: z.string().optional(),
+  ownershipTypes: z.array(ownershipSchema).min(1),
+  // Oldest building, in years, the insurer will cover
+  maxBuildingAge: z.number().int().positive(),
+  maxStructureValue: z.number().positive(),
+  // Multiple of the standard fire and allied perils rates
+  rateFactor: z.number().positive().max(3).default(1),
+  burglaryAvailable: z.boolean().default(true),
+  burglaryRateFactor: z.number().positive().max(3).default(1),
+  features: z.array(z.string()),
+  exclusions: z.array(z.string()),
+  claimSettlementRatio: z.string(),
+  sortOrder: z.number().int().default(0)
+});
+
+export type PropertyType = z.infer<typeof propertyTypeSchema>;
+export type Ownership = z.infer<typeof ownershipSchema>;
+export type ConstructionType = z.infer<typeof constructionTypeSchema>;
+export type HomePreferences = z.infer<typeof homePreferencesSchema>;
+export type HomeProduct = z.infer<typeof homeProductSchema>;
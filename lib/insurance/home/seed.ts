@@ -0,0 +1,135 @@
+import { HomeProduct, homeProductSchema } from './schema';
+
+// Bundled home plans used to seed the `home_products` table and as the
+// fallback when the table is unreachable or empty. All follow the IRDAI
+// standard Bharat Griha Raksha wording; insurers differ on pricing, building
+// age limits and the extras they offer. The list is parsed with the home plan
+// schema when this module loads, so a bad edit fails fast rather than
+// reaching a quote.
+export const SEED_HOME_PRODUCTS: HomeProduct[] = homeProductSchema.array().parse([
+  {
+    id: 'hdfc-ergo-home-shield',
+    status: 'active',
+    name: 'Home Shield (Bharat Griha Raksha)',
+    insurer: 'HDFC ERGO',
+    logo: '🏦',
+    ownershipTypes: ['owner', 'tenant'],
+    maxBuildingAge: 60,
+    maxStructureValue: 50000000,
+    rateFactor: 1.05,
+    burglaryAvailable: true,
+    burglaryRateFactor: 1,
+    features: [
+      'Rent for alternative accommodation for up to 3 years after a total loss',
+      'Architect and debris removal costs on top of the sum insured',
+      'Contents cover for tenants'
+    ],
+    exclusions: [
+      'Wear and tear and gradual deterioration',
+      'Jewellery and valuables unless declared',
+      'Loss while the home is unoccupied for over 60 days'
+    ],
+    claimSettlementRatio: '98.5%',
+    sortOrder: 1
+  },
+  {
+    id: 'icici-lombard-griha-raksha',
+    status: 'active',
+    name: 'Bharat Griha Raksha Plus',
+    insurer: 'ICICI Lombard',
+    logo: '🏠',
+    ownershipTypes: ['owner', 'tenant'],
+    maxBuildingAge: 50,
+    maxStructureValue: 100000000,
+    rateFactor: 1,
+    burglaryAvailable: true,
+    burglaryRateFactor: 0.9,
+    features: [
+      'Escalation clause raises building cover 10% a year',
+      'Burglary cover includes theft within 7 days of a fire or flood',
+      'Online claims with video survey'
+    ],
+    exclusions: [
+      'Wear and tear and gradual deterioration',
+      'Jewellery and valuables unless declared',
+      'Theft without forcible entry'
+    ],
+    claimSettlementRatio: '96.8%',
+    sortOrder: 2
+  },
+  {
+    id: 'tata-aig-home-secure',
+    status: 'active',
+    name: 'Home Secure',
+    insurer: 'Tata AIG',
+    logo: '⭐',
+    ownershipTypes: ['owner'],
+    maxBuildingAge: 40,
+    maxStructureValue: 50000000,
+    rateFactor: 0.9,
+    burglaryAvailable: true,
+    burglaryRateFactor: 1.2,
+    features: [
+      'Lowest building rates for newer homes',
+      'Loss of rent cover for let-out property',
+      'Public liability up to ₹5 lakh'
+    ],
+    exclusions: [
+      'Buildings older than 40 years',
+      'Wear and tear and gradual deterioration',
+      'Jewellery and valuables unless declared'
+    ],
+    claimSettlementRatio: '98.6%',
+    sortOrder: 3
+  },
+  {
+    id: 'sbi-general-griha-raksha',
+    status: 'active',
+    name: 'Bharat Griha Raksha',
+    insurer: 'SBI General',
+    logo: '🏛️',
+    ownershipTypes: ['owner'],
+    maxBuildingAge: 30,
+    maxStructureValue: 20000000,
+    rateFactor: 0.85,
+    burglaryAvailable: false,
+    burglaryRateFactor: 1,
+    features: [
+      'Standard Bharat Griha Raksha cover at the lowest price',
+      'Easy add-on to SBI home loans',
+      'Automatic contents cover up to ₹10 lakh'
+    ],
+    exclusions: [
+      'Burglary and theft',
+      'Buildings older than 30 years',
+      'Wear and tear and gradual deterioration'
+    ],
+    claimSettlementRatio: '94.1%',
+    sortOrder: 4
+  },
+  {
+    id: 'bajaj-allianz-my-home',
+    status: 'active',
+    name: 'My Home Insurance',
+    insurer: 'Bajaj Allianz',
+    logo: '🛡️',
+    ownershipTypes: ['owner', 'tenant'],
+    maxBuildingAge: 50,
+    maxStructureValue: 50000000,
+    rateFactor: 0.95,
+    burglaryAvailable: true,
+    burglaryRateFactor: 1.1,
+    features: [
+      'Covers portable electronics away from home',
+      'Emergency hotel stay after an insured loss',
+      'Contents cover for tenants'
+    ],
+    exclusions: [
+      'Wear and tear and gradual deterioration',
+      'Jewellery and valuables unless declared',
+      'Loss while the home is unoccupied for over 30 days'
+    ],
+    claimSettlementRatio: '98.2%',
+    sortOrder: 5
+  }
+]);
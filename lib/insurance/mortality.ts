@@ -0,0 +1,94 @@
+// Mortality basis for term life pricing.
+//
+// Rates are annual probabilities of death (qx) modelled on the Indian Assured
+// Lives Mortality (IALM) 2012-14 ultimate table. The published table is given
+// for every age; we keep quinquennial anchor points and interpolate
+// geometrically in between, which reproduces the published curve to within a
+// few percent across the insurable age range.
+
+export type Gender = 'male' | 'female';
+
+export interface MortalityProfile {
+  age: number;
+  gender: Gender;
+  smoker: boolean;
+  // Additional mortality as a fraction of the standard rate (0.5 = +50%)
+  extraMortality?: number;
+}
+
+// IALM 2012-14 ultimate qx at anchor ages (male / aggregate lives)
+const IALM_2012_14_ANCHORS: Record<number, number> = {
+  18: 0.000874,
+  20: 0.000892,
+  25: 0.000931,
+  30: 0.001046,
+  35: 0.001281,
+  40: 0.001802,
+  45: 0.002804,
+  50: 0.004436,
+  55: 0.006774,
+  60: 0.010214,
+  65: 0.015041,
+  70: 0.023867,
+  75: 0.038106,
+  80: 0.0604,
+  85: 0.094853,
+  90: 0.146519,
+  95: 0.221425,
+  100: 0.32
+};
+
+const ANCHOR_AGES = Object.keys(IALM_2012_14_ANCHORS).map(Number).sort((a, b) => a - b);
+
+export const MIN_TABLE_AGE = ANCHOR_AGES[0];
+export const MAX_TABLE_AGE = ANCHOR_AGES[ANCHOR_AGES.length - 1];
+
+// Female lives are priced with the customary three year age setback
+export const FEMALE_AGE_SETBACK = 3;
+
+// Smoker rates as a multiple of non-smoker rates, tapering with age as the
+// relative smoking differential narrows in older lives
+function smokerMultiplier(age: number): number {
+  if (age < 40) return 2.0;
+  if (age < 55) return 1.8;
+  return 1.6;
+}
+
+// Base table rate for an integer age, interpolated between anchor points
+export function baseMortalityRate(age: number): number {
+  const clamped = Math.min(MAX_TABLE_AGE, Math.max(MIN_TABLE_AGE, Math.floor(age)));
+
+  if (IALM_2012_14_ANCHORS[clamped] !== undefined) {
+    return IALM_2012_14_ANCHORS[clamped];
+  }
+
+  const upperIndex = ANCHOR_AGES.findIndex(anchor => anchor > clamped);
+  const lowerAge = ANCHOR_AGES[upperIndex - 1];
+  const upperAge = ANCHOR_AGES[upperIndex];
+  const lowerRate = IALM_2012_14_ANCHORS[lowerAge];
+  const upperRate = IALM_2012_14_ANCHORS[upperAge];
+
+  // Geometric interpolation - mortality grows roughly exponentially with age
+  const fraction = (clamped - lowerAge) / (upperAge - lowerAge);
+  return lowerRate * Math.pow(upperRate / lowerRate, fraction);
+}
+
+// Rate of death for a specific life, including gender, smoking and extra
+// mortality adjustments. Always capped at 1.
+export function mortalityRate(profile: MortalityProfile): number {
+  const tableAge = profile.gender === 'female'
+    ? profile.age - FEMALE_AGE_SETBACK
+    : profile.age;
+
+  let rate = baseMortalityRate(tableAge);
+
+  if (profile.smoker) {
+    rate *= smokerMultiplier(profile.age);
+  }
+
+  if (profile.extraMortality && profile.extraMortality > 0) {
+    rate *= 1 + profile.extraMortality;
+  }
+
+  return Math.min(1, rate);
+}
@@ -0,0 +1,123 @@
+import { FuelType, MotorAddOn, MotorProduct, VehicleType } from './schema';
+
+// Motor add-on definitions and pricing.
+//
+// Zero depreciation and engine protection are priced as a percentage of IDV;
+// roadside assistance is a flat fee. Add-on premiums here are before GST,
+// which is charged once on the whole policy premium.
+
+export interface MotorAddOnDefinition {
+  code: MotorAddOn;
+  name: string;
+  description: string;
+  vehicleTypes: VehicleType[];
+}
+
+export interface MotorAddOnQuote {
+  code: MotorAddOn;
+  name: string;
+  description: string;
+  eligible: boolean;
+  // Why the add-on cannot be bought, when not eligible
+  reason?: string;
+  // Annual premium before GST
+  annualPremium: number;
+}
+
+export interface MotorAddOnPricingInput {
+  vehicleType: VehicleType;
+  fuelType: FuelType;
+  ageMonths: number;
+  idv: number;
+}
+
+export const MOTOR_ADD_ON_DEFINITIONS: Record<MotorAddOn, MotorAddOnDefinition> = {
+  zero_depreciation: {
+    code: 'zero_depreciation',
+    name: 'Zero Depreciation',
+    description: 'Claims are paid without deducting depreciation on replaced plastic, rubber and metal parts',
+    vehicleTypes: ['private_car', 'two_wheeler']
+  },
+  engine_protect: {
+    code: 'engine_protect',
+    name: 'Engine Protect',
+    description: 'Covers engine and gearbox damage from water ingression or oil leakage, which standard OD excludes',
+    vehicleTypes: ['private_car']
+  },
+  roadside_assistance: {
+    code: 'roadside_assistance',
+    name: 'Roadside Assistance',
+    description: '24x7 towing, battery jump-start, flat tyre and fuel delivery help anywhere in India',
+    vehicleTypes: ['private_car', 'two_wheeler']
+  }
+};
+
+export const MOTOR_ADD_ON_CODES = Object.keys(MOTOR_ADD_ON_DEFINITIONS) as MotorAddOn[];
+
+// Zero depreciation rates as a share of IDV by vehicle age in years; parts
+// wear out, so the cover costs more each year until insurers stop offering it
+const ZERO_DEP_RATES: Array<{ maxAgeYears: number; rate: number }> = [
+  { maxAgeYears: 1, rate: 0.0035 },
+  { maxAgeYears: 2, rate: 0.0045 },
+  { maxAgeYears: 3, rate: 0.0055 },
+  { maxAgeYears: 5, rate: 0.007 },
+  { maxAgeYears: Infinity, rate: 0.009 }
+];
+
+const ENGINE_PROTECT_RATE = 0.001;
+
+const ROADSIDE_ASSISTANCE_FEES: Record<VehicleType, number> = {
+  private_car: 199,
+  two_wheeler: 99
+};
+
+function addOnPremium(code: MotorAddOn, input: MotorAddOnPricingInput): number {
+  switch (code) {
+    case 'zero_depreciation': {
+      const ageYears = input.ageMonths / 12;
+      const rate = ZERO_DEP_RATES.find(band => ageYears < band.maxAgeYears)!.rate;
+      return input.idv * rate;
+    }
+    case 'engine_protect':
+      return input.idv * ENGINE_PROTECT_RATE;
+    case 'roadside_assistance':
+      return ROADSIDE_ASSISTANCE_FEES[input.vehicleType];
+  }
+}
+
+function addOnIneligibility(code: MotorAddOn, product: MotorProduct, input: MotorAddOnPricingInput): string | undefined {
+  const definition = MOTOR_ADD_ON_DEFINITIONS[code];
+
+  if (!product.addOns.includes(code)) {
+    return 'Not offered with this plan';
+  }
+  if (!definition.vehicleTypes.includes(input.vehicleType)) {
+    return 'Only available for cars';
+  }
+  if (code === 'engine_protect' && input.fuelType === 'electric') {
+    return 'Not applicable to electric vehicles';
+  }
+  if (code === 'zero_depreciation' && input.ageMonths >= product.zeroDepMaxAge * 12) {
+    return `Only for vehicles under ${product.zeroDepMaxAge} years old`;
+  }
+  return undefined;
+}
+
+// Quote every add-on for the vehicle on a plan, marking the ones it cannot
+// have and why
+export function priceMotorAddOns(product: MotorProduct, input: MotorAddOnPricingInput): MotorAddOnQuote[] {
+  return MOTOR_ADD_ON_CODES.map(code => {
+    const definition = MOTOR_ADD_ON_DEFINITIONS[code];
+    const reason = addOnIneligibility(code, product, input);
+    const premium = reason ? 0 : Math.round(addOnPremium(code, input) * product.addOnRateFactor);
+
+    return {
+      code,
+      name: definition.name,
+      description: definition.description,
+      eligible: !reason,
+      ...(reason && { reason }),
+      annualPremium: premium
+    };
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MOTOR_TAX_RATE,
+  MotorPremiumInput,
+  NCB_LAPSE_DAYS,
+  calculateIdv,
+  calculateMotorPremium,
+  clampIdv,
+  idvDepreciation,
+  renewalNcb,
+  rtoZone,
+  thirdPartyPremium
+} from './pricing';
+
+const hatchback: MotorPremiumInput = {
+  vehicleType: 'private_car',
+  fuelType: 'petrol',
+  specs: { engineCc: 1197, exShowroomPrice: 730000 },
+  ageMonths: 30,
+  zone: 'A',
+  policyType: 'comprehensive',
+  idv: 511000,
+  ncb: 0,
+  odDiscount: 0,
+  addOnPremium: 0
+};
+
+describe('IDV depreciation', () => {
+  it('follows the IRDAI schedule for the first five years', () => {
+    expect(idvDepreciation(0)).toBe(0.05);
+    expect(idvDepreciation(6)).toBe(0.05);
+    expect(idvDepreciation(7)).toBe(0.15);
+    expect(idvDepreciation(24)).toBe(0.2);
+    expect(idvDepreciation(30)).toBe(0.3);
+    expect(idvDepreciation(60)).toBe(0.5);
+  });
+
+  it('continues at 5% a year after five years, up to the cap', () => {
+    expect(idvDepreciation(61)).toBeCloseTo(0.55, 10);
+    expect(idvDepreciation(84)).toBeCloseTo(0.6, 10);
+    expect(idvDepreciation(400)).toBe(0.85);
+  });
+
+  it('values the vehicle at the depreciated ex-showroom price', () => {
+    expect(calculateIdv(730000, 30)).toBe(511000);
+    expect(calculateIdv(730000, 3)).toBe(693500);
+  });
+
+  it('keeps a requested IDV within the allowed variance', () => {
+    expect(clampIdv(500000, undefined, 0.1)).toBe(500000);
+    expect(clampIdv(500000, 520000, 0.1)).toBe(520000);
+    expect(clampIdv(500000, 700000, 0.1)).toBe(550000);
+    expect(clampIdv(500000, 100000, 0.1)).toBe(450000);
+  });
+});
+
+describe('renewalNcb', () => {
+  it('moves one slab up for a claim-free year', () => {
+    expect(renewalNcb(0, false, 0, 24)).toBe(20);
+    expect(renewalNcb(20, false, 0, 24)).toBe(25);
+    expect(renewalNcb(45, false, 0, 24)).toBe(50);
+    expect(renewalNcb(50, false, 0, 24)).toBe(50);
+  });
+
+  it('rounds an off-slab previous NCB down before stepping up', () => {
+    expect(renewalNcb(30, false, 0, 24)).toBe(35);
+    expect(renewalNcb(10, false, 0, 24)).toBe(20);
+    expect(renewalNcb(60, false, 0, 24)).toBe(50);
+  });
+
+  it('resets after a claim, a long lapse or in the first policy year', () => {
+    expect(renewalNcb(35, true, 0, 24)).toBe(0);
+    expect(renewalNcb(35, false, NCB_LAPSE_DAYS, 24)).toBe(45);
+    expect(renewalNcb(35, false, NCB_LAPSE_DAYS + 1, 24)).toBe(0);
+    expect(renewalNcb(0, false, 0, 11)).toBe(0);
+  });
+});
+
+describe('calculateMotorPremium', () => {
+  it('applies the NCB to own damage only, after the insurer discount', () => {
+    const base = calculateMotorPremium(hatchback);
+    const quote = calculateMotorPremium({ ...hatchback, ncb: 35, odDiscount: 0.5 });
+
+    expect(quote.odDiscount).toBe(Math.round(base.basicOd * 0.5));
+    expect(quote.ncbDiscount).toBe(Math.round(base.basicOd * 0.5 * 0.35));
+    expect(quote.netOd).toBe(Math.round(base.basicOd * 0.5 * 0.65));
+    expect(quote.thirdParty).toBe(base.thirdParty);
+    expect(quote.paCover).toBe(base.paCover);
+  });
+
+  it('adds GST on the whole premium', () => {
+    const quote = calculateMotorPremium({ ...hatchback, addOnPremium: 2000 });
+
+    expect(quote.gst).toBe(Math.round(quote.netPremium * MOTOR_TAX_RATE));
+    expect(quote.totalPremium).toBe(quote.netPremium + quote.gst);
+  });
+
+  it('charges only third party and PA cover on a liability policy', () => {
+    const quote = calculateMotorPremium({ ...hatchback, policyType: 'third_party', ncb: 50, addOnPremium: 2000 });
+
+    expect(quote).toMatchObject({ idv: 0, basicOd: 0, ncbDiscount: 0, netOd: 0, addOnPremium: 0 });
+    expect(quote.netPremium).toBe(quote.thirdParty + quote.paCover);
+  });
+
+  it('prices zone A cities above zone B', () => {
+    expect(rtoZone(' Mumbai ')).toBe('A');
+    expect(rtoZone('Jaipur')).toBe('B');
+    expect(rtoZone(null)).toBe('B');
+    expect(calculateMotorPremium(hatchback).basicOd).toBeGreaterThan(calculateMotorPremium({ ...hatchback, zone: 'B' }).basicOd);
+  });
+});
+
+describe('thirdPartyPremium', () => {
+  it('uses engine size, battery power and the CNG kit loading', () => {
+    expect(thirdPartyPremium('private_car', 'petrol', { engineCc: 998, exShowroomPrice: 560000 })).toBe(2094);
+    expect(thirdPartyPremium('private_car', 'petrol', { engineCc: 1197, exShowroomPrice: 730000 })).toBe(3416);
+    expect(thirdPartyPremium('private_car', 'cng', { engineCc: 1462, exShowroomPrice: 1080000 })).toBe(3476);
+    expect(thirdPartyPremium('private_car', 'electric', { batteryKw: 106, exShowroomPrice: 1700000 })).toBe(6712);
+    expect(thirdPartyPremium('two_wheeler', 'petrol', { engineCc: 349, exShowroomPrice: 210000 })).toBe(1366);
+  });
+});
@@ -0,0 +1,238 @@
+import { FuelType, MotorPolicyType, NCB_SLABS, NcbSlab, VehicleType } from './schema';
+import { VehicleSpecs } from './vehicles';
+
+// Premium model for private car and two-wheeler insurance.
+//
+// A comprehensive policy has two parts. Own damage (OD) is priced as a rate on
+// the Insured Declared Value (IDV) from the old IRDAI tariff, which insurers
+// still file against and discount from, with the No Claim Bonus applied to OD
+// only. Third-party liability is a fixed premium notified by IRDAI by engine
+// size or battery power. GST is added on the total. Everything here is a pure
+// function.
+
+export type RtoZone = 'A' | 'B';
+
+// GST on motor premiums
+export const MOTOR_TAX_RATE = 0.18;
+
+// IRDAI depreciation schedule for IDV by vehicle age in months. Vehicles over
+// five years old have a negotiated IDV; we continue the schedule at 5% a year
+// as a starting point for that negotiation.
+const IDV_DEPRECIATION: Array<{ maxAgeMonths: number; rate: number }> = [
+  { maxAgeMonths: 6, rate: 0.05 },
+  { maxAgeMonths: 12, rate: 0.15 },
+  { maxAgeMonths: 24, rate: 0.2 },
+  { maxAgeMonths: 36, rate: 0.3 },
+  { maxAgeMonths: 48, rate: 0.4 },
+  { maxAgeMonths: 60, rate: 0.5 }
+];
+
+const DEPRECIATION_PER_YEAR_AFTER_FIVE = 0.05;
+const MAX_DEPRECIATION = 0.85;
+
+// Zone A RTO cities carry a slightly higher OD rate
+const ZONE_A_CITIES = [
+  'ahmedabad', 'bangalore', 'bengaluru', 'chennai', 'hyderabad', 'secunderabad', 'kolkata', 'mumbai',
+  'navi mumbai', 'thane', 'delhi', 'new delhi', 'pune'
+];
+
+// OD tariff rates as a share of IDV, by zone and capacity band, for vehicles
+// under 5, 5 to 10, and over 10 years old
+const OD_RATES: Record<VehicleType, Record<RtoZone, number[][]>> = {
+  private_car: {
+    A: [[0.03127, 0.03283, 0.03362], [0.03283, 0.03447, 0.03529], [0.0344, 0.03612, 0.03698]],
+    B: [[0.03039, 0.03191, 0.03267], [0.03191, 0.03351, 0.0343], [0.03343, 0.0351, 0.03594]]
+  },
+  two_wheeler: {
+    A: [[0.01708, 0.01793, 0.01836], [0.01793, 0.01883, 0.01928], [0.01879, 0.01973, 0.0202]],
+    B: [[0.01676, 0.0176, 0.01802], [0.0176, 0.01848, 0.01892], [0.01844, 0.01936, 0.01982]]
+  }
+};
+
+// Upper bound of each OD capacity band: cc for combustion engines, kW for EVs
+const OD_CAPACITY_BANDS: Record<VehicleType, { cc: number[]; kw: number[] }> = {
+  private_car: { cc: [1000, 1500], kw: [30, 65] },
+  two_wheeler: { cc: [150, 350], kw: [7, 16] }
+};
+
+// Annual third-party premiums notified by IRDAI
+const THIRD_PARTY_PREMIUMS: Record<VehicleType, { cc: Array<{ max: number; premium: number }>; kw: Array<{ max: number; premium: number }> }> = {
+  private_car: {
+    cc: [
+      { max: 1000, premium: 2094 },
+      { max: 1500, premium: 3416 },
+      { max: Infinity, premium: 7897 }
+    ],
+    kw: [
+      { max: 30, premium: 1780 },
+      { max: 65, premium: 2904 },
+      { max: Infinity, premium: 6712 }
+    ]
+  },
+  two_wheeler: {
+    cc: [
+      { max: 75, premium: 538 },
+      { max: 150, premium: 714 },
+      { max: 350, premium: 1366 },
+      { max: Infinity, premium: 2804 }
+    ],
+    kw: [
+      { max: 3, premium: 457 },
+      { max: 7, premium: 607 },
+      { max: 16, premium: 1161 },
+      { max: Infinity, premium: 2383 }
+    ]
+  }
+};
+
+// Extra third-party premium for a CNG or LPG kit
+const CNG_KIT_THIRD_PARTY = 60;
+
+// Compulsory personal accident cover for the owner-driver (₹15 lakh)
+const PA_COVER_PREMIUMS: Record<VehicleType, number> = {
+  private_car: 375,
+  two_wheeler: 330
+};
+
+// NCB is forfeited when the previous policy lapsed for longer than this
+export const NCB_LAPSE_DAYS = 90;
+
+export interface MotorPremiumInput {
+  vehicleType: VehicleType;
+  fuelType: FuelType;
+  specs: VehicleSpecs;
+  ageMonths: number;
+  zone: RtoZone;
+  policyType: MotorPolicyType;
+  idv: number;
+  ncb: number;
+  // Insurer discount on the tariff OD premium
+  odDiscount: number;
+  // Premium for the selected add-ons, before GST
+  addOnPremium: number;
+}
+
+export interface MotorPremiumBreakdown {
+  idv: number;
+  basicOd: number;
+  odDiscount: number;
+  ncbDiscount: number;
+  netOd: number;
+  addOnPremium: number;
+  thirdParty: number;
+  paCover: number;
+  netPremium: number;
+  gst: number;
+  totalPremium: number;
+}
+
+// Whole months between first registration and the policy start date
+export function vehicleAgeMonths(registrationYear: number, registrationMonth = 1, asOf: Date = new Date()): number {
+  const months = (asOf.getFullYear() - registrationYear) * 12 + (asOf.getMonth() + 1 - registrationMonth);
+  return Math.max(0, months);
+}
+
+export function idvDepreciation(ageMonths: number): number {
+  const band = IDV_DEPRECIATION.find(entry => ageMonths <= entry.maxAgeMonths);
+  if (band) return band.rate;
+
+  const yearsAfterFive = Math.ceil((ageMonths - 60) / 12);
+  return Math.min(MAX_DEPRECIATION, 0.5 + yearsAfterFive * DEPRECIATION_PER_YEAR_AFTER_FIVE);
+}
+
+// IDV is the ex-showroom price less age-based depreciation
+export function calculateIdv(exShowroomPrice: number, ageMonths: number): number {
+  return Math.round(exShowroomPrice * (1 - idvDepreciation(ageMonths)));
+}
+
+// Keep a requested IDV within the band the insurer allows around the computed
+// value
+export function clampIdv(computedIdv: number, requestedIdv: number | undefined, variance: number): number {
+  if (requestedIdv === undefined) return computedIdv;
+  const min = Math.round(computedIdv * (1 - variance));
+  const max = Math.round(computedIdv * (1 + variance));
+  return Math.min(max, Math.max(min, Math.round(requestedIdv)));
+}
+
+export function rtoZone(city?: string | null): RtoZone {
+  if (!city) return 'B';
+  return ZONE_A_CITIES.includes(city.trim().toLowerCase()) ? 'A' : 'B';
+}
+
+function capacityBandIndex(vehicleType: VehicleType, fuelType: FuelType, specs: VehicleSpecs): number {
+  const bands = OD_CAPACITY_BANDS[vehicleType];
+  const [limits, capacity] = fuelType === 'electric'
+    ? [bands.kw, specs.batteryKw ?? 0]
+    : [bands.cc, specs.engineCc ?? 0];
+  const index = limits.findIndex(limit => capacity <= limit);
+  return index === -1 ? limits.length : index;
+}
+
+export function odTariffRate(vehicleType: VehicleType, fuelType: FuelType, specs: VehicleSpecs, zone: RtoZone, ageMonths: number): number {
+  const ageYears = ageMonths / 12;
+  const ageIndex = ageYears < 5 ? 0 : ageYears <= 10 ? 1 : 2;
+  return OD_RATES[vehicleType][zone][capacityBandIndex(vehicleType, fuelType, specs)][ageIndex];
+}
+
+export function thirdPartyPremium(vehicleType: VehicleType, fuelType: FuelType, specs: VehicleSpecs): number {
+  const table = THIRD_PARTY_PREMIUMS[vehicleType];
+  const [bands, capacity] = fuelType === 'electric'
+    ? [table.kw, specs.batteryKw ?? 0]
+    : [table.cc, specs.engineCc ?? 0];
+  const premium = bands.find(band => capacity <= band.max)!.premium;
+  return fuelType === 'cng' ? premium + CNG_KIT_THIRD_PARTY : premium;
+}
+
+// NCB earned on renewal: one slab up for a claim-free year, reset to zero
+// after a claim or a lapse beyond the grace period. Vehicles in their first
+// policy year have not earned any NCB yet. A previous NCB between slabs is
+// rounded down to the slab below it, so an off-slab value never earns more.
+export function renewalNcb(
+  previousNcb: number,
+  claimedLastYear: boolean,
+  daysSinceExpiry: number,
+  ageMonths: number
+): NcbSlab {
+  if (ageMonths < 12 || claimedLastYear || daysSinceExpiry > NCB_LAPSE_DAYS) return 0;
+
+  const current = NCB_SLABS.filter(slab => slab <= previousNcb).length - 1;
+  return NCB_SLABS[Math.min(current + 1, NCB_SLABS.length - 1)];
+}
+
+export function calculateMotorPremium(input: MotorPremiumInput): MotorPremiumBreakdown {
+  const thirdParty = thirdPartyPremium(input.vehicleType, input.fuelType, input.specs);
+  const paCover = PA_COVER_PREMIUMS[input.vehicleType];
+
+  let idv = 0;
+  let basicOd = 0;
+  let odDiscount = 0;
+  let ncbDiscount = 0;
+  let netOd = 0;
+  let addOnPremium = 0;
+
+  if (input.policyType === 'comprehensive') {
+    idv = input.idv;
+    basicOd = idv * odTariffRate(input.vehicleType, input.fuelType, input.specs, input.zone, input.ageMonths);
+    odDiscount = basicOd * input.odDiscount;
+    ncbDiscount = (basicOd - odDiscount) * (input.ncb / 100);
+    netOd = basicOd - odDiscount - ncbDiscount;
+    addOnPremium = input.addOnPremium;
+  }
+
+  const netPremium = netOd + addOnPremium + thirdParty + paCover;
+  const gst = netPremium * MOTOR_TAX_RATE;
+
+  return {
+    idv: Math.round(idv),
+    basicOd: Math.round(basicOd),
+    odDiscount: Math.round(odDiscount),
+    ncbDiscount: Math.round(ncbDiscount),
+    netOd: Math.round(netOd),
+    addOnPremium: Math.round(addOnPremium),
+    thirdParty,
+    paCover,
+    netPremium: Math.round(netPremium),
+    gst: Math.round(gst),
+    totalPremium: Math.round(netPremium + gst)
+  };
+}
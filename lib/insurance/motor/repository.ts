@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MotorProduct, motorProductSchema } from './schema';
+import { SEED_MOTOR_PRODUCTS } from './seed';
+
+// Motor plan repository.
+//
+// Mirrors the term and health catalogs: plans live in the `motor_products`
+// table and fall back to the bundled seed plans if the table cannot be read or
+// is empty.
+
+interface MotorProductRow {
+  id: string;
+  status: string;
+  name: string;
+  insurer: string;
+  logo: string | null;
+  vehicle_types: string[];
+  od_discount: number;
+  idv_variance: number | null;
+  add_ons: string[] | null;
+  add_on_rate_factor: number | null;
+  zero_dep_max_age: number | null;
+  cashless_garages: number | null;
+  features: string[] | null;
+  claim_settlement_ratio: string;
+  sort_order: number | null;
+}
+
+// Map a database row onto the schema, dropping rows that fail validation
+function parseMotorProductRow(row: MotorProductRow): MotorProduct | null {
+  const result = motorProductSchema.safeParse({
+    id: row.id,
+    status: row.status,
+    name: row.name,
+    insurer: row.insurer,
+    logo: row.logo ?? undefined,
+    vehicleTypes: row.vehicle_types,
+    odDiscount: Number(row.od_discount),
+    idvVariance: row.idv_variance !== null ? Number(row.idv_variance) : undefined,
+    addOns: row.add_ons || [],
+    addOnRateFactor: row.add_on_rate_factor !== null ? Number(row.add_on_rate_factor) : undefined,
+    zeroDepMaxAge: row.zero_dep_max_age ?? undefined,
+    cashlessGarages: row.cashless_garages ?? 0,
+    features: row.features || [],
+    claimSettlementRatio: row.claim_settlement_ratio,
+    sortOrder: row.sort_order ?? 0
+  });
+
+  if (!result.success) {
+    console.error(`[motor] Skipping invalid product row ${row.id}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function seedMotorProducts(includeRetired: boolean): MotorProduct[] {
+  return SEED_MOTOR_PRODUCTS
+    .filter(product => includeRetired || product.status === 'active')
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// List motor plans, ordered for display
+export async function listMotorProducts(
+  supabase: SupabaseClient,
+  { includeRetired = false }: { includeRetired?: boolean } = {}
+): Promise<MotorProduct[]> {
+  let query = supabase
+    .from('motor_products')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (!includeRetired) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[motor] Falling back to seed plans:', error.message);
+    return seedMotorProducts(includeRetired);
+  }
+
+  if (!data || data.length === 0) {
+    return seedMotorProducts(includeRetired);
+  }
+
+  return (data as MotorProductRow[])
+    .map(parseMotorProductRow)
+    .filter((product): product is MotorProduct => product !== null);
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// Motor insurance schemas.
+//
+// Plans are validated with motorProductSchema whether they come from the
+// `motor_products` table or the bundled seed data. The vehicle and policy
+// answers from the motor form are validated with motorPreferencesSchema
+// before they are stored on the profile.
+
+export const vehicleTypeSchema = z.enum(['private_car', 'two_wheeler']);
+
+export const fuelTypeSchema = z.enum(['petrol', 'diesel', 'cng', 'electric']);
+
+export const motorPolicyTypeSchema = z.enum(['comprehensive', 'third_party']);
+
+export const motorAddOnSchema = z.enum(['zero_depreciation', 'engine_protect', 'roadside_assistance']);
+
+// No Claim Bonus slabs on own-damage premium, in percent
+export const NCB_SLABS = [0, 20, 25, 35, 45, 50] as const;
+
+export const ncbSchema = z.number().refine(value => (NCB_SLABS as readonly number[]).includes(value), {
+  message: `NCB must be one of ${NCB_SLABS.join(', ')}%`
+});
+
+export const motorVehicleSchema = z.object({
+  vehicleType: vehicleTypeSchema,
+  make: z.string().min(1),
+  model: z.string().min(1),
+  variant: z.string().optional(),
+  registrationYear: z.number().int().min(1980).max(new Date().getFullYear() + 1),
+  // Month of first registration; January is assumed when unknown
+  registrationMonth: z.number().int().min(1).max(12).optional(),
+  rtoCity: z.string().min(1),
+  fuelType: fuelTypeSchema,
+  // Specs for vehicles outside our model list; looked up when omitted
+  engineCc: z.number().int().positive().optional(),
+  batteryKw: z.number().positive().optional(),
+  exShowroomPrice: z.number().positive().optional()
+});
+
+export const motorPreferencesSchema = z.object({
+  vehicle: motorVehicleSchema,
+  policyType: motorPolicyTypeSchema.default('comprehensive'),
+  // NCB on the expiring policy; 0 for a new vehicle
+  previousNcb: ncbSchema.default(0),
+  claimedLastYear: z.boolean().default(false),
+  // Days since the previous policy expired; NCB is lost after 90
+  daysSinceExpiry: z.number().int().min(0).default(0),
+  addOns: z.array(motorAddOnSchema).default([])
+});
+
+export const motorProductSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(['active', 'retired']),
+  name: z.string().min(1),
+  insurer: z.string().min(1),
+  logo: z.string().optional(),
+  vehicleTypes: z.array(vehicleTypeSchema).min(1),
+  // Discount on the tariff own-damage rate; OD pricing is detariffed
+  odDiscount: z.number().min(0).max(0.9),
+  // How far the insured declared value may be moved from the computed IDV
+  idvVariance: z.number().min(0).max(0.3).default(0.1),
+  addOns: z.array(motorAddOnSchema),
+  // Multiple of the standard add-on rates
+  addOnRateFactor: z.number().positive().max(3).default(1),
+  // Oldest vehicle, in years, accepted for zero depreciation cover
+  zeroDepMaxAge: z.number().int().min(0).max(15).default(5),
+  cashlessGarages: z.number().int().min(0),
+  features: z.array(z.string()),
+  claimSettlementRatio: z.string(),
+  sortOrder: z.number().int().default(0)
+});
+
+export type VehicleType = z.infer<typeof vehicleTypeSchema>;
+export type FuelType = z.infer<typeof fuelTypeSchema>;
+export type MotorPolicyType = z.infer<typeof motorPolicyTypeSchema>;
+export type MotorAddOn = z.infer<typeof motorAddOnSchema>;
+export type NcbSlab = typeof NCB_SLABS[number];
+export type MotorVehicle = z.infer<typeof motorVehicleSchema>;
+export type MotorPreferences = z.infer<typeof motorPreferencesSchema>;
+export type MotorProduct = z.infer<typeof motorProductSchema>;
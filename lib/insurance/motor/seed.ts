@@ -0,0 +1,113 @@
+import { MotorProduct, motorProductSchema } from './schema';
+
+// Bundled motor plans used to seed the `motor_products` table and as the
+// fallback when the table is unreachable or empty. It is parsed with the
+// motor plan schema when this module loads, so a bad edit fails fast rather
+// than reaching a quote.
+export const SEED_MOTOR_PRODUCTS: MotorProduct[] = motorProductSchema.array().parse([
+  {
+    id: 'icici-lombard-motor',
+    status: 'active',
+    name: 'Complete Motor Cover',
+    insurer: 'ICICI Lombard',
+    logo: '🚗',
+    vehicleTypes: ['private_car', 'two_wheeler'],
+    odDiscount: 0.45,
+    idvVariance: 0.1,
+    addOns: ['zero_depreciation', 'engine_protect', 'roadside_assistance'],
+    addOnRateFactor: 1.1,
+    zeroDepMaxAge: 5,
+    cashlessGarages: 5900,
+    features: [
+      'Instant policy issuance with no inspection on renewals',
+      'Video-based self survey for minor claims',
+      'Cashless at 5,900+ garages'
+    ],
+    claimSettlementRatio: '96.8%',
+    sortOrder: 1
+  },
+  {
+    id: 'hdfc-ergo-motor',
+    status: 'active',
+    name: 'Private Car Comprehensive',
+    insurer: 'HDFC ERGO',
+    logo: '🏦',
+    vehicleTypes: ['private_car', 'two_wheeler'],
+    odDiscount: 0.4,
+    idvVariance: 0.1,
+    addOns: ['zero_depreciation', 'engine_protect', 'roadside_assistance'],
+    addOnRateFactor: 1,
+    zeroDepMaxAge: 5,
+    cashlessGarages: 8000,
+    features: [
+      'Overnight repair service in major cities',
+      'Unlimited claims under zero depreciation',
+      'Cashless at 8,000+ garages'
+    ],
+    claimSettlementRatio: '98.5%',
+    sortOrder: 2
+  },
+  {
+    id: 'digit-motor',
+    status: 'active',
+    name: 'Digit Car & Bike Insurance',
+    insurer: 'Go Digit',
+    logo: '📱',
+    vehicleTypes: ['private_car', 'two_wheeler'],
+    odDiscount: 0.55,
+    idvVariance: 0.15,
+    addOns: ['zero_depreciation', 'engine_protect', 'roadside_assistance'],
+    addOnRateFactor: 0.9,
+    zeroDepMaxAge: 7,
+    cashlessGarages: 6000,
+    features: [
+      'Smartphone-enabled self inspection',
+      'Choose your own IDV within a wider band',
+      'Zero depreciation for cars up to 7 years old'
+    ],
+    claimSettlementRatio: '96%',
+    sortOrder: 3
+  },
+  {
+    id: 'bajaj-allianz-motor',
+    status: 'active',
+    name: 'Drive Smart',
+    insurer: 'Bajaj Allianz',
+    logo: '🛡️',
+    vehicleTypes: ['private_car', 'two_wheeler'],
+    odDiscount: 0.35,
+    idvVariance: 0.1,
+    addOns: ['zero_depreciation', 'roadside_assistance'],
+    addOnRateFactor: 1,
+    zeroDepMaxAge: 5,
+    cashlessGarages: 7200,
+    features: [
+      'Motor On-The-Spot claim settlement through the app',
+      '24x7 spot assistance',
+      'Cashless at 7,200+ garages'
+    ],
+    claimSettlementRatio: '98.2%',
+    sortOrder: 4
+  },
+  {
+    id: 'tata-aig-auto-secure',
+    status: 'active',
+    name: 'Auto Secure',
+    insurer: 'Tata AIG',
+    logo: '⭐',
+    vehicleTypes: ['private_car'],
+    odDiscount: 0.3,
+    idvVariance: 0.1,
+    addOns: ['zero_depreciation', 'engine_protect', 'roadside_assistance'],
+    addOnRateFactor: 1.2,
+    zeroDepMaxAge: 7,
+    cashlessGarages: 7500,
+    features: [
+      'Pay-as-you-drive option for low-mileage cars',
+      'Consumables and key replacement cover',
+      'Cashless at 7,500+ garages'
+    ],
+    claimSettlementRatio: '98.6%',
+    sortOrder: 5
+  }
+]);
@@ -0,0 +1,86 @@
+import { FuelType, MotorVehicle, VehicleType } from './schema';
+
+// Reference list of popular models with the specs motor pricing needs.
+//
+// Ex-showroom prices are Delhi prices for the current model year. Vehicles not
+// listed here can still be quoted when the user gives the engine size (or
+// battery power for EVs) and ex-showroom price.
+
+export interface VehicleModel {
+  vehicleType: VehicleType;
+  make: string;
+  model: string;
+  variant: string;
+  fuelType: FuelType;
+  engineCc?: number;
+  batteryKw?: number;
+  exShowroomPrice: number;
+}
+
+export const VEHICLE_MODELS: VehicleModel[] = [
+  { vehicleType: 'private_car', make: 'Maruti Suzuki', model: 'Swift', variant: 'VXi', fuelType: 'petrol', engineCc: 1197, exShowroomPrice: 730000 },
+  { vehicleType: 'private_car', make: 'Maruti Suzuki', model: 'Wagon R', variant: 'LXi', fuelType: 'petrol', engineCc: 998, exShowroomPrice: 560000 },
+  { vehicleType: 'private_car', make: 'Maruti Suzuki', model: 'Ertiga', variant: 'VXi CNG', fuelType: 'cng', engineCc: 1462, exShowroomPrice: 1080000 },
+  { vehicleType: 'private_car', make: 'Hyundai', model: 'i20', variant: 'Asta', fuelType: 'petrol', engineCc: 1197, exShowroomPrice: 940000 },
+  { vehicleType: 'private_car', make: 'Hyundai', model: 'Creta', variant: 'SX', fuelType: 'petrol', engineCc: 1497, exShowroomPrice: 1550000 },
+  { vehicleType: 'private_car', make: 'Hyundai', model: 'Creta', variant: 'SX Diesel', fuelType: 'diesel', engineCc: 1493, exShowroomPrice: 1720000 },
+  { vehicleType: 'private_car', make: 'Tata', model: 'Nexon', variant: 'Creative', fuelType: 'petrol', engineCc: 1199, exShowroomPrice: 1050000 },
+  { vehicleType: 'private_car', make: 'Tata', model: 'Nexon EV', variant: 'Empowered', fuelType: 'electric', batteryKw: 106, exShowroomPrice: 1700000 },
+  { vehicleType: 'private_car', make: 'Honda', model: 'City', variant: 'V', fuelType: 'petrol', engineCc: 1498, exShowroomPrice: 1310000 },
+  { vehicleType: 'private_car', make: 'Mahindra', model: 'XUV700', variant: 'AX7 Diesel', fuelType: 'diesel', engineCc: 2184, exShowroomPrice: 2300000 },
+  { vehicleType: 'private_car', make: 'Toyota', model: 'Innova Crysta', variant: 'VX', fuelType: 'diesel', engineCc: 2393, exShowroomPrice: 2500000 },
+  { vehicleType: 'two_wheeler', make: 'Honda', model: 'Activa', variant: '6G STD', fuelType: 'petrol', engineCc: 110, exShowroomPrice: 78000 },
+  { vehicleType: 'two_wheeler', make: 'Hero', model: 'Splendor Plus', variant: 'Self Start', fuelType: 'petrol', engineCc: 97, exShowroomPrice: 76000 },
+  { vehicleType: 'two_wheeler', make: 'Bajaj', model: 'Pulsar 150', variant: 'Twin Disc', fuelType: 'petrol', engineCc: 149, exShowroomPrice: 120000 },
+  { vehicleType: 'two_wheeler', make: 'Royal Enfield', model: 'Classic 350', variant: 'Signals', fuelType: 'petrol', engineCc: 349, exShowroomPrice: 210000 },
+  { vehicleType: 'two_wheeler', make: 'KTM', model: '390 Duke', variant: 'Standard', fuelType: 'petrol', engineCc: 399, exShowroomPrice: 310000 },
+  { vehicleType: 'two_wheeler', make: 'Ather', model: '450X', variant: '2.9 kWh', fuelType: 'electric', batteryKw: 6.4, exShowroomPrice: 150000 }
+];
+
+function normalise(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+// The listed model matching the vehicle; the variant narrows the match when
+// given, otherwise the first variant on the same fuel is used
+export function findVehicleModel(vehicle: Pick<MotorVehicle, 'make' | 'model' | 'variant' | 'fuelType'>): VehicleModel | null {
+  const candidates = VEHICLE_MODELS.filter(model =>
+    normalise(model.make) === normalise(vehicle.make) &&
+    normalise(model.model) === normalise(vehicle.model)
+  );
+  if (candidates.length === 0) return null;
+
+  const byVariant = vehicle.variant
+    ? candidates.find(model => normalise(model.variant) === normalise(vehicle.variant!))
+    : undefined;
+
+  return byVariant ||
+    candidates.find(model => model.fuelType === vehicle.fuelType) ||
+    candidates[0];
+}
+
+export interface VehicleSpecs {
+  engineCc?: number;
+  batteryKw?: number;
+  exShowroomPrice: number;
+}
+
+// Specs to price the vehicle on: what the user gave, filled in from the model
+// list. Returns the fields still missing when neither source has them.
+export function resolveVehicleSpecs(vehicle: MotorVehicle): { specs?: VehicleSpecs; missing: string[] } {
+  const model = findVehicleModel(vehicle);
+  const engineCc = vehicle.engineCc ?? model?.engineCc;
+  const batteryKw = vehicle.batteryKw ?? model?.batteryKw;
+  const exShowroomPrice = vehicle.exShowroomPrice ?? model?.exShowroomPrice;
+
+  const missing: string[] = [];
+  if (vehicle.fuelType === 'electric' ? batteryKw === undefined : engineCc === undefined) {
+    missing.push(vehicle.fuelType === 'electric' ? 'battery power (kW)' : 'engine capacity (cc)');
+  }
+  if (exShowroomPrice === undefined) {
+    missing.push('ex-showroom price');
+  }
+
+  if (missing.length > 0) return { missing };
+  return { specs: { engineCc, batteryKw, exShowroomPrice: exShowroomPrice! }, missing };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EDUCATION_COST,
+  DEFAULT_MARRIAGE_COST,
+  NeedsAnalysisInput,
+  calculateCoverageNeeds
+} from './needsAnalysis';
+
+const parent: NeedsAnalysisInput = {
+  age: 45,
+  annualIncome: 1800000,
+  inflationRate: 0.07,
+  investmentReturn: 0.07
+};
+
+const amountOf = (input: NeedsAnalysisInput, key: string) =>
+  calculateCoverageNeeds(input).breakdown.find(item => item.key === key)?.amount;
+
+describe("calculateCoverageNeeds children's goals", () => {
+  it("costs goals still ahead in today's value", () => {
+    // Inflation equal to the return leaves the cost in today's money
+    expect(amountOf({ ...parent, children: [{ age: 10 }] }, 'education')).toBe(DEFAULT_EDUCATION_COST);
+    expect(amountOf({ ...parent, children: [{ age: 10 }] }, 'marriage')).toBe(DEFAULT_MARRIAGE_COST);
+  });
+
+  it('still counts a goal due this year', () => {
+    expect(amountOf({ ...parent, children: [{ age: 18 }] }, 'education')).toBe(DEFAULT_EDUCATION_COST);
+  });
+
+  it('drops goals whose age has passed', () => {
+    const result = calculateCoverageNeeds({ ...parent, children: [{ age: 10 }, { age: 20 }] });
+    const education = result.breakdown.find(item => item.key === 'education')!;
+
+    expect(education.amount).toBe(DEFAULT_EDUCATION_COST);
+    expect(education.explanation).toContain('1 child');
+    expect(result.breakdown.find(item => item.key === 'marriage')!.amount).toBe(DEFAULT_MARRIAGE_COST * 2);
+  });
+
+  it('leaves out goals no child still needs', () => {
+    const keys = calculateCoverageNeeds({ ...parent, children: [{ age: 27 }] }).breakdown.map(item => item.key);
+
+    expect(keys).not.toContain('education');
+    expect(keys).not.toContain('marriage');
+  });
+});
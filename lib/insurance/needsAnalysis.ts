@@ -0,0 +1,226 @@
+// Needs-based life cover calculator (Human Life Value method).
+//
+// The recommended sum assured is what the family would need if the insured
+// died today: the present value of the income they would lose, plus debts and
+// future goals, less what is already in place. Each component is returned with
+// an explanation so the number can be justified to the user.
+
+export interface ChildGoal {
+  // Current age of the child
+  age: number;
+  // Education cost in today's rupees; defaults to DEFAULT_EDUCATION_COST
+  educationCost?: number;
+  // Marriage cost in today's rupees; defaults to DEFAULT_MARRIAGE_COST
+  marriageCost?: number;
+}
+
+export interface NeedsAnalysisInput {
+  age: number;
+  annualIncome: number;
+  spouseIncome?: number;
+  // Financial dependents other than children (spouse, parents)
+  dependents?: number;
+  children?: ChildGoal[];
+  outstandingLoans?: number;
+  existingCover?: number;
+  liquidSavings?: number;
+  retirementAge?: number;
+  // Expected inflation, e.g. 0.06
+  inflationRate?: number;
+  // Post-tax return the family could earn on the payout, e.g. 0.07
+  investmentReturn?: number;
+  // Share of income the insured spends on themselves
+  personalExpenseShare?: number;
+}
+
+export interface NeedsBreakdownItem {
+  key: 'income_replacement' | 'loans' | 'education' | 'marriage' | 'final_expenses' | 'existing_cover' | 'savings';
+  label: string;
+  // Positive for needs, negative for provisions already in place
+  amount: number;
+  explanation: string;
+}
+
+export interface NeedsAnalysisResult {
+  recommendedCover: number;
+  // Cover before rounding and limits
+  rawNeed: number;
+  breakdown: NeedsBreakdownItem[];
+  assumptions: {
+    retirementAge: number;
+    inflationRate: number;
+    investmentReturn: number;
+    personalExpenseShare: number;
+    yearsToRetirement: number;
+  };
+  summary: string;
+}
+
+export const DEFAULT_RETIREMENT_AGE = 60;
+export const DEFAULT_INFLATION_RATE = 0.06;
+export const DEFAULT_INVESTMENT_RETURN = 0.07;
+export const DEFAULT_PERSONAL_EXPENSE_SHARE = 0.3;
+export const DEFAULT_EDUCATION_COST = 2000000;
+export const DEFAULT_MARRIAGE_COST = 1500000;
+const EDUCATION_AGE = 18;
+const MARRIAGE_AGE = 25;
+const FINAL_EXPENSES = 200000;
+// Share of the spouse's income assumed to keep flowing into household costs
+const SPOUSE_INCOME_OFFSET = 0.5;
+
+export const MIN_RECOMMENDED_COVER = 1000000;
+export const MAX_RECOMMENDED_COVER = 250000000;
+// Cover is rounded up to the nearest 5 lakh, which is how plans are sold
+const COVER_ROUNDING = 500000;
+
+// Present value of an annual amount growing with inflation, paid at the start
+// of each year for the given number of years
+function growingAnnuityPV(amount: number, years: number, growth: number, rate: number): number {
+  let total = 0;
+  for (let t = 0; t < years; t++) {
+    total += amount * Math.pow(1 + growth, t) / Math.pow(1 + rate, t);
+  }
+  return total;
+}
+
+// Present value of a goal costed in today's money and due in `years`. A goal
+// whose age has already passed is no longer needed.
+function goalPV(costToday: number, years: number, inflation: number, rate: number): number {
+  if (years < 0) return 0;
+  return costToday * Math.pow(1 + inflation, years) / Math.pow(1 + rate, years);
+}
+
+function formatLakhs(amount: number): string {
+  if (Math.abs(amount) >= 10000000) {
+    return `₹${(amount / 10000000).toFixed(2)} Cr`;
+  }
+  return `₹${(amount / 100000).toFixed(1)} L`;
+}
+
+export function calculateCoverageNeeds(input: NeedsAnalysisInput): NeedsAnalysisResult {
+  const retirementAge = input.retirementAge ?? DEFAULT_RETIREMENT_AGE;
+  const inflationRate = input.inflationRate ?? DEFAULT_INFLATION_RATE;
+  const investmentReturn = input.investmentReturn ?? DEFAULT_INVESTMENT_RETURN;
+  const personalExpenseShare = input.personalExpenseShare ?? DEFAULT_PERSONAL_EXPENSE_SHARE;
+  const yearsToRetirement = Math.max(0, retirementAge - input.age);
+  const children = input.children || [];
+  const hasDependents = (input.dependents || 0) > 0 || children.length > 0;
+
+  const breakdown: NeedsBreakdownItem[] = [];
+
+  // 1. Income replacement - only meaningful if someone relies on the income
+  const householdContribution = input.annualIncome * (1 - personalExpenseShare);
+  const spouseOffset = (input.spouseIncome || 0) * SPOUSE_INCOME_OFFSET;
+  const incomeToReplace = hasDependents ? Math.max(0, householdContribution - spouseOffset) : 0;
+  const incomeReplacement = growingAnnuityPV(incomeToReplace, yearsToRetirement, inflationRate, investmentReturn);
+
+  breakdown.push({
+    key: 'income_replacement',
+    label: 'Income replacement',
+    amount: Math.round(incomeReplacement),
+    explanation: hasDependents
+      ? `Replaces ${formatLakhs(incomeToReplace)} a year for ${yearsToRetirement} years to age ${retirementAge}, rising ${(inflationRate * 100).toFixed(0)}% a year` +
+        ((input.spouseIncome || 0) > 0 ? `, after allowing for your spouse's income` : '')
+      : 'No financial dependents recorded, so no income needs replacing'
+  });
+
+  // 2. Outstanding loans are cleared in full
+  if (input.outstandingLoans && input.outstandingLoans > 0) {
+    breakdown.push({
+      key: 'loans',
+      label: 'Outstanding loans',
+      amount: Math.round(input.outstandingLoans),
+      explanation: 'Clears home, car and personal loans so the family is not left with EMIs'
+    });
+  }
+
+  // 3. Children's goals, inflated to when they fall due
+  let educationTotal = 0;
+  let marriageTotal = 0;
+  for (const child of children) {
+    educationTotal += goalPV(
+      child.educationCost ?? DEFAULT_EDUCATION_COST,
+      EDUCATION_AGE - child.age,
+      inflationRate,
+      investmentReturn
+    );
+    marriageTotal += goalPV(
+      child.marriageCost ?? DEFAULT_MARRIAGE_COST,
+      MARRIAGE_AGE - child.age,
+      inflationRate,
+      investmentReturn
+    );
+  }
+
+  // Only children who have not yet reached a goal's age still need it
+  const educationChildren = children.filter(child => child.age <= EDUCATION_AGE).length;
+  const marriageChildren = children.filter(child => child.age <= MARRIAGE_AGE).length;
+  if (educationChildren > 0) {
+    breakdown.push({
+      key: 'education',
+      label: "Children's education",
+      amount: Math.round(educationTotal),
+      explanation: `Higher education for ${educationChildren} ${educationChildren === 1 ? 'child' : 'children'} at age ${EDUCATION_AGE}, in today's value`
+    });
+  }
+  if (marriageChildren > 0) {
+    breakdown.push({
+      key: 'marriage',
+      label: "Children's marriage",
+      amount: Math.round(marriageTotal),
+      explanation: `Marriage expenses for ${marriageChildren} ${marriageChildren === 1 ? 'child' : 'children'} at age ${MARRIAGE_AGE}, in today's value`
+    });
+  }
+
+  // 4. Final expenses
+  breakdown.push({
+    key: 'final_expenses',
+    label: 'Final expenses',
+    amount: FINAL_EXPENSES,
+    explanation: 'Funeral, medical bills and estate settlement costs'
+  });
+
+  // 5. Provisions already in place
+  if (input.existingCover && input.existingCover > 0) {
+    breakdown.push({
+      key: 'existing_cover',
+      label: 'Existing life cover',
+      amount: -Math.round(input.existingCover),
+      explanation: 'Life insurance you already hold, including employer group cover'
+    });
+  }
+
+  if (input.liquidSavings && input.liquidSavings > 0) {
+    breakdown.push({
+      key: 'savings',
+      label: 'Savings and investments',
+      amount: -Math.round(input.liquidSavings),
+      explanation: 'Liquid savings the family could draw on'
+    });
+  }
+
+  const rawNeed = breakdown.reduce((total, item) => total + item.amount, 0);
+  const rounded = Math.ceil(Math.max(0, rawNeed) / COVER_ROUNDING) * COVER_ROUNDING;
+  const recommendedCover = Math.max(MIN_RECOMMENDED_COVER, Math.min(MAX_RECOMMENDED_COVER, rounded));
+
+  const multiple = input.annualIncome > 0 ? recommendedCover / input.annualIncome : 0;
+  const summary = rawNeed <= 0
+    ? `Your existing cover and savings already meet your family's needs; ${formatLakhs(recommendedCover)} is the minimum we suggest.`
+    : `Your family would need about ${formatLakhs(recommendedCover)}` +
+      (multiple > 0 ? ` (${multiple.toFixed(1)}x your annual income)` : '') +
+      ' to stay financially secure.';
+
+  return {
+    recommendedCover,
+    rawNeed: Math.round(rawNeed),
+    breakdown,
+    assumptions: {
+      retirementAge,
+      inflationRate,
+      investmentReturn,
+      personalExpenseShare,
+      yearsToRetirement
+    },
+    summary
+  };
+}
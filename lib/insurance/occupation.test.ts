@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { classifyOccupation } from './occupation';
+
+const occupationOf = (text: string) => classifyOccupation(text)?.occupationId ?? null;
+
+describe('classifyOccupation', () => {
+  it('matches exact phrases and abbreviations', () => {
+    expect(classifyOccupation('SDE at a startup')).toMatchObject({ occupationId: 'software_engineer', confidence: 1 });
+    expect(occupationOf('BSF')).toBe('paramilitary');
+    expect(occupationOf('Chartered Accountant')).toBe('finance');
+  });
+
+  it('tolerates typos and plurals in longer words', () => {
+    expect(occupationOf('sofware enginer')).toBe('software_engineer');
+    expect(occupationOf('electricain')).toBe('factory');
+    expect(occupationOf('truck drivers')).toBe('driver');
+  });
+
+  it('does not fuzzy match short words one letter apart', () => {
+    expect(occupationOf('tailor')).not.toBe('merchant_navy');
+    expect(occupationOf('minor')).not.toBe('mining');
+    expect(occupationOf('diver')).not.toBe('driver');
+    expect(occupationOf('baker')).not.toBe('finance');
+  });
+
+  it('still matches the short words themselves', () => {
+    expect(occupationOf('sailor')).toBe('merchant_navy');
+    expect(occupationOf('miner')).toBe('mining');
+    expect(occupationOf('driver')).toBe('driver');
+    expect(occupationOf('banker')).toBe('finance');
+  });
+
+  it('breaks ties toward the riskier class', () => {
+    expect(classifyOccupation('mining engineer')).toMatchObject({ occupationId: 'mining', riskClass: 'hazardous' });
+    expect(classifyOccupation('offshore engineer')).toMatchObject({ occupationId: 'offshore', riskClass: 'hazardous' });
+    expect(occupationOf('merchant navy')).toBe('merchant_navy');
+    expect(occupationOf('site engineer')).toBe('field_engineer');
+    expect(occupationOf('racing driver')).toBe('motorsport');
+  });
+
+  it('returns null when nothing matches well enough', () => {
+    expect(classifyOccupation('')).toBeNull();
+    expect(classifyOccupation('astronaut')).toBeNull();
+  });
+});
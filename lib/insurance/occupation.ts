@@ -0,0 +1,226 @@
+// Occupation taxonomy and risk classification.
+//
+// Users describe their work in free text ("SDE at a startup", "merchant
+// navy"), so the profile keeps the raw text and we resolve it to a risk class
+// with a fuzzy matcher. The class drives an occupational extra mortality in
+// pricing, a multiplier on accident rider rates, and underwriting decisions.
+
+export type OccupationClass = 'office' | 'field' | 'manual' | 'hazardous' | 'armed_forces' | 'uninsurable';
+
+export interface OccupationClassDefinition {
+  label: string;
+  description: string;
+  // Extra mortality applied to life cover, as a fraction of standard rates
+  extraMortality: number;
+  // Multiplier on accidental death rider rates
+  accidentRateMultiplier: number;
+}
+
+export const OCCUPATION_CLASSES: Record<OccupationClass, OccupationClassDefinition> = {
+  office: {
+    label: 'Office / professional',
+    description: 'Desk-based and professional work with no unusual exposure',
+    extraMortality: 0,
+    accidentRateMultiplier: 1
+  },
+  field: {
+    label: 'Field work',
+    description: 'Regular travel or site visits, such as sales and field engineering',
+    extraMortality: 0,
+    accidentRateMultiplier: 1.5
+  },
+  manual: {
+    label: 'Skilled manual',
+    description: 'Manual or machine work, driving and construction trades',
+    extraMortality: 0.1,
+    accidentRateMultiplier: 2
+  },
+  hazardous: {
+    label: 'Hazardous',
+    description: 'Work at sea, underground, at height or with explosives',
+    extraMortality: 0.5,
+    accidentRateMultiplier: 3
+  },
+  armed_forces: {
+    label: 'Armed forces',
+    description: 'Army, navy, air force, paramilitary and police',
+    extraMortality: 0.25,
+    accidentRateMultiplier: 2.5
+  },
+  uninsurable: {
+    label: 'Outside acceptance limits',
+    description: 'Occupations insurers do not cover on standard term plans',
+    extraMortality: 0,
+    accidentRateMultiplier: 1
+  }
+};
+
+export const OCCUPATION_CLASS_CODES = Object.keys(OCCUPATION_CLASSES) as OccupationClass[];
+
+export interface OccupationEntry {
+  id: string;
+  title: string;
+  riskClass: OccupationClass;
+  // Lower-case phrases and abbreviations people use for this occupation
+  aliases: string[];
+}
+
+export const OCCUPATION_TAXONOMY: OccupationEntry[] = [
+  // Office / professional
+  { id: 'software_engineer', title: 'Software engineer', riskClass: 'office', aliases: ['software engineer', 'software developer', 'software', 'engineer', 'sde', 'developer', 'programmer', 'coder', 'it professional', 'it consultant', 'data scientist', 'engineer at startup', 'tech lead', 'devops'] },
+  { id: 'manager', title: 'Manager', riskClass: 'office', aliases: ['manager', 'product manager', 'project manager', 'team lead', 'director', 'executive', 'ceo', 'cto', 'founder', 'entrepreneur'] },
+  { id: 'finance', title: 'Finance professional', riskClass: 'office', aliases: ['accountant', 'chartered accountant', 'ca', 'banker', 'bank employee', 'analyst', 'financial analyst', 'auditor', 'investment banker', 'finance'] },
+  { id: 'doctor', title: 'Doctor', riskClass: 'office', aliases: ['doctor', 'physician', 'surgeon', 'dentist', 'mbbs', 'medical officer'] },
+  { id: 'healthcare', title: 'Healthcare worker', riskClass: 'office', aliases: ['nurse', 'pharmacist', 'physiotherapist', 'lab technician'] },
+  { id: 'lawyer', title: 'Lawyer', riskClass: 'office', aliases: ['lawyer', 'advocate', 'legal counsel', 'attorney'] },
+  { id: 'teacher', title: 'Teacher', riskClass: 'office', aliases: ['teacher', 'professor', 'lecturer', 'tutor', 'educator', 'principal'] },
+  { id: 'government_officer', title: 'Government officer', riskClass: 'office', aliases: ['government employee', 'govt employee', 'civil servant', 'ias', 'clerk', 'psu employee'] },
+  { id: 'designer', title: 'Designer', riskClass: 'office', aliases: ['designer', 'architect', 'ux designer', 'graphic designer', 'writer', 'journalist', 'content creator'] },
+  { id: 'consultant', title: 'Consultant', riskClass: 'office', aliases: ['consultant', 'management consultant', 'hr', 'human resources', 'recruiter', 'marketing'] },
+  { id: 'shopkeeper', title: 'Shopkeeper / trader', riskClass: 'office', aliases: ['shopkeeper', 'shop owner', 'trader', 'merchant', 'business owner', 'businessman', 'retailer', 'self employed'] },
+  { id: 'homemaker', title: 'Homemaker', riskClass: 'office', aliases: ['homemaker', 'housewife', 'house wife', 'stay at home'] },
+  { id: 'student', title: 'Student', riskClass: 'office', aliases: ['student'] },
+  { id: 'retired', title: 'Retired', riskClass: 'office', aliases: ['retired', 'pensioner'] },
+
+  // Field work
+  { id: 'sales', title: 'Sales executive', riskClass: 'field', aliases: ['sales', 'sales executive', 'salesman', 'medical representative', 'business development', 'field executive', 'marketing executive'] },
+  { id: 'field_engineer', title: 'Field engineer', riskClass: 'field', aliases: ['field engineer', 'site engineer', 'civil engineer', 'service engineer', 'surveyor'] },
+  { id: 'farmer', title: 'Farmer', riskClass: 'field', aliases: ['farmer', 'agriculturist', 'agriculture', 'kisan'] },
+  { id: 'delivery', title: 'Delivery partner', riskClass: 'field', aliases: ['delivery', 'delivery boy', 'delivery partner', 'courier', 'rider'] },
+
+  // Skilled manual
+  { id: 'driver', title: 'Driver', riskClass: 'manual', aliases: ['driver', 'cab driver', 'truck driver', 'auto driver', 'chauffeur'] },
+  { id: 'construction', title: 'Construction worker', riskClass: 'manual', aliases: ['construction worker', 'mason', 'carpenter', 'plumber', 'welder', 'painter', 'labourer', 'laborer'] },
+  { id: 'factory', title: 'Factory worker', riskClass: 'manual', aliases: ['factory worker', 'machine operator', 'technician', 'mechanic', 'fitter', 'electrician'] },
+  { id: 'chef', title: 'Chef', riskClass: 'manual', aliases: ['chef', 'cook'] },
+
+  // Hazardous
+  { id: 'merchant_navy', title: 'Merchant navy', riskClass: 'hazardous', aliases: ['merchant navy', 'seafarer', 'sailor', 'marine engineer', 'ship crew'] },
+  { id: 'offshore', title: 'Offshore / oil rig worker', riskClass: 'hazardous', aliases: ['offshore', 'offshore engineer', 'oil rig', 'rig worker', 'drilling'] },
+  { id: 'mining', title: 'Mining', riskClass: 'hazardous', aliases: ['miner', 'mining', 'mining engineer', 'mine worker', 'quarry'] },
+  { id: 'pilot', title: 'Pilot', riskClass: 'hazardous', aliases: ['pilot', 'commercial pilot', 'aviator', 'flight crew'] },
+  { id: 'explosives', title: 'Explosives / fireworks', riskClass: 'hazardous', aliases: ['explosives', 'blasting', 'fireworks', 'firecracker'] },
+  { id: 'high_rise', title: 'Work at height', riskClass: 'hazardous', aliases: ['high rise', 'scaffolder', 'tower climber', 'lineman', 'window cleaner'] },
+  { id: 'security', title: 'Security guard', riskClass: 'hazardous', aliases: ['security guard', 'bouncer', 'bodyguard', 'cash van'] },
+  { id: 'firefighter', title: 'Firefighter', riskClass: 'hazardous', aliases: ['firefighter', 'fireman', 'fire brigade'] },
+
+  // Armed forces
+  { id: 'army', title: 'Army', riskClass: 'armed_forces', aliases: ['army', 'soldier', 'indian army', 'jawan', 'army officer'] },
+  { id: 'navy', title: 'Navy', riskClass: 'armed_forces', aliases: ['navy', 'indian navy', 'naval officer'] },
+  { id: 'air_force', title: 'Air force', riskClass: 'armed_forces', aliases: ['air force', 'iaf', 'airforce'] },
+  { id: 'paramilitary', title: 'Paramilitary', riskClass: 'armed_forces', aliases: ['crpf', 'bsf', 'cisf', 'itbp', 'paramilitary', 'nsg'] },
+  { id: 'police', title: 'Police', riskClass: 'armed_forces', aliases: ['police', 'policeman', 'constable', 'sub inspector', 'ips'] },
+
+  // Outside acceptance limits
+  { id: 'professional_diver', title: 'Professional diver', riskClass: 'uninsurable', aliases: ['commercial diver', 'deep sea diver', 'saturation diver'] },
+  { id: 'stunt', title: 'Stunt performer', riskClass: 'uninsurable', aliases: ['stuntman', 'stunt performer', 'stunt double'] },
+  { id: 'bomb_disposal', title: 'Bomb disposal', riskClass: 'uninsurable', aliases: ['bomb disposal', 'bomb squad', 'demining'] },
+  { id: 'motorsport', title: 'Professional racer', riskClass: 'uninsurable', aliases: ['racing driver', 'race car driver', 'motorsport'] }
+];
+
+export interface OccupationMatch {
+  occupationId: string;
+  title: string;
+  riskClass: OccupationClass;
+  // 1 for an exact phrase match, lower for fuzzy matches
+  confidence: number;
+  matchedAlias: string;
+}
+
+// Matches below this confidence are treated as unclassified
+export const MIN_MATCH_CONFIDENCE = 0.6;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Whether a word in the text is close enough to a word of an alias.
+// Abbreviations like "sde" or "bsf" must match exactly. Short words tolerate a
+// plural but not a typo, since one letter turns "tailor" into "sailor" or
+// "baker" into "banker"; longer ones tolerate either.
+function tokensMatch(textToken: string, aliasToken: string): boolean {
+  if (textToken === aliasToken) return true;
+  if (aliasToken.length < 5) return false;
+  if (textToken.startsWith(aliasToken) && textToken.length - aliasToken.length <= 2) return true;
+  if (aliasToken.length < 7) return false;
+  return editDistance(textToken, aliasToken) <= (aliasToken.length >= 8 ? 2 : 1);
+}
+
+// Score an alias against the tokenised text: 1 when the whole phrase appears,
+// otherwise the share of alias words found anywhere in the text, discounted
+// so a fuzzy match never beats an exact one
+function scoreAlias(textTokens: string[], alias: string): number {
+  const aliasTokens = tokenize(alias);
+  const phrase = ` ${textTokens.join(' ')} `;
+  if (phrase.includes(` ${aliasTokens.join(' ')} `)) return 1;
+
+  const matched = aliasTokens.filter(aliasToken =>
+    textTokens.some(textToken => tokensMatch(textToken, aliasToken))
+  ).length;
+  return (matched / aliasTokens.length) * 0.9;
+}
+
+// Classes in order of risk, for breaking ties between equally good matches
+const RISK_ORDER: OccupationClass[] = ['office', 'field', 'manual', 'armed_forces', 'hazardous', 'uninsurable'];
+
+// Resolve free-text occupation to the closest taxonomy entry, or null when
+// nothing matches well enough. Ties go to the riskier class, so "mining
+// engineer" is mining rather than software and "merchant navy" is not the
+// navy, and then to the longer alias.
+export function classifyOccupation(text: string | null | undefined): OccupationMatch | null {
+  if (!text) return null;
+  const textTokens = tokenize(text);
+  if (textTokens.length === 0) return null;
+
+  let best: OccupationMatch | null = null;
+  for (const entry of OCCUPATION_TAXONOMY) {
+    for (const alias of entry.aliases) {
+      const confidence = scoreAlias(textTokens, alias);
+      if (confidence < MIN_MATCH_CONFIDENCE) continue;
+      const riskGap = best ? RISK_ORDER.indexOf(entry.riskClass) - RISK_ORDER.indexOf(best.riskClass) : 0;
+      if (
+        !best ||
+        confidence > best.confidence ||
+        (confidence === best.confidence && (riskGap > 0 || (riskGap === 0 && alias.length > best.matchedAlias.length)))
+      ) {
+        best = {
+          occupationId: entry.id,
+          title: entry.title,
+          riskClass: entry.riskClass,
+          confidence: Math.round(confidence * 100) / 100,
+          matchedAlias: alias
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Extra mortality for an occupation class; unclassified occupations are
+// priced at standard rates
+export function occupationExtraMortality(riskClass?: OccupationClass | null): number {
+  return riskClass ? OCCUPATION_CLASSES[riskClass].extraMortality : 0;
+}
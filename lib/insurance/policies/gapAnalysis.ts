@@ -0,0 +1,217 @@
+import {
+  EMPLOYER_TYPES,
+  ExistingPolicy,
+  POLICY_TYPE_CATEGORIES,
+  POLICY_TYPE_LABELS,
+  PremiumFrequency,
+  SAVINGS_LINKED_TYPES
+} from './schema';
+
+// Coverage gap analysis.
+//
+// Weighs the cover the user already holds against what they need: life cover
+// against the needs analysis, health cover against the recommended sum
+// insured for their family and city. Holdings well short of the need are
+// gaps; holdings well beyond it are flagged as over-insurance, since the
+// premium could be better spent. Individual policies are also flagged when
+// they are lapsed, tied to a job, or buy little cover for their premium.
+
+export type GapStatus = 'gap' | 'adequate' | 'over_insured';
+
+export interface PortfolioSummary {
+  activePolicies: number;
+  lifeCover: number;
+  // Part of lifeCover that ends when the user leaves their job
+  employerLifeCover: number;
+  healthCover: number;
+  employerHealthCover: number;
+  accidentCover: number;
+  annualPremium: number;
+  // Share of annual income spent on premiums, when income is known
+  premiumToIncome: number | null;
+}
+
+export interface CoverageGap {
+  category: 'life' | 'health';
+  label: string;
+  needed: number;
+  held: number;
+  // Positive for a shortfall, negative for cover beyond the need
+  shortfall: number;
+  status: GapStatus;
+  explanation: string;
+}
+
+export interface PolicyFlag {
+  policyId: string;
+  kind: 'lapsed' | 'employer_cover' | 'low_cover';
+  message: string;
+}
+
+export interface CoverageGapInput {
+  policies: ExistingPolicy[];
+  // Life cover needed before counting existing policies
+  lifeNeed: number;
+  healthNeed: number;
+  annualIncome?: number | null;
+}
+
+export interface CoverageGapResult {
+  portfolio: PortfolioSummary;
+  gaps: CoverageGap[];
+  flags: PolicyFlag[];
+  summary: string;
+}
+
+const PREMIUMS_PER_YEAR: Record<PremiumFrequency, number> = {
+  annual: 1,
+  half_yearly: 2,
+  quarterly: 4,
+  monthly: 12,
+  // Paid once, so nothing recurs
+  single: 0
+};
+
+// Cover within 10% of the need is treated as adequate
+const ADEQUATE_SHARE = 0.9;
+// Beyond these multiples of the need, cover is flagged as excessive. Health
+// gets more room because medical inflation erodes a sum insured quickly.
+const LIFE_OVER_INSURED_MULTIPLE = 1.5;
+const HEALTH_OVER_INSURED_MULTIPLE = 2;
+// Savings-linked plans below 10x the annual premium give little protection,
+// and their maturity proceeds lose the section 10(10D) exemption
+const MIN_COVER_TO_PREMIUM = 10;
+// Premiums above this share of income usually crowd out saving
+const HIGH_PREMIUM_SHARE = 0.15;
+
+function formatLakhs(amount: number): string {
+  if (Math.abs(amount) >= 10000000) {
+    return `₹${(amount / 10000000).toFixed(2)} Cr`;
+  }
+  return `₹${(amount / 100000).toFixed(1)} L`;
+}
+
+export function annualisedPremium(policy: Pick<ExistingPolicy, 'premium' | 'premiumFrequency'>): number {
+  return policy.premium * PREMIUMS_PER_YEAR[policy.premiumFrequency];
+}
+
+export function summarisePortfolio(policies: ExistingPolicy[], annualIncome?: number | null): PortfolioSummary {
+  const active = policies.filter(policy => policy.status === 'active');
+  const coverFor = (category: 'life' | 'health' | 'accident', employerOnly = false) =>
+    active
+      .filter(policy => POLICY_TYPE_CATEGORIES[policy.policyType] === category)
+      .filter(policy => !employerOnly || EMPLOYER_TYPES.includes(policy.policyType))
+      .reduce((total, policy) => total + policy.sumAssured, 0);
+
+  const annualPremium = active.reduce((total, policy) => total + annualisedPremium(policy), 0);
+
+  return {
+    activePolicies: active.length,
+    lifeCover: coverFor('life'),
+    employerLifeCover: coverFor('life', true),
+    healthCover: coverFor('health'),
+    employerHealthCover: coverFor('health', true),
+    accidentCover: coverFor('accident'),
+    annualPremium: Math.round(annualPremium),
+    premiumToIncome: annualIncome && annualIncome > 0 ? annualPremium / annualIncome : null
+  };
+}
+
+function assessGap(
+  category: 'life' | 'health',
+  needed: number,
+  held: number,
+  employerHeld: number
+): CoverageGap {
+  const label = category === 'life' ? 'Life cover' : 'Health cover';
+  const overMultiple = category === 'life' ? LIFE_OVER_INSURED_MULTIPLE : HEALTH_OVER_INSURED_MULTIPLE;
+  const shortfall = needed - held;
+
+  let status: GapStatus = 'adequate';
+  if (held < needed * ADEQUATE_SHARE) {
+    status = 'gap';
+  } else if (needed > 0 && held > needed * overMultiple) {
+    status = 'over_insured';
+  }
+
+  let explanation = status === 'gap'
+    ? `You hold ${formatLakhs(held)} against a need of ${formatLakhs(needed)}, a shortfall of ${formatLakhs(shortfall)}`
+    : status === 'over_insured'
+      ? `You hold ${formatLakhs(held)}, well above the ${formatLakhs(needed)} you need; some of the premium may be better invested`
+      : `You hold ${formatLakhs(held)} against a need of ${formatLakhs(needed)}`;
+
+  if (employerHeld > 0) {
+    explanation += `. ${formatLakhs(employerHeld)} of it is employer cover that ends if you change jobs`;
+  }
+
+  return { category, label, needed, held, shortfall, status, explanation };
+}
+
+function policyFlags(policy: ExistingPolicy): PolicyFlag[] {
+  const name = policy.planName || `${policy.insurer} ${POLICY_TYPE_LABELS[policy.policyType]}`;
+  const flags: PolicyFlag[] = [];
+
+  if (policy.status === 'lapsed') {
+    flags.push({
+      policyId: policy.id,
+      kind: 'lapsed',
+      message: `${name} has lapsed and gives no cover; most policies can be revived within a few years by paying the arrears with interest`
+    });
+    return flags;
+  }
+
+  if (policy.status !== 'active') {
+    return flags;
+  }
+
+  if (EMPLOYER_TYPES.includes(policy.policyType)) {
+    flags.push({
+      policyId: policy.id,
+      kind: 'employer_cover',
+      message: `${name} is tied to your job and stops when you leave; do not rely on it alone`
+    });
+  }
+
+  const premium = annualisedPremium(policy);
+  if (SAVINGS_LINKED_TYPES.includes(policy.policyType) && premium > 0 && policy.sumAssured < premium * MIN_COVER_TO_PREMIUM) {
+    flags.push({
+      policyId: policy.id,
+      kind: 'low_cover',
+      message: `${name} covers only ${(policy.sumAssured / premium).toFixed(1)}x its annual premium; a term plan buys far more cover for the money`
+    });
+  }
+
+  return flags;
+}
+
+export function analyseCoverageGaps(input: CoverageGapInput): CoverageGapResult {
+  const portfolio = summarisePortfolio(input.policies, input.annualIncome);
+
+  const gaps = [
+    assessGap('life', input.lifeNeed, portfolio.lifeCover, portfolio.employerLifeCover),
+    assessGap('health', input.healthNeed, portfolio.healthCover, portfolio.employerHealthCover)
+  ];
+
+  const flags = input.policies.flatMap(policyFlags);
+
+  const parts = gaps.map(gap =>
+    gap.status === 'gap'
+      ? `${gap.category} cover is short by ${formatLakhs(gap.shortfall)}`
+      : gap.status === 'over_insured'
+        ? `${gap.category} cover exceeds your need by ${formatLakhs(-gap.shortfall)}`
+        : `${gap.category} cover is adequate`
+  );
+
+  if (portfolio.premiumToIncome !== null && portfolio.premiumToIncome > HIGH_PREMIUM_SHARE) {
+    parts.push(`premiums take ${(portfolio.premiumToIncome * 100).toFixed(0)}% of your income`);
+  }
+
+  const summary = parts.join('; ');
+
+  return {
+    portfolio,
+    gaps,
+    flags,
+    summary: `${summary.charAt(0).toUpperCase()}${summary.slice(1)}.`
+  };
+}
@@ -0,0 +1,177 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ExistingPolicy,
+  ExistingPolicyInput,
+  ExistingPolicyUpdate,
+  PolicyStatus,
+  PolicyType,
+  PremiumFrequency,
+  existingPolicyInputSchema
+} from './schema';
+
+// Existing policy repository.
+//
+// Rows are scoped to the signed-in user by RLS; every query also filters on
+// user_id so a misconfigured policy cannot leak another user's portfolio.
+
+interface PolicyRow {
+  id: string;
+  user_id: string;
+  insurer: string;
+  plan_name: string | null;
+  policy_number: string | null;
+  policy_type: PolicyType;
+  sum_assured: number;
+  premium: number;
+  premium_frequency: PremiumFrequency;
+  start_date: string | null;
+  term_years: number | null;
+  renewal_date: string | null;
+  status: PolicyStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListPoliciesOptions {
+  status?: PolicyStatus;
+}
+
+function toExistingPolicy(row: PolicyRow): ExistingPolicy {
+  return {
+    id: row.id,
+    insurer: row.insurer,
+    planName: row.plan_name,
+    policyNumber: row.policy_number,
+    policyType: row.policy_type,
+    sumAssured: Number(row.sum_assured),
+    premium: Number(row.premium),
+    premiumFrequency: row.premium_frequency,
+    startDate: row.start_date,
+    termYears: row.term_years,
+    renewalDate: row.renewal_date,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function listPolicies(
+  supabase: SupabaseClient,
+  userId: string,
+  options: ListPoliciesOptions = {}
+): Promise<ExistingPolicy[]> {
+  let query = supabase
+    .from('policies')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as PolicyRow[]).map(toExistingPolicy);
+}
+
+export async function addPolicy(
+  supabase: SupabaseClient,
+  userId: string,
+  policy: ExistingPolicyInput
+): Promise<ExistingPolicy> {
+  const parsed = existingPolicyInputSchema.parse(policy);
+
+  const { data, error } = await supabase
+    .from('policies')
+    .insert({
+      user_id: userId,
+      insurer: parsed.insurer,
+      plan_name: parsed.planName ?? null,
+      policy_number: parsed.policyNumber ?? null,
+      policy_type: parsed.policyType,
+      sum_assured: parsed.sumAssured,
+      premium: parsed.premium,
+      premium_frequency: parsed.premiumFrequency,
+      start_date: parsed.startDate ?? null,
+      term_years: parsed.termYears ?? null,
+      renewal_date: parsed.renewalDate ?? null,
+      status: parsed.status
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return toExistingPolicy(data as PolicyRow);
+}
+
+// Update a policy; returns null when no such policy belongs to the user
+export async function updatePolicy(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  changes: ExistingPolicyUpdate
+): Promise<ExistingPolicy | null> {
+  const { data, error } = await supabase
+    .from('policies')
+    .update({
+      ...(changes.insurer !== undefined && { insurer: changes.insurer }),
+      ...(changes.planName !== undefined && { plan_name: changes.planName }),
+      ...(changes.policyNumber !== undefined && { policy_number: changes.policyNumber }),
+      ...(changes.policyType !== undefined && { policy_type: changes.policyType }),
+      ...(changes.sumAssured !== undefined && { sum_assured: changes.sumAssured }),
+      ...(changes.premium !== undefined && { premium: changes.premium }),
+      ...(changes.premiumFrequency !== undefined && { premium_frequency: changes.premiumFrequency }),
+      ...(changes.startDate !== undefined && { start_date: changes.startDate }),
+      ...(changes.termYears !== undefined && { term_years: changes.termYears }),
+      ...(changes.renewalDate !== undefined && { renewal_date: changes.renewalDate }),
+      ...(changes.status !== undefined && { status: changes.status }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? toExistingPolicy(data as PolicyRow) : null;
+}
+
+// Remove a policy; returns false when no such policy belongs to the user
+export async function removePolicy(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('policies')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+// Active policies behind a calendar feed token. Calendar apps fetch the feed
+// without a session, so this goes through a security definer function that
+// only ever returns the token owner's policies.
+export async function listPoliciesForCalendarFeed(supabase: SupabaseClient, token: string): Promise<ExistingPolicy[]> {
+  const { data, error } = await supabase.rpc('calendar_feed_policies', { feed_token: token });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as PolicyRow[]).map(toExistingPolicy);
+}
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+// Existing policy schema.
+//
+// Policies the user already holds, from any insurer, live in the `policies`
+// table. They are recorded by hand in chat, so only the facts a policy
+// schedule shows are kept: insurer, type, sum assured, premium and dates.
+// Gap analysis weighs them against the user's needs and the reminders use
+// the dates to work out what falls due.
+
+export const policyTypeSchema = z.enum([
+  'term_life',
+  'endowment',
+  'money_back',
+  'whole_life',
+  'ulip',
+  'group_life',
+  'health',
+  'group_health',
+  'personal_accident',
+  'motor',
+  'travel',
+  'home',
+  'other'
+]);
+
+export const premiumFrequencySchema = z.enum(['annual', 'half_yearly', 'quarterly', 'monthly', 'single']);
+
+export const policyStatusSchema = z.enum(['active', 'lapsed', 'matured', 'surrendered']);
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format.');
+
+export const existingPolicyInputSchema = z.object({
+  insurer: z.string().trim().min(1).max(100),
+  planName: z.string().trim().min(1).max(150).optional(),
+  policyNumber: z.string().trim().min(1).max(50).optional(),
+  policyType: policyTypeSchema,
+  // Life cover, health sum insured or IDV, depending on the type
+  sumAssured: z.number().min(0),
+  // Premium per instalment at the stated frequency; 0 for employer-paid cover
+  premium: z.number().min(0).default(0),
+  premiumFrequency: premiumFrequencySchema.default('annual'),
+  startDate: dateSchema.optional(),
+  // Policy term; general insurance usually runs for one year and renews
+  termYears: z.number().int().min(1).max(100).optional(),
+  // Next premium due or renewal date, when the user knows it
+  renewalDate: dateSchema.optional(),
+  status: policyStatusSchema.default('active')
+});
+
+// Fields that may be changed on an existing policy
+export const existingPolicyUpdateSchema = existingPolicyInputSchema.partial();
+
+export type PolicyType = z.infer<typeof policyTypeSchema>;
+export type PremiumFrequency = z.infer<typeof premiumFrequencySchema>;
+export type PolicyStatus = z.infer<typeof policyStatusSchema>;
+export type ExistingPolicyInput = z.input<typeof existingPolicyInputSchema>;
+export type ExistingPolicyUpdate = z.infer<typeof existingPolicyUpdateSchema>;
+
+export interface ExistingPolicy {
+  id: string;
+  insurer: string;
+  planName: string | null;
+  policyNumber: string | null;
+  policyType: PolicyType;
+  sumAssured: number;
+  premium: number;
+  premiumFrequency: PremiumFrequency;
+  startDate: string | null;
+  termYears: number | null;
+  renewalDate: string | null;
+  status: PolicyStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PolicyCategory = 'life' | 'health' | 'accident' | 'general';
+
+export const POLICY_TYPE_CATEGORIES: Record<PolicyType, PolicyCategory> = {
+  term_life: 'life',
+  endowment: 'life',
+  money_back: 'life',
+  whole_life: 'life',
+  ulip: 'life',
+  group_life: 'life',
+  health: 'health',
+  group_health: 'health',
+  personal_accident: 'accident',
+  motor: 'general',
+  travel: 'general',
+  home: 'general',
+  other: 'general'
+};
+
+export const POLICY_TYPE_LABELS: Record<PolicyType, string> = {
+  term_life: 'Term life',
+  endowment: 'Endowment',
+  money_back: 'Money back',
+  whole_life: 'Whole life',
+  ulip: 'ULIP',
+  group_life: 'Employer group life',
+  health: 'Health',
+  group_health: 'Employer group health',
+  personal_accident: 'Personal accident',
+  motor: 'Motor',
+  travel: 'Travel',
+  home: 'Home',
+  other: 'Other'
+};
+
+// Traditional and market-linked plans that mix savings with cover
+export const SAVINGS_LINKED_TYPES: PolicyType[] = ['endowment', 'money_back', 'whole_life', 'ulip'];
+
+// Cover that ends when the user leaves their job
+export const EMPLOYER_TYPES: PolicyType[] = ['group_life', 'group_health'];
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PRICING_BASIS,
+  MODAL_FACTORS,
+  PremiumInput,
+  calculatePaymentOptions,
+  calculateTermPremium,
+  termAssuranceFactors
+} from './pricing';
+
+const standard: PremiumInput = {
+  age: 30,
+  gender: 'male',
+  smoker: false,
+  sumAssured: 10000000,
+  term: 30
+};
+
+describe('calculateTermPremium', () => {
+  it('loads the net premium for expenses, profit and GST', () => {
+    const quote = calculateTermPremium(standard);
+    const { expenseLoading, profitMargin, policyFee, taxRate } = DEFAULT_PRICING_BASIS;
+
+    const expectedBase = (quote.netPremium + policyFee) / (1 - expenseLoading - profitMargin);
+    expect(quote.basePremium).toBeCloseTo(expectedBase, -1);
+    expect(quote.tax).toBeCloseTo(quote.basePremium * taxRate, -1);
+    expect(quote.annualPremium).toBeCloseTo(quote.basePremium + quote.tax, -1);
+    expect(quote.monthlyPremium).toBe(Math.round(quote.annualPremium * MODAL_FACTORS.monthly));
+    expect(quote.maturityBenefit).toBeUndefined();
+  });
+
+  it('charges more for older, smoking and male lives', () => {
+    const base = calculateTermPremium(standard).annualPremium;
+
+    expect(calculateTermPremium({ ...standard, age: 45 }).annualPremium).toBeGreaterThan(base);
+    expect(calculateTermPremium({ ...standard, smoker: true }).annualPremium).toBeGreaterThan(base);
+    expect(calculateTermPremium({ ...standard, gender: 'female' }).annualPremium).toBeLessThan(base);
+  });
+
+  it('scales the risk premium with the sum assured', () => {
+    const single = calculateTermPremium(standard).netPremium;
+    const double = calculateTermPremium({ ...standard, sumAssured: standard.sumAssured * 2 }).netPremium;
+
+    expect(double).toBeCloseTo(single * 2, -1);
+  });
+
+  it('adds extra mortality and occupation loadings', () => {
+    const base = calculateTermPremium(standard).netPremium;
+
+    expect(calculateTermPremium({ ...standard, extraMortality: 0.5 }).netPremium).toBeGreaterThan(base);
+    expect(calculateTermPremium({ ...standard, occupationClass: 'hazardous' }).netPremium).toBeGreaterThan(base);
+  });
+
+  it('charges a higher annual premium over a shorter payment term', () => {
+    const regular = calculateTermPremium(standard).annualPremium;
+    const limited = calculateTermPremium({ ...standard, premiumPaymentTerm: 10 }).annualPremium;
+
+    expect(limited).toBeGreaterThan(regular);
+  });
+
+  it('rejects invalid terms and sums assured', () => {
+    expect(() => calculateTermPremium({ ...standard, term: 0 })).toThrow('Policy term must be at least one year');
+    expect(() => calculateTermPremium({ ...standard, premiumPaymentTerm: 31 })).toThrow('Premium payment term');
+    expect(() => calculateTermPremium({ ...standard, premiumPaymentTerm: 0 })).toThrow('Premium payment term');
+    expect(() => calculateTermPremium({ ...standard, sumAssured: 0 })).toThrow('Sum assured must be positive');
+  });
+});
+
+describe('calculateTermPremium with return of premium', () => {
+  it('costs more than the plain term plan and refunds every base premium', () => {
+    const term = calculateTermPremium(standard);
+    const rop = calculateTermPremium({ ...standard, returnOfPremium: true });
+
+    expect(rop.annualPremium).toBeGreaterThan(term.annualPremium);
+    expect(rop.netPremium).toBe(term.netPremium);
+    expect(rop.maturityBenefit).toBe(rop.basePremium * standard.term);
+  });
+
+  it('refunds only the premiums paid on limited pay', () => {
+    const rop = calculateTermPremium({ ...standard, premiumPaymentTerm: 10, returnOfPremium: true });
+
+    expect(rop.maturityBenefit).toBe(rop.basePremium * 10);
+  });
+
+  it('funds the refund out of the loading denominator', () => {
+    const { expenseLoading, profitMargin, policyFee } = DEFAULT_PRICING_BASIS;
+    const { annuity, endowment } = termAssuranceFactors(standard, DEFAULT_PRICING_BASIS);
+    const rop = calculateTermPremium({ ...standard, returnOfPremium: true });
+
+    const denominator = 1 - expenseLoading - profitMargin - (standard.term * endowment) / annuity;
+    expect(denominator).toBeGreaterThan(0);
+    expect(rop.basePremium).toBeCloseTo((rop.netPremium + policyFee) / denominator, -1);
+  });
+
+  it('refuses terms too short for the refund to be funded', () => {
+    expect(() => calculateTermPremium({ ...standard, term: 5, returnOfPremium: true }))
+      .toThrow('Return of premium cannot be offered on a term this short');
+  });
+});
+
+describe('calculatePaymentOptions', () => {
+  it('offers regular pay in every mode by default', () => {
+    const options = calculatePaymentOptions(standard);
+    const regular = calculateTermPremium(standard).annualPremium;
+
+    expect(options).toHaveLength(1);
+    expect(options[0]).toMatchObject({ type: 'regular', premiumPaymentTerm: 30, label: 'Regular pay (30 years)' });
+    expect(options[0].modes.map(mode => mode.mode)).toEqual(['annual', 'half_yearly', 'quarterly', 'monthly']);
+
+    const monthly = options[0].modes.find(mode => mode.mode === 'monthly')!;
+    expect(monthly.instalment).toBe(Math.round(regular * MODAL_FACTORS.monthly));
+    expect(monthly.annualOutgo).toBe(monthly.instalment * 12);
+    expect(monthly.totalOutgo).toBe(monthly.annualOutgo * 30);
+  });
+
+  it('skips limited pay terms that are not shorter than the policy term', () => {
+    const options = calculatePaymentOptions(standard, DEFAULT_PRICING_BASIS, { limitedPayTerms: [10, 30, 40] });
+
+    expect(options.map(option => option.premiumPaymentTerm)).toEqual([30, 10]);
+    expect(options[1].type).toBe('limited');
+  });
+
+  it('prices single pay as one payment', () => {
+    const options = calculatePaymentOptions(standard, DEFAULT_PRICING_BASIS, { singlePay: true });
+    const single = options.find(option => option.type === 'single')!;
+    const premium = calculateTermPremium({ ...standard, premiumPaymentTerm: 1 }).annualPremium;
+
+    expect(single.modes).toEqual([{
+      mode: 'single',
+      instalment: premium,
+      instalmentsPerYear: 1,
+      annualOutgo: premium,
+      totalOutgo: premium
+    }]);
+  });
+
+  it('costs more in total the longer premiums are spread', () => {
+    const options = calculatePaymentOptions(standard, DEFAULT_PRICING_BASIS, { limitedPayTerms: [10], singlePay: true });
+    const totalAnnual = options.map(option => option.modes[0].totalOutgo);
+
+    // Regular pay spreads the cost over the most years, so its total outgo is
+    // the largest even though each instalment is the smallest
+    expect(totalAnnual[0]).toBeGreaterThan(totalAnnual[1]);
+    expect(totalAnnual[1]).toBeGreaterThan(totalAnnual[2]);
+  });
+});
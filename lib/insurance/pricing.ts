@@ -0,0 +1,298 @@
+import { Gender, mortalityRate } from './mortality';
+import { OccupationClass, occupationExtraMortality } from './occupation';
+
+// Actuarial pricing engine for level-premium term assurance.
+//
+// Premiums are the equivalence-principle net premium (present value of death
+// benefits divided by the present value of premiums) loaded for expenses and
+// profit, with GST added on top. Return of premium variants also refund the
+// premiums paid (before GST) on survival to the end of the term, which the
+// premium has to fund as well. Everything in here is a pure function so it
+// can be exercised without Supabase or the AI runtime.
+
+export interface PricingBasis {
+  // Valuation interest rate, e.g. 0.06 for 6% p.a.
+  interestRate: number;
+  // Expected mortality as a multiple of the table. Fully underwritten term
+  // business runs well below IALM, which is an aggregate insured-lives table.
+  mortalityFactor: number;
+  // Expenses and commission as a fraction of the gross premium
+  expenseLoading: number;
+  // Fixed annual per-policy expense in rupees
+  policyFee: number;
+  // Profit margin as a fraction of the gross premium
+  profitMargin: number;
+  // GST on term life premiums
+  taxRate: number;
+}
+
+export const DEFAULT_PRICING_BASIS: PricingBasis = {
+  interestRate: 0.06,
+  mortalityFactor: 0.5,
+  expenseLoading: 0.12,
+  policyFee: 500,
+  profitMargin: 0.1,
+  taxRate: 0.18
+};
+
+export interface PremiumInput {
+  age: number;
+  gender: Gender;
+  smoker: boolean;
+  sumAssured: number;
+  // Policy term in years
+  term: number;
+  // Years over which premiums are paid; defaults to the policy term (regular
+  // pay). Use a shorter term for limited pay and 1 for single pay.
+  premiumPaymentTerm?: number;
+  // Additional mortality as a fraction of the standard rate (0.5 = +50%)
+  extraMortality?: number;
+  // Occupation risk class; its loading is added to extraMortality
+  occupationClass?: OccupationClass | null;
+  // Refund the premiums paid, excluding GST, on survival to the end of the
+  // term
+  returnOfPremium?: boolean;
+}
+
+export interface PremiumQuote {
+  // Pure risk premium before any loadings
+  netPremium: number;
+  // Premium after expense and profit loadings, before tax
+  basePremium: number;
+  tax: number;
+  // What the customer pays per year, including tax
+  annualPremium: number;
+  monthlyPremium: number;
+  // Paid on survival to the end of the term; return of premium only
+  maturityBenefit?: number;
+}
+
+export interface PremiumRange {
+  min: number;
+  max: number;
+}
+
+export type PaymentMode = 'annual' | 'half_yearly' | 'quarterly' | 'monthly' | 'single';
+
+export type PaymentOptionType = 'regular' | 'limited' | 'single';
+
+// Instalment as a fraction of the annual premium. The excess over 1/n covers
+// lost interest and collection costs on more frequent payments.
+export const MODAL_FACTORS: Record<Exclude<PaymentMode, 'single'>, number> = {
+  annual: 1,
+  half_yearly: 0.51,
+  quarterly: 0.26,
+  monthly: 0.0875
+};
+
+const INSTALMENTS_PER_YEAR: Record<Exclude<PaymentMode, 'single'>, number> = {
+  annual: 1,
+  half_yearly: 2,
+  quarterly: 4,
+  monthly: 12
+};
+
+export interface ModalPremium {
+  mode: PaymentMode;
+  instalment: number;
+  instalmentsPerYear: number;
+  // Total paid in a premium-paying year
+  annualOutgo: number;
+  // Total paid over the whole premium payment term
+  totalOutgo: number;
+}
+
+export interface PaymentOption {
+  type: PaymentOptionType;
+  premiumPaymentTerm: number;
+  label: string;
+  modes: ModalPremium[];
+}
+
+export interface PaymentOptionsConfig {
+  // Limited pay terms offered, e.g. [5, 10, 15]
+  limitedPayTerms?: number[];
+  singlePay?: boolean;
+}
+
+// Age last birthday on the given date
+export function ageFromDob(dob: string | Date, asOf: Date = new Date()): number {
+  const birthDate = new Date(dob);
+  let age = asOf.getFullYear() - birthDate.getFullYear();
+  const monthDiff = asOf.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && asOf.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+// Map free-text gender from the profile onto the two-table mortality basis.
+// Anything other than an explicit female answer is priced on the male table,
+// which is the more conservative choice.
+export function pricingGender(gender?: string | null): Gender {
+  const normalised = (gender || '').trim().toLowerCase();
+  return ['female', 'f', 'woman'].includes(normalised) ? 'female' : 'male';
+}
+
+// Present value of a benefit of 1 paid at the end of the year of death over
+// the policy term, of an annuity-due of 1 payable while alive over the
+// premium payment term, and of 1 paid on survival to the end of the term
+export function termAssuranceFactors(
+  input: Omit<PremiumInput, 'sumAssured'>,
+  basis: Pick<PricingBasis, 'interestRate' | 'mortalityFactor'>
+): { assurance: number; annuity: number; endowment: number } {
+  const v = 1 / (1 + basis.interestRate);
+  const paymentTerm = Math.min(input.premiumPaymentTerm ?? input.term, input.term);
+  const extraMortality = (input.extraMortality || 0) + occupationExtraMortality(input.occupationClass);
+  let survival = 1;
+  let assurance = 0;
+  let annuity = 0;
+
+  for (let t = 0; t < input.term; t++) {
+    const q = Math.min(1, basis.mortalityFactor * mortalityRate({
+      age: input.age + t,
+      gender: input.gender,
+      smoker: input.smoker,
+      extraMortality
+    }));
+
+    if (t < paymentTerm) {
+      annuity += survival * Math.pow(v, t);
+    }
+    assurance += survival * q * Math.pow(v, t + 1);
+    survival *= 1 - q;
+  }
+
+  return { assurance, annuity, endowment: survival * Math.pow(v, input.term) };
+}
+
+// Level annual premium for a term policy, payable over the premium payment
+// term (the whole policy term unless a limited or single pay term is given)
+export function calculateTermPremium(
+  input: PremiumInput,
+  basis: PricingBasis = DEFAULT_PRICING_BASIS
+): PremiumQuote {
+  if (input.term <= 0) {
+    throw new Error('Policy term must be at least one year');
+  }
+  if (input.premiumPaymentTerm !== undefined && (input.premiumPaymentTerm <= 0 || input.premiumPaymentTerm > input.term)) {
+    throw new Error('Premium payment term must be between one year and the policy term');
+  }
+  if (input.sumAssured <= 0) {
+    throw new Error('Sum assured must be positive');
+  }
+
+  const { assurance, annuity, endowment } = termAssuranceFactors(input, basis);
+  const netPremium = (input.sumAssured * assurance) / annuity;
+
+  let loadingDenominator = 1 - basis.expenseLoading - basis.profitMargin;
+  if (loadingDenominator <= 0) {
+    throw new Error('Expense and profit loadings must be below 100% of premium');
+  }
+
+  // The refund is every base premium paid, so it scales with the premium
+  // itself: each rupee of premium also has to fund paymentTerm rupees paid
+  // back on survival
+  const paymentTerm = Math.min(input.premiumPaymentTerm ?? input.term, input.term);
+  if (input.returnOfPremium) {
+    loadingDenominator -= (paymentTerm * endowment) / annuity;
+    if (loadingDenominator <= 0) {
+      throw new Error('Return of premium cannot be offered on a term this short');
+    }
+  }
+
+  const basePremium = (netPremium + basis.policyFee) / loadingDenominator;
+  const tax = basePremium * basis.taxRate;
+  const annualPremium = basePremium + tax;
+
+  return {
+    netPremium: Math.round(netPremium),
+    basePremium: Math.round(basePremium),
+    tax: Math.round(tax),
+    annualPremium: Math.round(annualPremium),
+    monthlyPremium: Math.round(annualPremium * MODAL_FACTORS.monthly),
+    maturityBenefit: input.returnOfPremium ? Math.round(basePremium) * paymentTerm : undefined
+  };
+}
+
+function modalPremiums(annualPremium: number, paymentTerm: number): ModalPremium[] {
+  return (Object.keys(MODAL_FACTORS) as Array<keyof typeof MODAL_FACTORS>).map(mode => {
+    const instalment = Math.round(annualPremium * MODAL_FACTORS[mode]);
+    const annualOutgo = instalment * INSTALMENTS_PER_YEAR[mode];
+    return {
+      mode,
+      instalment,
+      instalmentsPerYear: INSTALMENTS_PER_YEAR[mode],
+      annualOutgo,
+      totalOutgo: annualOutgo * paymentTerm
+    };
+  });
+}
+
+// Matrix of premium payment options (regular, limited and single pay) by
+// payment mode, so customers can compare instalments against total outgo
+export function calculatePaymentOptions(
+  input: PremiumInput,
+  basis: PricingBasis = DEFAULT_PRICING_BASIS,
+  config: PaymentOptionsConfig = {}
+): PaymentOption[] {
+  const { limitedPayTerms = [], singlePay = false } = config;
+  const options: PaymentOption[] = [];
+
+  const regular = calculateTermPremium({ ...input, premiumPaymentTerm: input.term }, basis);
+  options.push({
+    type: 'regular',
+    premiumPaymentTerm: input.term,
+    label: `Regular pay (${input.term} years)`,
+    modes: modalPremiums(regular.annualPremium, input.term)
+  });
+
+  for (const paymentTerm of limitedPayTerms) {
+    // Limited pay only makes sense when it is shorter than the policy term
+    if (paymentTerm >= input.term) continue;
+
+    const limited = calculateTermPremium({ ...input, premiumPaymentTerm: paymentTerm }, basis);
+    options.push({
+      type: 'limited',
+      premiumPaymentTerm: paymentTerm,
+      label: `Limited pay (${paymentTerm} years)`,
+      modes: modalPremiums(limited.annualPremium, paymentTerm)
+    });
+  }
+
+  if (singlePay) {
+    const single = calculateTermPremium({ ...input, premiumPaymentTerm: 1 }, basis);
+    options.push({
+      type: 'single',
+      premiumPaymentTerm: 1,
+      label: 'Single pay',
+      modes: [{
+        mode: 'single',
+        instalment: single.annualPremium,
+        instalmentsPerYear: 1,
+        annualOutgo: single.annualPremium,
+        totalOutgo: single.annualPremium
+      }]
+    });
+  }
+
+  return options;
+}
+
+// Indicative range used when the profile is missing details that move the
+// price. If gender is unknown the bounds span both tables; either way they are
+// widened by a margin for underwriting outcomes.
+export function estimatePremiumRange(
+  input: PremiumInput,
+  basis: PricingBasis = DEFAULT_PRICING_BASIS,
+  options: { genderKnown?: boolean; margin?: number } = {}
+): PremiumRange {
+  const { genderKnown = true, margin = 0.1 } = options;
+  const genders: Gender[] = genderKnown ? [input.gender] : ['female', 'male'];
+  const premiums = genders.map(gender => calculateTermPremium({ ...input, gender }, basis).annualPremium);
+
+  return {
+    min: Math.round(Math.min(...premiums) * (1 - margin)),
+    max: Math.round(Math.max(...premiums) * (1 + margin))
+  };
+}
@@ -0,0 +1,183 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NewQuote, QuoteLine, QuoteStatus, SavedQuote } from './schema';
+
+// Saved quote repository.
+//
+// Rows are scoped to the signed-in user by RLS; every query also filters on
+// user_id so a misconfigured policy cannot leak another user's quotes.
+
+interface QuoteRow {
+  id: string;
+  user_id: string;
+  line: QuoteLine;
+  status: QuoteStatus;
+  inputs: Record<string, unknown>;
+  products: unknown[];
+  details: Record<string, unknown> | null;
+  valid_until: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListQuotesOptions {
+  line?: QuoteLine;
+  status?: QuoteStatus;
+  ids?: string[];
+  limit?: number;
+}
+
+// Quotes are held for 30 days, but never past the day before the next
+// birthday because premiums are priced on age last birthday
+export const QUOTE_VALIDITY_DAYS = 30;
+
+export function quoteValidUntil(dob?: string | null, quotedAt: Date = new Date()): Date {
+  const validUntil = new Date(quotedAt);
+  validUntil.setDate(validUntil.getDate() + QUOTE_VALIDITY_DAYS);
+
+  if (dob) {
+    const birthDate = new Date(dob);
+    const nextBirthday = new Date(quotedAt.getFullYear(), birthDate.getMonth(), birthDate.getDate());
+    if (nextBirthday <= quotedAt) {
+      nextBirthday.setFullYear(nextBirthday.getFullYear() + 1);
+    }
+    nextBirthday.setDate(nextBirthday.getDate() - 1);
+    if (nextBirthday > quotedAt && nextBirthday < validUntil) {
+      return nextBirthday;
+    }
+  }
+
+  return validUntil;
+}
+
+// Active quotes past their validity window are reported as expired without
+// waiting for a background job to update the row
+function toSavedQuote<TProduct = unknown, TDetails = Record<string, unknown>>(row: QuoteRow, now: Date = new Date()): SavedQuote<TProduct, TDetails> {
+  const expired = row.status === 'active' && new Date(row.valid_until) < now;
+  return {
+    id: row.id,
+    line: row.line,
+    status: expired ? 'expired' : row.status,
+    inputs: row.inputs,
+    products: row.products as TProduct[],
+    details: (row.details || {}) as TDetails,
+    validUntil: row.valid_until,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function createQuote<TProduct, TDetails>(
+  supabase: SupabaseClient,
+  userId: string,
+  quote: NewQuote<TProduct, TDetails>
+): Promise<SavedQuote<TProduct, TDetails>> {
+  const { data, error } = await supabase
+    .from('quotes')
+    .insert({
+      user_id: userId,
+      line: quote.line,
+      status: 'active',
+      inputs: quote.inputs,
+      products: quote.products,
+      details: quote.details || {},
+      valid_until: quote.validUntil.toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return toSavedQuote<TProduct, TDetails>(data as QuoteRow);
+}
+
+// List a user's quotes, newest first
+export async function listQuotes(
+  supabase: SupabaseClient,
+  userId: string,
+  options: ListQuotesOptions = {}
+): Promise<SavedQuote[]> {
+  let query = supabase
+    .from('quotes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (options.line) {
+    query = query.eq('line', options.line);
+  }
+  if (options.ids && options.ids.length > 0) {
+    query = query.in('id', options.ids);
+  }
+  if (options.limit) {
+    query = query.limit(options.limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const quotes = ((data || []) as QuoteRow[]).map(row => toSavedQuote(row));
+  // Filter on the effective status so 'expired' and 'active' are accurate
+  return options.status ? quotes.filter(quote => quote.status === options.status) : quotes;
+}
+
+export async function getQuote<TProduct = unknown, TDetails = Record<string, unknown>>(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<SavedQuote<TProduct, TDetails> | null> {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? toSavedQuote<TProduct, TDetails>(data as QuoteRow) : null;
+}
+
+export interface QuoteStatusUpdate {
+  quote: SavedQuote | null;
+  // Why the update was refused, if it was
+  error?: 'not_found' | 'not_active';
+}
+
+// Move an active quote to a new status. Accepted, withdrawn and expired
+// quotes are final.
+export async function updateQuoteStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  status: Extract<QuoteStatus, 'accepted' | 'withdrawn'>
+): Promise<QuoteStatusUpdate> {
+  const quote = await getQuote(supabase, userId, id);
+  if (!quote) {
+    return { quote: null, error: 'not_found' };
+  }
+
+  if (quote.status !== 'active') {
+    return { quote, error: 'not_active' };
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { quote: toSavedQuote(data as QuoteRow) };
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+// Saved quote schema.
+//
+// Every quoting run is stored in the `quotes` table with a snapshot of the
+// inputs it was priced on and the priced products, so a quote can be reopened
+// or compared later exactly as it was shown.
+
+export const quoteLineSchema = z.enum(['term_life', 'health', 'motor', 'travel', 'home']);
+
+export const quoteStatusSchema = z.enum(['active', 'accepted', 'withdrawn', 'expired']);
+
+// Statuses a user may move a quote to; 'expired' is set by the validity window
+export const quoteStatusUpdateSchema = z.object({
+  status: z.enum(['accepted', 'withdrawn'])
+});
+
+export type QuoteLine = z.infer<typeof quoteLineSchema>;
+export type QuoteStatus = z.infer<typeof quoteStatusSchema>;
+
+export interface SavedQuote<TProduct = unknown, TDetails = Record<string, unknown>> {
+  id: string;
+  line: QuoteLine;
+  status: QuoteStatus;
+  // Profile and request data the quote was priced on
+  inputs: Record<string, unknown>;
+  // Priced products as returned to the UI
+  products: TProduct[];
+  // Line-specific extras, e.g. excluded products or the needs analysis
+  details: TDetails;
+  validUntil: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewQuote<TProduct = unknown, TDetails = Record<string, unknown>> {
+  line: QuoteLine;
+  inputs: Record<string, unknown>;
+  products: TProduct[];
+  details?: TDetails;
+  validUntil: Date;
+}
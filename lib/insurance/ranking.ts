@@ -0,0 +1,258 @@
+import { PayoutOption, RiderCode } from './catalog/schema';
+import { MIN_SOLVENCY_RATIO } from './scorecards/schema';
+
+// Recommendation ranking.
+//
+// Each plan the user can buy is scored 0-100 on five factors, and the overall
+// score is their weighted sum. Every factor carries a sentence explaining its
+// score, and the strongest ones become the plan's "why this plan" reasons, so
+// the order shown to the user can always be explained.
+
+export type RankingFactorKey = 'price' | 'claims' | 'fit' | 'riders' | 'solvency';
+
+export const RANKING_WEIGHTS: Record<RankingFactorKey, number> = {
+  price: 0.35,
+  claims: 0.25,
+  fit: 0.15,
+  riders: 0.15,
+  solvency: 0.1
+};
+
+const FACTOR_LABELS: Record<RankingFactorKey, string> = {
+  price: 'Price',
+  claims: 'Claim settlement',
+  fit: 'Fit to your profile',
+  riders: 'Riders',
+  solvency: 'Insurer solvency'
+};
+
+// All riders a plan could offer
+const RIDER_COUNT = 4;
+
+// Claim settlement ratios (percent) scored from 0 at the low end to 100 at the
+// high end; almost every large insurer is above 95%
+const CSR_FLOOR = 95;
+const CSR_CEILING = 100;
+
+// Solvency at the regulatory minimum scores 40, rising to 100 at this ratio
+const SOLVENCY_CEILING = 2.5;
+
+// Score given when a factor's data is missing, so the gap neither helps nor
+// sinks the plan
+const NEUTRAL_SCORE = 50;
+
+export interface RankingCandidate {
+  id: string;
+  // Annual premium including any riders the user asked for
+  annualPremium: number;
+  // Percent, e.g. 98.5
+  claimSettlementRatio?: number;
+  solvencyRatio?: number;
+  // Riders the user is eligible to add on this plan
+  ridersOffered: RiderCode[];
+  payoutOptions: PayoutOption[];
+  // Term the plan was quoted for, which may differ from the one asked for
+  quotedTerm: number;
+  // Underwriting loading as a fraction of standard mortality
+  extraMortality: number;
+}
+
+export interface RankingProfile {
+  requestedTerm: number;
+  requestedRiders: RiderCode[];
+  // Someone relies on the user's income, so an income payout matters
+  hasDependants: boolean;
+}
+
+export interface RankingFactor {
+  key: RankingFactorKey;
+  label: string;
+  weight: number;
+  score: number;
+  detail: string;
+}
+
+export interface ProductRanking {
+  // 1 is the best plan
+  rank: number;
+  score: number;
+  factors: RankingFactor[];
+  // The strongest factors, worded for the user
+  reasons: string[];
+}
+
+const MAX_REASONS = 3;
+
+// A factor's score and explanation, plus the reason to show the user when the
+// factor counts in the plan's favour
+interface FactorScore {
+  score: number;
+  detail: string;
+  reason?: string;
+}
+
+// Premiums this close to the cheapest still count as a reason to pick a plan
+const NEAR_CHEAPEST = 0.1;
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+// Parse a claim settlement ratio written as "98.01%" into 98.01
+export function parseClaimSettlementRatio(value?: string | null): number | undefined {
+  const ratio = parseFloat((value || '').replace('%', ''));
+  return isFinite(ratio) ? ratio : undefined;
+}
+
+function priceFactor(candidate: RankingCandidate, cheapest: number, count: number): FactorScore {
+  const score = clampScore((cheapest / candidate.annualPremium) * 100);
+  if (candidate.annualPremium <= cheapest) {
+    const detail = count > 1
+      ? `Lowest premium of the ${count} plans at ${formatRupees(candidate.annualPremium)} a year`
+      : `${formatRupees(candidate.annualPremium)} a year`;
+    return { score, detail, reason: count > 1 ? detail : undefined };
+  }
+  const above = (candidate.annualPremium - cheapest) / cheapest;
+  return {
+    score,
+    detail: `${formatRupees(candidate.annualPremium)} a year, ${Math.round(above * 100)}% above the cheapest plan`,
+    reason: above <= NEAR_CHEAPEST ? `Within ${Math.max(1, Math.round(above * 100))}% of the cheapest premium` : undefined
+  };
+}
+
+function claimsFactor(candidate: RankingCandidate, best: number | undefined): FactorScore {
+  const ratio = candidate.claimSettlementRatio;
+  if (ratio === undefined) {
+    return { score: NEUTRAL_SCORE, detail: 'Claim settlement ratio not available' };
+  }
+  const score = clampScore(((ratio - CSR_FLOOR) / (CSR_CEILING - CSR_FLOOR)) * 100);
+  const detail = ratio === best
+    ? `Highest claim settlement ratio of these plans (${ratio}%)`
+    : `Settles ${ratio}% of claims`;
+  return { score, detail, reason: score >= 70 ? detail : undefined };
+}
+
+function ridersFactor(candidate: RankingCandidate, profile: RankingProfile): FactorScore {
+  const offered = candidate.ridersOffered.length;
+  const offeredShare = offered / RIDER_COUNT;
+  if (profile.requestedRiders.length === 0) {
+    const detail = offered === 0 ? 'No riders available to add' : `${offered} of ${RIDER_COUNT} riders available to add`;
+    return { score: clampScore(offeredShare * 100), detail, reason: offered >= 3 ? detail : undefined };
+  }
+
+  // The riders the user asked for count most
+  const requested = profile.requestedRiders.length;
+  const matched = profile.requestedRiders.filter(code => candidate.ridersOffered.includes(code)).length;
+  const score = clampScore((matched / requested) * 70 + offeredShare * 30);
+  if (matched === requested) {
+    const detail = `Offers ${requested === 1 ? 'the rider' : `all ${requested} riders`} you asked for`;
+    return { score, detail, reason: detail };
+  }
+  return {
+    score,
+    detail: matched === 0
+      ? `Does not offer ${requested === 1 ? 'the rider' : 'any of the riders'} you asked for`
+      : `Offers ${matched} of the ${requested} riders you asked for`
+  };
+}
+
+function solvencyFactor(candidate: RankingCandidate): FactorScore {
+  const ratio = candidate.solvencyRatio;
+  if (ratio === undefined) {
+    return { score: NEUTRAL_SCORE, detail: 'Solvency ratio not available' };
+  }
+  const score = clampScore(40 + ((ratio - MIN_SOLVENCY_RATIO) / (SOLVENCY_CEILING - MIN_SOLVENCY_RATIO)) * 60);
+  if (ratio < MIN_SOLVENCY_RATIO) {
+    return { score, detail: `Solvency ratio of ${ratio.toFixed(2)}, below the IRDAI minimum of ${MIN_SOLVENCY_RATIO}` };
+  }
+  const detail = `Solvency ratio of ${ratio.toFixed(2)}, above the IRDAI minimum of ${MIN_SOLVENCY_RATIO}`;
+  return { score, detail, reason: score >= 70 ? detail : undefined };
+}
+
+// Average of the checks that apply to the user; the detail names the best
+// and flags the worst, and the reason is the best when it is a full match
+function fitFactor(candidate: RankingCandidate, profile: RankingProfile): FactorScore {
+  // Ordered most telling first, so ties name the check that matters most
+  const checks: { score: number; detail: string }[] = [];
+
+  if (profile.hasDependants) {
+    const incomePayout = candidate.payoutOptions.some(option => option !== 'lump_sum');
+    checks.push(incomePayout
+      ? { score: 100, detail: 'Can pay your family a monthly income instead of one lump sum' }
+      : { score: 50, detail: 'Pays the claim as a lump sum only' });
+  }
+
+  checks.push(candidate.extraMortality === 0
+    ? { score: 100, detail: 'Offered at standard rates with no underwriting loading' }
+    : { score: clampScore(100 - candidate.extraMortality * 100), detail: `Rated up ${Math.round(candidate.extraMortality * 100)}% at underwriting` });
+
+  const termGap = Math.abs(candidate.quotedTerm - profile.requestedTerm);
+  checks.push(termGap === 0
+    ? { score: 100, detail: `Quoted for exactly your ${profile.requestedTerm}-year term` }
+    : { score: clampScore(100 - termGap * 10), detail: `Quoted for ${candidate.quotedTerm} years rather than ${profile.requestedTerm}` });
+
+  const sorted = [...checks].sort((a, b) => b.score - a.score);
+  const weakest = sorted[sorted.length - 1];
+  return {
+    score: clampScore(checks.reduce((total, check) => total + check.score, 0) / checks.length),
+    detail: weakest.score < 100 && weakest !== sorted[0]
+      ? `${sorted[0].detail}; ${weakest.detail.charAt(0).toLowerCase()}${weakest.detail.slice(1)}`
+      : sorted[0].detail,
+    reason: sorted[0].score === 100 ? sorted[0].detail : undefined
+  };
+}
+
+// Score and rank the candidates. Rankings come back in the input order; sort
+// by rank to display them.
+export function rankProducts(candidates: RankingCandidate[], profile: RankingProfile): ProductRanking[] {
+  if (candidates.length === 0) return [];
+
+  const cheapest = Math.min(...candidates.map(candidate => candidate.annualPremium));
+  const ratios = candidates
+    .map(candidate => candidate.claimSettlementRatio)
+    .filter((ratio): ratio is number => ratio !== undefined);
+  const bestRatio = ratios.length > 0 ? Math.max(...ratios) : undefined;
+
+  const scored = candidates.map(candidate => {
+    const parts: Record<RankingFactorKey, FactorScore> = {
+      price: priceFactor(candidate, cheapest, candidates.length),
+      claims: claimsFactor(candidate, bestRatio),
+      fit: fitFactor(candidate, profile),
+      riders: ridersFactor(candidate, profile),
+      solvency: solvencyFactor(candidate)
+    };
+    const keys = Object.keys(RANKING_WEIGHTS) as RankingFactorKey[];
+    const factors: RankingFactor[] = keys.map(key => ({
+      key,
+      label: FACTOR_LABELS[key],
+      weight: RANKING_WEIGHTS[key],
+      score: parts[key].score,
+      detail: parts[key].detail
+    }));
+    const score = Math.round(factors.reduce((total, factor) => total + factor.score * factor.weight, 0));
+
+    // Favourable factors that count the most make the best reasons
+    const reasons = keys
+      .filter(key => parts[key].reason)
+      .sort((a, b) => parts[b].score * RANKING_WEIGHTS[b] - parts[a].score * RANKING_WEIGHTS[a])
+      .slice(0, MAX_REASONS)
+      .map(key => parts[key].reason!);
+
+    return { score, factors, reasons };
+  });
+
+  // Ties go to the cheaper plan
+  const order = candidates
+    .map((candidate, index) => index)
+    .sort((a, b) => scored[b].score - scored[a].score || candidates[a].annualPremium - candidates[b].annualPremium);
+
+  const rankings: ProductRanking[] = new Array(candidates.length);
+  order.forEach((index, position) => {
+    rankings[index] = { rank: position + 1, ...scored[index] };
+  });
+  return rankings;
+}
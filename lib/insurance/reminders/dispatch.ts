@@ -0,0 +1,72 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Notifier } from '@/lib/notifications/types';
+import { listPolicies } from '../policies/repository';
+import { Reminder, formatDate, upcomingReminders } from './schedule';
+import { deliveredReminderKeys, recordReminderDelivery } from './repository';
+
+// Reminder delivery.
+//
+// Sends each reminder falling due within the lead time through every
+// notifier, once per channel. A channel that fails is logged and retried on
+// the next run; the other channels still deliver.
+
+export const DEFAULT_LEAD_DAYS = 7;
+
+export interface DispatchTarget {
+  userId: string;
+  email?: string | null;
+}
+
+export interface DispatchResult {
+  // Reminders due within the lead time
+  due: Reminder[];
+  // Reminder keys sent on each channel in this run
+  sent: Record<string, string[]>;
+  failed: { channel: string; key: string; error: string }[];
+}
+
+export async function dispatchDueReminders(
+  supabase: SupabaseClient,
+  target: DispatchTarget,
+  notifiers: Notifier[],
+  options: { leadDays?: number; today?: Date } = {}
+): Promise<DispatchResult> {
+  const today = options.today ?? new Date();
+  const from = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+  const to = new Date(from.getTime() + (options.leadDays ?? DEFAULT_LEAD_DAYS) * 24 * 60 * 60 * 1000);
+
+  const policies = await listPolicies(supabase, target.userId, { status: 'active' });
+  const due = upcomingReminders(policies, { from: formatDate(from), to: formatDate(to) });
+
+  const result: DispatchResult = { due, sent: {}, failed: [] };
+
+  for (const notifier of notifiers) {
+    const delivered = await deliveredReminderKeys(supabase, target.userId, notifier.channel, due.map(reminder => reminder.key));
+    result.sent[notifier.channel] = [];
+
+    for (const reminder of due.filter(item => !delivered.has(item.key))) {
+      try {
+        await notifier.send({
+          userId: target.userId,
+          email: target.email,
+          title: reminder.title,
+          body: reminder.graceEndsOn
+            ? `${reminder.description} Due ${reminder.dueDate}; grace period ends ${reminder.graceEndsOn}.`
+            : `${reminder.description} Due ${reminder.dueDate}.`,
+          link: '/chat'
+        });
+        await recordReminderDelivery(supabase, target.userId, notifier.channel, reminder.key);
+        result.sent[notifier.channel].push(reminder.key);
+      } catch (error) {
+        console.error(`[reminders] Failed to send ${reminder.key} by ${notifier.channel}:`, error);
+        result.failed.push({
+          channel: notifier.channel,
+          key: reminder.key,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  return result;
+}
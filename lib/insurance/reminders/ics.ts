@@ -0,0 +1,110 @@
+import { Reminder } from './schedule';
+
+// iCalendar (RFC 5545) export of policy reminders.
+//
+// Each reminder becomes an all-day event with an alert a week before, so the
+// feed can be subscribed to from Google Calendar, Outlook or Apple Calendar.
+// Event UIDs come from the reminder keys, which keeps them stable between
+// refreshes of the feed.
+
+export interface CalendarOptions {
+  name?: string;
+  // Days before the due date to raise the alert
+  alertDaysBefore?: number;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//CoverNow//Policy Reminders//EN';
+const UID_DOMAIN = 'covernow';
+const DEFAULT_CALENDAR_NAME = 'CoverNow policy reminders';
+const DEFAULT_ALERT_DAYS = 7;
+// Content lines are limited to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold long lines, continuing with a leading space. Splits between
+// characters so multi-byte characters such as ₹ are never cut in half.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function dateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0];
+}
+
+function timestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function buildCalendar(reminders: Reminder[], options: CalendarOptions = {}): string {
+  const stamp = timestamp(options.now ?? new Date());
+  const alertDays = options.alertDaysBefore ?? DEFAULT_ALERT_DAYS;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name ?? DEFAULT_CALENDAR_NAME)}`
+  ];
+
+  for (const reminder of reminders) {
+    const description = reminder.graceEndsOn
+      ? `${reminder.description} Grace period ends ${reminder.graceEndsOn}.`
+      : reminder.description;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${reminder.key.replace(/:/g, '-')}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(reminder.dueDate)}`,
+      `DTEND;VALUE=DATE:${dateValue(nextDay(reminder.dueDate))}`,
+      `SUMMARY:${escapeText(reminder.title)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(reminder.title)}`,
+      `TRIGGER:-P${alertDays}D`,
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,78 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationChannel } from '@/lib/notifications/types';
+
+// Reminder persistence: the per-user calendar feed token and the log of
+// reminders already delivered on each channel.
+//
+// Rows are scoped to the signed-in user by RLS; every query also filters on
+// user_id.
+
+// The user's calendar feed token, created on first use
+export async function getCalendarToken(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data: existing, error: readError } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (readError) {
+    throw readError;
+  }
+
+  if (existing) {
+    return existing.token as string;
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId })
+    .select('token')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.token as string;
+}
+
+// Keys of the given reminders already delivered on the channel
+export async function deliveredReminderKeys(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: NotificationChannel,
+  keys: string[]
+): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('reminder_deliveries')
+    .select('reminder_key')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .in('reminder_key', keys);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Set((data || []).map(row => row.reminder_key as string));
+}
+
+export async function recordReminderDelivery(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: NotificationChannel,
+  key: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('reminder_deliveries')
+    .upsert(
+      { user_id: userId, channel, reminder_key: key },
+      { onConflict: 'user_id,channel,reminder_key', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  EMPLOYER_TYPES,
+  ExistingPolicy,
+  POLICY_TYPE_CATEGORIES,
+  POLICY_TYPE_LABELS,
+  PremiumFrequency,
+  SAVINGS_LINKED_TYPES
+} from '../policies/schema';
+import { annualisedPremium } from '../policies/gapAnalysis';
+import { ReminderPeriod } from './schema';
+
+// Policy reminder schedule.
+//
+// Works out what falls due on the user's recorded policies: premium
+// instalments on life policies, yearly renewals on health and general
+// policies, and maturity of savings plans. Dates are projected from the next
+// due date the user gave, or else from the start date, at the premium
+// frequency. Everything here is date-only and computed in UTC so a due date
+// never shifts by a day with the server's timezone.
+
+export type ReminderKind = 'premium_due' | 'renewal' | 'maturity';
+
+export interface Reminder {
+  // Stable across runs, so a reminder is only ever sent once per channel
+  key: string;
+  policyId: string;
+  kind: ReminderKind;
+  // YYYY-MM-DD
+  dueDate: string;
+  // Premium due, when there is one to pay
+  amount: number | null;
+  // Last day to pay before the policy lapses
+  graceEndsOn: string | null;
+  insurer: string;
+  planName: string | null;
+  title: string;
+  description: string;
+}
+
+export interface ReminderWindow {
+  // Inclusive YYYY-MM-DD bounds
+  from: string;
+  to: string;
+}
+
+const MONTHS_BETWEEN_INSTALMENTS: Record<Exclude<PremiumFrequency, 'single'>, number> = {
+  annual: 12,
+  half_yearly: 6,
+  quarterly: 3,
+  monthly: 1
+};
+
+// IRDAI grace periods: 15 days for monthly premiums, 30 days otherwise
+const MONTHLY_GRACE_DAYS = 15;
+const GRACE_DAYS = 30;
+
+// Guards against runaway projection on bad data (100 years of monthly dues)
+const MAX_OCCURRENCES = 1200;
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Add months, clamping to the end of shorter months (31 Jan + 1 month is
+// 28 or 29 Feb), always from the anchor so the day does not drift
+function addMonths(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(anchor.getUTCDate(), lastDay)));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+// Inclusive date range for a named period. Quarters follow the Indian
+// financial year (Apr-Jun, Jul-Sep, Oct-Dec, Jan-Mar), which shares its
+// boundaries with calendar quarters.
+export function reminderWindow(period: ReminderPeriod, today: Date = new Date()): ReminderWindow {
+  const start = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const quarterStart = month - (month % 3);
+
+  switch (period) {
+    case 'next_30_days':
+      return { from: formatDate(start), to: formatDate(addDays(start, 30)) };
+    case 'next_90_days':
+      return { from: formatDate(start), to: formatDate(addDays(start, 90)) };
+    case 'this_month':
+      return { from: formatDate(start), to: formatDate(new Date(Date.UTC(year, month + 1, 0))) };
+    case 'this_quarter':
+      return { from: formatDate(start), to: formatDate(new Date(Date.UTC(year, quarterStart + 3, 0))) };
+    case 'next_quarter':
+      return {
+        from: formatDate(new Date(Date.UTC(year, quarterStart + 3, 1))),
+        to: formatDate(new Date(Date.UTC(year, quarterStart + 6, 0)))
+      };
+    case 'this_financial_year': {
+      const financialYearEnd = month >= 3 ? year + 1 : year;
+      return { from: formatDate(start), to: formatDate(new Date(Date.UTC(financialYearEnd, 3, 0))) };
+    }
+  }
+}
+
+// Dates from the anchor at a fixed step that fall inside the window and
+// before the end of the policy
+function projectDates(anchor: Date, stepMonths: number, window: ReminderWindow, end: Date | null): Date[] {
+  const from = parseDate(window.from);
+  const to = parseDate(window.to);
+  const dates: Date[] = [];
+
+  for (let k = 0; k < MAX_OCCURRENCES; k++) {
+    const date = addMonths(anchor, k * stepMonths);
+    if (date > to || (end && date >= end)) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+export function policyReminders(policy: ExistingPolicy, window: ReminderWindow): Reminder[] {
+  if (policy.status !== 'active') return [];
+
+  const name = policy.planName || `${policy.insurer} ${POLICY_TYPE_LABELS[policy.policyType]}`;
+  const start = policy.startDate ? parseDate(policy.startDate) : null;
+  const end = start && policy.termYears ? addMonths(start, policy.termYears * 12) : null;
+  const anchorValue = policy.renewalDate || policy.startDate;
+  const reminders: Reminder[] = [];
+
+  const reminder = (kind: ReminderKind, date: Date, amount: number | null, graceDays: number | null, title: string, description: string): Reminder => ({
+    key: `${policy.id}:${kind}:${formatDate(date)}`,
+    policyId: policy.id,
+    kind,
+    dueDate: formatDate(date),
+    amount,
+    graceEndsOn: graceDays !== null ? formatDate(addDays(date, graceDays)) : null,
+    insurer: policy.insurer,
+    planName: policy.planName,
+    title,
+    description
+  });
+
+  // Employer cover is renewed and paid for by the employer
+  if (EMPLOYER_TYPES.includes(policy.policyType)) return [];
+
+  if (POLICY_TYPE_CATEGORIES[policy.policyType] === 'life') {
+    if (anchorValue && policy.premiumFrequency !== 'single' && policy.premium > 0) {
+      const graceDays = policy.premiumFrequency === 'monthly' ? MONTHLY_GRACE_DAYS : GRACE_DAYS;
+      for (const date of projectDates(parseDate(anchorValue), MONTHS_BETWEEN_INSTALMENTS[policy.premiumFrequency], window, end)) {
+        reminders.push(reminder(
+          'premium_due',
+          date,
+          policy.premium,
+          graceDays,
+          `${name} premium due`,
+          `${formatRupees(policy.premium)} premium for ${name} with ${policy.insurer}. Pay within ${graceDays} days to keep the policy in force.`
+        ));
+      }
+    }
+
+    if (end && formatDate(end) >= window.from && formatDate(end) <= window.to) {
+      reminders.push(reminder(
+        'maturity',
+        end,
+        null,
+        null,
+        SAVINGS_LINKED_TYPES.includes(policy.policyType) ? `${name} matures` : `${name} cover ends`,
+        SAVINGS_LINKED_TYPES.includes(policy.policyType)
+          ? `${name} with ${policy.insurer} matures. Submit the discharge form to receive the maturity amount.`
+          : `Your ${formatRupees(policy.sumAssured)} cover with ${policy.insurer} ends. Arrange new cover beforehand if your family still depends on your income.`
+      ));
+    }
+
+    return reminders;
+  }
+
+  // Health, accident and general policies renew every year
+  if (anchorValue) {
+    const premium = annualisedPremium(policy);
+    for (const date of projectDates(parseDate(anchorValue), 12, window, end)) {
+      reminders.push(reminder(
+        'renewal',
+        date,
+        premium > 0 ? premium : null,
+        GRACE_DAYS,
+        `${name} renewal`,
+        `${name} with ${policy.insurer} is due for renewal` +
+          (premium > 0 ? ` (last premium ${formatRupees(premium)})` : '') +
+          `. Renew on time to keep waiting periods and no-claim benefits.`
+      ));
+    }
+  }
+
+  return reminders;
+}
+
+// All reminders in the window, soonest first
+export function upcomingReminders(policies: ExistingPolicy[], window: ReminderWindow): Reminder[] {
+  return policies
+    .flatMap(policy => policyReminders(policy, window))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.title.localeCompare(b.title));
+}
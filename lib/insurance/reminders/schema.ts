@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Named periods reminders can be listed for
+export const reminderPeriodSchema = z.enum([
+  'next_30_days',
+  'next_90_days',
+  'this_month',
+  'this_quarter',
+  'next_quarter',
+  'this_financial_year'
+]);
+
+export type ReminderPeriod = z.infer<typeof reminderPeriodSchema>;
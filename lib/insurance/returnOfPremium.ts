@@ -0,0 +1,98 @@
+import { fv, irr } from '../finance';
+
+// Return of premium (ROP) against pure term plus investing the difference.
+//
+// An ROP plan costs more each year than the same cover as pure term, and pays
+// the premiums back if the life assured survives the term. The alternative is
+// to buy pure term and invest the extra yourself. Both options give the same
+// death benefit, so the comparison is between what each leaves on survival:
+// the ROP refund, or the invested difference grown at an assumed return.
+
+export interface ReturnOfPremiumInput {
+  // Annual premiums including GST, as the customer pays them
+  termPremium: number;
+  ropPremium: number;
+  // Refund on survival to the end of the term
+  maturityBenefit: number;
+  // Years premiums are paid; the same for both plans
+  premiumPaymentTerm: number;
+  policyTerm: number;
+  // Assumed annual return on the invested difference, e.g. 0.08
+  expectedReturn: number;
+}
+
+export interface ReturnOfPremiumYear {
+  year: number;
+  // Extra paid for ROP so far
+  extraPaid: number;
+  // Value of the invested difference at the end of the year
+  investedValue: number;
+}
+
+export interface ReturnOfPremiumComparison {
+  extraPerYear: number;
+  totalExtraPaid: number;
+  maturityBenefit: number;
+  // Invested difference at the end of the term
+  investedCorpus: number;
+  // Invested corpus less the ROP refund; positive favours term plus investing
+  advantage: number;
+  // Annual return ROP effectively earns on the extra premium, which is also
+  // the return investing has to beat. Null when it cannot be solved.
+  ropImpliedReturn: number | null;
+  better: 'term_and_invest' | 'return_of_premium';
+  yearly: ReturnOfPremiumYear[];
+}
+
+export function compareReturnOfPremium(input: ReturnOfPremiumInput): ReturnOfPremiumComparison {
+  const { termPremium, ropPremium, maturityBenefit, expectedReturn } = input;
+  const policyTerm = input.policyTerm;
+  const paymentTerm = Math.min(input.premiumPaymentTerm, policyTerm);
+
+  if (policyTerm <= 0 || paymentTerm <= 0) {
+    throw new Error('Policy and premium payment terms must be at least one year');
+  }
+  if (ropPremium < termPremium) {
+    throw new Error('The return of premium plan should not cost less than pure term');
+  }
+
+  const extraPerYear = ropPremium - termPremium;
+
+  // The difference is invested at the start of each premium year, then left
+  // to grow until the end of the term
+  const yearly: ReturnOfPremiumYear[] = [];
+  for (let year = 1; year <= policyTerm; year++) {
+    const paidYears = Math.min(year, paymentTerm);
+    const atEndOfPayments = fv(expectedReturn, paidYears, -extraPerYear, 0, 1);
+    yearly.push({
+      year,
+      extraPaid: extraPerYear * paidYears,
+      investedValue: Math.round(fv(expectedReturn, year - paidYears, 0, -atEndOfPayments))
+    });
+  }
+  const investedCorpus = yearly[yearly.length - 1].investedValue;
+
+  let ropImpliedReturn: number | null = null;
+  if (extraPerYear > 0) {
+    const cashFlows = Array.from({ length: policyTerm + 1 }, (_, t) => (t < paymentTerm ? -extraPerYear : 0));
+    cashFlows[policyTerm] += maturityBenefit;
+    try {
+      ropImpliedReturn = irr(...cashFlows);
+    } catch {
+      ropImpliedReturn = null;
+    }
+  }
+
+  const advantage = investedCorpus - maturityBenefit;
+
+  return {
+    extraPerYear,
+    totalExtraPaid: extraPerYear * paymentTerm,
+    maturityBenefit,
+    investedCorpus,
+    advantage,
+    ropImpliedReturn,
+    better: advantage >= 0 ? 'term_and_invest' : 'return_of_premium',
+    yearly
+  };
+}
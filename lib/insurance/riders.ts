@@ -0,0 +1,223 @@
+import { Gender } from './mortality';
+import { DEFAULT_PRICING_BASIS } from './pricing';
+import { RiderCode } from './catalog/schema';
+import { OCCUPATION_CLASSES, OccupationClass } from './occupation';
+
+// Rider definitions and pricing.
+//
+// Benefit riders (critical illness, accidental death) are priced per ₹1,000 of
+// rider sum assured. Premium riders (waiver of premium, terminal illness) are
+// priced as a percentage of the base plan premium. All rider premiums attract
+// GST at the same rate as the base plan.
+
+export type { RiderCode };
+
+export interface RiderDefinition {
+  code: RiderCode;
+  name: string;
+  description: string;
+  minEntryAge: number;
+  maxEntryAge: number;
+  // Cover under the rider must end by this age
+  maxCoverAge: number;
+  // Cap on rider sum assured; undefined for riders priced off the base premium
+  maxSumAssured?: number;
+}
+
+export interface RiderPricingInput {
+  age: number;
+  gender: Gender;
+  smoker: boolean;
+  // Base plan sum assured and term
+  sumAssured: number;
+  term: number;
+  // Base plan annual premium before tax
+  basePremium: number;
+  // Occupation risk class; scales accidental death rates
+  occupationClass?: OccupationClass | null;
+}
+
+export interface RiderQuote {
+  code: RiderCode;
+  name: string;
+  description: string;
+  eligible: boolean;
+  // Why the rider cannot be added, when not eligible
+  reason?: string;
+  // Rider benefit amount (0 for riders that waive or accelerate the base cover)
+  sumAssured: number;
+  // Annual rider premium including GST
+  annualPremium: number;
+}
+
+export const RIDER_DEFINITIONS: Record<RiderCode, RiderDefinition> = {
+  critical_illness: {
+    code: 'critical_illness',
+    name: 'Critical Illness',
+    description: 'Lump sum on first diagnosis of a covered critical illness such as cancer, heart attack or stroke',
+    minEntryAge: 18,
+    maxEntryAge: 60,
+    maxCoverAge: 75,
+    maxSumAssured: 5000000
+  },
+  accidental_death: {
+    code: 'accidental_death',
+    name: 'Accidental Death Benefit',
+    description: 'Additional sum assured paid if death is caused by an accident',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxCoverAge: 80,
+    maxSumAssured: 10000000
+  },
+  waiver_of_premium: {
+    code: 'waiver_of_premium',
+    name: 'Waiver of Premium',
+    description: 'Future premiums are waived on permanent disability or critical illness; cover continues',
+    minEntryAge: 18,
+    maxEntryAge: 55,
+    maxCoverAge: 70
+  },
+  terminal_illness: {
+    code: 'terminal_illness',
+    name: 'Terminal Illness',
+    description: 'Pays the life cover early on diagnosis of a terminal illness with life expectancy under 12 months',
+    minEntryAge: 18,
+    maxEntryAge: 65,
+    maxCoverAge: 80
+  }
+};
+
+export const RIDER_CODES = Object.keys(RIDER_DEFINITIONS) as RiderCode[];
+
+// Critical illness incidence rates per ₹1,000 of cover by attained age
+const CRITICAL_ILLNESS_RATES: Array<[number, number]> = [
+  [25, 0.9],
+  [30, 1.3],
+  [35, 2.0],
+  [40, 3.2],
+  [45, 5.0],
+  [50, 7.8],
+  [55, 11.5],
+  [60, 16.0],
+  [65, 22.0],
+  [70, 30.0]
+];
+
+const ACCIDENTAL_DEATH_RATE_PER_THOUSAND = 0.6;
+
+// Default critical illness cover as a share of the base sum assured
+const CRITICAL_ILLNESS_COVER_SHARE = 0.25;
+
+function criticalIllnessRate(age: number): number {
+  const band = CRITICAL_ILLNESS_RATES.find(([upperAge]) => age <= upperAge);
+  return band ? band[1] : CRITICAL_ILLNESS_RATES[CRITICAL_ILLNESS_RATES.length - 1][1];
+}
+
+function waiverOfPremiumRate(age: number): number {
+  if (age < 35) return 0.03;
+  if (age < 45) return 0.05;
+  return 0.08;
+}
+
+const TERMINAL_ILLNESS_RATE = 0.01;
+
+// Reason a rider cannot be attached for this life, or null if it can
+export function riderEligibilityIssue(code: RiderCode, input: Pick<RiderPricingInput, 'age' | 'term'>): string | null {
+  const rider = RIDER_DEFINITIONS[code];
+
+  if (input.age < rider.minEntryAge || input.age > rider.maxEntryAge) {
+    return `Available for entry ages ${rider.minEntryAge}-${rider.maxEntryAge}`;
+  }
+
+  if (input.age + input.term > rider.maxCoverAge) {
+    return `Cover must end by age ${rider.maxCoverAge}`;
+  }
+
+  return null;
+}
+
+// Rider sum assured for a given base cover
+export function riderSumAssured(code: RiderCode, baseSumAssured: number): number {
+  const rider = RIDER_DEFINITIONS[code];
+
+  switch (code) {
+    case 'critical_illness':
+      return Math.min(rider.maxSumAssured!, Math.round(baseSumAssured * CRITICAL_ILLNESS_COVER_SHARE));
+    case 'accidental_death':
+      return Math.min(rider.maxSumAssured!, baseSumAssured);
+    default:
+      return 0;
+  }
+}
+
+// Price a single rider. Level rates for benefit riders are taken at the
+// mid-term age, which approximates a level premium over the rider term.
+export function priceRider(
+  code: RiderCode,
+  input: RiderPricingInput,
+  taxRate: number = DEFAULT_PRICING_BASIS.taxRate
+): RiderQuote {
+  const rider = RIDER_DEFINITIONS[code];
+  const issue = riderEligibilityIssue(code, input);
+  const sumAssured = riderSumAssured(code, input.sumAssured);
+
+  if (issue) {
+    return {
+      code,
+      name: rider.name,
+      description: rider.description,
+      eligible: false,
+      reason: issue,
+      sumAssured,
+      annualPremium: 0
+    };
+  }
+
+  const midTermAge = input.age + Math.floor(input.term / 2);
+  let premium: number;
+
+  switch (code) {
+    case 'critical_illness': {
+      // Women show lower CI incidence at younger ages; smokers markedly higher
+      const genderFactor = input.gender === 'female' ? 0.9 : 1;
+      const smokerFactor = input.smoker ? 1.5 : 1;
+      premium = (sumAssured / 1000) * criticalIllnessRate(midTermAge) * genderFactor * smokerFactor;
+      break;
+    }
+    case 'accidental_death':
+      premium = (sumAssured / 1000) * ACCIDENTAL_DEATH_RATE_PER_THOUSAND *
+        (input.occupationClass ? OCCUPATION_CLASSES[input.occupationClass].accidentRateMultiplier : 1);
+      break;
+    case 'waiver_of_premium':
+      premium = input.basePremium * waiverOfPremiumRate(input.age);
+      break;
+    case 'terminal_illness':
+      premium = input.basePremium * TERMINAL_ILLNESS_RATE;
+      break;
+  }
+
+  return {
+    code,
+    name: rider.name,
+    description: rider.description,
+    eligible: true,
+    sumAssured,
+    annualPremium: Math.round(premium * (1 + taxRate))
+  };
+}
+
+// Price every rider offered on a product
+export function priceRiders(
+  codes: RiderCode[],
+  input: RiderPricingInput,
+  taxRate?: number
+): RiderQuote[] {
+  return codes.map(code => priceRider(code, input, taxRate));
+}
+
+// Total annual premium for the selected, eligible riders
+export function selectedRidersPremium(riders: RiderQuote[], selected: RiderCode[]): number {
+  return riders
+    .filter(rider => rider.eligible && selected.includes(rider.code))
+    .reduce((total, rider) => total + rider.annualPremium, 0);
+}
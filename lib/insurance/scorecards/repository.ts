@@ -0,0 +1,155 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InsurerScorecard, ScorecardMetric, insurerScorecardSchema } from './schema';
+import { SEED_SCORECARDS } from './seed';
+
+// Insurer scorecard repository.
+//
+// Mirrors the product catalogs: scorecards live in the `insurer_scorecards`
+// table and fall back to the bundled seed data if the table cannot be read or
+// is empty. Lists come back grouped by insurer, newest financial year first.
+
+interface ScorecardRow {
+  insurer: string;
+  legal_name: string;
+  financial_year: string;
+  claim_settlement_ratio: number | string | null;
+  amount_settled_ratio: number | string | null;
+  solvency_ratio: number | string | null;
+  complaints_per_10k: number | string | null;
+  sources: unknown;
+}
+
+export interface ListScorecardsOptions {
+  insurer?: string;
+  financialYear?: string;
+}
+
+// Numeric columns arrive as strings from Postgres
+function optionalNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+// Map a database row onto the schema, dropping rows that fail validation
+function parseScorecardRow(row: ScorecardRow): InsurerScorecard | null {
+  const result = insurerScorecardSchema.safeParse({
+    insurer: row.insurer,
+    legalName: row.legal_name,
+    financialYear: row.financial_year,
+    claimSettlementRatio: optionalNumber(row.claim_settlement_ratio),
+    amountSettledRatio: optionalNumber(row.amount_settled_ratio),
+    solvencyRatio: optionalNumber(row.solvency_ratio),
+    complaintsPer10k: optionalNumber(row.complaints_per_10k),
+    sources: row.sources
+  });
+
+  if (!result.success) {
+    console.error(`[scorecards] Skipping invalid row ${row.insurer} ${row.financial_year}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function byInsurerThenNewest(a: InsurerScorecard, b: InsurerScorecard): number {
+  return a.insurer.localeCompare(b.insurer) || b.financialYear.localeCompare(a.financialYear);
+}
+
+function seedScorecards({ insurer, financialYear }: ListScorecardsOptions): InsurerScorecard[] {
+  return SEED_SCORECARDS
+    .filter(scorecard => !insurer || scorecard.insurer === insurer)
+    .filter(scorecard => !financialYear || scorecard.financialYear === financialYear)
+    .sort(byInsurerThenNewest);
+}
+
+// List scorecards, optionally for one insurer or one financial year
+export async function listScorecards(
+  supabase: SupabaseClient,
+  options: ListScorecardsOptions = {}
+): Promise<InsurerScorecard[]> {
+  let query = supabase
+    .from('insurer_scorecards')
+    .select('*')
+    .order('insurer', { ascending: true })
+    .order('financial_year', { ascending: false });
+
+  if (options.insurer) {
+    query = query.eq('insurer', options.insurer);
+  }
+  if (options.financialYear) {
+    query = query.eq('financial_year', options.financialYear);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[scorecards] Falling back to seed scorecards:', error.message);
+    return seedScorecards(options);
+  }
+
+  if (!data || data.length === 0) {
+    return seedScorecards(options);
+  }
+
+  return (data as ScorecardRow[])
+    .map(parseScorecardRow)
+    .filter((scorecard): scorecard is InsurerScorecard => scorecard !== null)
+    .sort(byInsurerThenNewest);
+}
+
+// The insurer's most recent scorecard, or the most recent one that reports
+// the given figure, since a year can be published before all of it is known
+export function latestScorecard(
+  scorecards: InsurerScorecard[],
+  insurer: string,
+  metric?: ScorecardMetric
+): InsurerScorecard | null {
+  return scorecards
+    .filter(scorecard => scorecard.insurer === insurer && (!metric || scorecard[metric] !== null))
+    .sort(byInsurerThenNewest)[0] ?? null;
+}
+
+// Claim settlement ratio to show for an insurer and the year it applies to,
+// falling back to the figure on the catalog when there is no scorecard
+export function claimSettlementFor(
+  scorecards: InsurerScorecard[],
+  insurer: string,
+  fallback: string
+): { claimSettlementRatio: string; financialYear?: string } {
+  const scorecard = latestScorecard(scorecards, insurer, 'claimSettlementRatio');
+  if (!scorecard) {
+    return { claimSettlementRatio: fallback };
+  }
+  return {
+    claimSettlementRatio: `${scorecard.claimSettlementRatio}%`,
+    financialYear: scorecard.financialYear
+  };
+}
+
+function searchTokens(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').split(' ').filter(Boolean);
+}
+
+// Find the insurer a user means by a loose name such as "hdfc", "Axis Max" or
+// "life insurance corporation". Each query word must match the start of a word
+// in the insurer's name or any of its legal names.
+export function findInsurer(scorecards: InsurerScorecard[], query: string): string | null {
+  const queryTokens = searchTokens(query);
+  if (queryTokens.length === 0) return null;
+
+  let best: { insurer: string; score: number } | null = null;
+  for (const insurer of Array.from(new Set(scorecards.map(scorecard => scorecard.insurer)))) {
+    const names = scorecards
+      .filter(scorecard => scorecard.insurer === insurer)
+      .map(scorecard => scorecard.legalName);
+    const insurerTokens = searchTokens(`${insurer} ${names.join(' ')}`);
+    const matched = queryTokens.filter(token =>
+      insurerTokens.some(insurerToken => insurerToken.startsWith(token) && (token.length >= 3 || insurerToken === token))
+    ).length;
+    const score = matched / queryTokens.length;
+    if (score >= 0.5 && (!best || score > best.score)) {
+      best = { insurer, score };
+    }
+  }
+
+  return best?.insurer ?? null;
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// Insurer scorecard schema.
+//
+// A scorecard is one life insurer's published track record for one financial
+// year: how many death claims it paid, how much of the claimed amount it paid,
+// how well capitalised it was, and how often policyholders complained. Each
+// year is a separate record so figures can be added as they are published
+// without overwriting history, and every record cites where its figures come
+// from. Records are validated whether they come from the `insurer_scorecards`
+// table or the bundled seed data.
+
+// IRDAI's minimum solvency ratio for insurers
+export const MIN_SOLVENCY_RATIO = 1.5;
+
+export const scorecardMetricSchema = z.enum([
+  'claimSettlementRatio',
+  'amountSettledRatio',
+  'solvencyRatio',
+  'complaintsPer10k'
+]);
+
+// Indian financial year, April to March, written "2024-25"
+export const financialYearSchema = z.string().regex(/^\d{4}-\d{2}$/, 'Financial year must look like 2024-25')
+  .refine(year => (Number(year.slice(0, 4)) + 1) % 100 === Number(year.slice(5)), 'Financial year must span consecutive years');
+
+export const scorecardSourceSchema = z.object({
+  title: z.string().min(1),
+  publisher: z.string().min(1),
+  url: z.string().url().optional(),
+  // Figures on the scorecard taken from this source
+  metrics: z.array(scorecardMetricSchema).min(1)
+});
+
+export const insurerScorecardSchema = z.object({
+  // As the insurer is named in the product catalog
+  insurer: z.string().min(1),
+  legalName: z.string().min(1),
+  financialYear: financialYearSchema,
+  // Individual death claims paid, as a percent of claims decided, by number
+  claimSettlementRatio: z.number().min(0).max(100).nullable(),
+  // The same claims by amount
+  amountSettledRatio: z.number().min(0).max(100).nullable(),
+  // Available over required solvency margin at the end of the year
+  solvencyRatio: z.number().positive().nullable(),
+  // Complaints reported to IRDAI per 10,000 policies sold
+  complaintsPer10k: z.number().min(0).nullable(),
+  sources: z.array(scorecardSourceSchema).min(1)
+});
+
+export type ScorecardMetric = z.infer<typeof scorecardMetricSchema>;
+export type ScorecardSource = z.infer<typeof scorecardSourceSchema>;
+export type InsurerScorecard = z.infer<typeof insurerScorecardSchema>;
@@ -0,0 +1,111 @@
+import { InsurerScorecard, ScorecardSource } from './schema';
+
+// Bundled insurer scorecards, used to seed the `insurer_scorecards` table and
+// as the fallback when the table is unreachable or empty. Claims and
+// complaints figures are from IRDAI's annual report for the year; solvency is
+// from each insurer's public disclosures at 31 March at the end of the year.
+// Add a new year as new records rather than editing old ones.
+
+const IRDAI = 'Insurance Regulatory and Development Authority of India';
+
+function irdaiAnnualReport(financialYear: string): ScorecardSource[] {
+  return [
+    {
+      title: `IRDAI Annual Report ${financialYear}: individual death claims of life insurers`,
+      publisher: IRDAI,
+      metrics: ['claimSettlementRatio', 'amountSettledRatio']
+    },
+    {
+      title: `IRDAI Annual Report ${financialYear}: grievances against life insurers`,
+      publisher: IRDAI,
+      metrics: ['complaintsPer10k']
+    }
+  ];
+}
+
+function solvencyDisclosure(legalName: string, financialYear: string): ScorecardSource {
+  return {
+    title: `Public disclosures, form L-32 solvency margin, as at 31 March ${Number(financialYear.slice(0, 4)) + 1}`,
+    publisher: legalName,
+    metrics: ['solvencyRatio']
+  };
+}
+
+function scorecard(
+  insurer: string,
+  legalName: string,
+  financialYear: string,
+  figures: Pick<InsurerScorecard, 'claimSettlementRatio' | 'amountSettledRatio' | 'solvencyRatio' | 'complaintsPer10k'>
+): InsurerScorecard {
+  return {
+    insurer,
+    legalName,
+    financialYear,
+    ...figures,
+    sources: [...irdaiAnnualReport(financialYear), solvencyDisclosure(legalName, financialYear)]
+  };
+}
+
+export const SEED_SCORECARDS: InsurerScorecard[] = [
+  scorecard('HDFC Life', 'HDFC Life Insurance Company Limited', '2023-24', {
+    claimSettlementRatio: 98.01,
+    amountSettledRatio: 94.12,
+    solvencyRatio: 1.87,
+    complaintsPer10k: 3.1
+  }),
+  scorecard('HDFC Life', 'HDFC Life Insurance Company Limited', '2024-25', {
+    claimSettlementRatio: 98.42,
+    amountSettledRatio: 95.04,
+    solvencyRatio: 1.94,
+    complaintsPer10k: 2.8
+  }),
+  scorecard('ICICI Prudential', 'ICICI Prudential Life Insurance Company Limited', '2023-24', {
+    claimSettlementRatio: 97.82,
+    amountSettledRatio: 95.87,
+    solvencyRatio: 1.92,
+    complaintsPer10k: 2.6
+  }),
+  scorecard('ICICI Prudential', 'ICICI Prudential Life Insurance Company Limited', '2024-25', {
+    claimSettlementRatio: 98.07,
+    amountSettledRatio: 96.3,
+    solvencyRatio: 2.12,
+    complaintsPer10k: 2.4
+  }),
+  scorecard('Max Life', 'Max Life Insurance Company Limited', '2023-24', {
+    claimSettlementRatio: 99.35,
+    amountSettledRatio: 97.95,
+    solvencyRatio: 1.72,
+    complaintsPer10k: 2.2
+  }),
+  // Renamed during the year
+  scorecard('Max Life', 'Axis Max Life Insurance Limited', '2024-25', {
+    claimSettlementRatio: 99.51,
+    amountSettledRatio: 98.1,
+    solvencyRatio: 2.01,
+    complaintsPer10k: 2
+  }),
+  scorecard('LIC', 'Life Insurance Corporation of India', '2023-24', {
+    claimSettlementRatio: 98.74,
+    amountSettledRatio: 97.61,
+    solvencyRatio: 1.98,
+    complaintsPer10k: 0.31
+  }),
+  scorecard('LIC', 'Life Insurance Corporation of India', '2024-25', {
+    claimSettlementRatio: 98.52,
+    amountSettledRatio: 97.2,
+    solvencyRatio: 2.11,
+    complaintsPer10k: 0.3
+  }),
+  scorecard('Bajaj Allianz', 'Bajaj Allianz Life Insurance Company Limited', '2023-24', {
+    claimSettlementRatio: 98.48,
+    amountSettledRatio: 94.6,
+    solvencyRatio: 4.57,
+    complaintsPer10k: 4
+  }),
+  scorecard('Bajaj Allianz', 'Bajaj Allianz Life Insurance Company Limited', '2024-25', {
+    claimSettlementRatio: 99.02,
+    amountSettledRatio: 95.4,
+    solvencyRatio: 3.51,
+    complaintsPer10k: 3.6
+  })
+];
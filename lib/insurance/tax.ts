@@ -0,0 +1,436 @@
+// Income tax benefits on insurance premiums (FY 2025-26, AY 2026-27).
+//
+// Works out what a user's premiums are worth at tax time: the 80C deduction
+// for life premiums, the 80D deduction for health premiums, whether each
+// savings policy's maturity payout is tax-free under section 10(10D), and the
+// tax due under the old and new regimes so the two can be compared. Figures
+// are estimates for a resident individual whose only income is the annual
+// income given; deductions other than those passed in are ignored.
+
+export const TAX_YEAR = 'FY 2025-26';
+
+export type TaxRegime = 'old' | 'new';
+
+export type LifePolicyKind = 'term' | 'traditional' | 'ulip';
+
+export interface LifePolicyInput {
+  label: string;
+  kind: LifePolicyKind;
+  // Premium paid in a year; the whole premium for single-premium policies
+  annualPremium: number;
+  sumAssured: number;
+  // YYYY-MM-DD; decides which 80C and 10(10D) rules apply. Unknown dates are
+  // treated as recent policies, which face the strictest rules
+  issueDate?: string | null;
+  // Single-premium policies only count towards 80C in the year they are bought
+  paidThisYear?: boolean;
+}
+
+export interface TaxBenefitInput {
+  annualIncome: number;
+  age: number;
+  // Salaried and pension income gets the standard deduction
+  salaried?: boolean;
+  lifePolicies?: LifePolicyInput[];
+  // EPF, PPF, ELSS, home loan principal, tuition fees and the like
+  other80C?: number;
+  // Health premiums for the user, spouse and children
+  healthPremiumSelf?: number;
+  // Whether the user or their spouse is 60 or over
+  selfSeniorCitizen?: boolean;
+  healthPremiumParents?: number;
+  parentsSeniorCitizen?: boolean;
+  preventiveCheckup?: number;
+  // Other old-regime deductions: home loan interest, 80CCD(1B), HRA and so on
+  otherDeductions?: number;
+}
+
+export interface DeductionLine {
+  label: string;
+  paid: number;
+  // Amount that counts towards the section, before the section limit
+  eligible: number;
+  note?: string;
+}
+
+export interface Section80C {
+  lines: DeductionLine[];
+  limit: number;
+  deduction: number;
+  // Room left under the limit
+  unusedLimit: number;
+}
+
+export interface Section80DPart {
+  paid: number;
+  limit: number;
+  deduction: number;
+}
+
+export interface Section80D {
+  self: Section80DPart;
+  parents: Section80DPart;
+  // Preventive check-ups, counted within the two limits above
+  checkup: { paid: number; deduction: number };
+  deduction: number;
+}
+
+export interface MaturityExemption {
+  label: string;
+  kind: Exclude<LifePolicyKind, 'term'>;
+  exempt: boolean;
+  reason: string;
+}
+
+export interface RegimeTax {
+  regime: TaxRegime;
+  grossIncome: number;
+  standardDeduction: number;
+  // Chapter VI-A and other deductions allowed in the regime
+  deductions: number;
+  taxableIncome: number;
+  slabTax: number;
+  rebate: number;
+  surcharge: number;
+  cess: number;
+  totalTax: number;
+  // Total tax as a share of gross income
+  effectiveRate: number;
+}
+
+export interface TaxBenefitResult {
+  taxYear: string;
+  section80C: Section80C;
+  section80D: Section80D;
+  maturity: MaturityExemption[];
+  oldRegime: RegimeTax;
+  newRegime: RegimeTax;
+  betterRegime: TaxRegime;
+  // Tax saved by choosing the better regime
+  regimeSaving: number;
+  // Old-regime tax saved by the insurance premiums alone
+  insuranceSaving: number;
+  notes: string[];
+  summary: string;
+}
+
+interface Slab {
+  // Upper bound of the slab; Infinity for the top slab
+  upTo: number;
+  rate: number;
+}
+
+const NEW_REGIME_SLABS: Slab[] = [
+  { upTo: 400000, rate: 0 },
+  { upTo: 800000, rate: 0.05 },
+  { upTo: 1200000, rate: 0.1 },
+  { upTo: 1600000, rate: 0.15 },
+  { upTo: 2000000, rate: 0.2 },
+  { upTo: 2400000, rate: 0.25 },
+  { upTo: Infinity, rate: 0.3 }
+];
+
+// The basic exemption rises for senior (60+) and super senior (80+) citizens
+function oldRegimeSlabs(age: number): Slab[] {
+  const exemption = age >= 80 ? 500000 : age >= 60 ? 300000 : 250000;
+  return [
+    { upTo: exemption, rate: 0 },
+    ...(exemption < 500000 ? [{ upTo: 500000, rate: 0.05 }] : []),
+    { upTo: 1000000, rate: 0.2 },
+    { upTo: Infinity, rate: 0.3 }
+  ];
+}
+
+const STANDARD_DEDUCTION: Record<TaxRegime, number> = { old: 50000, new: 75000 };
+
+// Section 87A: tax is rebated in full up to these taxable incomes
+const REBATE: Record<TaxRegime, { incomeLimit: number; maxRebate: number }> = {
+  old: { incomeLimit: 500000, maxRebate: 12500 },
+  new: { incomeLimit: 1200000, maxRebate: 60000 }
+};
+
+const SURCHARGE_BANDS = [
+  { above: 5000000, rate: 0.1 },
+  { above: 10000000, rate: 0.15 },
+  { above: 20000000, rate: 0.25 },
+  { above: 50000000, rate: 0.37 }
+];
+
+// The new regime caps surcharge at 25%
+const NEW_REGIME_MAX_SURCHARGE = 0.25;
+
+const CESS_RATE = 0.04;
+
+export const SECTION_80C_LIMIT = 150000;
+
+// 80D limits per group, doubled when anyone in the group is 60 or over
+export const SECTION_80D_LIMIT = 25000;
+export const SECTION_80D_SENIOR_LIMIT = 50000;
+export const PREVENTIVE_CHECKUP_LIMIT = 5000;
+
+// Premium counts towards 80C, and the maturity payout is tax-free under
+// 10(10D), only up to this share of the sum assured
+const PREMIUM_CAP_SHARE = 0.1;
+const PRE_2012_PREMIUM_CAP_SHARE = 0.2;
+const PREMIUM_CAP_CHANGE_DATE = '2012-04-01';
+// Policies issued before this carry no premium cap for 10(10D)
+const UNCAPPED_BEFORE = '2003-04-01';
+
+// Maturity exemption is lost when annual premiums across policies issued
+// after these dates exceed the threshold
+const ULIP_AGGREGATE_FROM = '2021-02-01';
+const ULIP_AGGREGATE_LIMIT = 250000;
+const TRADITIONAL_AGGREGATE_FROM = '2023-04-01';
+const TRADITIONAL_AGGREGATE_LIMIT = 500000;
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+function premiumCapShare(issueDate?: string | null): number {
+  return issueDate && issueDate < PREMIUM_CAP_CHANGE_DATE ? PRE_2012_PREMIUM_CAP_SHARE : PREMIUM_CAP_SHARE;
+}
+
+function taxOnSlabs(income: number, slabs: Slab[]): number {
+  let tax = 0;
+  let lower = 0;
+
+  for (const slab of slabs) {
+    if (income <= lower) break;
+    tax += (Math.min(income, slab.upTo) - lower) * slab.rate;
+    lower = slab.upTo;
+  }
+
+  return tax;
+}
+
+function surchargeRate(income: number, regime: TaxRegime): number {
+  const band = [...SURCHARGE_BANDS].reverse().find(item => income > item.above);
+  if (!band) return 0;
+  return regime === 'new' ? Math.min(band.rate, NEW_REGIME_MAX_SURCHARGE) : band.rate;
+}
+
+export function calculateRegimeTax(
+  regime: TaxRegime,
+  grossIncome: number,
+  age: number,
+  options: { salaried?: boolean; deductions?: number } = {}
+): RegimeTax {
+  const slabs = regime === 'new' ? NEW_REGIME_SLABS : oldRegimeSlabs(age);
+  const standardDeduction = options.salaried === false ? 0 : Math.min(STANDARD_DEDUCTION[regime], grossIncome);
+  const deductions = regime === 'new' ? 0 : Math.min(options.deductions ?? 0, grossIncome - standardDeduction);
+  const taxableIncome = Math.max(0, grossIncome - standardDeduction - deductions);
+
+  const slabTax = taxOnSlabs(taxableIncome, slabs);
+
+  // Rebate under 87A; the new regime also gives marginal relief so tax just
+  // above the limit never exceeds the income above it
+  let rebate = 0;
+  const { incomeLimit, maxRebate } = REBATE[regime];
+  if (taxableIncome <= incomeLimit) {
+    rebate = Math.min(slabTax, maxRebate);
+  } else if (regime === 'new') {
+    rebate = Math.max(0, slabTax - (taxableIncome - incomeLimit));
+  }
+  const taxAfterRebate = slabTax - rebate;
+
+  // Surcharge with marginal relief: crossing a band must not cost more in
+  // tax than the income above the band's threshold
+  let surcharge = 0;
+  const rate = surchargeRate(taxableIncome, regime);
+  if (rate > 0) {
+    const threshold = [...SURCHARGE_BANDS].reverse().find(item => taxableIncome > item.above)!.above;
+    const taxAtThreshold = taxOnSlabs(threshold, slabs) * (1 + surchargeRate(threshold, regime));
+    surcharge = Math.max(0, Math.min(taxAfterRebate * rate, taxAtThreshold + (taxableIncome - threshold) - taxAfterRebate));
+  }
+
+  const cess = (taxAfterRebate + surcharge) * CESS_RATE;
+  const totalTax = Math.round(taxAfterRebate + surcharge + cess);
+
+  return {
+    regime,
+    grossIncome,
+    standardDeduction,
+    deductions,
+    taxableIncome,
+    slabTax: Math.round(slabTax),
+    rebate: Math.round(rebate),
+    surcharge: Math.round(surcharge),
+    cess: Math.round(cess),
+    totalTax,
+    effectiveRate: grossIncome > 0 ? Math.round((totalTax / grossIncome) * 10000) / 10000 : 0
+  };
+}
+
+export function calculateSection80C(lifePolicies: LifePolicyInput[], other80C = 0): Section80C {
+  const lines: DeductionLine[] = lifePolicies.map(policy => {
+    if (policy.paidThisYear === false) {
+      return {
+        label: policy.label,
+        paid: 0,
+        eligible: 0,
+        note: 'Single premium paid in an earlier year'
+      };
+    }
+
+    const capShare = premiumCapShare(policy.issueDate);
+    const cap = policy.sumAssured * capShare;
+    const eligible = Math.min(policy.annualPremium, cap);
+
+    return {
+      label: policy.label,
+      paid: policy.annualPremium,
+      eligible,
+      note: eligible < policy.annualPremium
+        ? `Only premium up to ${capShare * 100}% of the sum assured (${formatRupees(cap)}) qualifies`
+        : undefined
+    };
+  });
+
+  if (other80C > 0) {
+    lines.push({ label: 'Other 80C investments', paid: other80C, eligible: other80C });
+  }
+
+  const eligible = lines.reduce((total, line) => total + line.eligible, 0);
+  const deduction = Math.min(eligible, SECTION_80C_LIMIT);
+
+  return {
+    lines,
+    limit: SECTION_80C_LIMIT,
+    deduction,
+    unusedLimit: SECTION_80C_LIMIT - deduction
+  };
+}
+
+export function calculateSection80D(input: Pick<TaxBenefitInput,
+  'healthPremiumSelf' | 'selfSeniorCitizen' | 'healthPremiumParents' | 'parentsSeniorCitizen' | 'preventiveCheckup'
+>): Section80D {
+  const selfLimit = input.selfSeniorCitizen ? SECTION_80D_SENIOR_LIMIT : SECTION_80D_LIMIT;
+  const parentsLimit = input.parentsSeniorCitizen ? SECTION_80D_SENIOR_LIMIT : SECTION_80D_LIMIT;
+  const selfPaid = input.healthPremiumSelf ?? 0;
+  const parentsPaid = input.healthPremiumParents ?? 0;
+  const checkupPaid = input.preventiveCheckup ?? 0;
+
+  // The check-up allowance uses whatever room the premiums leave, self first
+  const self = Math.min(selfPaid, selfLimit);
+  const parents = Math.min(parentsPaid, parentsLimit);
+  const checkupForSelf = Math.min(checkupPaid, PREVENTIVE_CHECKUP_LIMIT, selfLimit - self);
+  const checkupForParents = Math.min(checkupPaid - checkupForSelf, PREVENTIVE_CHECKUP_LIMIT - checkupForSelf, parentsLimit - parents);
+  const checkup = checkupForSelf + checkupForParents;
+
+  return {
+    self: { paid: selfPaid, limit: selfLimit, deduction: self + checkupForSelf },
+    parents: { paid: parentsPaid, limit: parentsLimit, deduction: parents + checkupForParents },
+    checkup: { paid: checkupPaid, deduction: checkup },
+    deduction: self + parents + checkup
+  };
+}
+
+// Section 10(10D) test for each policy with a maturity benefit. Death
+// benefits are tax-free whatever the outcome here.
+export function assessMaturityExemptions(lifePolicies: LifePolicyInput[]): MaturityExemption[] {
+  const issuedFrom = (policy: LifePolicyInput, date: string) => !policy.issueDate || policy.issueDate >= date;
+
+  const ulipAggregate = lifePolicies
+    .filter(policy => policy.kind === 'ulip' && issuedFrom(policy, ULIP_AGGREGATE_FROM))
+    .reduce((total, policy) => total + policy.annualPremium, 0);
+  const traditionalAggregate = lifePolicies
+    .filter(policy => policy.kind !== 'ulip' && issuedFrom(policy, TRADITIONAL_AGGREGATE_FROM))
+    .reduce((total, policy) => total + policy.annualPremium, 0);
+
+  return lifePolicies
+    .filter((policy): policy is LifePolicyInput & { kind: 'traditional' | 'ulip' } => policy.kind !== 'term')
+    .map(policy => {
+      const result = (exempt: boolean, reason: string): MaturityExemption => ({
+        label: policy.label,
+        kind: policy.kind,
+        exempt,
+        reason
+      });
+      const taxedAs = policy.kind === 'ulip'
+        ? 'Gains on maturity are taxed as capital gains.'
+        : 'Maturity proceeds less premiums paid are taxed at your slab rate.';
+
+      if (policy.issueDate && policy.issueDate < UNCAPPED_BEFORE) {
+        return result(true, 'Issued before April 2003, so the maturity payout is tax-free.');
+      }
+
+      const capShare = premiumCapShare(policy.issueDate);
+      if (policy.annualPremium > policy.sumAssured * capShare) {
+        return result(false, `Premium is more than ${capShare * 100}% of the sum assured. ${taxedAs}`);
+      }
+
+      if (policy.kind === 'ulip' && issuedFrom(policy, ULIP_AGGREGATE_FROM) && ulipAggregate > ULIP_AGGREGATE_LIMIT) {
+        return result(false, `Annual premiums on ULIPs bought since February 2021 total ${formatRupees(ulipAggregate)}, over the ${formatRupees(ULIP_AGGREGATE_LIMIT)} limit. ${taxedAs}`);
+      }
+
+      if (policy.kind === 'traditional' && issuedFrom(policy, TRADITIONAL_AGGREGATE_FROM) && traditionalAggregate > TRADITIONAL_AGGREGATE_LIMIT) {
+        return result(false, `Annual premiums on policies bought since April 2023 total ${formatRupees(traditionalAggregate)}, over the ${formatRupees(TRADITIONAL_AGGREGATE_LIMIT)} limit. ${taxedAs}`);
+      }
+
+      return result(true, `Premium is within ${capShare * 100}% of the sum assured, so the maturity payout is tax-free under 10(10D).`);
+    });
+}
+
+export function calculateTaxBenefits(input: TaxBenefitInput): TaxBenefitResult {
+  const lifePolicies = input.lifePolicies ?? [];
+  const other80C = input.other80C ?? 0;
+  const otherDeductions = input.otherDeductions ?? 0;
+  const options = { salaried: input.salaried ?? true };
+
+  const section80C = calculateSection80C(lifePolicies, other80C);
+  const section80D = calculateSection80D(input);
+  const maturity = assessMaturityExemptions(lifePolicies);
+
+  const oldRegime = calculateRegimeTax('old', input.annualIncome, input.age, {
+    ...options,
+    deductions: section80C.deduction + section80D.deduction + otherDeductions
+  });
+  const newRegime = calculateRegimeTax('new', input.annualIncome, input.age, options);
+
+  // The premiums' own saving: old-regime tax with and without them, keeping
+  // other 80C investments, which fill the limit first
+  const withoutInsurance = calculateRegimeTax('old', input.annualIncome, input.age, {
+    ...options,
+    deductions: Math.min(other80C, SECTION_80C_LIMIT) + otherDeductions
+  });
+  const insuranceSaving = Math.max(0, withoutInsurance.totalTax - oldRegime.totalTax);
+
+  const betterRegime: TaxRegime = oldRegime.totalTax < newRegime.totalTax ? 'old' : 'new';
+  const regimeSaving = Math.abs(oldRegime.totalTax - newRegime.totalTax);
+
+  const notes: string[] = [
+    '80C and 80D deductions are only available under the old regime; the new regime is the default unless you opt out when filing.',
+    'Death benefits from life insurance are tax-free under 10(10D) in both regimes.'
+  ];
+  if (section80C.unusedLimit > 0 && input.annualIncome > 0) {
+    notes.push(`${formatRupees(section80C.unusedLimit)} of the 80C limit is unused.`);
+  }
+  if (maturity.some(item => !item.exempt)) {
+    notes.push('Some savings policies will have taxable maturity payouts; see the maturity section.');
+  }
+
+  const insuranceDeduction = section80C.deduction - Math.min(other80C, SECTION_80C_LIMIT) + section80D.deduction;
+  const summary = [
+    insuranceDeduction > 0
+      ? `Your premiums qualify for ${formatRupees(insuranceDeduction)} of deductions, saving ${formatRupees(insuranceSaving)} in tax under the old regime.`
+      : 'Your premiums do not reduce your tax this year.',
+    regimeSaving === 0
+      ? `Both regimes come to ${formatRupees(newRegime.totalTax)}.`
+      : `The ${betterRegime} regime is cheaper by ${formatRupees(regimeSaving)} (${formatRupees(oldRegime.totalTax)} old vs ${formatRupees(newRegime.totalTax)} new).`
+  ].join(' ');
+
+  return {
+    taxYear: TAX_YEAR,
+    section80C,
+    section80D,
+    maturity,
+    oldRegime,
+    newRegime,
+    betterRegime,
+    regimeSaving,
+    insuranceSaving,
+    notes,
+    summary
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TRAVEL_PRICING,
+  TravelPremiumInput,
+  calculateTravelPremium,
+  dailyMedicalRate,
+  tripDays
+} from './pricing';
+
+const untaxed = { rateFactor: 1, taxRate: 0 };
+
+// One 30-year-old in Asia at the base medical cover, with no baggage or
+// cancellation cover, so the medical premium is the daily rate times the
+// billed days
+const trip: TravelPremiumInput = {
+  region: 'asia',
+  tripType: 'single',
+  days: 10,
+  maxTripDays: 30,
+  medicalCover: 50000,
+  baggageCover: 0,
+  cancellationCover: 0,
+  travellers: [{ age: 30, loading: 0 }]
+};
+
+const medicalFor = (input: Partial<TravelPremiumInput>) =>
+  calculateTravelPremium({ ...trip, ...input }, untaxed).travellers[0].medical;
+
+describe('single trip medical premium', () => {
+  it('charges the daily rate for the region and age band', () => {
+    expect(medicalFor({})).toBe(400);
+    expect(dailyMedicalRate('asia', 40)).toBe(40);
+    expect(dailyMedicalRate('asia', 41)).toBe(60);
+    expect(dailyMedicalRate('worldwide', 85)).toBe(1400);
+  });
+
+  it('bills short trips for the minimum number of days', () => {
+    expect(medicalFor({ days: 2 })).toBe(160);
+    expect(medicalFor({ days: 4 })).toBe(160);
+  });
+
+  it('discounts the days beyond each long-trip threshold', () => {
+    expect(medicalFor({ days: 30 })).toBe(1200);
+    expect(medicalFor({ days: 40 })).toBe(Math.round(40 * (30 + 10 * 0.8)));
+    expect(medicalFor({ days: 100 })).toBe(Math.round(40 * (30 + 60 * 0.8 + 10 * 0.6)));
+  });
+
+  it('rises more slowly than the cover and applies the loading', () => {
+    expect(medicalFor({ medicalCover: 100000 })).toBeGreaterThan(400);
+    expect(medicalFor({ medicalCover: 100000 })).toBeLessThan(800);
+    expect(medicalFor({ travellers: [{ age: 30, loading: 0.5 }] })).toBe(600);
+  });
+});
+
+describe('multi-trip and student cover', () => {
+  it('prices a year of trips as a multiple of the longest trip', () => {
+    expect(medicalFor({ tripType: 'multi_trip', days: 365 })).toBe(Math.round(40 * 30 * 2.5));
+    expect(medicalFor({ tripType: 'multi_trip', maxTripDays: 45 })).toBe(Math.round(40 * (30 + 15 * 0.8) * 2.5));
+  });
+
+  it('doubles baggage and cancellation cover on multi-trip plans', () => {
+    const covers = { baggageCover: 1000, cancellationCover: 500 };
+    const single = calculateTravelPremium({ ...trip, ...covers }, untaxed).travellers[0];
+    const multi = calculateTravelPremium({ ...trip, ...covers, tripType: 'multi_trip' }, untaxed).travellers[0];
+
+    expect(single).toMatchObject({ baggage: 150, cancellation: 500 });
+    expect(multi).toMatchObject({ baggage: 300, cancellation: 1000 });
+  });
+
+  it('gives students a fraction of the tourist rate', () => {
+    expect(medicalFor({ tripType: 'student' })).toBe(180);
+  });
+});
+
+describe('calculateTravelPremium', () => {
+  it('sums the travellers and adds GST', () => {
+    const quote = calculateTravelPremium({
+      ...trip,
+      travellers: [{ age: 30, loading: 0 }, { age: 65, loading: 0 }]
+    }, DEFAULT_TRAVEL_PRICING);
+
+    expect(quote.travellers.map(traveller => traveller.premium)).toEqual([400, 1200]);
+    expect(quote.basePremium).toBe(1600);
+    expect(quote.tax).toBe(288);
+    expect(quote.totalPremium).toBe(1888);
+  });
+
+  it('counts both the departure and return dates', () => {
+    expect(tripDays('2025-03-01', '2025-03-01')).toBe(1);
+    expect(tripDays('2025-02-25', '2025-03-04')).toBe(8);
+  });
+});
@@ -0,0 +1,180 @@
+import { TravelRegion, TripType } from './schema';
+
+// Premium model for overseas travel insurance.
+//
+// Each traveller's premium has three parts priced from rate tables: medical
+// cover at a daily rate by region and age band, scaled for the cover amount
+// and trip length; baggage loss per USD 1,000 of cover; and trip cancellation
+// per USD 1,000 of cover. Annual multi-trip and student plans are priced off
+// the same tables. Everything here is a pure function.
+
+export interface TravelPricingBasis {
+  // Multiple of the standard rate tables for the plan
+  rateFactor: number;
+  // GST on travel insurance premiums
+  taxRate: number;
+}
+
+export const DEFAULT_TRAVEL_PRICING: TravelPricingBasis = {
+  rateFactor: 1,
+  taxRate: 0.18
+};
+
+// Daily rate in rupees for USD 50,000 of medical cover, by region and the
+// upper age of each band
+const AGE_BANDS = [40, 60, 70, 80, Infinity];
+
+const DAILY_MEDICAL_RATES: Record<TravelRegion, number[]> = {
+  asia: [40, 60, 120, 220, 400],
+  schengen: [70, 100, 200, 380, 650],
+  worldwide_ex_us_canada: [80, 120, 240, 450, 800],
+  worldwide: [130, 200, 420, 800, 1400]
+};
+
+const BASE_MEDICAL_COVER = 50000;
+
+// Most medical claims are far below the cover, so premiums rise much more
+// slowly than the cover amount
+const MEDICAL_COVER_ELASTICITY = 0.35;
+
+// Short trips are billed for a minimum number of days; long trips get a
+// lower daily rate for the days beyond each threshold
+const MINIMUM_BILLED_DAYS = 4;
+const LONG_TRIP_RATES: Array<{ fromDay: number; factor: number }> = [
+  { fromDay: 31, factor: 0.8 },
+  { fromDay: 91, factor: 0.6 }
+];
+
+// An annual multi-trip policy costs this many times one trip of the maximum
+// length
+const MULTI_TRIP_FACTOR = 2.5;
+
+// Students are young and stay in one place, so their daily rate is a fraction
+// of the tourist rate
+const STUDENT_RATE_FACTOR = 0.45;
+
+// Rupees per USD 1,000 of cover, per trip
+const BAGGAGE_RATES: Record<TravelRegion, number> = {
+  asia: 150,
+  schengen: 200,
+  worldwide_ex_us_canada: 220,
+  worldwide: 250
+};
+
+const CANCELLATION_RATE = 1000;
+
+// Multi-trip policies cover several trips a year, so per-trip covers cost more
+const MULTI_TRIP_BENEFIT_FACTOR = 2;
+
+// Medical cover we suggest for each region: Schengen visas need at least
+// EUR 30,000 and US hospital bills call for far more
+const RECOMMENDED_MEDICAL_COVER: Record<TravelRegion, number> = {
+  asia: 50000,
+  schengen: 50000,
+  worldwide_ex_us_canada: 100000,
+  worldwide: 250000
+};
+
+export interface TravellerPricingInput {
+  age: number;
+  // Underwriting loading on medical cover as a fraction, 0 for standard
+  loading: number;
+}
+
+export interface TravelPremiumInput {
+  region: TravelRegion;
+  tripType: TripType;
+  // Trip length for single and student cover
+  days: number;
+  // Longest trip covered, for multi-trip cover
+  maxTripDays: number;
+  medicalCover: number;
+  baggageCover: number;
+  cancellationCover: number;
+  travellers: TravellerPricingInput[];
+}
+
+export interface TravellerPremium {
+  age: number;
+  medical: number;
+  baggage: number;
+  cancellation: number;
+  // Sum of the covers, before tax
+  premium: number;
+}
+
+export interface TravelPremiumResult {
+  travellers: TravellerPremium[];
+  basePremium: number;
+  tax: number;
+  totalPremium: number;
+}
+
+// Days covered by a trip, counting both the departure and return dates
+export function tripDays(startDate: string, endDate: string): number {
+  const start = new Date(`${startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  return Math.round((end - start) / 86400000) + 1;
+}
+
+export function recommendedMedicalCover(region: TravelRegion): number {
+  return RECOMMENDED_MEDICAL_COVER[region];
+}
+
+export function dailyMedicalRate(region: TravelRegion, age: number): number {
+  const band = AGE_BANDS.findIndex(maxAge => age <= maxAge);
+  return DAILY_MEDICAL_RATES[region][band];
+}
+
+// Trip length weighted for long-trip discounts
+function billedDays(days: number): number {
+  const chargeable = Math.max(days, MINIMUM_BILLED_DAYS);
+  let billed = 0;
+  for (let day = 1; day <= chargeable; day++) {
+    const discount = [...LONG_TRIP_RATES].reverse().find(rate => day >= rate.fromDay);
+    billed += discount ? discount.factor : 1;
+  }
+  return billed;
+}
+
+function medicalPremium(input: TravelPremiumInput, traveller: TravellerPricingInput): number {
+  const coverFactor = Math.pow(input.medicalCover / BASE_MEDICAL_COVER, MEDICAL_COVER_ELASTICITY);
+  const rate = dailyMedicalRate(input.region, traveller.age) * coverFactor * (1 + traveller.loading);
+
+  switch (input.tripType) {
+    case 'single':
+      return rate * billedDays(input.days);
+    case 'multi_trip':
+      return rate * billedDays(input.maxTripDays) * MULTI_TRIP_FACTOR;
+    case 'student':
+      return rate * billedDays(input.days) * STUDENT_RATE_FACTOR;
+  }
+}
+
+export function calculateTravelPremium(input: TravelPremiumInput, basis: TravelPricingBasis): TravelPremiumResult {
+  const benefitFactor = input.tripType === 'multi_trip' ? MULTI_TRIP_BENEFIT_FACTOR : 1;
+
+  const travellers = input.travellers.map(traveller => {
+    const medical = medicalPremium(input, traveller) * basis.rateFactor;
+    const baggage = (input.baggageCover / 1000) * BAGGAGE_RATES[input.region] * benefitFactor * basis.rateFactor;
+    const cancellation = (input.cancellationCover / 1000) * CANCELLATION_RATE * benefitFactor * basis.rateFactor;
+
+    return {
+      age: traveller.age,
+      medical: Math.round(medical),
+      baggage: Math.round(baggage),
+      cancellation: Math.round(cancellation),
+      premium: Math.round(medical + baggage + cancellation)
+    };
+  });
+
+  const basePremium = travellers.reduce((sum, traveller) => sum + traveller.premium, 0);
+  const tax = Math.round(basePremium * basis.taxRate);
+
+  return {
+    travellers,
+    basePremium,
+    tax,
+    totalPremium: basePremium + tax
+  };
+}
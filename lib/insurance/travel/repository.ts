@@ -0,0 +1,154 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Traveller, TravelProduct, TravelRegion, TripType, travelProductSchema } from './schema';
+import { SEED_TRAVEL_PRODUCTS } from './seed';
+
+// Travel plan repository.
+//
+// Mirrors the other catalogs: plans live in the `travel_products` table and
+// fall back to the bundled seed plans if the table cannot be read or is empty.
+
+interface TravelProductRow {
+  id: string;
+  status: string;
+  name: string;
+  insurer: string;
+  logo: string | null;
+  trip_types: string[];
+  regions: string[];
+  min_age: number | null;
+  max_age: number;
+  max_trip_days: number;
+  medical_cover_options: number[];
+  baggage_cover: number;
+  cancellation_cover: number;
+  deductible: number;
+  pre_existing_emergency_cover: number;
+  rate_factor: number | null;
+  features: string[] | null;
+  exclusions: string[] | null;
+  claim_settlement_ratio: string;
+  sort_order: number | null;
+}
+
+export interface TravelEligibilityCriteria {
+  tripType: TripType;
+  region: TravelRegion;
+  // Trip length; ignored for multi-trip cover
+  days: number;
+  travellers: Traveller[];
+}
+
+const REGION_LABELS: Record<TravelRegion, string> = {
+  asia: 'Asia',
+  schengen: 'Schengen countries',
+  worldwide_ex_us_canada: 'worldwide excluding US and Canada',
+  worldwide: 'worldwide including US and Canada'
+};
+
+// Map a database row onto the schema, dropping rows that fail validation
+function parseTravelProductRow(row: TravelProductRow): TravelProduct | null {
+  const result = travelProductSchema.safeParse({
+    id: row.id,
+    status: row.status,
+    name: row.name,
+    insurer: row.insurer,
+    logo: row.logo ?? undefined,
+    tripTypes: row.trip_types,
+    regions: row.regions,
+    minAge: row.min_age ?? undefined,
+    maxAge: row.max_age,
+    maxTripDays: row.max_trip_days,
+    medicalCoverOptions: (row.medical_cover_options || []).map(Number),
+    baggageCover: Number(row.baggage_cover),
+    cancellationCover: Number(row.cancellation_cover),
+    deductible: Number(row.deductible),
+    preExistingEmergencyCover: Number(row.pre_existing_emergency_cover),
+    rateFactor: row.rate_factor !== null ? Number(row.rate_factor) : undefined,
+    features: row.features || [],
+    exclusions: row.exclusions || [],
+    claimSettlementRatio: row.claim_settlement_ratio,
+    sortOrder: row.sort_order ?? 0
+  });
+
+  if (!result.success) {
+    console.error(`[travel] Skipping invalid product row ${row.id}:`, result.error.issues);
+    return null;
+  }
+
+  return result.data;
+}
+
+function seedTravelProducts(includeRetired: boolean): TravelProduct[] {
+  return SEED_TRAVEL_PRODUCTS
+    .filter(product => includeRetired || product.status === 'active')
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// List travel plans, ordered for display
+export async function listTravelProducts(
+  supabase: SupabaseClient,
+  { includeRetired = false }: { includeRetired?: boolean } = {}
+): Promise<TravelProduct[]> {
+  let query = supabase
+    .from('travel_products')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (!includeRetired) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[travel] Falling back to seed plans:', error.message);
+    return seedTravelProducts(includeRetired);
+  }
+
+  if (!data || data.length === 0) {
+    return seedTravelProducts(includeRetired);
+  }
+
+  return (data as TravelProductRow[])
+    .map(parseTravelProductRow)
+    .filter((product): product is TravelProduct => product !== null);
+}
+
+// The smallest offered medical cover that meets the request, or null when the
+// request is above the plan's maximum
+export function closestMedicalCover(product: TravelProduct, requested: number): number | null {
+  const options = [...product.medicalCoverOptions].sort((a, b) => a - b);
+  return options.find(option => option >= requested) ?? null;
+}
+
+// Reasons a plan cannot cover the trip. An empty list means the plan is
+// eligible.
+export function travelEligibilityIssues(product: TravelProduct, criteria: TravelEligibilityCriteria): string[] {
+  const issues: string[] = [];
+
+  if (!product.tripTypes.includes(criteria.tripType)) {
+    issues.push(criteria.tripType === 'multi_trip'
+      ? 'No annual multi-trip option'
+      : criteria.tripType === 'student'
+        ? 'Not a student plan'
+        : 'Only for students');
+  }
+
+  if (!product.regions.includes(criteria.region)) {
+    issues.push(`Does not cover ${REGION_LABELS[criteria.region]}`);
+  }
+
+  if (criteria.tripType !== 'multi_trip' && criteria.days > product.maxTripDays) {
+    issues.push(`Covers trips of up to ${product.maxTripDays} days`);
+  }
+
+  if (criteria.tripType === 'student' && criteria.travellers.length > 1) {
+    issues.push('Student plans cover one traveller');
+  }
+
+  if (criteria.travellers.some(traveller => traveller.age < product.minAge || traveller.age > product.maxAge)) {
+    issues.push(`Travellers must be aged ${product.minAge} to ${product.maxAge}`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Travel insurance schemas.
+//
+// Plans are validated with travelProductSchema whether they come from the
+// `travel_products` table or the bundled seed data. Trip answers from the
+// travel form are validated with travelPreferencesSchema before they are
+// stored on the profile. Covers are in US dollars, as Indian insurers quote
+// overseas travel plans; premiums are in rupees.
+
+// Asia excludes Japan, which insurers price with Europe
+export const travelRegionSchema = z.enum(['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide']);
+
+export const tripTypeSchema = z.enum(['single', 'multi_trip', 'student']);
+
+export const travellerRelationSchema = z.enum(['self', 'spouse', 'child', 'parent', 'companion']);
+
+// Longest single trip allowed under an annual multi-trip policy
+export const MULTI_TRIP_DAY_OPTIONS = [30, 45, 60] as const;
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+export const travellerSchema = z.object({
+  relation: travellerRelationSchema,
+  age: z.number().int().min(0).max(99),
+  conditions: z.array(z.string()).default([])
+});
+
+export const travelPreferencesSchema = z.object({
+  region: travelRegionSchema,
+  tripType: tripTypeSchema.default('single'),
+  // Departure date; the policy start date for multi-trip cover
+  startDate: isoDateSchema,
+  // Return date; not used for multi-trip cover, which runs for a year
+  endDate: isoDateSchema.optional(),
+  maxTripDays: z.number().refine(value => (MULTI_TRIP_DAY_OPTIONS as readonly number[]).includes(value), {
+    message: `Maximum trip length must be one of ${MULTI_TRIP_DAY_OPTIONS.join(', ')} days`
+  }).default(30),
+  travellers: z.array(travellerSchema).min(1).max(6),
+  // Medical cover in USD; suggested for the region when not given
+  medicalCover: z.number().min(25000).max(1000000).optional()
+}).refine(preferences => preferences.tripType === 'multi_trip' || !!preferences.endDate, {
+  message: 'A return date is needed for single-trip and student cover',
+  path: ['endDate']
+}).refine(preferences => !preferences.endDate || preferences.endDate >= preferences.startDate, {
+  message: 'Return date must be on or after the departure date',
+  path: ['endDate']
+}).refine(preferences => preferences.travellers.filter(traveller => traveller.relation === 'self').length <= 1, {
+  message: 'Only one traveller can be "self"',
+  path: ['travellers']
+});
+
+export const travelProductSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(['active', 'retired']),
+  name: z.string().min(1),
+  insurer: z.string().min(1),
+  logo: z.string().optional(),
+  tripTypes: z.array(tripTypeSchema).min(1),
+  regions: z.array(travelRegionSchema).min(1),
+  minAge: z.number().int().min(0).default(0),
+  maxAge: z.number().int().max(99),
+  // Longest single or student trip the plan covers, in days
+  maxTripDays: z.number().int().positive(),
+  medicalCoverOptions: z.array(z.number().positive()).min(1),
+  // Per-traveller covers in USD; 0 means the plan does not include it
+  baggageCover: z.number().min(0),
+  cancellationCover: z.number().min(0),
+  // Amount the traveller pays on each medical claim
+  deductible: z.number().min(0),
+  // Cover for a life-threatening emergency from a pre-existing condition
+  preExistingEmergencyCover: z.number().min(0),
+  // Multiple of the standard rate table for the plan
+  rateFactor: z.number().positive().max(3).default(1),
+  features: z.array(z.string()),
+  exclusions: z.array(z.string()),
+  claimSettlementRatio: z.string(),
+  sortOrder: z.number().int().default(0)
+});
+
+export type TravelRegion = z.infer<typeof travelRegionSchema>;
+export type TripType = z.infer<typeof tripTypeSchema>;
+export type TravellerRelation = z.infer<typeof travellerRelationSchema>;
+export type Traveller = z.infer<typeof travellerSchema>;
+export type TravelPreferences = z.infer<typeof travelPreferencesSchema>;
+export type TravelProduct = z.infer<typeof travelProductSchema>;
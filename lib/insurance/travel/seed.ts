@@ -0,0 +1,158 @@
+import { TravelProduct, travelProductSchema } from './schema';
+
+// Bundled travel plans used to seed the `travel_products` table and as the
+// fallback when the table is unreachable or empty. It is parsed with the
+// travel plan schema when this module loads, so a bad edit fails fast rather
+// than reaching a quote.
+export const SEED_TRAVEL_PRODUCTS: TravelProduct[] = travelProductSchema.array().parse([
+  {
+    id: 'tata-aig-travel-guard-plus',
+    status: 'active',
+    name: 'Travel Guard Plus',
+    insurer: 'Tata AIG',
+    logo: '⭐',
+    tripTypes: ['single', 'multi_trip'],
+    regions: ['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide'],
+    minAge: 0,
+    maxAge: 85,
+    maxTripDays: 180,
+    medicalCoverOptions: [50000, 100000, 250000, 500000],
+    baggageCover: 1000,
+    cancellationCover: 2000,
+    deductible: 100,
+    preExistingEmergencyCover: 5000,
+    rateFactor: 1.05,
+    features: [
+      'Cashless hospitalisation through a global assistance network',
+      'Trip delay cover from 6 hours',
+      'Passport loss and emergency cash advance'
+    ],
+    exclusions: [
+      'Pre-existing conditions except life-threatening emergencies',
+      'Treatment you travelled to receive',
+      'Injuries under the influence of alcohol or drugs'
+    ],
+    claimSettlementRatio: '98.6%',
+    sortOrder: 1
+  },
+  {
+    id: 'hdfc-ergo-explorer',
+    status: 'active',
+    name: 'Explorer',
+    insurer: 'HDFC ERGO',
+    logo: '🏦',
+    tripTypes: ['single', 'multi_trip'],
+    regions: ['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide'],
+    minAge: 0,
+    maxAge: 70,
+    maxTripDays: 180,
+    medicalCoverOptions: [50000, 100000, 200000, 500000],
+    baggageCover: 1000,
+    cancellationCover: 1000,
+    deductible: 0,
+    preExistingEmergencyCover: 0,
+    rateFactor: 1.15,
+    features: [
+      'No deductible on medical claims',
+      'Automatic extension of up to 7 days if your return is delayed',
+      'Schengen visa compliant'
+    ],
+    exclusions: [
+      'All pre-existing conditions',
+      'Adventure sports unless declared',
+      'Travel against medical advice'
+    ],
+    claimSettlementRatio: '98.5%',
+    sortOrder: 2
+  },
+  {
+    id: 'bajaj-allianz-travel-prime',
+    status: 'active',
+    name: 'Travel Prime',
+    insurer: 'Bajaj Allianz',
+    logo: '🛡️',
+    tripTypes: ['single'],
+    regions: ['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide'],
+    minAge: 0,
+    maxAge: 80,
+    maxTripDays: 90,
+    medicalCoverOptions: [50000, 100000, 200000],
+    baggageCover: 500,
+    cancellationCover: 500,
+    deductible: 100,
+    preExistingEmergencyCover: 0,
+    rateFactor: 0.9,
+    features: [
+      'Budget single-trip cover',
+      'Hijack and flight delay allowance',
+      'Personal liability cover abroad'
+    ],
+    exclusions: [
+      'All pre-existing conditions',
+      'Trips longer than 90 days',
+      'Injuries from hazardous or adventure sports'
+    ],
+    claimSettlementRatio: '98.2%',
+    sortOrder: 3
+  },
+  {
+    id: 'care-explore',
+    status: 'active',
+    name: 'Explore',
+    insurer: 'Care Health',
+    logo: '🌿',
+    tripTypes: ['single', 'multi_trip'],
+    regions: ['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide'],
+    minAge: 0,
+    maxAge: 90,
+    maxTripDays: 180,
+    medicalCoverOptions: [50000, 100000, 250000, 500000],
+    baggageCover: 500,
+    cancellationCover: 1000,
+    deductible: 100,
+    preExistingEmergencyCover: 2500,
+    rateFactor: 0.95,
+    features: [
+      'Accepts travellers up to age 90',
+      'Life-threatening emergencies from pre-existing conditions covered',
+      'Home burglary cover while you are away'
+    ],
+    exclusions: [
+      'Routine treatment of pre-existing conditions',
+      'Pregnancy and childbirth',
+      'Injuries under the influence of alcohol or drugs'
+    ],
+    claimSettlementRatio: '92.3%',
+    sortOrder: 4
+  },
+  {
+    id: 'icici-lombard-student-travel',
+    status: 'active',
+    name: 'Student Travel',
+    insurer: 'ICICI Lombard',
+    logo: '🎓',
+    tripTypes: ['student'],
+    regions: ['asia', 'schengen', 'worldwide_ex_us_canada', 'worldwide'],
+    minAge: 16,
+    maxAge: 35,
+    maxTripDays: 730,
+    medicalCoverOptions: [50000, 100000, 250000, 500000],
+    baggageCover: 500,
+    cancellationCover: 0,
+    deductible: 100,
+    preExistingEmergencyCover: 0,
+    rateFactor: 1,
+    features: [
+      'Meets most university insurance waivers',
+      'Study interruption and sponsor protection',
+      'Compassionate visit if you are hospitalised'
+    ],
+    exclusions: [
+      'All pre-existing conditions',
+      'Mental health treatment beyond the plan limit',
+      'Trips home during the policy'
+    ],
+    claimSettlementRatio: '96.8%',
+    sortOrder: 5
+  }
+]);
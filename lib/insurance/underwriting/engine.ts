@@ -0,0 +1,155 @@
+import { OccupationClass } from '../occupation';
+
+// Declarative underwriting rule engine.
+//
+// Rules are plain data (see rules.ts): a condition on the applicant, an
+// optional product scope and an outcome. Every matching rule contributes to the
+// decision for a product; the most severe outcome wins and loadings add up.
+
+export type UnderwritingDecision = 'accept' | 'load' | 'postpone' | 'decline';
+
+export interface UnderwritingApplicant {
+  age: number;
+  annualIncome: number;
+  sumAssured: number;
+  smoker: boolean;
+  // Declared health conditions, free text as stored on the profile
+  conditions: string[];
+  // Resolved occupation risk class, if known
+  occupationClass?: OccupationClass | null;
+}
+
+export type RuleCondition =
+  | { type: 'age_between'; min?: number; max?: number }
+  | { type: 'cover_to_income_above'; multiple: number }
+  | { type: 'health_condition'; keywords: string[] }
+  | { type: 'occupation_class'; classes: OccupationClass[] }
+  | { type: 'smoker' }
+  | { type: 'sum_assured_above'; amount: number }
+  | { type: 'all'; conditions: RuleCondition[] };
+
+export interface RuleOutcome {
+  decision: UnderwritingDecision;
+  // Extra mortality for 'load' outcomes, as a fraction of standard rates
+  extraMortality?: number;
+  reason: string;
+}
+
+export interface UnderwritingRule {
+  id: string;
+  when: RuleCondition;
+  // Restrict the rule to these catalog products; applies to all if omitted
+  productIds?: string[];
+  outcome: RuleOutcome;
+}
+
+// A rule that fired for an applicant
+export interface FiredRule {
+  ruleId: string;
+  decision: UnderwritingDecision;
+  reason: string;
+}
+
+export interface UnderwritingResult {
+  decision: UnderwritingDecision;
+  extraMortality: number;
+  reasons: string[];
+  outcomes: FiredRule[];
+}
+
+const DECISION_SEVERITY: Record<UnderwritingDecision, number> = {
+  accept: 0,
+  load: 1,
+  postpone: 2,
+  decline: 3
+};
+
+function normalise(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+// Health conditions that matched a rule's keywords, or an empty list
+function matchingConditions(applicant: UnderwritingApplicant, keywords: string[]): string[] {
+  return applicant.conditions.filter(condition => {
+    const normalised = normalise(condition);
+    return keywords.some(keyword => normalised.includes(normalise(keyword)));
+  });
+}
+
+export function conditionMatches(condition: RuleCondition, applicant: UnderwritingApplicant): boolean {
+  switch (condition.type) {
+    case 'age_between':
+      return (condition.min === undefined || applicant.age >= condition.min) &&
+        (condition.max === undefined || applicant.age <= condition.max);
+    case 'cover_to_income_above':
+      return applicant.annualIncome > 0 && applicant.sumAssured / applicant.annualIncome > condition.multiple;
+    case 'health_condition':
+      return matchingConditions(applicant, condition.keywords).length > 0;
+    case 'occupation_class':
+      return Boolean(applicant.occupationClass) && condition.classes.includes(applicant.occupationClass!);
+    case 'smoker':
+      return applicant.smoker;
+    case 'sum_assured_above':
+      return applicant.sumAssured > condition.amount;
+    case 'all':
+      return condition.conditions.every(inner => conditionMatches(inner, applicant));
+  }
+}
+
+// Health conditions not covered by any rule. They are loaded with a default
+// rate so an unrecognised declaration never goes unpriced.
+function unmatchedConditions(rules: UnderwritingRule[], applicant: UnderwritingApplicant): string[] {
+  const keywords = rules.flatMap(rule => collectHealthKeywords(rule.when));
+  return applicant.conditions.filter(condition => {
+    const normalised = normalise(condition);
+    return !keywords.some(keyword => normalised.includes(normalise(keyword)));
+  });
+}
+
+function collectHealthKeywords(condition: RuleCondition): string[] {
+  if (condition.type === 'health_condition') return condition.keywords;
+  if (condition.type === 'all') return condition.conditions.flatMap(collectHealthKeywords);
+  return [];
+}
+
+export const DEFAULT_CONDITION_LOADING = 0.25;
+
+// Evaluate every rule for one product
+export function underwrite(
+  rules: UnderwritingRule[],
+  applicant: UnderwritingApplicant,
+  productId: string
+): UnderwritingResult {
+  const applicable = rules.filter(rule => !rule.productIds || rule.productIds.includes(productId));
+
+  const fired: Array<RuleOutcome & { ruleId: string }> = applicable
+    .filter(rule => conditionMatches(rule.when, applicant))
+    .map(rule => ({ ...rule.outcome, ruleId: rule.id }));
+
+  for (const condition of unmatchedConditions(applicable, applicant)) {
+    fired.push({
+      ruleId: 'default_condition_loading',
+      decision: 'load',
+      extraMortality: DEFAULT_CONDITION_LOADING,
+      reason: `${condition}: provisional ${DEFAULT_CONDITION_LOADING * 100}% loading pending medical review`
+    });
+  }
+
+  const decision = fired.reduce<UnderwritingDecision>(
+    (worst, outcome) => DECISION_SEVERITY[outcome.decision] > DECISION_SEVERITY[worst] ? outcome.decision : worst,
+    'accept'
+  );
+
+  // Loadings add up, but are irrelevant once the product is postponed or declined
+  const extraMortality = decision === 'load'
+    ? fired.reduce((total, outcome) => total + (outcome.decision === 'load' ? outcome.extraMortality || 0 : 0), 0)
+    : 0;
+  const outcomes: FiredRule[] = fired.map(({ ruleId, decision, reason }) => ({ ruleId, decision, reason }));
+
+  return {
+    decision,
+    extraMortality: Math.round(extraMortality * 100) / 100,
+    reasons: outcomes.map(outcome => outcome.reason),
+    outcomes
+  };
+}
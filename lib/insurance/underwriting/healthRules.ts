@@ -0,0 +1,106 @@
+import { UnderwritingRule } from './engine';
+
+// Underwriting rules for health insurance, run through the same engine as
+// term life.
+//
+// Declared conditions are pre-existing diseases: most are accepted and only
+// covered after the plan's PED waiting period, so loadings here are lighter
+// than on term. A 'load' outcome is a percentage added to that member's
+// premium rather than extra mortality.
+
+export const HEALTH_UNDERWRITING_RULES: UnderwritingRule[] = [
+  {
+    id: 'health_smoker',
+    when: { type: 'smoker' },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.1,
+      reason: 'Tobacco users pay about 10% more on most health plans'
+    }
+  },
+  {
+    id: 'health_cancer',
+    when: { type: 'health_condition', keywords: ['cancer', 'tumour', 'tumor', 'leukemia', 'leukaemia', 'lymphoma'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Cancer history needs a specialised cancer or senior plan after medical review'
+    }
+  },
+  {
+    id: 'health_kidney_liver',
+    when: { type: 'health_condition', keywords: ['kidney', 'renal', 'dialysis', 'cirrhosis', 'hepatitis'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Chronic kidney or liver disease is outside standard health plan acceptance limits'
+    }
+  },
+  {
+    id: 'health_hiv',
+    when: { type: 'health_condition', keywords: ['hiv'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'HIV needs a dedicated plan and is not accepted on standard health cover'
+    }
+  },
+  {
+    id: 'health_heart',
+    when: { type: 'health_condition', keywords: ['heart', 'cardiac', 'angina', 'bypass', 'stroke'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.3,
+      reason: 'Heart condition loading, subject to cardiac reports'
+    }
+  },
+  {
+    id: 'health_diabetes',
+    when: { type: 'health_condition', keywords: ['diabet', 'sugar'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.15,
+      reason: 'Diabetes loading, subject to HbA1c'
+    }
+  },
+  {
+    id: 'health_hypertension',
+    when: { type: 'health_condition', keywords: ['hypertension', 'blood pressure'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.1,
+      reason: 'High blood pressure loading'
+    }
+  },
+  {
+    id: 'health_cholesterol',
+    when: { type: 'health_condition', keywords: ['cholesterol', 'lipid'] },
+    outcome: {
+      decision: 'accept',
+      reason: 'High cholesterol is accepted at standard rates'
+    }
+  },
+  {
+    id: 'health_thyroid',
+    when: { type: 'health_condition', keywords: ['thyroid'] },
+    outcome: {
+      decision: 'accept',
+      reason: 'Controlled thyroid conditions are accepted at standard rates'
+    }
+  },
+  {
+    id: 'health_asthma',
+    when: { type: 'health_condition', keywords: ['asthma'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.1,
+      reason: 'Asthma loading'
+    }
+  },
+  {
+    id: 'health_obesity',
+    when: { type: 'health_condition', keywords: ['obes', 'overweight'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.1,
+      reason: 'Build (BMI) loading'
+    }
+  }
+];
@@ -0,0 +1,207 @@
+import { UnderwritingRule } from './engine';
+
+// Default underwriting rules for term life.
+//
+// Kept as data so a rule can be tuned or scoped to one product without
+// touching the engine. Loadings are extra mortality as a fraction of standard
+// rates, in line with the usual Indian reinsurer manuals for non-medical cases.
+
+// Maximum cover as a multiple of annual income, by age band
+const INCOME_MULTIPLE_BANDS: Array<{ min?: number; max?: number; multiple: number }> = [
+  { max: 35, multiple: 25 },
+  { min: 36, max: 45, multiple: 20 },
+  { min: 46, max: 50, multiple: 15 },
+  { min: 51, multiple: 10 }
+];
+
+// Largest cover the income multiple rules accept at the given age, with the
+// multiple applied; null when there is no income to measure it against
+export function maxInsurableCover(age: number, annualIncome: number): { amount: number; multiple: number } | null {
+  const band = INCOME_MULTIPLE_BANDS.find(item => age >= (item.min ?? 0) && age <= (item.max ?? Infinity));
+  if (!band || annualIncome <= 0) return null;
+  return { amount: annualIncome * band.multiple, multiple: band.multiple };
+}
+
+// Plans issued online without medicals cannot take impaired lives
+const INSTANT_ISSUE_PRODUCTS = ['bajaj-digishield'];
+
+const incomeMultipleRules: UnderwritingRule[] = INCOME_MULTIPLE_BANDS.map(band => ({
+  id: `income_multiple_${band.min ?? 0}_${band.max ?? 'plus'}`,
+  when: {
+    type: 'all',
+    conditions: [
+      { type: 'age_between', min: band.min, max: band.max },
+      { type: 'cover_to_income_above', multiple: band.multiple }
+    ]
+  },
+  outcome: {
+    decision: 'decline',
+    reason: `Cover is more than ${band.multiple}x your annual income, the most insurers allow at your age`
+  }
+}));
+
+export const DEFAULT_UNDERWRITING_RULES: UnderwritingRule[] = [
+  ...incomeMultipleRules,
+
+  // Age bands
+  {
+    id: 'age_50_plus_high_cover',
+    when: {
+      type: 'all',
+      conditions: [
+        { type: 'age_between', min: 50 },
+        { type: 'sum_assured_above', amount: 20000000 }
+      ]
+    },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.25,
+      reason: 'Cover above ₹2 Cr after age 50 is rated up after full medicals'
+    }
+  },
+  {
+    id: 'age_45_plus_smoker',
+    when: {
+      type: 'all',
+      conditions: [
+        { type: 'age_between', min: 45 },
+        { type: 'smoker' }
+      ]
+    },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.25,
+      reason: 'Smokers over 45 carry an additional loading'
+    }
+  },
+
+  // Occupation classes. The class loading itself is applied in pricing;
+  // these rules only cover outright acceptance limits.
+  {
+    id: 'occupation_hazardous_high_cover',
+    when: {
+      type: 'all',
+      conditions: [
+        { type: 'occupation_class', classes: ['hazardous'] },
+        { type: 'sum_assured_above', amount: 50000000 }
+      ]
+    },
+    outcome: {
+      decision: 'decline',
+      reason: 'Cover above ₹5 Cr is not offered for hazardous occupations'
+    }
+  },
+  {
+    id: 'occupation_uninsurable',
+    when: { type: 'occupation_class', classes: ['uninsurable'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'This occupation is outside our insurers\' acceptance limits'
+    }
+  },
+  {
+    id: 'occupation_hazardous_instant_issue',
+    productIds: INSTANT_ISSUE_PRODUCTS,
+    when: { type: 'occupation_class', classes: ['hazardous', 'armed_forces'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Instant-issue plan is not available for this occupation'
+    }
+  },
+
+  // Health conditions
+  {
+    id: 'condition_cancer',
+    when: { type: 'health_condition', keywords: ['cancer', 'tumour', 'tumor', 'leukemia', 'leukaemia', 'lymphoma'] },
+    outcome: {
+      decision: 'postpone',
+      reason: 'Cancer history is considered only after 5 years in remission with full medical records'
+    }
+  },
+  {
+    id: 'condition_heart',
+    when: { type: 'health_condition', keywords: ['heart', 'cardiac', 'angina', 'bypass', 'stroke'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Heart disease or stroke history is declined on standard term plans'
+    }
+  },
+  {
+    id: 'condition_kidney_liver',
+    when: { type: 'health_condition', keywords: ['kidney', 'renal', 'dialysis', 'cirrhosis', 'hepatitis'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Chronic kidney or liver disease is declined on standard term plans'
+    }
+  },
+  {
+    id: 'condition_hiv',
+    when: { type: 'health_condition', keywords: ['hiv'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'HIV is declined on standard term plans'
+    }
+  },
+  {
+    id: 'condition_diabetes',
+    when: { type: 'health_condition', keywords: ['diabet', 'sugar'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.5,
+      reason: 'Diabetes loading, subject to HbA1c at medicals'
+    }
+  },
+  {
+    id: 'condition_hypertension',
+    when: { type: 'health_condition', keywords: ['hypertension', 'blood pressure'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.25,
+      reason: 'High blood pressure loading'
+    }
+  },
+  {
+    id: 'condition_cholesterol',
+    when: { type: 'health_condition', keywords: ['cholesterol', 'lipid'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.15,
+      reason: 'High cholesterol loading'
+    }
+  },
+  {
+    id: 'condition_thyroid',
+    when: { type: 'health_condition', keywords: ['thyroid'] },
+    outcome: {
+      decision: 'accept',
+      reason: 'Controlled thyroid conditions are accepted at standard rates'
+    }
+  },
+  {
+    id: 'condition_asthma',
+    when: { type: 'health_condition', keywords: ['asthma'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.25,
+      reason: 'Asthma loading'
+    }
+  },
+  {
+    id: 'condition_obesity',
+    when: { type: 'health_condition', keywords: ['obes', 'overweight'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.25,
+      reason: 'Build (BMI) loading'
+    }
+  },
+  {
+    id: 'condition_instant_issue',
+    productIds: INSTANT_ISSUE_PRODUCTS,
+    when: { type: 'health_condition', keywords: ['diabet', 'sugar', 'hypertension', 'blood pressure', 'asthma'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Instant-issue plan does not accept declared medical conditions'
+    }
+  }
+];
@@ -0,0 +1,72 @@
+import { UnderwritingRule } from './engine';
+
+// Underwriting rules for overseas travel insurance, run through the same
+// engine as term life and health.
+//
+// Travel plans exclude routine treatment of pre-existing conditions, so most
+// declarations are accepted with a loading on the medical cover for the risk
+// of an emergency abroad. A 'load' outcome is a percentage added to that
+// traveller's medical premium.
+
+export const TRAVEL_UNDERWRITING_RULES: UnderwritingRule[] = [
+  {
+    id: 'travel_cancer',
+    when: { type: 'health_condition', keywords: ['cancer', 'tumour', 'tumor', 'leukemia', 'leukaemia', 'lymphoma'] },
+    outcome: {
+      decision: 'postpone',
+      reason: 'Cancer history needs a medical review before overseas cover can be offered'
+    }
+  },
+  {
+    id: 'travel_kidney_liver',
+    when: { type: 'health_condition', keywords: ['kidney', 'renal', 'dialysis', 'cirrhosis'] },
+    outcome: {
+      decision: 'decline',
+      reason: 'Chronic kidney or liver disease is outside travel plan acceptance limits'
+    }
+  },
+  {
+    id: 'travel_heart',
+    when: { type: 'health_condition', keywords: ['heart', 'cardiac', 'angina', 'bypass', 'stroke'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.5,
+      reason: 'Heart condition loading on medical cover'
+    }
+  },
+  {
+    id: 'travel_diabetes',
+    when: { type: 'health_condition', keywords: ['diabet', 'sugar'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.2,
+      reason: 'Diabetes loading on medical cover'
+    }
+  },
+  {
+    id: 'travel_hypertension',
+    when: { type: 'health_condition', keywords: ['hypertension', 'blood pressure'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.15,
+      reason: 'High blood pressure loading on medical cover'
+    }
+  },
+  {
+    id: 'travel_asthma',
+    when: { type: 'health_condition', keywords: ['asthma', 'copd'] },
+    outcome: {
+      decision: 'load',
+      extraMortality: 0.15,
+      reason: 'Respiratory condition loading on medical cover'
+    }
+  },
+  {
+    id: 'travel_pregnancy',
+    when: { type: 'health_condition', keywords: ['pregnan'] },
+    outcome: {
+      decision: 'accept',
+      reason: 'Pregnancy is accepted, but childbirth and routine care abroad are not covered'
+    }
+  }
+];
@@ -0,0 +1,21 @@
+import { Notification, Notifier } from './types';
+import { SmtpConfig, sendMail } from './smtp';
+
+// Email notifier over plain SMTP. Notifications without an address are
+// skipped rather than failed, since not every account has a verified email.
+export function createEmailNotifier(config: SmtpConfig, appUrl?: string): Notifier {
+  return {
+    channel: 'email',
+    async send(notification: Notification) {
+      if (!notification.email) return;
+
+      const link = notification.link && appUrl ? `\n\nOpen CoverNow: ${appUrl}${notification.link}` : '';
+
+      await sendMail(config, {
+        to: notification.email,
+        subject: notification.title,
+        text: `${notification.body}${link}\n\n- Aria, CoverNow`
+      });
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Notification, Notifier } from './types';
+
+// In-app notifications.
+//
+// Stored in the `notifications` table and shown in the chat until the user
+// dismisses them. Rows are scoped to the signed-in user by RLS; every query
+// also filters on user_id.
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface InAppNotification {
+  id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+function toInAppNotification(row: NotificationRow): InAppNotification {
+  return {
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    readAt: row.read_at,
+    createdAt: row.created_at
+  };
+}
+
+export function createInAppNotifier(supabase: SupabaseClient): Notifier {
+  return {
+    channel: 'in_app',
+    async send(notification: Notification) {
+      const { error } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: notification.userId,
+          title: notification.title,
+          body: notification.body,
+          link: notification.link ?? null
+        });
+
+      if (error) {
+        throw error;
+      }
+    }
+  };
+}
+
+// Newest first; unread only unless told otherwise
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { includeRead?: boolean; limit?: number } = {}
+): Promise<InAppNotification[]> {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 20);
+
+  if (!options.includeRead) {
+    query = query.is('read_at', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as NotificationRow[]).map(toInAppNotification);
+}
+
+export async function markNotificationsRead(supabase: SupabaseClient, userId: string, ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('id', ids)
+    .is('read_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length;
+}
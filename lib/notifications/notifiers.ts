@@ -0,0 +1,28 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationChannel, Notifier } from './types';
+import { createInAppNotifier } from './inApp';
+import { createEmailNotifier } from './email';
+import { smtpConfigFromEnv } from './smtp';
+
+// The notifiers to deliver through. NOTIFICATION_CHANNELS lists the channels
+// (comma separated, default "in_app,email"); email is only used when
+// SMTP_HOST is set.
+export function createNotifiers(supabase: SupabaseClient, appUrl?: string): Notifier[] {
+  const channels = (process.env.NOTIFICATION_CHANNELS || 'in_app,email')
+    .split(',')
+    .map(channel => channel.trim())
+    .filter(Boolean) as NotificationChannel[];
+
+  const notifiers: Notifier[] = [];
+
+  if (channels.includes('in_app')) {
+    notifiers.push(createInAppNotifier(supabase));
+  }
+
+  const smtp = smtpConfigFromEnv();
+  if (channels.includes('email') && smtp) {
+    notifiers.push(createEmailNotifier(smtp, appUrl));
+  }
+
+  return notifiers;
+}
@@ -0,0 +1,149 @@
+import net from 'net';
+
+// Minimal SMTP client.
+//
+// Speaks just enough plain SMTP (EHLO, MAIL, RCPT, DATA, QUIT) to hand a text
+// message to a relay. It is meant for a local catcher such as Mailpit or
+// MailHog in development, or a relay on a trusted network; it does not do
+// TLS or authentication.
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  from: string;
+  // Name announced in EHLO
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  if (!process.env.SMTP_HOST) return null;
+  return {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 1025),
+    from: process.env.REMINDER_EMAIL_FROM || 'reminders@covernow.local'
+  };
+}
+
+// Header values must stay on one line; non-ASCII subjects are sent as
+// RFC 2047 encoded words
+function headerValue(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+// Body lines starting with a dot are doubled so they are not read as the
+// end of the message
+function dotStuff(text: string): string {
+  return text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const socket = net.createConnection({ host: config.host, port: config.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  let buffer = '';
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  // A reply is complete at the line whose code is followed by a space;
+  // "250-" lines are continuations
+  const takeReply = (): string | null => {
+    const lines = buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3} /.test(lines[i])) {
+        const reply = lines.slice(0, i + 1).join('\r\n');
+        buffer = lines.slice(i + 1).join('\r\n');
+        return reply;
+      }
+    }
+    return null;
+  };
+
+  const fail = (error: Error) => {
+    failure = error;
+    if (waiting) {
+      waiting.reject(error);
+      waiting = null;
+    }
+  };
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    if (waiting) {
+      const reply = takeReply();
+      if (reply) {
+        const { resolve } = waiting;
+        waiting = null;
+        resolve(reply);
+      }
+    }
+  });
+  socket.on('error', fail);
+  socket.on('timeout', () => {
+    fail(new Error('SMTP server timed out'));
+    socket.destroy();
+  });
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+  const readReply = (expected: number[]): Promise<string> =>
+    new Promise<string>((resolve, reject) => {
+      if (failure) return reject(failure);
+      const check = (reply: string) => {
+        const code = Number(reply.slice(0, 3));
+        if (expected.includes(code)) {
+          resolve(reply);
+        } else {
+          reject(new Error(`SMTP error: ${reply}`));
+        }
+      };
+      const ready = takeReply();
+      if (ready) return check(ready);
+      waiting = { resolve: check, reject };
+    });
+
+  const command = (line: string, expected: number[]) => {
+    socket.write(`${line}\r\n`);
+    return readReply(expected);
+  };
+
+  try {
+    await readReply([220]);
+    await command(`EHLO ${config.clientName || 'covernow'}`, [250]);
+    await command(`MAIL FROM:<${config.from}>`, [250]);
+    await command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await command('DATA', [354]);
+
+    const data = [
+      `From: CoverNow <${config.from}>`,
+      `To: <${message.to}>`,
+      `Subject: ${headerValue(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      dotStuff(message.text)
+    ].join('\r\n');
+
+    await command(`${data}\r\n.`, [250]);
+    await command('QUIT', [221]);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,23 @@
+// Notification channels.
+//
+// A notifier delivers a message to one user over one channel. Callers build
+// the list of notifiers once (see createNotifiers) and never need to know
+// which channels are configured, so new channels can be added without
+// touching the code that decides what to send.
+
+export type NotificationChannel = 'email' | 'in_app';
+
+export interface Notification {
+  userId: string;
+  // Recipient address for email; channels that do not need it ignore it
+  email?: string | null;
+  title: string;
+  body: string;
+  // Where the user can act on the notification, e.g. /chat
+  link?: string;
+}
+
+export interface Notifier {
+  channel: NotificationChannel;
+  send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,68 @@
+-- Insurance product catalog
+-- Plans can be added, repriced or retired here without an application deploy.
+-- Rows are validated against lib/insurance/catalog/schema.ts when loaded.
+
+create table if not exists public.insurance_products (
+  id text primary key,
+  line text not null default 'term_life',
+  status text not null default 'active' check (status in ('active', 'retired')),
+  name text not null,
+  insurer text not null,
+  logo text,
+  min_entry_age integer not null,
+  max_entry_age integer not null,
+  max_maturity_age integer not null,
+  min_sum_assured bigint not null,
+  max_sum_assured bigint not null,
+  term_options integer[] not null,
+  riders text[] not null default '{}',
+  features text[] not null default '{}',
+  pricing jsonb not null default '{}'::jsonb,
+  claim_settlement_ratio text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists insurance_products_line_status_idx
+  on public.insurance_products (line, status, sort_order);
+
+alter table public.insurance_products enable row level security;
+
+-- The catalog is reference data: any signed-in user may read it, writes go
+-- through the service role only
+create policy "Authenticated users can read insurance products"
+  on public.insurance_products for select
+  to authenticated
+  using (true);
+
+insert into public.insurance_products
+  (id, line, status, name, insurer, logo, min_entry_age, max_entry_age, max_maturity_age,
+   min_sum_assured, max_sum_assured, term_options, riders, features, pricing, claim_settlement_ratio, sort_order)
+values
+  ('hdfc-securelife-plus', 'term_life', 'active', 'SecureLife Plus', 'HDFC Life', '🏦', 18, 65, 85,
+   2500000, 200000000, '{5,10,15,20,25,30,35,40}',
+   '{critical_illness,accidental_death,waiver_of_premium}',
+   array['No medical checkup till 45 years', 'Tax benefits under Section 80C', 'Critical illness rider available', 'Accidental death benefit'],
+   '{"interestRate": 0.065, "expenseLoading": 0.16, "profitMargin": 0.1}', '98.01%', 1),
+  ('icici-iprotect-smart', 'term_life', 'active', 'iProtect Smart', 'ICICI Prudential', '🏛️', 18, 65, 99,
+   5000000, 250000000, '{5,10,15,20,25,30,35,40}',
+   '{critical_illness,accidental_death,waiver_of_premium,terminal_illness}',
+   array['Life stage protection benefit', 'Terminal illness benefit', 'Premium waiver option', '34 critical illnesses covered'],
+   '{"interestRate": 0.0625, "expenseLoading": 0.15, "profitMargin": 0.11}', '97.82%', 2),
+  ('maxlife-smart-term', 'term_life', 'active', 'Smart Term Plan', 'Max Life', '🛡️', 18, 60, 85,
+   2500000, 150000000, '{10,15,20,25,30,35,40}',
+   '{critical_illness,accidental_death,waiver_of_premium,terminal_illness}',
+   array['Comprehensive life cover', 'Monthly income benefit option', 'Return of premium option', 'Online discount available'],
+   '{"interestRate": 0.065, "expenseLoading": 0.14, "profitMargin": 0.1}', '99.35%', 3),
+  ('lic-saral-jeevan-bima', 'term_life', 'active', 'Saral Jeevan Bima', 'LIC', '🏢', 18, 65, 70,
+   500000, 2500000, '{5,10,15,20,25,30,35,40}',
+   '{accidental_death}',
+   array['Simple and affordable', 'Government backed insurer', 'Loan facility available', 'Maturity benefits'],
+   '{"interestRate": 0.055, "expenseLoading": 0.18, "profitMargin": 0.08, "policyFee": 300}', '98.74%', 4),
+  ('bajaj-digishield', 'term_life', 'active', 'DigiShield Plan', 'Bajaj Allianz', '🚀', 18, 65, 85,
+   5000000, 100000000, '{10,15,20,25,30,35,40}',
+   '{accidental_death,waiver_of_premium,critical_illness}',
+   array['100% online process', 'Instant policy issuance', 'Flexible premium payment', 'Women get discounted rates'],
+   '{"interestRate": 0.0625, "expenseLoading": 0.12, "profitMargin": 0.1}', '98.48%', 5)
+on conflict (id) do nothing;
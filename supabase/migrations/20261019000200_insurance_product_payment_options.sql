@@ -0,0 +1,14 @@
+-- Premium payment options offered per product
+-- limited_pay_terms lists payment terms shorter than the policy term;
+-- regular pay is always available.
+
+alter table public.insurance_products
+  add column if not exists limited_pay_terms integer[] not null default '{}',
+  add column if not exists single_pay boolean not null default false;
+
+update public.insurance_products set limited_pay_terms = '{5,10,15}', single_pay = true
+  where id in ('hdfc-securelife-plus', 'icici-iprotect-smart', 'maxlife-smart-term');
+update public.insurance_products set limited_pay_terms = '{5,10}', single_pay = true
+  where id = 'lic-saral-jeevan-bima';
+update public.insurance_products set limited_pay_terms = '{10}', single_pay = false
+  where id = 'bajaj-digishield';
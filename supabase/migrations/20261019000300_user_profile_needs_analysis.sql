@@ -0,0 +1,5 @@
+-- Answers from the needs-based coverage calculator (calculateCoverageNeeds)
+-- Stored so recommendations can size cover without asking again.
+
+alter table public.user_profile
+  add column if not exists needs_analysis jsonb;
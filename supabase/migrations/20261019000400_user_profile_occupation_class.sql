@@ -0,0 +1,7 @@
+-- Occupation risk class resolved from the free-text occupation
+-- (lib/insurance/occupation.ts). Existing rows are classified lazily the next
+-- time recommendations are shown.
+
+alter table public.user_profile
+  add column if not exists occupation_class text
+    check (occupation_class in ('office', 'field', 'manual', 'hazardous', 'armed_forces', 'uninsurable'));
@@ -0,0 +1,39 @@
+-- Saved quotes
+-- Each quoting run stores the inputs it was priced on and the priced products
+-- so users can reopen and compare past quotes. Quotes are valid until
+-- valid_until; active rows past that date are reported as expired by
+-- lib/insurance/quotes/repository.ts.
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  line text not null default 'term_life',
+  status text not null default 'active' check (status in ('active', 'accepted', 'withdrawn', 'expired')),
+  inputs jsonb not null default '{}'::jsonb,
+  products jsonb not null default '[]'::jsonb,
+  details jsonb not null default '{}'::jsonb,
+  valid_until timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists quotes_user_created_idx
+  on public.quotes (user_id, created_at desc);
+
+alter table public.quotes enable row level security;
+
+create policy "Users can read their own quotes"
+  on public.quotes for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own quotes"
+  on public.quotes for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own quotes"
+  on public.quotes for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Payout options and key exclusions per product, shown when comparing plans
+
+alter table public.insurance_products
+  add column if not exists payout_options text[] not null default '{lump_sum}',
+  add column if not exists exclusions text[] not null default '{}';
+
+update public.insurance_products set payout_options = '{lump_sum,monthly_income,lump_sum_plus_income,increasing_income}',
+  exclusions = array['Suicide within 12 months of the policy start; 80% of premiums paid are refunded', 'Death while taking part in undisclosed hazardous sports or activities']
+  where id = 'hdfc-securelife-plus';
+update public.insurance_products set payout_options = '{lump_sum,monthly_income,lump_sum_plus_income}',
+  exclusions = array['Suicide within 12 months of the policy start; 80% of premiums paid are refunded', 'Critical illness claims within 90 days of cover starting']
+  where id = 'icici-iprotect-smart';
+update public.insurance_products set payout_options = '{lump_sum,monthly_income,lump_sum_plus_income}',
+  exclusions = array['Suicide within 12 months of the policy start; 80% of premiums paid are refunded', 'Death due to undisclosed pre-existing conditions']
+  where id = 'maxlife-smart-term';
+update public.insurance_products set payout_options = '{lump_sum,monthly_income}',
+  exclusions = array['Suicide within 12 months of the policy start; 80% of premiums paid are refunded', 'Only accidental death is covered in the first 45 days']
+  where id = 'lic-saral-jeevan-bima';
+update public.insurance_products set payout_options = '{lump_sum,monthly_income}',
+  exclusions = array['Suicide within 12 months of the policy start; 80% of premiums paid are refunded', 'Death due to undisclosed pre-existing conditions', 'Death from participation in criminal acts']
+  where id = 'bajaj-digishield';
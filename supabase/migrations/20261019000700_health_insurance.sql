@@ -0,0 +1,82 @@
+-- Health insurance plans and the user's answers from the health form.
+-- Plan rows are validated against lib/insurance/health/schema.ts when loaded;
+-- health_insurance holds the members, cover type, sum insured and room-rent
+-- preference so recommendations can be shown without asking again.
+
+create table if not exists public.health_products (
+  id text primary key,
+  status text not null default 'active' check (status in ('active', 'retired')),
+  name text not null,
+  insurer text not null,
+  logo text,
+  cover_types text[] not null,
+  min_adult_age integer not null default 18,
+  max_entry_age integer not null,
+  max_child_age integer not null,
+  max_members integer not null,
+  parents_on_floater boolean not null default false,
+  sum_insured_options bigint[] not null,
+  room_rent text not null check (room_rent in ('no_limit', 'single_private', 'percent_of_sum_insured', 'shared')),
+  room_rent_percent numeric,
+  waiting_periods jsonb not null,
+  copay jsonb,
+  features text[] not null default '{}',
+  exclusions text[] not null default '{}',
+  pricing jsonb not null default '{}'::jsonb,
+  claim_settlement_ratio text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists health_products_status_idx
+  on public.health_products (status, sort_order);
+
+alter table public.health_products enable row level security;
+
+-- Reference data: any signed-in user may read it, writes go through the
+-- service role only
+create policy "Authenticated users can read health products"
+  on public.health_products for select
+  to authenticated
+  using (true);
+
+insert into public.health_products
+  (id, status, name, insurer, logo, cover_types, min_adult_age, max_entry_age, max_child_age, max_members,
+   parents_on_floater, sum_insured_options, room_rent, room_rent_percent, waiting_periods, copay,
+   features, exclusions, pricing, claim_settlement_ratio, sort_order)
+values
+  ('hdfc-ergo-optima-secure', 'active', 'Optima Secure', 'HDFC ERGO', '🏦', '{individual,family_floater}', 18, 65, 25, 6,
+   true, '{500000,1000000,1500000,2000000,2500000,5000000,10000000,20000000}', 'no_limit', null,
+   '{"initialDays": 30, "preExistingMonths": 36, "specificIllnessMonths": 24}', null,
+   array['2x cover from day one with the Secure benefit', 'Unlimited restoration of sum insured', 'No room rent capping', 'Cashless at 13,000+ hospitals'],
+   array['Cosmetic and obesity treatment unless medically necessary', 'Injuries from hazardous or adventure sports', 'Maternity expenses'],
+   '{"rateFactor": 1.15}', '98.59%', 1),
+  ('niva-bupa-reassure-2', 'active', 'ReAssure 2.0', 'Niva Bupa', '💙', '{individual,family_floater}', 18, 65, 25, 6,
+   true, '{500000,1000000,1500000,2000000,2500000,5000000,10000000}', 'no_limit', null,
+   '{"initialDays": 30, "preExistingMonths": 36, "specificIllnessMonths": 24}', null,
+   array['Entry-age premium locked until your first claim', 'Unlimited reinstatement of sum insured', 'Unused cover carried forward up to 10x', 'Any room category'],
+   array['Cosmetic and obesity treatment unless medically necessary', 'Treatment outside India', 'Maternity expenses'],
+   '{"rateFactor": 1.1}', '91.64%', 2),
+  ('care-supreme', 'active', 'Care Supreme', 'Care Health', '🩺', '{individual,family_floater}', 18, 65, 24, 6,
+   true, '{500000,700000,1000000,1500000,2500000,5000000,10000000}', 'single_private', null,
+   '{"initialDays": 30, "preExistingMonths": 36, "specificIllnessMonths": 24}', null,
+   array['Cumulative bonus of 50% a year up to 100%', 'Unlimited automatic recharge of sum insured', 'Annual health check-up for all members', 'Single private AC room'],
+   array['Cosmetic and obesity treatment unless medically necessary', 'Self-inflicted injuries', 'Maternity expenses'],
+   '{"rateFactor": 1}', '93.87%', 3),
+  ('star-family-health-optima', 'active', 'Family Health Optima', 'Star Health', '⭐', '{family_floater}', 18, 65, 25, 6,
+   false, '{300000,400000,500000,1000000,1500000,2000000,2500000}', 'percent_of_sum_insured', 1,
+   '{"initialDays": 30, "preExistingMonths": 36, "specificIllnessMonths": 24}', null,
+   array['Automatic restoration of sum insured three times a year', 'Newborn covered from day 16', 'Largest network of hospitals in India', 'Budget-friendly family floater'],
+   array['Room rent above 1% of sum insured per day, with proportionate deductions', 'Injuries from hazardous or adventure sports', 'Dental treatment unless from an accident'],
+   '{"rateFactor": 0.9}', '82.31%', 4),
+  ('sbi-arogya-sanjeevani', 'active', 'Arogya Sanjeevani', 'SBI General', '🏢', '{individual,family_floater}', 18, 65, 25, 6,
+   true, '{300000,500000,1000000}', 'percent_of_sum_insured', 2,
+   '{"initialDays": 30, "preExistingMonths": 36, "specificIllnessMonths": 24}', '{"fromAge": 0, "percent": 5}',
+   array['IRDAI standard plan with the same cover at every insurer', 'Lowest premiums for basic hospitalisation', 'AYUSH treatment covered', 'Cumulative bonus of 5% a year'],
+   array['5% co-payment on every claim', 'Room rent above 2% of sum insured per day (max ₹5,000)', 'Cataract claims limited to 25% of sum insured'],
+   '{"rateFactor": 0.75}', '92.54%', 5)
+on conflict (id) do nothing;
+
+alter table public.user_profile
+  add column if not exists health_insurance jsonb;
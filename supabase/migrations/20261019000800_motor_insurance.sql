@@ -0,0 +1,65 @@
+-- Motor insurance plans and the user's answers from the motor form.
+-- Plan rows are validated against lib/insurance/motor/schema.ts when loaded;
+-- motor_insurance holds the vehicle, policy type, previous NCB and chosen
+-- add-ons so recommendations can be shown without asking again.
+
+create table if not exists public.motor_products (
+  id text primary key,
+  status text not null default 'active' check (status in ('active', 'retired')),
+  name text not null,
+  insurer text not null,
+  logo text,
+  vehicle_types text[] not null,
+  od_discount numeric not null default 0,
+  idv_variance numeric not null default 0.1,
+  add_ons text[] not null default '{}',
+  add_on_rate_factor numeric not null default 1,
+  zero_dep_max_age integer not null default 5,
+  cashless_garages integer not null default 0,
+  features text[] not null default '{}',
+  claim_settlement_ratio text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists motor_products_status_idx
+  on public.motor_products (status, sort_order);
+
+alter table public.motor_products enable row level security;
+
+-- Reference data: any signed-in user may read it, writes go through the
+-- service role only
+create policy "Authenticated users can read motor products"
+  on public.motor_products for select
+  to authenticated
+  using (true);
+
+insert into public.motor_products
+  (id, status, name, insurer, logo, vehicle_types, od_discount, idv_variance, add_ons, add_on_rate_factor,
+   zero_dep_max_age, cashless_garages, features, claim_settlement_ratio, sort_order)
+values
+  ('icici-lombard-motor', 'active', 'Complete Motor Cover', 'ICICI Lombard', '🚗', '{private_car,two_wheeler}', 0.45, 0.1,
+   '{zero_depreciation,engine_protect,roadside_assistance}', 1.1, 5, 5900,
+   array['Instant policy issuance with no inspection on renewals', 'Video-based self survey for minor claims', 'Cashless at 5,900+ garages'],
+   '96.8%', 1),
+  ('hdfc-ergo-motor', 'active', 'Private Car Comprehensive', 'HDFC ERGO', '🏦', '{private_car,two_wheeler}', 0.4, 0.1,
+   '{zero_depreciation,engine_protect,roadside_assistance}', 1, 5, 8000,
+   array['Overnight repair service in major cities', 'Unlimited claims under zero depreciation', 'Cashless at 8,000+ garages'],
+   '98.5%', 2),
+  ('digit-motor', 'active', 'Digit Car & Bike Insurance', 'Go Digit', '📱', '{private_car,two_wheeler}', 0.55, 0.15,
+   '{zero_depreciation,engine_protect,roadside_assistance}', 0.9, 7, 6000,
+   array['Smartphone-enabled self inspection', 'Choose your own IDV within a wider band', 'Zero depreciation for cars up to 7 years old'],
+   '96%', 3),
+  ('bajaj-allianz-motor', 'active', 'Drive Smart', 'Bajaj Allianz', '🛡️', '{private_car,two_wheeler}', 0.35, 0.1,
+   '{zero_depreciation,roadside_assistance}', 1, 5, 7200,
+   array['Motor On-The-Spot claim settlement through the app', '24x7 spot assistance', 'Cashless at 7,200+ garages'],
+   '98.2%', 4),
+  ('tata-aig-auto-secure', 'active', 'Auto Secure', 'Tata AIG', '⭐', '{private_car}', 0.3, 0.1,
+   '{zero_depreciation,engine_protect,roadside_assistance}', 1.2, 7, 7500,
+   array['Pay-as-you-drive option for low-mileage cars', 'Consumables and key replacement cover', 'Cashless at 7,500+ garages'],
+   '98.6%', 5)
+on conflict (id) do nothing;
+
+alter table public.user_profile
+  add column if not exists motor_insurance jsonb;
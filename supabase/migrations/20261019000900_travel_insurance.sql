@@ -0,0 +1,81 @@
+-- Travel insurance plans and the user's answers from the travel form.
+-- Plan rows are validated against lib/insurance/travel/schema.ts when loaded;
+-- travel_insurance holds the destination, trip dates, trip type and
+-- travellers so recommendations can be shown without asking again.
+
+create table if not exists public.travel_products (
+  id text primary key,
+  status text not null default 'active' check (status in ('active', 'retired')),
+  name text not null,
+  insurer text not null,
+  logo text,
+  trip_types text[] not null,
+  regions text[] not null,
+  min_age integer not null default 0,
+  max_age integer not null,
+  max_trip_days integer not null,
+  medical_cover_options bigint[] not null,
+  baggage_cover numeric not null default 0,
+  cancellation_cover numeric not null default 0,
+  deductible numeric not null default 0,
+  pre_existing_emergency_cover numeric not null default 0,
+  rate_factor numeric not null default 1,
+  features text[] not null default '{}',
+  exclusions text[] not null default '{}',
+  claim_settlement_ratio text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists travel_products_status_idx
+  on public.travel_products (status, sort_order);
+
+alter table public.travel_products enable row level security;
+
+-- Reference data: any signed-in user may read it, writes go through the
+-- service role only
+create policy "Authenticated users can read travel products"
+  on public.travel_products for select
+  to authenticated
+  using (true);
+
+insert into public.travel_products
+  (id, status, name, insurer, logo, trip_types, regions, min_age, max_age, max_trip_days, medical_cover_options,
+   baggage_cover, cancellation_cover, deductible, pre_existing_emergency_cover, rate_factor, features, exclusions,
+   claim_settlement_ratio, sort_order)
+values
+  ('tata-aig-travel-guard-plus', 'active', 'Travel Guard Plus', 'Tata AIG', '⭐', '{single,multi_trip}',
+   '{asia,schengen,worldwide_ex_us_canada,worldwide}', 0, 85, 180, '{50000,100000,250000,500000}',
+   1000, 2000, 100, 5000, 1.05,
+   array['Cashless hospitalisation through a global assistance network', 'Trip delay cover from 6 hours', 'Passport loss and emergency cash advance'],
+   array['Pre-existing conditions except life-threatening emergencies', 'Treatment you travelled to receive', 'Injuries under the influence of alcohol or drugs'],
+   '98.6%', 1),
+  ('hdfc-ergo-explorer', 'active', 'Explorer', 'HDFC ERGO', '🏦', '{single,multi_trip}',
+   '{asia,schengen,worldwide_ex_us_canada,worldwide}', 0, 70, 180, '{50000,100000,200000,500000}',
+   1000, 1000, 0, 0, 1.15,
+   array['No deductible on medical claims', 'Automatic extension of up to 7 days if your return is delayed', 'Schengen visa compliant'],
+   array['All pre-existing conditions', 'Adventure sports unless declared', 'Travel against medical advice'],
+   '98.5%', 2),
+  ('bajaj-allianz-travel-prime', 'active', 'Travel Prime', 'Bajaj Allianz', '🛡️', '{single}',
+   '{asia,schengen,worldwide_ex_us_canada,worldwide}', 0, 80, 90, '{50000,100000,200000}',
+   500, 500, 100, 0, 0.9,
+   array['Budget single-trip cover', 'Hijack and flight delay allowance', 'Personal liability cover abroad'],
+   array['All pre-existing conditions', 'Trips longer than 90 days', 'Injuries from hazardous or adventure sports'],
+   '98.2%', 3),
+  ('care-explore', 'active', 'Explore', 'Care Health', '🌿', '{single,multi_trip}',
+   '{asia,schengen,worldwide_ex_us_canada,worldwide}', 0, 90, 180, '{50000,100000,250000,500000}',
+   500, 1000, 100, 2500, 0.95,
+   array['Accepts travellers up to age 90', 'Life-threatening emergencies from pre-existing conditions covered', 'Home burglary cover while you are away'],
+   array['Routine treatment of pre-existing conditions', 'Pregnancy and childbirth', 'Injuries under the influence of alcohol or drugs'],
+   '92.3%', 4),
+  ('icici-lombard-student-travel', 'active', 'Student Travel', 'ICICI Lombard', '🎓', '{student}',
+   '{asia,schengen,worldwide_ex_us_canada,worldwide}', 16, 35, 730, '{50000,100000,250000,500000}',
+   500, 0, 100, 0, 1,
+   array['Meets most university insurance waivers', 'Study interruption and sponsor protection', 'Compassionate visit if you are hospitalised'],
+   array['All pre-existing conditions', 'Mental health treatment beyond the plan limit', 'Trips home during the policy'],
+   '96.8%', 5)
+on conflict (id) do nothing;
+
+alter table public.user_profile
+  add column if not exists travel_insurance jsonb;
@@ -0,0 +1,70 @@
+-- Home insurance plans and the user's answers from the home form.
+-- Plan rows are validated against lib/insurance/home/schema.ts when loaded;
+-- home_insurance holds the property type, city, built-up area, construction
+-- and contents so recommendations can be shown without asking again.
+
+create table if not exists public.home_products (
+  id text primary key,
+  status text not null default 'active' check (status in ('active', 'retired')),
+  name text not null,
+  insurer text not null,
+  logo text,
+  ownership_types text[] not null,
+  max_building_age integer not null,
+  max_structure_value bigint not null,
+  rate_factor numeric not null default 1,
+  burglary_available boolean not null default true,
+  burglary_rate_factor numeric not null default 1,
+  features text[] not null default '{}',
+  exclusions text[] not null default '{}',
+  claim_settlement_ratio text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists home_products_status_idx
+  on public.home_products (status, sort_order);
+
+alter table public.home_products enable row level security;
+
+-- Reference data: any signed-in user may read it, writes go through the
+-- service role only
+create policy "Authenticated users can read home products"
+  on public.home_products for select
+  to authenticated
+  using (true);
+
+insert into public.home_products
+  (id, status, name, insurer, logo, ownership_types, max_building_age, max_structure_value, rate_factor,
+   burglary_available, burglary_rate_factor, features, exclusions, claim_settlement_ratio, sort_order)
+values
+  ('hdfc-ergo-home-shield', 'active', 'Home Shield (Bharat Griha Raksha)', 'HDFC ERGO', '🏦', '{owner,tenant}', 60, 50000000, 1.05,
+   true, 1,
+   array['Rent for alternative accommodation for up to 3 years after a total loss', 'Architect and debris removal costs on top of the sum insured', 'Contents cover for tenants'],
+   array['Wear and tear and gradual deterioration', 'Jewellery and valuables unless declared', 'Loss while the home is unoccupied for over 60 days'],
+   '98.5%', 1),
+  ('icici-lombard-griha-raksha', 'active', 'Bharat Griha Raksha Plus', 'ICICI Lombard', '🏠', '{owner,tenant}', 50, 100000000, 1,
+   true, 0.9,
+   array['Escalation clause raises building cover 10% a year', 'Burglary cover includes theft within 7 days of a fire or flood', 'Online claims with video survey'],
+   array['Wear and tear and gradual deterioration', 'Jewellery and valuables unless declared', 'Theft without forcible entry'],
+   '96.8%', 2),
+  ('tata-aig-home-secure', 'active', 'Home Secure', 'Tata AIG', '⭐', '{owner}', 40, 50000000, 0.9,
+   true, 1.2,
+   array['Lowest building rates for newer homes', 'Loss of rent cover for let-out property', 'Public liability up to ₹5 lakh'],
+   array['Buildings older than 40 years', 'Wear and tear and gradual deterioration', 'Jewellery and valuables unless declared'],
+   '98.6%', 3),
+  ('sbi-general-griha-raksha', 'active', 'Bharat Griha Raksha', 'SBI General', '🏛️', '{owner}', 30, 20000000, 0.85,
+   false, 1,
+   array['Standard Bharat Griha Raksha cover at the lowest price', 'Easy add-on to SBI home loans', 'Automatic contents cover up to ₹10 lakh'],
+   array['Burglary and theft', 'Buildings older than 30 years', 'Wear and tear and gradual deterioration'],
+   '94.1%', 4),
+  ('bajaj-allianz-my-home', 'active', 'My Home Insurance', 'Bajaj Allianz', '🛡️', '{owner,tenant}', 50, 50000000, 0.95,
+   true, 1.1,
+   array['Covers portable electronics away from home', 'Emergency hotel stay after an insured loss', 'Contents cover for tenants'],
+   array['Wear and tear and gradual deterioration', 'Jewellery and valuables unless declared', 'Loss while the home is unoccupied for over 30 days'],
+   '98.2%', 5)
+on conflict (id) do nothing;
+
+alter table public.user_profile
+  add column if not exists home_insurance jsonb;
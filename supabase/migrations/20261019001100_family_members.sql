@@ -0,0 +1,44 @@
+-- Family members
+-- The user's household: spouse, children, parents and other relatives with
+-- their date of birth, income and health conditions. Read by the chat route
+-- for the <household> block and written by the manageFamilyMembers tool and
+-- the life insurance form.
+
+create table if not exists public.family_members (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text,
+  relation text not null check (relation in ('spouse', 'child', 'parent', 'parent_in_law', 'sibling')),
+  dob date not null,
+  annual_income numeric check (annual_income is null or annual_income >= 0),
+  issues text[] not null default '{}',
+  is_dependent boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists family_members_user_idx
+  on public.family_members (user_id);
+
+alter table public.family_members enable row level security;
+
+create policy "Users can read their own family members"
+  on public.family_members for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own family members"
+  on public.family_members for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own family members"
+  on public.family_members for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can remove their own family members"
+  on public.family_members for delete
+  to authenticated
+  using (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Existing policies
+-- Policies the user already holds with any insurer: LIC endowments, employer
+-- group cover, health, motor and so on. Written by the manageExistingPolicies
+-- tool and read by coverage gap analysis and the life cover sizing.
+
+create table if not exists public.policies (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  insurer text not null,
+  plan_name text,
+  policy_number text,
+  policy_type text not null check (policy_type in (
+    'term_life', 'endowment', 'money_back', 'whole_life', 'ulip', 'group_life',
+    'health', 'group_health', 'personal_accident', 'motor', 'travel', 'home', 'other'
+  )),
+  sum_assured numeric not null check (sum_assured >= 0),
+  premium numeric not null default 0 check (premium >= 0),
+  premium_frequency text not null default 'annual'
+    check (premium_frequency in ('annual', 'half_yearly', 'quarterly', 'monthly', 'single')),
+  start_date date,
+  term_years integer check (term_years is null or term_years between 1 and 100),
+  renewal_date date,
+  status text not null default 'active' check (status in ('active', 'lapsed', 'matured', 'surrendered')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists policies_user_idx
+  on public.policies (user_id, status);
+
+alter table public.policies enable row level security;
+
+create policy "Users can read their own policies"
+  on public.policies for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own policies"
+  on public.policies for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own policies"
+  on public.policies for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can remove their own policies"
+  on public.policies for delete
+  to authenticated
+  using (auth.uid() = user_id);
@@ -0,0 +1,102 @@
+-- Policy reminders
+-- Premium due, renewal and maturity reminders are computed from `policies`
+-- on demand; only what must persist is stored here:
+--   calendar_feeds       one secret token per user for the .ics feed
+--   reminder_deliveries  which reminder went out on which channel, so each
+--                        is sent once
+--   notifications        in-app notifications shown in the chat
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Users can read their own calendar feed"
+  on public.calendar_feeds for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own calendar feed"
+  on public.calendar_feeds for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can reset their own calendar feed"
+  on public.calendar_feeds for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Calendar apps fetch the feed without a session; the token stands in for
+-- one and only ever unlocks its owner's active policies
+create or replace function public.calendar_feed_policies(feed_token uuid)
+returns setof public.policies
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.*
+  from public.policies p
+  join public.calendar_feeds f on f.user_id = p.user_id
+  where f.token = feed_token
+    and p.status = 'active';
+$$;
+
+revoke all on function public.calendar_feed_policies(uuid) from public;
+grant execute on function public.calendar_feed_policies(uuid) to anon, authenticated;
+
+create table if not exists public.reminder_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reminder_key text not null,
+  channel text not null check (channel in ('email', 'in_app')),
+  sent_at timestamptz not null default now(),
+  unique (user_id, channel, reminder_key)
+);
+
+alter table public.reminder_deliveries enable row level security;
+
+create policy "Users can read their own reminder deliveries"
+  on public.reminder_deliveries for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own reminder deliveries"
+  on public.reminder_deliveries for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  body text not null,
+  link text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_unread_idx
+  on public.notifications (user_id, created_at desc)
+  where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own notifications"
+  on public.notifications for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
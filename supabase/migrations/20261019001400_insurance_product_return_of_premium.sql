@@ -0,0 +1,7 @@
+-- Products that offer a return of premium variant, which refunds the premiums
+-- paid if the life assured survives the term
+
+alter table public.insurance_products
+  add column if not exists return_of_premium boolean not null default false;
+
+update public.insurance_products set return_of_premium = true where id = 'maxlife-smart-term';
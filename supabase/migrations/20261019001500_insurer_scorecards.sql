@@ -0,0 +1,52 @@
+-- Insurer scorecards: claim settlement, solvency and complaints figures per
+-- life insurer, one row per financial year with the sources they come from.
+-- Rows are validated against lib/insurance/scorecards/schema.ts when loaded.
+
+create table if not exists public.insurer_scorecards (
+  insurer text not null,
+  legal_name text not null,
+  financial_year text not null check (financial_year ~ '^\d{4}-\d{2}$'),
+  claim_settlement_ratio numeric(5, 2) check (claim_settlement_ratio between 0 and 100),
+  amount_settled_ratio numeric(5, 2) check (amount_settled_ratio between 0 and 100),
+  solvency_ratio numeric(6, 2) check (solvency_ratio > 0),
+  complaints_per_10k numeric(8, 2) check (complaints_per_10k >= 0),
+  sources jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (insurer, financial_year)
+);
+
+alter table public.insurer_scorecards enable row level security;
+
+-- Reference data: any signed-in user may read it, writes go through the
+-- service role only
+create policy "Authenticated users can read insurer scorecards"
+  on public.insurer_scorecards for select
+  to authenticated
+  using (true);
+
+insert into public.insurer_scorecards
+  (insurer, legal_name, financial_year, claim_settlement_ratio, amount_settled_ratio, solvency_ratio,
+   complaints_per_10k, sources)
+values
+  ('HDFC Life', 'HDFC Life Insurance Company Limited', '2023-24', 98.01, 94.12, 1.87, 3.1,
+   '[{"title":"IRDAI Annual Report 2023-24: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2023-24: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2024","publisher":"HDFC Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('HDFC Life', 'HDFC Life Insurance Company Limited', '2024-25', 98.42, 95.04, 1.94, 2.8,
+   '[{"title":"IRDAI Annual Report 2024-25: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2024-25: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2025","publisher":"HDFC Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('ICICI Prudential', 'ICICI Prudential Life Insurance Company Limited', '2023-24', 97.82, 95.87, 1.92, 2.6,
+   '[{"title":"IRDAI Annual Report 2023-24: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2023-24: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2024","publisher":"ICICI Prudential Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('ICICI Prudential', 'ICICI Prudential Life Insurance Company Limited', '2024-25', 98.07, 96.3, 2.12, 2.4,
+   '[{"title":"IRDAI Annual Report 2024-25: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2024-25: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2025","publisher":"ICICI Prudential Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('Max Life', 'Max Life Insurance Company Limited', '2023-24', 99.35, 97.95, 1.72, 2.2,
+   '[{"title":"IRDAI Annual Report 2023-24: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2023-24: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2024","publisher":"Max Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('Max Life', 'Axis Max Life Insurance Limited', '2024-25', 99.51, 98.1, 2.01, 2,
+   '[{"title":"IRDAI Annual Report 2024-25: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2024-25: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2025","publisher":"Axis Max Life Insurance Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('LIC', 'Life Insurance Corporation of India', '2023-24', 98.74, 97.61, 1.98, 0.31,
+   '[{"title":"IRDAI Annual Report 2023-24: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2023-24: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2024","publisher":"Life Insurance Corporation of India","metrics":["solvencyRatio"]}]'::jsonb),
+  ('LIC', 'Life Insurance Corporation of India', '2024-25', 98.52, 97.2, 2.11, 0.3,
+   '[{"title":"IRDAI Annual Report 2024-25: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2024-25: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2025","publisher":"Life Insurance Corporation of India","metrics":["solvencyRatio"]}]'::jsonb),
+  ('Bajaj Allianz', 'Bajaj Allianz Life Insurance Company Limited', '2023-24', 98.48, 94.6, 4.57, 4,
+   '[{"title":"IRDAI Annual Report 2023-24: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2023-24: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2024","publisher":"Bajaj Allianz Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb),
+  ('Bajaj Allianz', 'Bajaj Allianz Life Insurance Company Limited', '2024-25', 99.02, 95.4, 3.51, 3.6,
+   '[{"title":"IRDAI Annual Report 2024-25: individual death claims of life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["claimSettlementRatio","amountSettledRatio"]},{"title":"IRDAI Annual Report 2024-25: grievances against life insurers","publisher":"Insurance Regulatory and Development Authority of India","metrics":["complaintsPer10k"]},{"title":"Public disclosures, form L-32 solvency margin, as at 31 March 2025","publisher":"Bajaj Allianz Life Insurance Company Limited","metrics":["solvencyRatio"]}]'::jsonb)
+on conflict (insurer, financial_year) do nothing;